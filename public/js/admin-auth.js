@@ -0,0 +1,16 @@
+/**
+ * Session token for the admin dashboards
+ * Open a dashboard once with ?token=<moderator or owner token>; the token is kept for later visits
+ */
+function getAdminToken() {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('token');
+    if (token) {
+        localStorage.setItem('adminToken', token);
+        params.delete('token');
+        const query = params.toString();
+        window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+        return token;
+    }
+    return localStorage.getItem('adminToken');
+}
@@ -18,7 +18,7 @@ class AdminDashboard {
     setupWebSocket() {
         try {
             if (typeof io !== 'undefined') {
-                this.socket = io();
+                this.socket = io({ auth: { token: getAdminToken() } });
                 
                 this.socket.on('connect', () => {
                     console.log('🔗 Admin connected to server');
@@ -52,6 +52,14 @@ class AdminDashboard {
                     });
                 });
 
+                this.socket.on('metrics-update', (metrics) => {
+                    this.updateStreamTelemetry(metrics);
+                });
+
+                this.socket.on('telemetry-error', (data) => {
+                    console.warn('Telemetry unavailable:', data.error);
+                });
+
                 // USER STREAM EVENTS
                 this.socket.on('user-stream-started', (data) => {
                     console.log('📺 User started streaming:', data);
@@ -59,6 +67,18 @@ class AdminDashboard {
                     this.showNotification(`${data.username} started streaming`, 'success');
                 });
 
+                this.socket.on('watch-error', (data) => {
+                    this.showNotification(`Cannot watch: ${data.error}`, 'error');
+                });
+
+                this.socket.on('kick-error', (data) => {
+                    this.showNotification(`Cannot kick: ${data.error}`, 'error');
+                });
+
+                this.socket.on('watch-ended', (data) => {
+                    this.showNotification(data.reason === 'revoked' ? 'The streamer revoked moderator viewing' : 'The stream ended', 'info');
+                });
+
                 this.socket.on('user-stream-stopped', (data) => {
                     console.log('⏹️ User stopped streaming:', data);
                     this.updateStreamStatus(data.userId, 'offline');
@@ -100,13 +120,26 @@ class AdminDashboard {
             streamId: streamData.streamId,
             quality: streamData.quality,
             aiEnabled: streamData.aiEnabled,
-            startTime: new Date(streamData.timestamp)
+            startTime: new Date(streamData.timestamp),
+            telemetry: null
         });
+
+        if (streamData.streamId && streamData.status === 'live') {
+            this.socket.emit('telemetry-subscribe', { streamIds: [streamData.streamId] });
+        }
         
         this.renderStreams();
         this.updateStats();
     }
 
+    updateStreamTelemetry(metrics) {
+        const stream = Array.from(this.streams.values()).find(s => s.streamId === metrics.streamId);
+        if (stream) {
+            stream.telemetry = metrics;
+            this.renderStreams();
+        }
+    }
+
     updateStreamStatus(userId, status) {
         const stream = this.streams.get(userId);
         if (stream) {
@@ -193,6 +226,9 @@ class AdminDashboard {
                 <div style="font-size: 0.9rem;">
                     <i class="fas fa-robot"></i> AI: ${stream.aiEnabled ? 'Enabled' : 'Disabled'}
                 </div>
+                ${stream.telemetry ? `<div style="font-size: 0.9rem; margin-top: 5px;">
+                    <i class="fas fa-chart-line"></i> ${stream.telemetry.viewers} viewers, ${Math.round(stream.telemetry.latency)}ms
+                </div>` : ''}
             </div>
             
             <div class="stream-actions">
@@ -23,7 +23,7 @@ class AdvancedAdminDashboard {
     setupWebSocket() {
         try {
             if (typeof io !== 'undefined') {
-                this.socket = io();
+                this.socket = io({ auth: { token: getAdminToken() } });
                 
                 this.socket.on('connect', () => {
                     console.log('🔗 Advanced Admin connected to server');
@@ -54,6 +54,26 @@ class AdvancedAdminDashboard {
                     this.handleAdvancedStreamStart(data);
                 });
 
+                this.socket.on('metrics-update', (metrics) => {
+                    this.updateStreamTelemetry(metrics);
+                });
+
+                this.socket.on('telemetry-error', (data) => {
+                    console.warn('Telemetry unavailable:', data.error);
+                });
+
+                this.socket.on('watch-error', (data) => {
+                    this.showNotification(`Cannot watch: ${data.error}`, 'error');
+                });
+
+                this.socket.on('kick-error', (data) => {
+                    this.showNotification(`Cannot kick: ${data.error}`, 'error');
+                });
+
+                this.socket.on('watch-ended', (data) => {
+                    this.showNotification(data.reason === 'revoked' ? 'The streamer revoked moderator viewing' : 'The stream ended', 'info');
+                });
+
                 this.socket.on('advanced-stream-stopped', (data) => {
                     console.log('⏹️ Advanced stream stopped:', data);
                     this.handleAdvancedStreamStop(data);
@@ -159,8 +179,10 @@ class AdvancedAdminDashboard {
             aiEnabled: false,
             startTime: new Date(data.timestamp),
             persistent: data.persistent,
-            backgroundMode: false
+            backgroundMode: false,
+            telemetry: null
         });
+        this.socket.emit('telemetry-subscribe', { streamIds: [data.streamId] });
         
         this.scheduleUpdate('streams');
         this.scheduleUpdate('stats');
@@ -185,6 +207,14 @@ class AdvancedAdminDashboard {
         this.saveUserHistory();
     }
 
+    updateStreamTelemetry(metrics) {
+        const stream = Array.from(this.streams.values()).find(s => s.streamId === metrics.streamId);
+        if (stream) {
+            stream.telemetry = metrics;
+            this.scheduleUpdate('streams');
+        }
+    }
+
     updateStreamBackgroundStatus(data) {
         const stream = this.streams.get(data.userId);
         if (stream) {
@@ -365,6 +395,9 @@ class AdvancedAdminDashboard {
                 <div style="font-size: 0.9rem;">
                     <i class="fas fa-desktop"></i> ${user?.screenResolution || 'Unknown'}
                 </div>
+                ${stream.telemetry ? `<div style="font-size: 0.9rem; margin-top: 5px;">
+                    <i class="fas fa-chart-line"></i> ${stream.telemetry.viewers} viewers, ${Math.round(stream.telemetry.latency)}ms
+                </div>` : ''}
             </div>
             
             <div class="stream-actions">
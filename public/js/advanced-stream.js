@@ -40,6 +40,7 @@ class AdvancedStreamingSystem {
         try {
             if (typeof io !== 'undefined') {
                 this.socket = io();
+                this.watchIndicator = attachWatchIndicator(this.socket);
                 
                 this.socket.on('connect', () => {
                     console.log('🔗 Connected to server');
@@ -137,15 +138,22 @@ class AdvancedStreamingSystem {
             
             // Start advanced streaming
             if (this.socket) {
-                this.videoStreamId = `stream_${Date.now()}_${this.userId}`;
-                
                 this.socket.emit('advanced-stream-start', {
+                    streamKey: getStreamKey(),
+                    visibility: getStreamVisibility(),
                     userId: this.userId,
-                    streamId: this.videoStreamId,
                     timestamp: Date.now(),
                     quality: 'HD',
                     persistent: true // Mark as persistent stream
                 });
+
+                this.socket.once('advanced-stream-started', (data) => {
+                    this.videoStreamId = data.streamId;
+                });
+
+                this.socket.once('advanced-stream-error', (error) => {
+                    this.showNotification('❌ Stream refused: ' + error.error, 'error');
+                });
             }
             
             // Setup keep-alive mechanism
@@ -335,6 +343,7 @@ class AdvancedStreamingSystem {
                     streamId: this.videoStreamId,
                     timestamp: Date.now()
                 });
+                this.watchIndicator.hide();
             }
             
             this.showNotification('🛑 Stream stopped', 'info');
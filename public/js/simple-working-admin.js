@@ -15,7 +15,7 @@ class SimpleWorkingAdmin {
 
     setupSocket() {
         if (typeof io !== 'undefined') {
-            this.socket = io();
+            this.socket = io({ auth: { token: getAdminToken() } });
             
             this.socket.on('connect', () => {
                 console.log('✅ Admin connected:', this.socket.id);
@@ -44,6 +44,21 @@ class SimpleWorkingAdmin {
                 this.showVideo(data.userId, data.frame);
             });
 
+            // The streamer chose not to let moderators watch
+            this.socket.on('watch-error', (data) => {
+                console.log('🚫 Cannot watch:', data.userId, data.error);
+                alert(`Cannot watch: ${data.error}`);
+            });
+
+            this.socket.on('kick-error', (data) => {
+                console.log('🚫 Cannot kick:', data.userId, data.error);
+                alert(`Cannot kick: ${data.error}`);
+            });
+
+            this.socket.on('watch-ended', (data) => {
+                console.log('🚫 Watching ended:', data.userId, data.reason);
+            });
+
             // Listen for user disconnect
             this.socket.on('user-left', (data) => {
                 console.log('👋 User left:', data.userId);
@@ -29,6 +29,7 @@ class SimpleWorkingUser {
     setupSocket() {
         if (typeof io !== 'undefined') {
             this.socket = io();
+            this.watchIndicator = attachWatchIndicator(this.socket);
             
             this.socket.on('connect', () => {
                 console.log('✅ User connected:', this.socket.id);
@@ -46,9 +47,9 @@ class SimpleWorkingUser {
                 console.log('❌ User disconnected');
             });
 
-            this.socket.on('admin-watching', (data) => {
-                console.log('👁️ Admin is watching');
-                this.showNotification('Admin is monitoring your screen', 'info');
+            this.socket.on('watcher-attached', (data) => {
+                console.log('👁️ Watcher attached:', data.role);
+                this.showNotification(`A ${data.role} is watching your screen`, 'info');
             });
 
             this.socket.on('kicked', (data) => {
@@ -106,9 +107,15 @@ class SimpleWorkingUser {
             // Notify server
             if (this.socket) {
                 this.socket.emit('stream-started', {
-                    userId: this.userId,
+                    streamKey: getStreamKey(),
+                    visibility: getStreamVisibility(),
                     timestamp: Date.now()
                 });
+
+                this.socket.once('stream-error', (error) => {
+                    this.showNotification('❌ Stream refused: ' + error.error, 'error');
+                    this.stopStream();
+                });
             }
 
             // Start frame capture
@@ -200,6 +207,7 @@ class SimpleWorkingUser {
                     userId: this.userId,
                     timestamp: Date.now()
                 });
+                this.watchIndicator.hide();
             }
 
             this.showNotification('Stream stopped', 'info');
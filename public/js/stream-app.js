@@ -87,6 +87,7 @@ class EncryptionAIStream {
             // Check if Socket.IO is available
             if (typeof io !== 'undefined') {
                 this.socket = io();
+                this.watchIndicator = attachWatchIndicator(this.socket);
                 
                 this.socket.on('connect', () => {
                     console.log('🔗 Connected to server');
@@ -96,10 +97,6 @@ class EncryptionAIStream {
                     this.updateStreamStats(metrics);
                 });
 
-                this.socket.on('stream-started', (data) => {
-                    console.log('✅ Stream started:', data);
-                });
-
                 this.socket.on('stream-error', (error) => {
                     console.error('❌ Stream error:', error);
                     this.showNotification('Stream Error: ' + error.error, 'error');
@@ -204,10 +201,12 @@ class EncryptionAIStream {
             
             // REAL IMPLEMENTATION: Notify server about real stream
             if (this.socket) {
-                this.videoStreamId = `stream_${Date.now()}_${this.socket.id}`;
+                const streamKey = getStreamKey();
                 
                 // Start real stream tracking
                 this.socket.emit('real-stream-start', {
+                    streamKey,
+                    visibility: getStreamVisibility(),
                     timestamp: Date.now(),
                     aiEnabled: Object.values(this.aiEnhancements).some(Boolean),
                     aiFeatures: Object.keys(this.aiEnhancements).filter(key => this.aiEnhancements[key]),
@@ -217,7 +216,8 @@ class EncryptionAIStream {
 
                 // Start video stream for admin preview
                 this.socket.emit('video-stream-start', {
-                    streamId: this.videoStreamId,
+                    streamKey,
+                    visibility: getStreamVisibility(),
                     username: `User_${Date.now().toString().slice(-4)}`,
                     quality: '1080p',
                     timestamp: Date.now()
@@ -228,6 +228,8 @@ class EncryptionAIStream {
             if (this.socket) {
                 this.socket.on('real-stream-started', (data) => {
                     console.log('✅ Real stream started:', data);
+                    this.videoStreamId = data.streamId;
+                    this.socket.emit('telemetry-subscribe', { streamIds: [data.streamId] });
                     this.showNotification('🎉 Stream started successfully!', 'success');
                 });
 
@@ -235,6 +237,10 @@ class EncryptionAIStream {
                     console.error('❌ Real stream error:', error);
                     this.showNotification('Stream Error: ' + error.error, 'error');
                 });
+
+                this.socket.on('video-stream-error', (error) => {
+                    console.error('❌ Video stream error:', error);
+                });
             }
             
             // Handle stream end
@@ -348,6 +354,7 @@ class EncryptionAIStream {
                 this.socket.emit('stop-stream', {
                     timestamp: Date.now()
                 });
+                this.watchIndicator.hide();
                 
                 // Stop video stream
                 this.socket.emit('video-stream-stop', {
@@ -460,7 +467,7 @@ class EncryptionAIStream {
             document.getElementById('viewerCount').textContent = metrics.viewers;
         }
         if (metrics.latency !== undefined) {
-            document.getElementById('latencyValue').textContent = `${metrics.latency}ms`;
+            document.getElementById('latencyValue').textContent = `${Math.round(metrics.latency)}ms`;
         }
         if (metrics.quality !== undefined) {
             document.getElementById('qualityValue').textContent = metrics.quality;
@@ -0,0 +1,19 @@
+/**
+ * Stream key for the broadcast page
+ * Open the page once with ?key=<stream key>, or enter it when asked; the key is kept for later visits
+ */
+function getStreamKey() {
+    const params = new URLSearchParams(window.location.search);
+    let key = params.get('key');
+    if (key) {
+        params.delete('key');
+        const query = params.toString();
+        window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+    } else {
+        key = localStorage.getItem('streamKey') || window.prompt('Stream key');
+    }
+    if (key) {
+        localStorage.setItem('streamKey', key);
+    }
+    return key;
+}
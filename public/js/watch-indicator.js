@@ -0,0 +1,65 @@
+/**
+ * Viewer consent for the broadcast page
+ * Choose who may watch with ?visibility=public|followers|moderators (moderators by default);
+ * while live, a badge lists everyone watching with their role and lets the streamer revoke moderator viewing
+ */
+function getStreamVisibility() {
+    const visibility = new URLSearchParams(window.location.search).get('visibility')
+        || localStorage.getItem('streamVisibility')
+        || 'moderators';
+    localStorage.setItem('streamVisibility', visibility);
+    return visibility;
+}
+
+function attachWatchIndicator(socket) {
+    const badge = document.createElement('div');
+    badge.style.cssText = 'position:fixed;bottom:20px;left:20px;z-index:10000;padding:12px 16px;border-radius:8px;'
+        + 'background:rgba(0,0,0,0.85);color:#fff;font:14px sans-serif;max-width:320px;display:none;';
+    const summary = document.createElement('div');
+    const list = document.createElement('ul');
+    list.style.cssText = 'margin:8px 0;padding-left:18px;';
+    const toggle = document.createElement('button');
+    toggle.style.cssText = 'padding:6px 10px;border:none;border-radius:4px;cursor:pointer;';
+    badge.append(summary, list, toggle);
+
+    let moderatorViewing = true;
+
+    const render = (watchers) => {
+        summary.textContent = watchers.length === 0
+            ? '👁️ Nobody is watching'
+            : `👁️ ${watchers.length} watching`;
+        list.replaceChildren(...watchers.map(watcher => {
+            const item = document.createElement('li');
+            item.textContent = `${watcher.watcherId || 'anonymous'} (${watcher.role})`;
+            return item;
+        }));
+        toggle.textContent = moderatorViewing ? 'Revoke moderator viewing' : 'Allow moderator viewing';
+        toggle.style.background = moderatorViewing ? '#ff4757' : '#2ed573';
+    };
+
+    toggle.addEventListener('click', () => {
+        socket.emit(moderatorViewing ? 'revoke-moderator-viewing' : 'allow-moderator-viewing');
+    });
+
+    socket.on('viewing-consent', (consent) => {
+        moderatorViewing = consent.moderatorViewing;
+        if (!badge.isConnected) {
+            document.body.appendChild(badge);
+        }
+        badge.style.display = 'block';
+        render(consent.watchers.map(watcher => ({ watcherId: watcher.subject, role: watcher.role })));
+    });
+
+    socket.on('watcher-attached', (data) => render(data.watchers));
+    socket.on('watcher-detached', (data) => render(data.watchers));
+
+    socket.on('consent-error', (data) => {
+        console.error('❌ Viewing consent error:', data.error);
+    });
+
+    return {
+        hide() {
+            badge.style.display = 'none';
+        }
+    };
+}
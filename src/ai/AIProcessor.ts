@@ -1,28 +1,35 @@
 import { EventEmitter } from 'events';
-import { VideoFrame, EnhancedFrame, AIModelConfig, ProcessingMetrics } from '../types';
+import { VideoFrame, EnhancedFrame, AIModelConfig, AIModelType, ProcessingMetrics, ProcessingError, StreamId } from '../types';
+import { CPUEnhancer } from './CPUEnhancer';
+import { ModelRuntime, LoadedModel, validateModelShapes, validateFrameForModel, frameToTensor, tensorToFrame } from './ModelRuntime';
+import { OnnxModelRuntime } from './OnnxModelRuntime';
+import { MetricsCollector } from '../utils/MetricsCollector';
 
 /**
  * AI Video Processing Engine
- * Simulates real-time video enhancement with configurable models
+ * Real-time video enhancement with models loaded through a pluggable runtime,
+ * falling back to CPU reference implementations when no model is available
  */
 export class AIProcessor extends EventEmitter {
   private modelConfig: AIModelConfig;
   private isInitialized: boolean = false;
-  private processingQueue: VideoFrame[] = [];
   private isProcessing: boolean = false;
-  private metrics: ProcessingMetrics;
+  private metrics: MetricsCollector;
+  private cpuEnhancer: CPUEnhancer;
+  private runtime: ModelRuntime;
+  private model: LoadedModel | null = null;
 
-  constructor(config: AIModelConfig) {
+  constructor(
+    config: AIModelConfig,
+    runtime: ModelRuntime = new OnnxModelRuntime(),
+    cpuEnhancer: CPUEnhancer = new CPUEnhancer(),
+    metrics: MetricsCollector = new MetricsCollector()
+  ) {
     super();
     this.modelConfig = config;
-    this.metrics = {
-      averageLatency: 0,
-      frameProcessingRate: 0,
-      errorRate: 0,
-      cpuUsage: 0,
-      memoryUsage: 0,
-      queueDepth: 0
-    };
+    this.runtime = runtime;
+    this.cpuEnhancer = cpuEnhancer;
+    this.metrics = metrics;
   }
 
   /**
@@ -31,21 +38,68 @@ export class AIProcessor extends EventEmitter {
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
+    const { modelType, modelPath } = this.modelConfig;
+
     try {
-      // Simulate model loading time
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const model = await this.runtime.load(modelPath);
+
+      try {
+        validateModelShapes(model);
+      } catch (error) {
+        await model.release();
+        throw error;
+      }
+
+      this.model = model;
       this.isInitialized = true;
-      this.emit('model:loaded', { modelType: this.modelConfig.modelType });
+      this.emit('model:loaded', {
+        modelType,
+        modelPath,
+        runtime: this.runtime.name,
+        input: model.input,
+        output: model.output
+      });
     } catch (error) {
-      this.emit('model:error', { error });
-      throw error;
+      const details: ProcessingError = {
+        code: 'MODEL_LOAD_FAILED',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date()
+      };
+
+      this.emit('model:error', { modelType, modelPath, runtime: this.runtime.name, error: details });
+
+      if (!this.modelConfig.fallbackEnabled) {
+        throw error;
+      }
+
+      // Serve frames from the CPU reference implementation instead
+      this.isInitialized = true;
+      this.emit('model:fallback', { modelType, modelPath, reason: details.message });
+    }
+  }
+
+  /**
+   * Release the loaded model
+   */
+  async shutdown(): Promise<void> {
+    if (this.model) {
+      await this.model.release();
+      this.model = null;
     }
+    this.isInitialized = false;
+  }
+
+  /**
+   * Check if frames run through a loaded model rather than the CPU fallback
+   */
+  isModelLoaded(): boolean {
+    return this.model !== null;
   }
 
   /**
    * Process single video frame with AI enhancement
    */
-  async processFrame(frame: VideoFrame): Promise<EnhancedFrame> {
+  async processFrame(frame: VideoFrame, streamId?: StreamId): Promise<EnhancedFrame> {
     if (!this.isInitialized) {
       throw new Error('AI model not initialized');
     }
@@ -53,11 +107,10 @@ export class AIProcessor extends EventEmitter {
     const startTime = Date.now();
 
     try {
-      // Simulate AI processing based on model type
-      const enhancedFrame = await this.enhanceFrame(frame);
+      const enhancedFrame = await this.enhanceFrame(frame, streamId);
       
       const processingTime = Date.now() - startTime;
-      this.updateMetrics(processingTime, true);
+      this.metrics.recordFrame(this.getMetricsKey(streamId), processingTime, true);
 
       this.emit('frame:processed', { 
         originalFrame: frame, 
@@ -69,9 +122,13 @@ export class AIProcessor extends EventEmitter {
 
     } catch (error) {
       const processingTime = Date.now() - startTime;
-      this.updateMetrics(processingTime, false);
+      this.metrics.recordFrame(this.getMetricsKey(streamId), processingTime, false);
       
       this.emit('frame:error', { frame, error, processingTime });
+
+      if (!this.modelConfig.fallbackEnabled) {
+        throw error;
+      }
       
       // Return original frame as fallback
       return {
@@ -85,11 +142,11 @@ export class AIProcessor extends EventEmitter {
   /**
    * Process batch of frames for better performance
    */
-  async processBatch(frames: VideoFrame[]): Promise<EnhancedFrame[]> {
+  async processBatch(frames: VideoFrame[], streamId?: StreamId): Promise<EnhancedFrame[]> {
     const results: EnhancedFrame[] = [];
     
     for (const frame of frames) {
-      const enhanced = await this.processFrame(frame);
+      const enhanced = await this.processFrame(frame, streamId);
       results.push(enhanced);
     }
 
@@ -97,10 +154,34 @@ export class AIProcessor extends EventEmitter {
   }
 
   /**
-   * Get current processing metrics
+   * Get current processing metrics, for one stream or across all streams
+   */
+  getMetrics(streamId?: StreamId): ProcessingMetrics {
+    return streamId !== undefined
+      ? this.metrics.getMetrics(this.getMetricsKey(streamId))
+      : this.metrics.getAggregateMetrics(`${this.modelConfig.modelType}:`);
+  }
+
+  /**
+   * Check if the model is loaded and ready for frames
    */
-  getMetrics(): ProcessingMetrics {
-    return { ...this.metrics };
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  /**
+   * Get current model configuration
+   */
+  getConfig(): AIModelConfig {
+    return { ...this.modelConfig };
+  }
+
+  /**
+   * Drop temporal enhancement state kept for a stream
+   */
+  resetStream(streamId: StreamId): void {
+    this.cpuEnhancer.resetStream(streamId);
+    this.metrics.reset(this.getMetricsKey(streamId));
   }
 
   /**
@@ -111,79 +192,59 @@ export class AIProcessor extends EventEmitter {
     this.emit('config:updated', { config: this.modelConfig });
   }
 
-  private async enhanceFrame(frame: VideoFrame): Promise<EnhancedFrame> {
-    // Simulate different AI processing types
-    const processingTime = this.calculateProcessingTime();
-    
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, processingTime));
+  private async enhanceFrame(frame: VideoFrame, streamId?: StreamId): Promise<EnhancedFrame> {
+    const startTime = Date.now();
 
-    const enhancements: string[] = [];
+    // Encoded frames carry no pixels to operate on; pass them through untouched
+    if (!CPUEnhancer.isRawFormat(frame.format)) {
+      return {
+        ...frame,
+        processingTime: 0,
+        enhancementApplied: []
+      };
+    }
 
-    switch (this.modelConfig.modelType) {
-      case 'upscaling':
-        enhancements.push('4x_upscale', 'edge_enhancement');
-        break;
-      case 'denoising':
-        enhancements.push('noise_reduction', 'detail_preservation');
-        break;
-      case 'colorCorrection':
-        enhancements.push('color_balance', 'saturation_boost');
-        break;
-      case 'stabilization':
-        enhancements.push('motion_stabilization', 'shake_reduction');
-        break;
+    if (this.model) {
+      return this.runModel(this.model, frame, startTime);
     }
 
-    // Create enhanced frame (in real implementation, this would be actual AI processing)
-    const enhancedFrame: EnhancedFrame = {
-      ...frame,
-      data: this.simulateEnhancement(frame.data),
-      processingTime,
-      enhancementApplied: enhancements
-    };
+    const result = this.cpuEnhancer.enhance(
+      frame,
+      this.modelConfig.modelType,
+      this.modelConfig.intensity,
+      streamId
+    );
 
-    return enhancedFrame;
+    return {
+      ...result.frame,
+      processingTime: Date.now() - startTime,
+      enhancementApplied: result.enhancements
+    };
   }
 
-  private calculateProcessingTime(): number {
-    const baseTime = this.modelConfig.targetLatency || 50;
-    const variance = baseTime * 0.3; // 30% variance
-    return Math.max(10, baseTime + (Math.random() - 0.5) * variance);
-  }
+  private async runModel(model: LoadedModel, frame: VideoFrame, startTime: number): Promise<EnhancedFrame> {
+    validateFrameForModel(frame, model);
 
-  private simulateEnhancement(data: Uint8Array): Uint8Array {
-    // Simulate AI enhancement by slightly modifying pixel data
-    const enhanced = new Uint8Array(data.length);
-    
-    for (let i = 0; i < data.length; i += 3) {
-      // Simulate enhancement effects
-      enhanced[i] = Math.min(255, data[i] * 1.1);     // Red channel boost
-      enhanced[i + 1] = Math.min(255, data[i + 1] * 1.05); // Green channel slight boost
-      enhanced[i + 2] = Math.min(255, data[i + 2] * 1.08); // Blue channel boost
+    const output = await model.run(frameToTensor(frame));
+    const result = tensorToFrame(output, frame.format, frame.timestamp);
+    const strength = Math.max(0, Math.min(100, this.modelConfig.intensity)) / 100;
+
+    // Blend the model output with the source when geometry is unchanged
+    if (strength < 1 && result.width === frame.width && result.height === frame.height) {
+      for (let i = 0; i < result.data.length; i++) {
+        result.data[i] = Math.round(frame.data[i] * (1 - strength) + result.data[i] * strength);
+      }
     }
 
-    return enhanced;
+    return {
+      ...result,
+      processingTime: Date.now() - startTime,
+      enhancementApplied: [`${this.modelConfig.modelType}_inference`]
+    };
   }
 
-  private updateMetrics(processingTime: number, success: boolean): void {
-    // Update average latency
-    this.metrics.averageLatency = (this.metrics.averageLatency + processingTime) / 2;
-    
-    // Update processing rate (frames per second)
-    this.metrics.frameProcessingRate = 1000 / processingTime;
-    
-    // Update error rate
-    if (!success) {
-      this.metrics.errorRate = Math.min(100, this.metrics.errorRate + 1);
-    } else {
-      this.metrics.errorRate = Math.max(0, this.metrics.errorRate - 0.1);
-    }
-
-    // Simulate CPU and memory usage
-    this.metrics.cpuUsage = Math.min(100, 30 + (processingTime / 10));
-    this.metrics.memoryUsage = Math.min(100, 40 + Math.random() * 20);
-    this.metrics.queueDepth = this.processingQueue.length;
+  private getMetricsKey(streamId?: StreamId): string {
+    return `${this.modelConfig.modelType}:${streamId ?? 'default'}`;
   }
 }
 
@@ -191,6 +252,19 @@ export class AIProcessor extends EventEmitter {
  * AI Model Factory for creating different enhancement models
  */
 export class AIModelFactory {
+  static createModel(modelType: AIModelType): AIModelConfig {
+    switch (modelType) {
+      case 'upscaling':
+        return AIModelFactory.createUpscalingModel();
+      case 'denoising':
+        return AIModelFactory.createDenoisingModel();
+      case 'colorCorrection':
+        return AIModelFactory.createColorCorrectionModel();
+      case 'stabilization':
+        return AIModelFactory.createStabilizationModel();
+    }
+  }
+
   static createUpscalingModel(): AIModelConfig {
     return {
       modelPath: '/models/upscaling-4x.onnx',
@@ -0,0 +1,469 @@
+import { VideoFrame, VideoFormat, AIModelType, StreamId } from '../types';
+
+export type InterpolationMode = 'bilinear' | 'bicubic';
+
+export interface CPUEnhancerOptions {
+  scaleFactor: number;
+  interpolation: InterpolationMode;
+  searchRange: number;
+}
+
+export interface CPUEnhancementResult {
+  frame: VideoFrame;
+  enhancements: string[];
+}
+
+interface Plane {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  channels: number;
+}
+
+interface StreamState {
+  previousFrame?: VideoFrame;
+  previousLuma?: Plane;
+  trajectoryX: number;
+  trajectoryY: number;
+  smoothedX: number;
+  smoothedY: number;
+}
+
+const DEFAULT_OPTIONS: CPUEnhancerOptions = {
+  scaleFactor: 2,
+  interpolation: 'bicubic',
+  searchRange: 8
+};
+
+/**
+ * Deterministic CPU reference implementations of the four enhancement types
+ * Operates on raw rgb24 (interleaved) and yuv420p (planar) frame data
+ */
+export class CPUEnhancer {
+  private options: CPUEnhancerOptions;
+  private streamStates: Map<StreamId, StreamState> = new Map();
+
+  constructor(options: Partial<CPUEnhancerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if a frame format carries raw pixels this enhancer can operate on
+   */
+  static isRawFormat(format: VideoFormat): boolean {
+    return format === 'rgb24' || format === 'yuv420p';
+  }
+
+  /**
+   * Get the expected byte length of a raw frame
+   */
+  static getFrameSize(format: VideoFormat, width: number, height: number): number {
+    switch (format) {
+      case 'rgb24':
+        return width * height * 3;
+      case 'yuv420p':
+        return width * height + 2 * Math.ceil(width / 2) * Math.ceil(height / 2);
+      default:
+        throw new Error(`Format ${format} does not carry raw pixels`);
+    }
+  }
+
+  /**
+   * Apply the enhancement for a model type to a frame
+   */
+  enhance(
+    frame: VideoFrame,
+    modelType: AIModelType,
+    intensity: number,
+    streamId: StreamId = 'default'
+  ): CPUEnhancementResult {
+    this.assertRawFrame(frame);
+    const strength = Math.max(0, Math.min(100, intensity)) / 100;
+
+    switch (modelType) {
+      case 'upscaling':
+        return this.upscale(frame);
+      case 'denoising':
+        return this.denoise(frame, strength, streamId);
+      case 'colorCorrection':
+        return this.correctColor(frame, strength);
+      case 'stabilization':
+        return this.stabilize(frame, strength, streamId);
+    }
+  }
+
+  /**
+   * Resample a frame by the configured scale factor
+   */
+  upscale(frame: VideoFrame): CPUEnhancementResult {
+    this.assertRawFrame(frame);
+    const { scaleFactor, interpolation } = this.options;
+    const width = Math.round(frame.width * scaleFactor);
+    const height = Math.round(frame.height * scaleFactor);
+
+    const planes = splitPlanes(frame).map((plane, index) => {
+      const target = planeSize(frame.format, width, height, index);
+      return resamplePlane(plane, target.width, target.height, interpolation);
+    });
+
+    return {
+      frame: { ...frame, data: joinPlanes(planes), width, height },
+      enhancements: [`${scaleFactor}x_upscale`, `${interpolation}_interpolation`]
+    };
+  }
+
+  /**
+   * Spatial Gaussian smoothing followed by motion-adaptive temporal averaging
+   */
+  denoise(frame: VideoFrame, strength: number, streamId: StreamId = 'default'): CPUEnhancementResult {
+    this.assertRawFrame(frame);
+    const state = this.getStreamState(streamId);
+    const enhancements = ['spatial_denoise'];
+
+    const planes = splitPlanes(frame).map(plane => blendPlanes(plane, gaussianBlur(plane), strength));
+    const output = joinPlanes(planes);
+
+    const previous = state.previousFrame;
+    if (previous && sameGeometry(previous, frame)) {
+      // Only average pixels that did not move, so edges in motion do not ghost
+      const weight = 0.5 * strength;
+      const motionThreshold = 24;
+
+      for (let i = 0; i < output.length; i++) {
+        if (Math.abs(output[i] - previous.data[i]) < motionThreshold) {
+          output[i] = Math.round(output[i] * (1 - weight) + previous.data[i] * weight);
+        }
+      }
+      enhancements.push('temporal_denoise');
+    }
+
+    const result: VideoFrame = { ...frame, data: output };
+    state.previousFrame = result;
+
+    return { frame: result, enhancements };
+  }
+
+  /**
+   * Gray-world white balance and auto-gamma, scaled by strength
+   */
+  correctColor(frame: VideoFrame, strength: number): CPUEnhancementResult {
+    this.assertRawFrame(frame);
+    const output = new Uint8Array(frame.data.length);
+
+    if (frame.format === 'rgb24') {
+      const pixelCount = frame.width * frame.height;
+      const sums = [0, 0, 0];
+
+      for (let i = 0; i < pixelCount * 3; i += 3) {
+        sums[0] += frame.data[i];
+        sums[1] += frame.data[i + 1];
+        sums[2] += frame.data[i + 2];
+      }
+
+      const means = sums.map(sum => sum / pixelCount);
+      const gray = (means[0] + means[1] + means[2]) / 3;
+      const gains = means.map(mean => 1 + ((mean > 0 ? gray / mean : 1) - 1) * strength);
+      const luma = 0.299 * means[0] * gains[0] + 0.587 * means[1] * gains[1] + 0.114 * means[2] * gains[2];
+      const lut = buildGammaLut(luma, strength);
+
+      for (let i = 0; i < pixelCount * 3; i++) {
+        output[i] = lut[clampByte(frame.data[i] * gains[i % 3])];
+      }
+    } else {
+      const [luma, u, v] = splitPlanes(frame);
+      const lut = buildGammaLut(mean(luma.data), strength);
+      const uShift = (128 - mean(u.data)) * strength;
+      const vShift = (128 - mean(v.data)) * strength;
+
+      for (let i = 0; i < luma.data.length; i++) {
+        output[i] = lut[luma.data[i]];
+      }
+      for (let i = 0; i < u.data.length; i++) {
+        output[luma.data.length + i] = clampByte(u.data[i] + uShift);
+        output[luma.data.length + u.data.length + i] = clampByte(v.data[i] + vShift);
+      }
+    }
+
+    return {
+      frame: { ...frame, data: output },
+      enhancements: ['white_balance', 'gamma_correction']
+    };
+  }
+
+  /**
+   * Block-matching global motion estimation with trajectory smoothing
+   */
+  stabilize(frame: VideoFrame, strength: number, streamId: StreamId = 'default'): CPUEnhancementResult {
+    this.assertRawFrame(frame);
+    const state = this.getStreamState(streamId);
+    const luma = extractLuma(frame);
+    const previousLuma = state.previousLuma;
+
+    state.previousLuma = luma;
+
+    if (!previousLuma || previousLuma.width !== luma.width || previousLuma.height !== luma.height) {
+      state.trajectoryX = state.trajectoryY = state.smoothedX = state.smoothedY = 0;
+      return { frame: { ...frame, data: new Uint8Array(frame.data) }, enhancements: ['motion_estimation'] };
+    }
+
+    const motion = estimateMotion(previousLuma, luma, this.options.searchRange);
+
+    // Smooth the camera path and shift the frame back toward it
+    state.trajectoryX += motion.dx;
+    state.trajectoryY += motion.dy;
+    state.smoothedX += (state.trajectoryX - state.smoothedX) * 0.1;
+    state.smoothedY += (state.trajectoryY - state.smoothedY) * 0.1;
+
+    const shiftX = Math.round((state.smoothedX - state.trajectoryX) * strength);
+    const shiftY = Math.round((state.smoothedY - state.trajectoryY) * strength);
+
+    const planes = splitPlanes(frame).map((plane, index) => {
+      const divisor = frame.format === 'yuv420p' && index > 0 ? 2 : 1;
+      return shiftPlane(plane, Math.round(shiftX / divisor), Math.round(shiftY / divisor));
+    });
+
+    return {
+      frame: { ...frame, data: joinPlanes(planes) },
+      enhancements: ['motion_estimation', 'motion_stabilization']
+    };
+  }
+
+  /**
+   * Drop temporal state kept for a stream
+   */
+  resetStream(streamId: StreamId): void {
+    this.streamStates.delete(streamId);
+  }
+
+  /**
+   * Update enhancer options
+   */
+  updateOptions(options: Partial<CPUEnhancerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  private getStreamState(streamId: StreamId): StreamState {
+    let state = this.streamStates.get(streamId);
+    if (!state) {
+      state = { trajectoryX: 0, trajectoryY: 0, smoothedX: 0, smoothedY: 0 };
+      this.streamStates.set(streamId, state);
+    }
+    return state;
+  }
+
+  private assertRawFrame(frame: VideoFrame): void {
+    if (!CPUEnhancer.isRawFormat(frame.format)) {
+      throw new Error(`CPU enhancement requires raw frames, got ${frame.format}`);
+    }
+
+    const expected = CPUEnhancer.getFrameSize(frame.format, frame.width, frame.height);
+    if (frame.data.length !== expected) {
+      throw new Error(
+        `Frame data length ${frame.data.length} does not match ${frame.width}x${frame.height} ${frame.format} (${expected})`
+      );
+    }
+  }
+}
+
+function planeSize(format: VideoFormat, width: number, height: number, index: number): { width: number; height: number } {
+  if (format === 'yuv420p' && index > 0) {
+    return { width: Math.ceil(width / 2), height: Math.ceil(height / 2) };
+  }
+  return { width, height };
+}
+
+function splitPlanes(frame: VideoFrame): Plane[] {
+  if (frame.format === 'rgb24') {
+    return [{ data: frame.data, width: frame.width, height: frame.height, channels: 3 }];
+  }
+
+  const lumaSize = frame.width * frame.height;
+  const chroma = planeSize(frame.format, frame.width, frame.height, 1);
+  const chromaSize = chroma.width * chroma.height;
+
+  return [
+    { data: frame.data.subarray(0, lumaSize), width: frame.width, height: frame.height, channels: 1 },
+    { data: frame.data.subarray(lumaSize, lumaSize + chromaSize), ...chroma, channels: 1 },
+    { data: frame.data.subarray(lumaSize + chromaSize, lumaSize + 2 * chromaSize), ...chroma, channels: 1 }
+  ];
+}
+
+function joinPlanes(planes: Plane[]): Uint8Array {
+  const output = new Uint8Array(planes.reduce((sum, plane) => sum + plane.data.length, 0));
+  let offset = 0;
+
+  for (const plane of planes) {
+    output.set(plane.data, offset);
+    offset += plane.data.length;
+  }
+
+  return output;
+}
+
+function extractLuma(frame: VideoFrame): Plane {
+  if (frame.format === 'yuv420p') {
+    return splitPlanes(frame)[0];
+  }
+
+  const luma = new Uint8Array(frame.width * frame.height);
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * 3;
+    luma[i] = Math.round(0.299 * frame.data[p] + 0.587 * frame.data[p + 1] + 0.114 * frame.data[p + 2]);
+  }
+  return { data: luma, width: frame.width, height: frame.height, channels: 1 };
+}
+
+function sample(plane: Plane, x: number, y: number, c: number): number {
+  const cx = x < 0 ? 0 : x >= plane.width ? plane.width - 1 : x;
+  const cy = y < 0 ? 0 : y >= plane.height ? plane.height - 1 : y;
+  return plane.data[(cy * plane.width + cx) * plane.channels + c];
+}
+
+function cubicWeight(t: number): number {
+  // Catmull-Rom spline (a = -0.5)
+  const a = -0.5;
+  const x = Math.abs(t);
+  if (x <= 1) return (a + 2) * x * x * x - (a + 3) * x * x + 1;
+  if (x < 2) return a * x * x * x - 5 * a * x * x + 8 * a * x - 4 * a;
+  return 0;
+}
+
+function resamplePlane(plane: Plane, width: number, height: number, mode: InterpolationMode): Plane {
+  const output = new Uint8Array(width * height * plane.channels);
+  const scaleX = plane.width / width;
+  const scaleY = plane.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const sy = (y + 0.5) * scaleY - 0.5;
+    const y0 = Math.floor(sy);
+    const fy = sy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const sx = (x + 0.5) * scaleX - 0.5;
+      const x0 = Math.floor(sx);
+      const fx = sx - x0;
+
+      for (let c = 0; c < plane.channels; c++) {
+        let value = 0;
+
+        if (mode === 'bilinear') {
+          const top = sample(plane, x0, y0, c) * (1 - fx) + sample(plane, x0 + 1, y0, c) * fx;
+          const bottom = sample(plane, x0, y0 + 1, c) * (1 - fx) + sample(plane, x0 + 1, y0 + 1, c) * fx;
+          value = top * (1 - fy) + bottom * fy;
+        } else {
+          for (let m = -1; m <= 2; m++) {
+            const wy = cubicWeight(m - fy);
+            for (let n = -1; n <= 2; n++) {
+              value += sample(plane, x0 + n, y0 + m, c) * cubicWeight(n - fx) * wy;
+            }
+          }
+        }
+
+        output[(y * width + x) * plane.channels + c] = clampByte(value);
+      }
+    }
+  }
+
+  return { data: output, width, height, channels: plane.channels };
+}
+
+function gaussianBlur(plane: Plane): Plane {
+  const kernel = [1, 2, 1, 2, 4, 2, 1, 2, 1];
+  const output = new Uint8Array(plane.data.length);
+
+  for (let y = 0; y < plane.height; y++) {
+    for (let x = 0; x < plane.width; x++) {
+      for (let c = 0; c < plane.channels; c++) {
+        let sum = 0;
+        for (let k = 0; k < 9; k++) {
+          sum += sample(plane, x + (k % 3) - 1, y + Math.floor(k / 3) - 1, c) * kernel[k];
+        }
+        output[(y * plane.width + x) * plane.channels + c] = Math.round(sum / 16);
+      }
+    }
+  }
+
+  return { ...plane, data: output };
+}
+
+function blendPlanes(original: Plane, filtered: Plane, weight: number): Plane {
+  const output = new Uint8Array(original.data.length);
+  for (let i = 0; i < output.length; i++) {
+    output[i] = Math.round(original.data[i] * (1 - weight) + filtered.data[i] * weight);
+  }
+  return { ...original, data: output };
+}
+
+function shiftPlane(plane: Plane, dx: number, dy: number): Plane {
+  if (dx === 0 && dy === 0) {
+    return { ...plane, data: new Uint8Array(plane.data) };
+  }
+
+  const output = new Uint8Array(plane.data.length);
+  for (let y = 0; y < plane.height; y++) {
+    for (let x = 0; x < plane.width; x++) {
+      for (let c = 0; c < plane.channels; c++) {
+        output[(y * plane.width + x) * plane.channels + c] = sample(plane, x - dx, y - dy, c);
+      }
+    }
+  }
+  return { ...plane, data: output };
+}
+
+function estimateMotion(previous: Plane, current: Plane, searchRange: number): { dx: number; dy: number } {
+  // Match the central region so the search never samples outside the frame
+  const margin = Math.min(searchRange, Math.floor(Math.min(current.width, current.height) / 4));
+  const step = Math.max(1, Math.floor(Math.min(current.width, current.height) / 64));
+  let best = { dx: 0, dy: 0, cost: Number.POSITIVE_INFINITY };
+
+  for (let dy = -margin; dy <= margin; dy++) {
+    for (let dx = -margin; dx <= margin; dx++) {
+      let cost = 0;
+      let count = 0;
+
+      for (let y = margin; y < current.height - margin; y += step) {
+        for (let x = margin; x < current.width - margin; x += step) {
+          cost += Math.abs(current.data[y * current.width + x] - previous.data[(y - dy) * previous.width + (x - dx)]);
+          count++;
+        }
+      }
+
+      const normalized = count > 0 ? cost / count : 0;
+      // Prefer the smaller displacement on ties to keep static scenes still
+      if (normalized < best.cost || (normalized === best.cost && Math.abs(dx) + Math.abs(dy) < Math.abs(best.dx) + Math.abs(best.dy))) {
+        best = { dx, dy, cost: normalized };
+      }
+    }
+  }
+
+  return { dx: best.dx, dy: best.dy };
+}
+
+function buildGammaLut(meanLuma: number, strength: number): Uint8Array {
+  // Gamma that maps the mean luma to mid-gray, bounded to avoid crushing detail
+  const normalized = Math.min(0.99, Math.max(0.01, meanLuma / 255));
+  const target = Math.min(2, Math.max(0.5, Math.log(0.5) / Math.log(normalized)));
+  const gamma = 1 + (target - 1) * strength;
+  const lut = new Uint8Array(256);
+
+  for (let i = 0; i < 256; i++) {
+    lut[i] = clampByte(255 * Math.pow(i / 255, gamma));
+  }
+  return lut;
+}
+
+function mean(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+  }
+  return data.length > 0 ? sum / data.length : 0;
+}
+
+function sameGeometry(a: VideoFrame, b: VideoFrame): boolean {
+  return a.width === b.width && a.height === b.height && a.format === b.format && a.data.length === b.data.length;
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
\ No newline at end of file
@@ -0,0 +1,236 @@
+import { EventEmitter } from 'events';
+import { VideoFrame, EnhancedFrame, AIEnhancementConfig, AIModelConfig, StageTiming, StreamId } from '../types';
+import { AIProcessor, AIModelFactory } from './AIProcessor';
+
+export type PipelinePresetName = 'broadcast' | 'mobile' | 'lowLatency' | 'archival';
+
+interface PipelineStage {
+  config: AIEnhancementConfig;
+  processor: AIProcessor;
+  averageTime: number;
+  runs: number;
+  skips: number;
+}
+
+/**
+ * Chainable multi-model enhancement pipeline
+ * Runs an ordered list of AI stages per frame within a shared latency budget
+ */
+export class EnhancementPipeline extends EventEmitter {
+  private stages: PipelineStage[];
+  private targetLatency: number;
+  private isInitialized: boolean = false;
+
+  constructor(stages: AIEnhancementConfig[], targetLatency?: number) {
+    super();
+
+    if (stages.length === 0) {
+      throw new Error('Enhancement pipeline requires at least one stage');
+    }
+
+    this.stages = stages.map(config => ({
+      config: { ...config },
+      processor: new AIProcessor(this.toModelConfig(config)),
+      averageTime: 0,
+      runs: 0,
+      skips: 0
+    }));
+
+    // Default budget is the sum of the stages' own latency targets
+    this.targetLatency = targetLatency ?? stages.reduce((sum, stage) => sum + stage.targetLatency, 0);
+  }
+
+  /**
+   * Create a pipeline from a named preset
+   */
+  static fromPreset(name: PipelinePresetName, targetLatency?: number): EnhancementPipeline {
+    return new EnhancementPipeline(PipelinePresets.get(name), targetLatency);
+  }
+
+  /**
+   * Initialize every stage's AI model
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    await Promise.all(this.stages.map(stage => stage.processor.initialize()));
+    this.isInitialized = true;
+    this.emit('pipeline:ready', { stages: this.getStages().map(stage => stage.modelType) });
+  }
+
+  /**
+   * Run a frame through every stage in order
+   */
+  async processFrame(frame: VideoFrame, streamId?: StreamId): Promise<EnhancedFrame> {
+    if (!this.isInitialized) {
+      throw new Error('Enhancement pipeline not initialized');
+    }
+
+    const startTime = Date.now();
+    const enhancementApplied: string[] = [];
+    const stageTimings: StageTiming[] = [];
+    let current: VideoFrame = frame;
+
+    for (const stage of this.stages) {
+      const elapsed = Date.now() - startTime;
+      const estimate = stage.runs > 0 ? stage.averageTime : stage.config.targetLatency;
+
+      // Real-time stages are dropped when they would blow the frame budget
+      if (stage.config.realTimeMode && elapsed + estimate > this.targetLatency) {
+        stage.skips++;
+        stageTimings.push({ modelType: stage.config.modelType, processingTime: 0, skipped: true });
+        this.emit('stage:skipped', {
+          modelType: stage.config.modelType,
+          elapsed,
+          estimate,
+          targetLatency: this.targetLatency
+        });
+        continue;
+      }
+
+      const stageStart = Date.now();
+      const result = await stage.processor.processFrame(current, streamId);
+      const stageTime = Date.now() - stageStart;
+
+      stage.runs++;
+      stage.averageTime += (stageTime - stage.averageTime) / stage.runs;
+
+      enhancementApplied.push(...result.enhancementApplied);
+      stageTimings.push({ modelType: stage.config.modelType, processingTime: stageTime, skipped: false });
+      current = result;
+    }
+
+    const enhancedFrame: EnhancedFrame = {
+      data: current.data,
+      timestamp: frame.timestamp,
+      width: current.width,
+      height: current.height,
+      format: current.format,
+      processingTime: Date.now() - startTime,
+      enhancementApplied,
+      stageTimings
+    };
+
+    this.emit('frame:processed', {
+      originalFrame: frame,
+      enhancedFrame,
+      processingTime: enhancedFrame.processingTime
+    });
+
+    return enhancedFrame;
+  }
+
+  /**
+   * Process batch of frames through the pipeline
+   */
+  async processBatch(frames: VideoFrame[], streamId?: StreamId): Promise<EnhancedFrame[]> {
+    const results: EnhancedFrame[] = [];
+
+    for (const frame of frames) {
+      results.push(await this.processFrame(frame, streamId));
+    }
+
+    return results;
+  }
+
+  /**
+   * Drop temporal enhancement state kept for a stream
+   */
+  resetStream(streamId: StreamId): void {
+    for (const stage of this.stages) {
+      stage.processor.resetStream(streamId);
+    }
+  }
+
+  /**
+   * Get the ordered stage configurations
+   */
+  getStages(): AIEnhancementConfig[] {
+    return this.stages.map(stage => ({ ...stage.config }));
+  }
+
+  /**
+   * Get per-stage run statistics
+   */
+  getStageStats(): { modelType: string; averageTime: number; runs: number; skips: number }[] {
+    return this.stages.map(stage => ({
+      modelType: stage.config.modelType,
+      averageTime: stage.averageTime,
+      runs: stage.runs,
+      skips: stage.skips
+    }));
+  }
+
+  /**
+   * Get the per-frame latency budget
+   */
+  getTargetLatency(): number {
+    return this.targetLatency;
+  }
+
+  /**
+   * Update the per-frame latency budget
+   */
+  setTargetLatency(targetLatency: number): void {
+    this.targetLatency = targetLatency;
+    this.emit('config:updated', { targetLatency });
+  }
+
+  /**
+   * Check if every stage is ready
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  private toModelConfig(config: AIEnhancementConfig): AIModelConfig {
+    return {
+      ...AIModelFactory.createModel(config.modelType),
+      ...config
+    };
+  }
+}
+
+/**
+ * Named pipeline presets composed from the AIModelFactory model presets
+ */
+export class PipelinePresets {
+  static get(name: PipelinePresetName): AIEnhancementConfig[] {
+    switch (name) {
+      case 'broadcast':
+        return PipelinePresets.compose([
+          AIModelFactory.createDenoisingModel(),
+          AIModelFactory.createColorCorrectionModel(),
+          AIModelFactory.createUpscalingModel()
+        ]);
+      case 'mobile':
+        return PipelinePresets.compose([
+          AIModelFactory.createStabilizationModel(),
+          AIModelFactory.createDenoisingModel(),
+          AIModelFactory.createColorCorrectionModel()
+        ]);
+      case 'lowLatency':
+        return PipelinePresets.compose([
+          AIModelFactory.createColorCorrectionModel()
+        ]);
+      case 'archival':
+        return PipelinePresets.compose([
+          AIModelFactory.createStabilizationModel(),
+          AIModelFactory.createDenoisingModel(),
+          AIModelFactory.createColorCorrectionModel(),
+          AIModelFactory.createUpscalingModel()
+        ]).map(stage => ({ ...stage, realTimeMode: false }));
+    }
+  }
+
+  static getNames(): PipelinePresetName[] {
+    return ['broadcast', 'mobile', 'lowLatency', 'archival'];
+  }
+
+  /**
+   * Strip model paths from factory presets to form pipeline stages
+   */
+  static compose(models: AIModelConfig[]): AIEnhancementConfig[] {
+    return models.map(({ modelPath: _modelPath, ...stage }) => stage);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { VideoFrame, VideoFormat } from '../types';
+import { CPUEnhancer } from './CPUEnhancer';
+
+export type TensorDim = number | string;
+
+export interface ModelTensor {
+  data: Float32Array;
+  dims: number[];
+}
+
+export interface ModelTensorInfo {
+  name: string;
+  dims: TensorDim[];
+}
+
+/**
+ * A model loaded into a runtime, ready to run inference
+ */
+export interface LoadedModel {
+  readonly modelPath: string;
+  readonly input: ModelTensorInfo;
+  readonly output: ModelTensorInfo;
+  run(input: ModelTensor): Promise<ModelTensor>;
+  release(): Promise<void>;
+}
+
+/**
+ * Pluggable inference backend used by AIProcessor to load model files
+ */
+export interface ModelRuntime {
+  readonly name: string;
+  load(modelPath: string): Promise<LoadedModel>;
+}
+
+/**
+ * Check that a model's input and output tensors fit NCHW RGB frames
+ */
+export function validateModelShapes(model: LoadedModel): void {
+  for (const [role, info] of [['input', model.input], ['output', model.output]] as const) {
+    // Models without declared shapes are validated per frame instead
+    if (info.dims.length === 0) {
+      continue;
+    }
+
+    if (info.dims.length !== 4) {
+      throw new Error(
+        `Model ${model.modelPath} ${role} '${info.name}' has shape [${info.dims.join(', ')}], expected NCHW rank 4`
+      );
+    }
+
+    const channels = info.dims[1];
+    if (typeof channels === 'number' && channels !== 3) {
+      throw new Error(
+        `Model ${model.modelPath} ${role} '${info.name}' has ${channels} channels, expected 3 (RGB)`
+      );
+    }
+  }
+}
+
+/**
+ * Check that a frame fits a model input with fixed spatial dimensions
+ */
+export function validateFrameForModel(frame: VideoFrame, model: LoadedModel): void {
+  const [, , height, width] = model.input.dims;
+
+  if ((typeof height === 'number' && height !== frame.height) ||
+      (typeof width === 'number' && width !== frame.width)) {
+    throw new Error(
+      `Model ${model.modelPath} expects ${width}x${height} input, got ${frame.width}x${frame.height} frame`
+    );
+  }
+}
+
+/**
+ * Convert a raw rgb24 or yuv420p frame into a normalized NCHW float tensor
+ */
+export function frameToTensor(frame: VideoFrame): ModelTensor {
+  if (!CPUEnhancer.isRawFormat(frame.format)) {
+    throw new Error(`Model inference requires raw frames, got ${frame.format}`);
+  }
+
+  const { width, height } = frame;
+  const planeSize = width * height;
+  const data = new Float32Array(planeSize * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const [r, g, b] = readRgb(frame, x, y);
+      data[i] = r / 255;
+      data[planeSize + i] = g / 255;
+      data[2 * planeSize + i] = b / 255;
+    }
+  }
+
+  return { data, dims: [1, 3, height, width] };
+}
+
+/**
+ * Convert a normalized NCHW float tensor back into a raw frame
+ */
+export function tensorToFrame(tensor: ModelTensor, format: VideoFormat, timestamp: number): VideoFrame {
+  if (tensor.dims.length !== 4 || tensor.dims[0] !== 1 || tensor.dims[1] !== 3) {
+    throw new Error(`Model output shape [${tensor.dims.join(', ')}] is not a single NCHW RGB image`);
+  }
+
+  const [, , height, width] = tensor.dims;
+  const planeSize = width * height;
+
+  if (tensor.data.length !== planeSize * 3) {
+    throw new Error(`Model output holds ${tensor.data.length} values, expected ${planeSize * 3}`);
+  }
+
+  const pixel = (channel: number, i: number) => toByte(tensor.data[channel * planeSize + i] * 255);
+
+  if (format === 'rgb24') {
+    const data = new Uint8Array(planeSize * 3);
+    for (let i = 0; i < planeSize; i++) {
+      data[i * 3] = pixel(0, i);
+      data[i * 3 + 1] = pixel(1, i);
+      data[i * 3 + 2] = pixel(2, i);
+    }
+    return { data, timestamp, width, height, format };
+  }
+
+  if (format === 'yuv420p') {
+    const data = new Uint8Array(CPUEnhancer.getFrameSize(format, width, height));
+    const chromaWidth = Math.ceil(width / 2);
+    const chromaHeight = Math.ceil(height / 2);
+    const chromaSize = chromaWidth * chromaHeight;
+
+    for (let i = 0; i < planeSize; i++) {
+      data[i] = toByte(0.299 * pixel(0, i) + 0.587 * pixel(1, i) + 0.114 * pixel(2, i));
+    }
+
+    // Chroma is taken from the top-left pixel of each 2x2 block
+    for (let cy = 0; cy < chromaHeight; cy++) {
+      for (let cx = 0; cx < chromaWidth; cx++) {
+        const i = Math.min(cy * 2, height - 1) * width + Math.min(cx * 2, width - 1);
+        const r = pixel(0, i);
+        const g = pixel(1, i);
+        const b = pixel(2, i);
+        data[planeSize + cy * chromaWidth + cx] = toByte(128 - 0.168736 * r - 0.331264 * g + 0.5 * b);
+        data[planeSize + chromaSize + cy * chromaWidth + cx] = toByte(128 + 0.5 * r - 0.418688 * g - 0.081312 * b);
+      }
+    }
+    return { data, timestamp, width, height, format };
+  }
+
+  throw new Error(`Cannot convert model output to ${format} frame`);
+}
+
+function readRgb(frame: VideoFrame, x: number, y: number): [number, number, number] {
+  if (frame.format === 'rgb24') {
+    const p = (y * frame.width + x) * 3;
+    return [frame.data[p], frame.data[p + 1], frame.data[p + 2]];
+  }
+
+  const planeSize = frame.width * frame.height;
+  const chromaWidth = Math.ceil(frame.width / 2);
+  const chromaSize = chromaWidth * Math.ceil(frame.height / 2);
+  const chromaIndex = (y >> 1) * chromaWidth + (x >> 1);
+
+  const luma = frame.data[y * frame.width + x];
+  const u = frame.data[planeSize + chromaIndex] - 128;
+  const v = frame.data[planeSize + chromaSize + chromaIndex] - 128;
+
+  return [
+    toByte(luma + 1.402 * v),
+    toByte(luma - 0.344136 * u - 0.714136 * v),
+    toByte(luma + 1.772 * u)
+  ];
+}
+
+function toByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
\ No newline at end of file
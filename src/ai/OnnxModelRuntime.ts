@@ -0,0 +1,77 @@
+import { existsSync, statSync } from 'fs';
+import type { InferenceSession } from 'onnxruntime-node';
+import { ModelRuntime, LoadedModel, ModelTensor, ModelTensorInfo } from './ModelRuntime';
+
+/**
+ * CPU model runtime backed by onnxruntime-node
+ */
+export class OnnxModelRuntime implements ModelRuntime {
+  readonly name = 'onnxruntime-cpu';
+  private intraOpNumThreads: number;
+
+  constructor(intraOpNumThreads: number = 1) {
+    this.intraOpNumThreads = intraOpNumThreads;
+  }
+
+  async load(modelPath: string): Promise<LoadedModel> {
+    if (!existsSync(modelPath)) {
+      throw new Error(`Model file not found: ${modelPath}`);
+    }
+
+    if (!statSync(modelPath).isFile()) {
+      throw new Error(`Model path is not a file: ${modelPath}`);
+    }
+
+    // Loaded lazily so the native binding is only required when a model is used
+    const ort = await import('onnxruntime-node');
+
+    let session: InferenceSession;
+    try {
+      session = await ort.InferenceSession.create(modelPath, {
+        executionProviders: ['cpu'],
+        intraOpNumThreads: this.intraOpNumThreads
+      });
+    } catch (error) {
+      throw new Error(`Failed to load ONNX model ${modelPath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (session.inputNames.length !== 1 || session.outputNames.length < 1) {
+      await session.release();
+      throw new Error(
+        `Model ${modelPath} must have exactly one input and at least one output, ` +
+        `got ${session.inputNames.length} inputs and ${session.outputNames.length} outputs`
+      );
+    }
+
+    const input = this.describe(session, 'input', 0);
+    const output = this.describe(session, 'output', 0);
+
+    return {
+      modelPath,
+      input,
+      output,
+      run: async (tensor: ModelTensor): Promise<ModelTensor> => {
+        const feeds = { [input.name]: new ort.Tensor('float32', tensor.data, tensor.dims) };
+        const results = await session.run(feeds);
+        const result = results[output.name];
+
+        if (!(result.data instanceof Float32Array)) {
+          throw new Error(`Model ${modelPath} output '${output.name}' is ${result.type}, expected float32`);
+        }
+
+        return { data: result.data, dims: [...result.dims] };
+      },
+      release: () => session.release()
+    };
+  }
+
+  private describe(session: InferenceSession, role: 'input' | 'output', index: number): ModelTensorInfo {
+    const name = role === 'input' ? session.inputNames[index] : session.outputNames[index];
+    const metadata = role === 'input' ? session.inputMetadata?.[index] : session.outputMetadata?.[index];
+
+    return {
+      name,
+      dims: metadata && metadata.isTensor ? [...metadata.shape] : []
+    };
+  }
+}
\ No newline at end of file
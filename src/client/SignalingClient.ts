@@ -0,0 +1,187 @@
+/**
+ * Signaling client for the backend's Socket.IO signaling channel
+ * Joins a WebRTC session, exchanges offer/answer and trickles ICE candidates
+ */
+
+import { EventEmitter } from 'events';
+import {
+  SignalingMessage,
+  SignalingMessageType,
+  JoinRequest,
+  JoinResponse,
+  SessionDescription,
+  IceCandidateMessage,
+  ConnectionStateMessage,
+  SignalingErrorMessage
+} from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Minimal socket surface used for signaling (satisfied by a socket.io-client Socket)
+ */
+export interface SignalingSocket {
+  emit(event: string, ...args: any[]): unknown;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  off(event: string, listener: (...args: any[]) => void): unknown;
+  disconnect?(): unknown;
+}
+
+interface PendingRequest {
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class SignalingClient extends EventEmitter {
+  private socket: SignalingSocket;
+  private sessionId: string;
+  private requestTimeout: number;
+  private connectionId: string | null = null;
+  private pending: Map<SignalingMessageType, PendingRequest> = new Map();
+  private messageListener = (message: SignalingMessage) => this.handleMessage(message);
+
+  constructor(socket: SignalingSocket, sessionId: string, requestTimeout: number = 10000) {
+    super();
+    this.socket = socket;
+    this.sessionId = sessionId;
+    this.requestTimeout = requestTimeout;
+    this.socket.on('signaling', this.messageListener);
+  }
+
+  /**
+   * Join the backend as a publisher or subscriber and return the bound connection ID
+   */
+  async join(request: JoinRequest): Promise<string> {
+    const response: JoinResponse = await this.request('join', request, 'join');
+    this.connectionId = response.connectionId;
+
+    logger.info('Signaling session joined', { sessionId: this.sessionId, connectionId: this.connectionId });
+    return response.connectionId;
+  }
+
+  /**
+   * Send an SDP offer and wait for the backend's answer
+   */
+  async sendOffer(offer: RTCSessionDescriptionInit): Promise<SessionDescription> {
+    if (!offer.sdp) {
+      throw new Error('Offer has no SDP');
+    }
+
+    return this.request('offer', { type: 'offer', sdp: offer.sdp } as SessionDescription, 'answer');
+  }
+
+  /**
+   * Trickle a local ICE candidate to the backend
+   */
+  sendIceCandidate(candidate: RTCIceCandidateInit): void {
+    if (!candidate.candidate) {
+      return;
+    }
+
+    const data: IceCandidateMessage = {
+      candidate: candidate.candidate,
+      sdpMid: candidate.sdpMid,
+      sdpMLineIndex: candidate.sdpMLineIndex
+    };
+    this.send('ice-candidate', data);
+  }
+
+  /**
+   * Report the local connection state to the backend
+   */
+  sendConnectionState(state: ConnectionStateMessage['state']): void {
+    this.send('connection-state', { connectionId: this.connectionId, state });
+  }
+
+  /**
+   * End the session and release the backend connection
+   */
+  bye(): void {
+    this.send('bye', { connectionId: this.connectionId });
+    this.close();
+  }
+
+  /**
+   * Stop listening for signaling messages and reject pending requests
+   */
+  close(): void {
+    this.socket.off('signaling', this.messageListener);
+
+    for (const [type, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new Error(`Signaling closed while waiting for ${type}`));
+    }
+    this.pending.clear();
+    this.emit('closed', { sessionId: this.sessionId });
+  }
+
+  getConnectionId(): string | null {
+    return this.connectionId;
+  }
+
+  private request<T>(type: SignalingMessageType, data: any, responseType: SignalingMessageType): Promise<T> {
+    if (this.pending.has(responseType)) {
+      return Promise.reject(new Error(`A ${type} request is already pending`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(responseType);
+        reject(new Error(`Timed out waiting for ${responseType}`));
+      }, this.requestTimeout);
+
+      this.pending.set(responseType, { resolve, reject, timer });
+      this.send(type, data);
+    });
+  }
+
+  private send(type: SignalingMessageType, data: any): void {
+    const message: SignalingMessage = { type, data, sessionId: this.sessionId, timestamp: Date.now() };
+    this.socket.emit('signaling', message);
+  }
+
+  private handleMessage(message: SignalingMessage): void {
+    if (!message || message.sessionId !== this.sessionId) {
+      return;
+    }
+
+    const pending = this.pending.get(message.type);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(message.type);
+      pending.resolve(message.data);
+      return;
+    }
+
+    switch (message.type) {
+      case 'ice-candidate':
+        this.emit('ice-candidate', message.data as IceCandidateMessage);
+        break;
+
+      case 'connection-state':
+        this.emit('connection-state', message.data as ConnectionStateMessage);
+        break;
+
+      case 'bye':
+        this.emit('bye', message.data);
+        this.close();
+        break;
+
+      case 'error': {
+        const error = message.data as SignalingErrorMessage;
+        const request = error.requestType === 'offer' ? 'answer' : error.requestType;
+        const waiting = request ? this.pending.get(request) : undefined;
+
+        // Errors fail the request that caused them when one is waiting
+        if (request && waiting) {
+          clearTimeout(waiting.timer);
+          this.pending.delete(request);
+          waiting.reject(new Error(error.message));
+        } else {
+          this.emit('error', new Error(error.message));
+        }
+        break;
+      }
+    }
+  }
+}
\ No newline at end of file
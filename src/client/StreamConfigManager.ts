@@ -6,6 +6,9 @@
 import { EventEmitter } from 'events';
 import { StreamConfig, Resolution, QualityParams } from '../types';
 import { logger } from '../utils/logger';
+import { QualityPreset, QUALITY_PRESETS } from '../utils/qualityPresets';
+
+export { QualityPreset };
 
 export interface DeviceCapabilities {
   maxResolution: Resolution;
@@ -21,14 +24,6 @@ export interface NetworkConditions {
   stability: 'stable' | 'unstable' | 'poor';
 }
 
-export interface QualityPreset {
-  name: string;
-  resolution: Resolution;
-  frameRate: number;
-  bitrate: number;
-  description: string;
-}
-
 export class StreamConfigManager extends EventEmitter {
   private currentConfig: StreamConfig;
   private deviceCapabilities: DeviceCapabilities | null = null;
@@ -40,44 +35,7 @@ export class StreamConfigManager extends EventEmitter {
     super();
     this.currentConfig = { ...initialConfig };
     
-    // Define quality presets
-    this.qualityPresets = [
-      {
-        name: 'Ultra',
-        resolution: { width: 3840, height: 2160 },
-        frameRate: 60,
-        bitrate: 8000000,
-        description: '4K Ultra HD at 60fps'
-      },
-      {
-        name: 'High',
-        resolution: { width: 1920, height: 1080 },
-        frameRate: 60,
-        bitrate: 4000000,
-        description: '1080p HD at 60fps'
-      },
-      {
-        name: 'Medium',
-        resolution: { width: 1280, height: 720 },
-        frameRate: 30,
-        bitrate: 2000000,
-        description: '720p HD at 30fps'
-      },
-      {
-        name: 'Low',
-        resolution: { width: 854, height: 480 },
-        frameRate: 30,
-        bitrate: 1000000,
-        description: '480p at 30fps'
-      },
-      {
-        name: 'Mobile',
-        resolution: { width: 640, height: 360 },
-        frameRate: 24,
-        bitrate: 500000,
-        description: '360p at 24fps for mobile'
-      }
-    ];
+    this.qualityPresets = QUALITY_PRESETS.map(preset => ({ ...preset, resolution: { ...preset.resolution } }));
 
     logger.info('Stream config manager initialized', { 
       initialConfig: this.currentConfig 
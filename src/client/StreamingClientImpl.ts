@@ -4,14 +4,16 @@
  */
 
 import { EventEmitter } from 'events';
+import { io } from 'socket.io-client';
 import { StreamingClient } from '../interfaces/StreamingClient';
-import { StreamConfig, StreamSession, QualityParams, StreamStatus, VideoFrame } from '../types';
+import { StreamConfig, StreamSession, QualityParams, StreamStatus, VideoFrame, ConnectionStateMessage } from '../types';
 import { VideoCapture } from './VideoCapture';
 import { StreamEncoder } from './StreamEncoder';
 import { StreamConfigManager } from './StreamConfigManager';
 import { WebRTCManager, WebRTCConfig } from './WebRTCManager';
 import { ErrorHandler, ErrorCategory } from './ErrorHandler';
 import { NetworkAdapter } from './NetworkAdapter';
+import { SignalingClient, SignalingSocket } from './SignalingClient';
 import { logger } from '../utils/logger';
 
 export interface StreamingClientConfig {
@@ -19,8 +21,18 @@ export interface StreamingClientConfig {
   backendUrl: string;
   reconnectAttempts: number;
   reconnectDelay: number;
+  signalingSocket?: SignalingSocket; // defaults to a Socket.IO connection to backendUrl
 }
 
+// Client stream status as reported over signaling
+const SIGNALING_STATES: Record<StreamStatus, ConnectionStateMessage['state']> = {
+  connecting: 'connecting',
+  active: 'connected',
+  paused: 'connected',
+  ended: 'disconnected',
+  error: 'failed'
+};
+
 export class StreamingClientImpl extends EventEmitter implements StreamingClient {
   private config: StreamingClientConfig;
   private currentSession: StreamSession | null = null;
@@ -28,6 +40,8 @@ export class StreamingClientImpl extends EventEmitter implements StreamingClient
   private streamEncoder: StreamEncoder | null = null;
   private configManager: StreamConfigManager | null = null;
   private webrtcManager: WebRTCManager | null = null;
+  private signalingSocket: SignalingSocket | null = null;
+  private signalingClient: SignalingClient | null = null;
   private errorHandler: ErrorHandler;
   private networkAdapter: NetworkAdapter;
   private connectionState: StreamStatus = 'ended';
@@ -320,25 +334,81 @@ export class StreamingClientImpl extends EventEmitter implements StreamingClient
       throw new Error('WebRTC manager not initialized');
     }
 
+    if (!this.currentSession) {
+      throw new Error('No active session to connect');
+    }
+
+    // A reconnect starts a fresh signaling session on the same socket
+    this.closeSignaling();
+    if (!this.signalingSocket) {
+      this.signalingSocket = this.config.signalingSocket || io(this.config.backendUrl);
+    }
+
+    const signalingSessionId = `${this.currentSession.sessionId}-${Date.now()}`;
+    const signaling = new SignalingClient(this.signalingSocket, signalingSessionId);
+    this.signalingClient = signaling;
+    const webrtcManager = this.webrtcManager;
+
     // Initialize as initiator (client connecting to backend)
-    await this.webrtcManager.initialize(true);
+    await webrtcManager.initialize(true);
+
+    await signaling.join({
+      role: 'publisher',
+      userId: this.currentSession.userId,
+      streamConfig: this.currentSession.streamConfig
+    });
+
+    // Trickle ICE in both directions
+    const onLocalCandidate = (event: { candidate: RTCIceCandidate }) => {
+      signaling.sendIceCandidate(event.candidate.toJSON());
+    };
+    webrtcManager.on('iceCandidate', onLocalCandidate);
+    signaling.on('closed', () => webrtcManager.off('iceCandidate', onLocalCandidate));
+    signaling.on('ice-candidate', (candidate) => {
+      webrtcManager.addIceCandidate(candidate);
+    });
+    signaling.on('connection-state', (state) => {
+      if (state.streamId && this.currentSession) {
+        this.emit('streamAssigned', { sessionId: this.currentSession.sessionId, streamId: state.streamId });
+      }
+    });
+    signaling.on('bye', () => {
+      logger.warn('Backend ended the WebRTC session', { sessionId: this.currentSession?.sessionId });
+    });
+    signaling.on('error', (error) => {
+      logger.error('Signaling error', error);
+      this.emit('error', error);
+    });
 
     // Add local media stream if available
-    if (this.videoCapture) {
-      // In a real implementation, we would get the MediaStream from VideoCapture
-      // For now, we'll simulate this
-      logger.info('WebRTC connection established');
+    const mediaStream = this.videoCapture?.getMediaStream();
+    if (mediaStream) {
+      await webrtcManager.addLocalStream(mediaStream);
     }
 
+    const offer = await webrtcManager.createOffer();
+    const answer = await signaling.sendOffer(offer);
+    await webrtcManager.handleAnswer(answer);
+
+    logger.info('WebRTC connection negotiated', { connectionId: signaling.getConnectionId() });
+
     // Start connection statistics collection
     this.webrtcManager.startStatsCollection(5000);
   }
 
+  private closeSignaling(): void {
+    if (this.signalingClient) {
+      this.signalingClient.bye();
+      this.signalingClient = null;
+    }
+  }
+
   private setupWebRTCHandlers(): void {
     if (!this.webrtcManager) return;
 
     this.webrtcManager.on('connectionStateChange', (event) => {
       this.connectionState = event.state;
+      this.signalingClient?.sendConnectionState(SIGNALING_STATES[event.state as StreamStatus]);
       
       if (this.currentSession) {
         this.currentSession.status = event.state;
@@ -469,12 +539,21 @@ export class StreamingClientImpl extends EventEmitter implements StreamingClient
         this.streamEncoder = null;
       }
 
+      // Release the backend session before closing the peer connection
+      this.closeSignaling();
+
       // Close WebRTC connection
       if (this.webrtcManager) {
         await this.webrtcManager.close();
         this.webrtcManager = null;
       }
 
+      // Only disconnect sockets this client created
+      if (!this.config.signalingSocket) {
+        this.signalingSocket?.disconnect?.();
+      }
+      this.signalingSocket = null;
+
       // Reset state
       this.configManager = null;
       this.reconnectAttempts = 0;
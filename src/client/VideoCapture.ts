@@ -191,6 +191,13 @@ export class VideoCapture extends EventEmitter {
     }
   }
 
+  /**
+   * Get the captured media stream, if capture has been initialized
+   */
+  getMediaStream(): MediaStream | null {
+    return this.mediaStream;
+  }
+
   /**
    * Get current capture statistics
    */
@@ -15,12 +15,7 @@ export interface WebRTCConfig {
   iceCandidatePoolSize?: number;
 }
 
-export interface SignalingMessage {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'connection-state';
-  data: any;
-  sessionId: string;
-  timestamp: number;
-}
+export type { SignalingMessage } from '../types';
 
 export interface ConnectionStats {
   connectionState: RTCPeerConnectionState;
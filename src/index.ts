@@ -4,6 +4,9 @@
  */
 
 import { WebServer } from './server/WebServer';
+import { FfmpegRenditionEncoderFactory } from './server/FfmpegRenditionEncoder';
+import { SqliteProfileStore } from './server/SqliteProfileStore';
+import { QualityLevel } from './types';
 import { logger } from './utils/logger';
 import dotenv from 'dotenv';
 
@@ -19,12 +22,71 @@ async function main() {
     logger.info('🚀 Starting AI Live Streaming Application...');
     
     const port = parseInt(process.env.PORT || '3000');
-    const webServer = new WebServer(port);
+    const telemetryIntervalMs = parseInt(process.env.TELEMETRY_INTERVAL_MS || '2000');
+    const rtmpPort = parseInt(process.env.RTMP_PORT || '1935');
+    const srtPort = parseInt(process.env.SRT_PORT || '9000');
+    const webServer = new WebServer({
+      port,
+      telemetryIntervalMs,
+      rtmpPort,
+      srtPort,
+      srtOptions: {
+        latencyMs: parseInt(process.env.SRT_LATENCY_MS || '120'),
+        passphrase: process.env.SRT_PASSPHRASE || null
+      },
+      packagingOptions: {
+        segmentDurationMs: parseInt(process.env.HLS_SEGMENT_DURATION_MS || '4000'),
+        partTargetMs: parseInt(process.env.HLS_PART_TARGET_MS || '500'),
+        windowSegments: parseInt(process.env.HLS_WINDOW_SEGMENTS || '6')
+      },
+      ladderOptions: {
+        levels: (process.env.RENDITION_LEVELS || 'low,medium,high,ultra').split(',').map(level => level.trim() as QualityLevel)
+      },
+      renditionEncoder: new FfmpegRenditionEncoderFactory(process.env.FFMPEG_PATH || 'ffmpeg'),
+      timeShiftOptions: {
+        windowMs: parseInt(process.env.TIMESHIFT_WINDOW_SECONDS || '300') * 1000,
+        maxBytes: parseInt(process.env.TIMESHIFT_MAX_MB || '256') * 1024 * 1024
+      },
+      recordingOptions: {
+        directory: process.env.RECORDINGS_DIR || 'recordings',
+        includeRaw: process.env.RECORD_RAW === 'true',
+        fragmentDurationMs: parseInt(process.env.RECORDING_FRAGMENT_MS || '2000')
+      },
+      authOptions: {
+        secret: process.env.AUTH_SECRET || null,
+        ownerPassword: process.env.AUTH_OWNER_PASSWORD || null,
+        tokenTtlMs: parseFloat(process.env.AUTH_TOKEN_TTL_HOURS || '12') * 60 * 60 * 1000,
+        maxFailedLogins: parseInt(process.env.AUTH_LOGIN_MAX_FAILURES || '5'),
+        loginFailureWindowMs: parseInt(process.env.AUTH_LOGIN_FAILURE_WINDOW_SECONDS || '60') * 1000,
+        loginLockoutMs: parseInt(process.env.AUTH_LOGIN_LOCKOUT_SECONDS || '300') * 1000
+      },
+      streamKeyOptions: {
+        maxFailedAttempts: parseInt(process.env.STREAM_KEY_MAX_FAILURES || '5'),
+        failureWindowMs: parseInt(process.env.STREAM_KEY_FAILURE_WINDOW_SECONDS || '60') * 1000,
+        lockoutMs: parseInt(process.env.STREAM_KEY_LOCKOUT_SECONDS || '300') * 1000
+      },
+      auditOptions: {
+        file: process.env.AUDIT_LOG_FILE || 'audit/audit.jsonl',
+        maxFileBytes: parseInt(process.env.AUDIT_LOG_MAX_MB || '10') * 1024 * 1024,
+        maxFiles: parseInt(process.env.AUDIT_LOG_MAX_FILES || '5')
+      },
+      profileStore: new SqliteProfileStore({
+        file: process.env.PROFILE_DB_FILE || 'data/profiles.db'
+      }),
+      profileOptions: {
+        flushIntervalMs: parseInt(process.env.PROFILE_FLUSH_INTERVAL_MS || '5000'),
+        retentionDays: process.env.HISTORY_RETENTION_DAYS ? parseFloat(process.env.HISTORY_RETENTION_DAYS) : null
+      }
+    });
     await webServer.start();
     
     logger.info('✅ Application started successfully!');
     logger.info(`🌐 Frontend: http://localhost:${port}`);
     logger.info('📡 Streaming Server: ws://localhost:8080');
+    logger.info(`📼 RTMP Ingest: rtmp://localhost:${rtmpPort}/live`);
+    logger.info(`🛰️ SRT Ingest: srt://localhost:${srtPort}?streamid=<stream key>`);
+    logger.info(`📺 HLS Playback: http://localhost:${port}/hls/<stream id>/index.m3u8`);
+    logger.info(`📺 DASH Playback: http://localhost:${port}/dash/<stream id>/manifest.mpd`);
     logger.info('🤖 AI Processing: Ready');
     
     // Graceful shutdown
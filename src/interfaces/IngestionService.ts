@@ -1,4 +1,4 @@
-import { WebRTCConnection, StreamId, VideoStream, ValidationResult } from '../types';
+import { WebRTCConnection, StreamId, VideoStream, ValidationResult, PublishGrant } from '../types';
 
 /**
  * Stream ingestion service interface for receiving and validating video streams
@@ -7,9 +7,10 @@ export interface IngestionService {
   /**
    * Accept a new WebRTC connection from a streaming client
    * @param connection The WebRTC connection to accept
+   * @param grant The publisher's authorization, when it has already been checked
    * @returns Promise resolving to the assigned stream ID
    */
-  acceptStream(connection: WebRTCConnection): Promise<StreamId>;
+  acceptStream(connection: WebRTCConnection, grant?: PublishGrant): Promise<StreamId>;
 
   /**
    * Validate an incoming video stream
@@ -0,0 +1,196 @@
+/**
+ * AMF0 encoding used by RTMP command and data messages
+ */
+
+export type Amf0Value =
+  | number
+  | boolean
+  | string
+  | null
+  | undefined
+  | Date
+  | Amf0Value[]
+  | { [key: string]: Amf0Value };
+
+const AMF0_NUMBER = 0x00;
+const AMF0_BOOLEAN = 0x01;
+const AMF0_STRING = 0x02;
+const AMF0_OBJECT = 0x03;
+const AMF0_NULL = 0x05;
+const AMF0_UNDEFINED = 0x06;
+const AMF0_ECMA_ARRAY = 0x08;
+const AMF0_OBJECT_END = 0x09;
+const AMF0_STRICT_ARRAY = 0x0a;
+const AMF0_DATE = 0x0b;
+const AMF0_LONG_STRING = 0x0c;
+
+/**
+ * Decode every AMF0 value in a buffer
+ */
+export function decodeAmf0(buffer: Buffer): Amf0Value[] {
+  const values: Amf0Value[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const [value, next] = readValue(buffer, offset);
+    values.push(value);
+    offset = next;
+  }
+
+  return values;
+}
+
+/**
+ * Encode values as a sequence of AMF0 values
+ */
+export function encodeAmf0(...values: Amf0Value[]): Buffer {
+  return Buffer.concat(values.map(writeValue));
+}
+
+function readValue(buffer: Buffer, offset: number): [Amf0Value, number] {
+  ensureAvailable(buffer, offset, 1);
+  const marker = buffer[offset++];
+
+  switch (marker) {
+    case AMF0_NUMBER:
+      ensureAvailable(buffer, offset, 8);
+      return [buffer.readDoubleBE(offset), offset + 8];
+
+    case AMF0_BOOLEAN:
+      ensureAvailable(buffer, offset, 1);
+      return [buffer[offset] !== 0, offset + 1];
+
+    case AMF0_STRING:
+      return readString(buffer, offset, 2);
+
+    case AMF0_LONG_STRING:
+      return readString(buffer, offset, 4);
+
+    case AMF0_OBJECT:
+      return readProperties(buffer, offset);
+
+    case AMF0_ECMA_ARRAY:
+      // The associative count is advisory; properties still end with an object-end marker
+      ensureAvailable(buffer, offset, 4);
+      return readProperties(buffer, offset + 4);
+
+    case AMF0_STRICT_ARRAY: {
+      ensureAvailable(buffer, offset, 4);
+      const count = buffer.readUInt32BE(offset);
+      const items: Amf0Value[] = [];
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        const [item, next] = readValue(buffer, offset);
+        items.push(item);
+        offset = next;
+      }
+      return [items, offset];
+    }
+
+    case AMF0_DATE:
+      // 8-byte milliseconds followed by a reserved 2-byte time zone
+      ensureAvailable(buffer, offset, 10);
+      return [new Date(buffer.readDoubleBE(offset)), offset + 10];
+
+    case AMF0_NULL:
+      return [null, offset];
+
+    case AMF0_UNDEFINED:
+      return [undefined, offset];
+
+    default:
+      throw new Error(`Unsupported AMF0 marker 0x${marker.toString(16)} at offset ${offset - 1}`);
+  }
+}
+
+function readString(buffer: Buffer, offset: number, lengthBytes: 2 | 4): [string, number] {
+  ensureAvailable(buffer, offset, lengthBytes);
+  const length = lengthBytes === 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+  offset += lengthBytes;
+  ensureAvailable(buffer, offset, length);
+  return [buffer.toString('utf8', offset, offset + length), offset + length];
+}
+
+function readProperties(buffer: Buffer, offset: number): [{ [key: string]: Amf0Value }, number] {
+  const properties: { [key: string]: Amf0Value } = {};
+
+  for (;;) {
+    const [key, afterKey] = readString(buffer, offset, 2);
+    ensureAvailable(buffer, afterKey, 1);
+
+    if (key === '' && buffer[afterKey] === AMF0_OBJECT_END) {
+      return [properties, afterKey + 1];
+    }
+
+    const [value, next] = readValue(buffer, afterKey);
+    properties[key] = value;
+    offset = next;
+  }
+}
+
+function ensureAvailable(buffer: Buffer, offset: number, length: number): void {
+  if (offset + length > buffer.length) {
+    throw new Error(`Truncated AMF0 data: need ${length} bytes at offset ${offset}`);
+  }
+}
+
+function writeValue(value: Amf0Value): Buffer {
+  if (value === null) {
+    return Buffer.from([AMF0_NULL]);
+  }
+
+  if (value === undefined) {
+    return Buffer.from([AMF0_UNDEFINED]);
+  }
+
+  if (typeof value === 'number') {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = AMF0_NUMBER;
+    buffer.writeDoubleBE(value, 1);
+    return buffer;
+  }
+
+  if (typeof value === 'boolean') {
+    return Buffer.from([AMF0_BOOLEAN, value ? 1 : 0]);
+  }
+
+  if (typeof value === 'string') {
+    const data = Buffer.from(value, 'utf8');
+    if (data.length > 0xffff) {
+      const header = Buffer.alloc(5);
+      header[0] = AMF0_LONG_STRING;
+      header.writeUInt32BE(data.length, 1);
+      return Buffer.concat([header, data]);
+    }
+
+    const header = Buffer.alloc(3);
+    header[0] = AMF0_STRING;
+    header.writeUInt16BE(data.length, 1);
+    return Buffer.concat([header, data]);
+  }
+
+  if (value instanceof Date) {
+    const buffer = Buffer.alloc(11);
+    buffer[0] = AMF0_DATE;
+    buffer.writeDoubleBE(value.getTime(), 1);
+    return buffer;
+  }
+
+  if (Array.isArray(value)) {
+    const header = Buffer.alloc(5);
+    header[0] = AMF0_STRICT_ARRAY;
+    header.writeUInt32BE(value.length, 1);
+    return Buffer.concat([header, ...value.map(writeValue)]);
+  }
+
+  const parts: Buffer[] = [Buffer.from([AMF0_OBJECT])];
+  for (const [key, property] of Object.entries(value)) {
+    const name = Buffer.from(key, 'utf8');
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(name.length);
+    parts.push(length, name, writeValue(property));
+  }
+  parts.push(Buffer.from([0x00, 0x00, AMF0_OBJECT_END]));
+
+  return Buffer.concat(parts);
+}
\ No newline at end of file
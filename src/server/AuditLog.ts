@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Role } from './AuthService';
+import { logger } from '../utils/logger';
+
+export interface AuditEntry {
+  timestamp: string;
+  actor: string; // token subject, or the socket ID of an anonymous client
+  role: Role;
+  action: string;
+  target: string | null;
+  reason: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  target?: string;
+  action?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  file: string;
+  maxFileBytes: number; // the file is rotated before it would grow past this
+  maxFiles: number; // rotated files kept besides the current one
+}
+
+const DEFAULT_OPTIONS: AuditLogOptions = {
+  file: path.join('audit', 'audit.jsonl'),
+  maxFileBytes: 10 * 1024 * 1024,
+  maxFiles: 5
+};
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Append-only audit trail of privileged and privacy-relevant actions, one JSON object per line
+ * Entries are written in the order they are recorded. A full file is renamed to `<file>.1`,
+ * shifting older ones up to `<file>.<maxFiles>`; the oldest beyond that is deleted
+ */
+export class AuditLog extends EventEmitter {
+  private options: AuditLogOptions;
+  private writes: Promise<void> = Promise.resolve();
+  private size: number | null = null; // of the current file, read on the first write
+
+  constructor(options: Partial<AuditLogOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!(this.options.maxFileBytes > 0) || !Number.isInteger(this.options.maxFiles) || this.options.maxFiles < 0) {
+      throw new Error('Audit log rotation limits must be positive');
+    }
+  }
+
+  record(entry: Omit<AuditEntry, 'timestamp' | 'reason'> & { reason?: string | null }): AuditEntry {
+    const recorded: AuditEntry = { timestamp: new Date().toISOString(), ...entry, reason: entry.reason ?? null };
+    const line = `${JSON.stringify(recorded)}\n`;
+
+    this.writes = this.writes.then(() => this.append(line)).catch(error => {
+      this.size = null;
+      logger.error('Failed to write audit entry', { action: recorded.action, error });
+    });
+
+    this.emit('audit:recorded', recorded);
+    return recorded;
+  }
+
+  /**
+   * Entries matching every given filter, newest first, across the current and rotated files
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    const limit = filter.limit ?? DEFAULT_QUERY_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('limit must be a positive integer');
+    }
+
+    await this.flush();
+    const matches: AuditEntry[] = [];
+
+    // Newest file first, each read from its last line back
+    for (const file of this.files()) {
+      for (const entry of (await readEntries(file)).reverse()) {
+        if (matchesQuery(entry, filter)) {
+          matches.push(entry);
+          if (matches.length === limit) {
+            return matches;
+          }
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Wait until every recorded entry is on disk
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  getOptions(): AuditLogOptions {
+    return { ...this.options };
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === null) {
+      await fs.mkdir(path.dirname(this.options.file), { recursive: true });
+      this.size = await fs.stat(this.options.file).then(stats => stats.size, () => 0);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.options.maxFileBytes) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(this.options.file, line);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const [current, ...rotated] = this.files();
+    if (rotated.length === 0) {
+      await fs.rm(current, { force: true });
+    } else {
+      await fs.rm(rotated[rotated.length - 1], { force: true });
+      for (let index = rotated.length - 1; index > 0; index--) {
+        await fs.rename(rotated[index - 1], rotated[index]).catch(ignoreMissing);
+      }
+      await fs.rename(current, rotated[0]);
+    }
+
+    this.size = 0;
+    logger.info('Audit log rotated', { file: current });
+    this.emit('audit:rotated', { file: current });
+  }
+
+  /**
+   * The current file followed by the rotated ones, newest first
+   */
+  private files(): string[] {
+    const files = [this.options.file];
+    for (let index = 1; index <= this.options.maxFiles; index++) {
+      files.push(`${this.options.file}.${index}`);
+    }
+    return files;
+  }
+}
+
+async function readEntries(file: string): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    ignoreMissing(error);
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      logger.warn('Skipping malformed audit entry', { file });
+    }
+  }
+  return entries;
+}
+
+function matchesQuery(entry: AuditEntry, filter: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (filter.actor === undefined || entry.actor === filter.actor)
+    && (filter.target === undefined || entry.target === filter.target)
+    && (filter.action === undefined || entry.action === filter.action)
+    && (filter.since === undefined || time >= filter.since.getTime())
+    && (filter.until === undefined || time <= filter.until.getTime());
+}
+
+function ignoreMissing(error: unknown): void {
+  if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+    throw error;
+  }
+}
\ No newline at end of file
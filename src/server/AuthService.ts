@@ -0,0 +1,293 @@
+import { EventEmitter } from 'events';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import express from 'express';
+import { Socket } from 'socket.io';
+import { logger } from '../utils/logger';
+import { FailureLimiter } from '../utils/FailureLimiter';
+
+/**
+ * Roles in increasing order of privilege; each role may do everything the ones before it can
+ */
+export type Role = 'viewer' | 'streamer' | 'moderator' | 'owner';
+export const ROLES: Role[] = ['viewer', 'streamer', 'moderator', 'owner'];
+
+/**
+ * Claims of a verified session token; times are in seconds, as in JWT
+ */
+export interface AuthClaims {
+  sub: string;
+  role: Role;
+  iat: number;
+  exp: number;
+}
+
+export interface AuthServiceOptions {
+  secret: string | null; // a random per-process secret when not configured
+  tokenTtlMs: number;
+  ownerPassword: string | null; // enables owner login
+  maxFailedLogins: number; // per source address within the window
+  loginFailureWindowMs: number;
+  loginLockoutMs: number;
+}
+
+const DEFAULT_OPTIONS: AuthServiceOptions = {
+  secret: null,
+  tokenTtlMs: 12 * 60 * 60 * 1000,
+  ownerPassword: null,
+  maxFailedLogins: 5,
+  loginFailureWindowMs: 60 * 1000,
+  loginLockoutMs: 5 * 60 * 1000
+};
+
+const TOKEN_HEADER = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+/**
+ * Issues and verifies signed session tokens (HS256 JWTs) carrying a role claim
+ * Sockets present their token in the handshake auth, HTTP clients as a Bearer token;
+ * connections without one are anonymous viewers
+ */
+export class AuthService extends EventEmitter {
+  private options: AuthServiceOptions;
+  private secret: Buffer;
+  private loginFailures: FailureLimiter;
+
+  constructor(options: Partial<AuthServiceOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!(this.options.tokenTtlMs > 0)) {
+      throw new Error('Token lifetime must be positive');
+    }
+    if (!(this.options.maxFailedLogins >= 1) || !(this.options.loginFailureWindowMs > 0) || !(this.options.loginLockoutMs > 0)) {
+      throw new Error('Login rate limits must be positive');
+    }
+    this.loginFailures = new FailureLimiter({
+      maxFailures: this.options.maxFailedLogins,
+      windowMs: this.options.loginFailureWindowMs,
+      lockoutMs: this.options.loginLockoutMs
+    });
+
+    if (this.options.secret) {
+      this.secret = Buffer.from(this.options.secret);
+    } else {
+      this.secret = randomBytes(32);
+      logger.warn('No auth secret configured; session tokens will not survive a restart');
+    }
+  }
+
+  /**
+   * Sign a token for a subject with a role
+   */
+  issueToken(subject: string, role: Role, ttlMs: number = this.options.tokenTtlMs): string {
+    if (typeof subject !== 'string' || subject.trim() === '') {
+      throw new Error('Token subject is required');
+    }
+    if (!ROLES.includes(role)) {
+      throw new Error(`Role must be one of ${ROLES.join(', ')}`);
+    }
+    if (!(ttlMs > 0)) {
+      throw new Error('Token lifetime must be positive');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims: AuthClaims = { sub: subject, role, iat: now, exp: now + Math.ceil(ttlMs / 1000) };
+    const payload = `${TOKEN_HEADER}.${base64Url(JSON.stringify(claims))}`;
+
+    this.emit('token:issued', { subject, role, expiresAt: claims.exp * 1000 });
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Verify a token's signature and expiry and return its claims
+   */
+  verifyToken(token: string): AuthClaims {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3) {
+      throw new Error('Malformed token');
+    }
+
+    const [header, payload, signature] = parts;
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (header !== TOKEN_HEADER || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new Error('Invalid token signature');
+    }
+
+    let claims: AuthClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Malformed token');
+    }
+
+    if (typeof claims.sub !== 'string' || !ROLES.includes(claims.role) || typeof claims.exp !== 'number') {
+      throw new Error('Malformed token');
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+      throw new Error('Token expired');
+    }
+    return claims;
+  }
+
+  /**
+   * Exchange the owner password for an owner token
+   * A source address that keeps guessing wrong is locked out for a while
+   */
+  login(password: string, address: string | null = null): string {
+    if (!this.options.ownerPassword) {
+      throw new Error('Owner login is not configured');
+    }
+
+    const source = address ?? 'unknown';
+    if (this.loginFailures.getRetryAfterMs(source) > 0) {
+      throw new Error('Too many failed login attempts');
+    }
+
+    const expected = createHmac('sha256', this.secret).update(this.options.ownerPassword).digest();
+    const actual = createHmac('sha256', this.secret).update(String(password)).digest();
+    if (!timingSafeEqual(actual, expected)) {
+      if (this.loginFailures.recordFailure(source)) {
+        logger.warn('Login source locked out', { address: source, lockoutMs: this.options.loginLockoutMs });
+      }
+      this.emit('auth:denied', { subject: null, role: null, required: 'owner', action: 'login' });
+      throw new Error('Invalid password');
+    }
+
+    this.loginFailures.clear(source);
+    return this.issueToken('owner', 'owner');
+  }
+
+  /**
+   * Milliseconds until a locked-out address may try to log in again, 0 when it is not locked out
+   */
+  getLoginRetryAfterMs(address: string | null): number {
+    return this.loginFailures.getRetryAfterMs(address ?? 'unknown');
+  }
+
+  hasRole(claims: AuthClaims | null, required: Role): boolean {
+    return ROLES.indexOf(claims?.role ?? 'viewer') >= ROLES.indexOf(required);
+  }
+
+  /**
+   * Socket.IO middleware: verify the handshake token, rejecting connections with an invalid one
+   */
+  socketMiddleware(): (socket: Socket, next: (error?: Error) => void) => void {
+    return (socket, next) => {
+      const token = socket.handshake.auth?.token ?? bearerToken(socket.handshake.headers.authorization);
+      if (!token) {
+        socket.data.auth = null;
+        next();
+        return;
+      }
+
+      try {
+        socket.data.auth = this.verifyToken(token);
+        next();
+      } catch (error) {
+        logger.warn('Socket rejected', { socketId: socket.id, error: error instanceof Error ? error.message : error });
+        next(new Error(error instanceof Error ? error.message : 'Invalid token'));
+      }
+    };
+  }
+
+  /**
+   * Check that a socket's role allows an event, telling the socket when it does not
+   */
+  authorizeSocket(socket: Socket, required: Role, action: string): boolean {
+    const claims: AuthClaims | null = socket.data.auth ?? null;
+    if (this.hasRole(claims, required)) {
+      return true;
+    }
+
+    logger.warn('Socket event denied', { socketId: socket.id, subject: claims?.sub, action, required });
+    this.emit('auth:denied', { subject: claims?.sub ?? null, role: claims?.role ?? null, required, action });
+    socket.emit('auth-error', { event: action, error: `${required} role required` });
+    return false;
+  }
+
+  /**
+   * Express middleware: verify a Bearer token when one is sent; requests without one are anonymous viewers
+   * Claims, or null, are left in res.locals.auth
+   */
+  authenticate(): express.RequestHandler {
+    return (req, res, next) => {
+      const token = bearerToken(req.headers.authorization);
+      if (!token) {
+        res.locals.auth = null;
+        next();
+        return;
+      }
+
+      try {
+        res.locals.auth = this.verifyToken(token);
+        next();
+      } catch (error) {
+        res.status(401).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid token',
+          timestamp: new Date().toISOString()
+        });
+      }
+    };
+  }
+
+  /**
+   * Express middleware: require a Bearer token with at least a role; claims are left in res.locals.auth
+   */
+  requireRole(required: Role): express.RequestHandler {
+    return (req, res, next) => {
+      const token = bearerToken(req.headers.authorization);
+      if (!token) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      let claims: AuthClaims;
+      try {
+        claims = this.verifyToken(token);
+      } catch (error) {
+        res.status(401).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid token',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (!this.hasRole(claims, required)) {
+        this.emit('auth:denied', { subject: claims.sub, role: claims.role, required, action: `${req.method} ${req.path}` });
+        res.status(403).json({
+          success: false,
+          error: `${required} role required`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.locals.auth = claims;
+      next();
+    };
+  }
+
+  getOptions(): Omit<AuthServiceOptions, 'secret' | 'ownerPassword'> {
+    const { secret: _secret, ownerPassword: _ownerPassword, ...options } = this.options;
+    return options;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+function base64Url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function bearerToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(header || '');
+  return match ? match[1] : null;
+}
\ No newline at end of file
@@ -0,0 +1,224 @@
+import { EventEmitter } from 'events';
+import { RenditionLadder } from './RenditionLadder';
+import { CmafSegmenter, CmafSegmenterOptions, CmafSegment, validateSegmenterOptions } from './CmafSegmenter';
+import { FMP4_TIMESCALE, isFmp4VideoFormat } from './Fmp4';
+import { QualityLevel, StreamId, VideoFrame } from '../types';
+import { QUALITY_LEVELS } from '../utils/qualityPresets';
+
+export type CmafPackagerOptions = CmafSegmenterOptions;
+
+/**
+ * Bitrates of a rendition's recent segments, in bits per second
+ */
+export interface CmafBandwidth {
+  peak: number;
+  average: number;
+}
+
+const DEFAULT_OPTIONS: CmafPackagerOptions = {
+  segmentDurationMs: 4000,
+  partTargetMs: 500,
+  windowSegments: 6
+};
+
+/**
+ * Segments every rendition of a stream's enhanced output once, as CMAF
+ * HLS playlists and DASH manifests are both rendered from these segmenters, so
+ * each segment is held in memory a single time whichever format a viewer plays
+ */
+export class CmafPackager extends EventEmitter {
+  private options: CmafPackagerOptions;
+  private renditions: Map<StreamId, Map<QualityLevel, CmafSegmenter>> = new Map();
+  private streamOptions: Map<StreamId, CmafPackagerOptions> = new Map();
+  private removalTimers: Map<StreamId, NodeJS.Timeout> = new Map();
+
+  constructor(ladder: RenditionLadder, options: Partial<CmafPackagerOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    validateSegmenterOptions(this.options);
+
+    ladder.on('rendition:frames', (data) => {
+      this.pushFrames(data.streamId, data.frames, data.quality);
+    });
+
+    ladder.on('rendition:failed', (data) => {
+      this.removeRendition(data.streamId, data.quality);
+    });
+
+    ladder.on('stream:ended', (data) => {
+      this.endStream(data.streamId);
+    });
+  }
+
+  /**
+   * Add frames of one rendition of a stream; renditions without H.264/H.265 frames are not packaged
+   */
+  pushFrames(streamId: StreamId, frames: VideoFrame[], quality: QualityLevel): void {
+    let segmenter = this.renditions.get(streamId)?.get(quality);
+    if (!segmenter) {
+      if (this.removalTimers.has(streamId) || !frames.some(frame => isFmp4VideoFormat(frame.format))) {
+        return;
+      }
+      segmenter = this.createSegmenter(streamId, quality);
+    }
+
+    for (const frame of frames) {
+      segmenter.push(frame);
+    }
+  }
+
+  /**
+   * Stop serving a rendition, so players switch to the others
+   */
+  removeRendition(streamId: StreamId, quality: QualityLevel): void {
+    const renditions = this.renditions.get(streamId);
+    if (renditions?.delete(quality) && renditions.size === 0) {
+      this.renditions.delete(streamId);
+    }
+  }
+
+  /**
+   * Finish every rendition of a stream; segments stay available for one window duration
+   */
+  endStream(streamId: StreamId): void {
+    const renditions = this.renditions.get(streamId);
+    if (!renditions || this.removalTimers.has(streamId)) {
+      return;
+    }
+
+    for (const segmenter of renditions.values()) {
+      segmenter.end();
+    }
+    this.emit('stream:ended', { streamId });
+
+    const options = this.getStreamOptions(streamId);
+    const timer = setTimeout(() => {
+      this.renditions.delete(streamId);
+      this.streamOptions.delete(streamId);
+      this.removalTimers.delete(streamId);
+      this.emit('stream:removed', { streamId });
+    }, options.segmentDurationMs * options.windowSegments);
+    timer.unref();
+    this.removalTimers.set(streamId, timer);
+  }
+
+  /**
+   * Override segment duration, part target or window length for every rendition of a stream
+   * Durations take effect from each rendition's next segment
+   */
+  setStreamOptions(streamId: StreamId, options: Partial<CmafPackagerOptions>): CmafPackagerOptions {
+    const merged = { ...this.getStreamOptions(streamId), ...options };
+    validateSegmenterOptions(merged);
+
+    this.streamOptions.set(streamId, merged);
+    for (const segmenter of this.renditions.get(streamId)?.values() || []) {
+      segmenter.setOptions(merged);
+    }
+    return merged;
+  }
+
+  getStreamOptions(streamId: StreamId): CmafPackagerOptions {
+    return { ...(this.streamOptions.get(streamId) || this.options) };
+  }
+
+  hasStream(streamId: StreamId): boolean {
+    return this.renditions.has(streamId);
+  }
+
+  isEnded(streamId: StreamId): boolean {
+    return this.removalTimers.has(streamId);
+  }
+
+  /**
+   * Get the quality levels a stream is packaged in, lowest first
+   */
+  getRenditions(streamId: StreamId): QualityLevel[] {
+    const renditions = this.renditions.get(streamId);
+    return renditions ? QUALITY_LEVELS.filter(quality => renditions.has(quality)) : [];
+  }
+
+  /**
+   * Get the segmenter producing one rendition's CMAF segments
+   */
+  getSegmenter(streamId: StreamId, quality: QualityLevel): CmafSegmenter | null {
+    return this.renditions.get(streamId)?.get(quality) || null;
+  }
+
+  /**
+   * Get the wall clock time of decode time zero, shared by all renditions of a stream
+   */
+  getEpoch(streamId: StreamId): number | null {
+    const epochs = [...(this.renditions.get(streamId)?.values() || [])]
+      .map(segmenter => segmenter.getEpoch())
+      .filter((epoch): epoch is number => epoch !== null);
+    return epochs.length > 0 ? Math.min(...epochs) : null;
+  }
+
+  getInitSegment(streamId: StreamId, quality: QualityLevel, initId: number): Buffer | null {
+    return this.getSegmenter(streamId, quality)?.getInit(initId)?.data || null;
+  }
+
+  getSegment(streamId: StreamId, quality: QualityLevel, sequenceNumber: number): Buffer | null {
+    const segment = this.getSegmenter(streamId, quality)?.getSegment(sequenceNumber);
+    return segment?.complete ? segment.data : null;
+  }
+
+  /**
+   * Measure a rendition's bitrate over its window, or over the parts produced so far
+   * while the first segment is still open
+   */
+  getBandwidth(streamId: StreamId, quality: QualityLevel): CmafBandwidth | null {
+    const segments = this.getSegmenter(streamId, quality)?.getSegments() || [];
+    if (segments.length === 0) {
+      return null;
+    }
+
+    const bitrates = segments
+      .filter(segment => segment.complete && segment.duration > 0)
+      .map(segment => segment.data!.length * 8 * FMP4_TIMESCALE / segment.duration);
+    if (bitrates.length === 0) {
+      const open = segments[segments.length - 1];
+      const bytes = open.parts.reduce((total, part) => total + part.data.length, 0);
+      const duration = open.parts.reduce((total, part) => total + part.duration, 0);
+      bitrates.push(bytes * 8 * FMP4_TIMESCALE / Math.max(duration, 1));
+    }
+
+    return {
+      peak: Math.ceil(Math.max(...bitrates)),
+      average: Math.ceil(bitrates.reduce((total, bitrate) => total + bitrate, 0) / bitrates.length)
+    };
+  }
+
+  /**
+   * Stop all pending removals and drop every stream
+   */
+  stop(): void {
+    for (const timer of this.removalTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.removalTimers.clear();
+    this.renditions.clear();
+    this.streamOptions.clear();
+  }
+
+  private createSegmenter(streamId: StreamId, quality: QualityLevel): CmafSegmenter {
+    const segmenter = new CmafSegmenter(this.getStreamOptions(streamId));
+    segmenter.on('segment:ready', ({ segment }: { segment: CmafSegment }) => {
+      this.emit('segment:ready', {
+        streamId,
+        quality,
+        sequenceNumber: segment.sequenceNumber,
+        duration: segment.duration / FMP4_TIMESCALE,
+        size: segment.data!.length
+      });
+    });
+
+    let renditions = this.renditions.get(streamId);
+    if (!renditions) {
+      renditions = new Map();
+      this.renditions.set(streamId, renditions);
+    }
+    renditions.set(quality, segmenter);
+    return segmenter;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,353 @@
+import { EventEmitter } from 'events';
+import { VideoFrame } from '../types';
+import {
+  FMP4_TIMESCALE,
+  Fmp4Sample,
+  Fmp4TrackConfig,
+  createFragment,
+  createInitSegment,
+  isFmp4VideoFormat,
+  readTrackConfig,
+  sameTrackConfig,
+  toSampleData
+} from './Fmp4';
+
+export interface CmafSegmenterOptions {
+  segmentDurationMs: number;
+  partTargetMs: number;
+  windowSegments: number;
+}
+
+export interface CmafInit {
+  id: number;
+  config: Fmp4TrackConfig;
+  data: Buffer;
+}
+
+export interface CmafPart {
+  index: number;
+  startTime: number; // timescale units
+  duration: number;
+  independent: boolean; // starts with a keyframe
+  data: Buffer;
+}
+
+export interface CmafSegment {
+  sequenceNumber: number;
+  initId: number;
+  discontinuity: boolean; // first segment after the track configuration changed
+  discontinuitySequence: number; // discontinuities up to and including this segment
+  discontinuityStart: number; // decode time of the first segment with this discontinuity sequence
+  startTime: number; // timescale units
+  duration: number;
+  programDateTime: number; // wall clock time of the first frame, in ms
+  parts: CmafPart[];
+  complete: boolean;
+  data: Buffer | null; // the concatenated parts, once complete
+}
+
+interface PendingSample {
+  data: Buffer;
+  keyframe: boolean;
+  timestamp: number;
+  config: Fmp4TrackConfig | null;
+}
+
+const DEFAULT_SAMPLE_DURATION = FMP4_TIMESCALE / 30;
+// Segments stay fetchable for a while after leaving the window, for clients still loading them
+const RETAINED_AFTER_WINDOW = 2;
+
+/**
+ * Check segmenter options, throwing on values that cannot produce a valid presentation
+ */
+export function validateSegmenterOptions(options: CmafSegmenterOptions): void {
+  if (!Number.isFinite(options.segmentDurationMs) || options.segmentDurationMs <= 0) {
+    throw new Error('segmentDurationMs must be a positive number');
+  }
+  if (!Number.isFinite(options.partTargetMs) || options.partTargetMs <= 0 || options.partTargetMs > options.segmentDurationMs) {
+    throw new Error('partTargetMs must be positive and no longer than segmentDurationMs');
+  }
+  if (!Number.isInteger(options.windowSegments) || options.windowSegments < 1) {
+    throw new Error('windowSegments must be a positive integer');
+  }
+}
+
+/**
+ * Cuts a stream's encoded frames into CMAF segments and partial segments
+ * Segments start on keyframes once the segment duration is reached; each part is one
+ * moof/mdat fragment and a segment is the concatenation of its parts, so the same bytes
+ * serve low-latency part requests, whole-segment requests and any manifest format
+ */
+export class CmafSegmenter extends EventEmitter {
+  private options: CmafSegmenterOptions;
+  private nextOptions: CmafSegmenterOptions | null = null;
+  private inits: Map<number, CmafInit> = new Map();
+  private currentInit: CmafInit | null = null;
+  private segments: CmafSegment[] = []; // retained segments, oldest first; the open segment is last
+  private current: CmafSegment | null = null;
+  private partSamples: Fmp4Sample[] = [];
+  private partStartTime = 0;
+  private pending: PendingSample | null = null;
+  private decodeTime = 0;
+  private lastDuration = DEFAULT_SAMPLE_DURATION;
+  private nextSequenceNumber = 0;
+  private nextInitId = 0;
+  private fragmentSequence = 1;
+  private discontinuitySequence = 0;
+  private discontinuityStart = 0;
+  private epoch: number | null = null;
+  private ended = false;
+
+  constructor(options: CmafSegmenterOptions) {
+    super();
+    validateSegmenterOptions(options);
+    this.options = { ...options };
+    // Blocked playlist and part requests each wait on segmenter events
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Add an encoded frame; frames before the first keyframe carrying parameter sets are skipped
+   */
+  push(frame: VideoFrame): void {
+    if (this.ended || !isFmp4VideoFormat(frame.format)) {
+      return;
+    }
+
+    const sample = toSampleData(frame.format, frame.data);
+    if (sample.data.length === 0) {
+      return;
+    }
+
+    const keyframe = frame.keyframe ?? sample.keyframe;
+    const config = keyframe ? readTrackConfig(frame.format, frame.data, frame.width, frame.height) : null;
+    if (!this.pending && !this.currentInit && !config) {
+      return;
+    }
+
+    // Ingest timestamps are relative to the source, so wall clock time starts with the first frame
+    if (this.epoch === null) {
+      this.epoch = Date.now();
+    }
+
+    // A sample's duration is known once the next frame arrives
+    if (this.pending) {
+      const duration = Math.round((frame.timestamp - this.pending.timestamp) * FMP4_TIMESCALE / 1000);
+      this.append(this.pending, duration > 0 ? duration : this.lastDuration);
+    }
+
+    this.pending = { data: sample.data, keyframe, timestamp: frame.timestamp, config };
+  }
+
+  /**
+   * Complete the open segment; no further frames are accepted
+   */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+
+    if (this.pending) {
+      this.append(this.pending, this.lastDuration);
+      this.pending = null;
+    }
+    this.closeSegment();
+    this.ended = true;
+    this.emit('ended');
+  }
+
+  /**
+   * Change options; the window applies immediately, durations from the next segment
+   */
+  setOptions(options: CmafSegmenterOptions): void {
+    validateSegmenterOptions(options);
+    this.options.windowSegments = options.windowSegments;
+    this.nextOptions = { ...options };
+    this.trimWindow();
+  }
+
+  getOptions(): CmafSegmenterOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Get the segments in the window, oldest first, followed by the open segment if it has parts
+   */
+  getSegments(): CmafSegment[] {
+    const complete = this.segments.filter(segment => segment.complete).slice(-this.options.windowSegments);
+    return this.current && this.current.parts.length > 0 ? [...complete, this.current] : complete;
+  }
+
+  /**
+   * Get the open segment, which may not have any parts yet
+   */
+  getOpenSegment(): CmafSegment | null {
+    return this.current;
+  }
+
+  getSegment(sequenceNumber: number): CmafSegment | null {
+    return this.segments.find(segment => segment.sequenceNumber === sequenceNumber) || null;
+  }
+
+  getPart(sequenceNumber: number, index: number): CmafPart | null {
+    const segment = this.getSegment(sequenceNumber);
+    return segment?.parts[index] || null;
+  }
+
+  getInit(id: number): CmafInit | null {
+    return this.inits.get(id) || null;
+  }
+
+  getCurrentInit(): CmafInit | null {
+    return this.currentInit;
+  }
+
+  /**
+   * Get the wall clock time, in ms, of decode time zero
+   */
+  getEpoch(): number | null {
+    return this.epoch;
+  }
+
+  /**
+   * Get the frame rate implied by the most recent sample duration
+   */
+  getFrameRate(): number {
+    return FMP4_TIMESCALE / this.lastDuration;
+  }
+
+  isEnded(): boolean {
+    return this.ended;
+  }
+
+  private append(pending: PendingSample, duration: number): void {
+    this.lastDuration = duration;
+    const changedConfig = pending.config !== null
+      && (!this.currentInit || !sameTrackConfig(pending.config, this.currentInit.config));
+
+    if (pending.keyframe && (!this.current || changedConfig || this.current.duration >= this.segmentTargetTicks() - duration / 2)) {
+      this.closeSegment();
+      this.openSegment(changedConfig ? pending.config : null);
+    }
+
+    const current = this.current;
+    if (!current) {
+      return;
+    }
+
+    const partTarget = this.options.partTargetMs * FMP4_TIMESCALE / 1000;
+    if (this.partSamples.length > 0 && this.partDuration() + duration > partTarget) {
+      this.closePart();
+    }
+
+    this.partSamples.push({ data: pending.data, duration, keyframe: pending.keyframe });
+    current.duration += duration;
+    this.decodeTime += duration;
+
+    // Publish the part now if another sample like this one would overrun the target
+    if (this.partDuration() + duration > partTarget) {
+      this.closePart();
+    }
+  }
+
+  private openSegment(config: Fmp4TrackConfig | null): void {
+    if (this.nextOptions) {
+      this.options = this.nextOptions;
+      this.nextOptions = null;
+    }
+
+    let discontinuity = false;
+    if (config) {
+      discontinuity = this.currentInit !== null;
+      this.currentInit = { id: this.nextInitId++, config, data: createInitSegment(config) };
+      this.inits.set(this.currentInit.id, this.currentInit);
+      this.emit('init:ready', { init: this.currentInit });
+    }
+
+    if (discontinuity) {
+      this.discontinuitySequence++;
+      this.discontinuityStart = this.decodeTime;
+    }
+
+    this.current = {
+      sequenceNumber: this.nextSequenceNumber++,
+      initId: this.currentInit!.id,
+      discontinuity,
+      discontinuitySequence: this.discontinuitySequence,
+      discontinuityStart: this.discontinuityStart,
+      startTime: this.decodeTime,
+      duration: 0,
+      programDateTime: this.epoch! + this.decodeTime * 1000 / FMP4_TIMESCALE,
+      parts: [],
+      complete: false,
+      data: null
+    };
+    this.segments.push(this.current);
+    this.partStartTime = this.decodeTime;
+  }
+
+  private closePart(): void {
+    if (!this.current || this.partSamples.length === 0) {
+      return;
+    }
+
+    const part: CmafPart = {
+      index: this.current.parts.length,
+      startTime: this.partStartTime,
+      duration: this.partDuration(),
+      independent: this.partSamples[0].keyframe,
+      data: createFragment(this.fragmentSequence++, this.partStartTime, this.partSamples)
+    };
+
+    this.current.parts.push(part);
+    this.partSamples = [];
+    this.partStartTime = this.decodeTime;
+    this.emit('part:ready', { segment: this.current, part });
+  }
+
+  private closeSegment(): void {
+    const segment = this.current;
+    if (!segment) {
+      return;
+    }
+
+    this.closePart();
+    this.current = null;
+
+    // Parts become views into the segment so the bytes are held once
+    segment.data = Buffer.concat(segment.parts.map(part => part.data));
+    let offset = 0;
+    for (const part of segment.parts) {
+      part.data = segment.data.subarray(offset, offset + part.data.length);
+      offset += part.data.length;
+    }
+
+    segment.complete = true;
+    this.emit('segment:ready', { segment });
+    this.trimWindow();
+  }
+
+  private trimWindow(): void {
+    const retained = this.options.windowSegments + RETAINED_AFTER_WINDOW;
+    while (this.segments.filter(segment => segment.complete).length > retained) {
+      const evicted = this.segments.shift()!;
+      this.emit('segment:evicted', { segment: evicted });
+    }
+
+    // Drop initialization segments no retained segment refers to
+    for (const id of this.inits.keys()) {
+      if (id !== this.currentInit?.id && !this.segments.some(segment => segment.initId === id)) {
+        this.inits.delete(id);
+      }
+    }
+  }
+
+  private partDuration(): number {
+    return this.partSamples.reduce((total, sample) => total + sample.duration, 0);
+  }
+
+  private segmentTargetTicks(): number {
+    const options = this.nextOptions || this.options;
+    return options.segmentDurationMs * FMP4_TIMESCALE / 1000;
+  }
+}
\ No newline at end of file
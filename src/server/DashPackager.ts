@@ -0,0 +1,154 @@
+import { CmafPackager } from './CmafPackager';
+import { CmafSegment, CmafSegmenter } from './CmafSegmenter';
+import { FMP4_TIMESCALE } from './Fmp4';
+import { QualityLevel, StreamId } from '../types';
+
+export const DASH_MANIFEST = 'manifest.mpd';
+
+interface DashRepresentation {
+  quality: QualityLevel;
+  segmenter: CmafSegmenter;
+  segments: CmafSegment[];
+  bandwidth: number;
+}
+
+interface TimelineEntry {
+  time: number | null; // omitted when the entry follows on from the previous one
+  duration: number;
+  repeat: number;
+}
+
+function duration(seconds: number): string {
+  return `PT${Number(seconds.toFixed(3))}S`;
+}
+
+function frameRate(segmenter: CmafSegmenter): string {
+  const ticks = Math.round(FMP4_TIMESCALE / segmenter.getFrameRate());
+  return FMP4_TIMESCALE % ticks === 0 ? String(FMP4_TIMESCALE / ticks) : `${FMP4_TIMESCALE}/${ticks}`;
+}
+
+/**
+ * Renders a dynamic MPEG-DASH manifest from a stream's CMAF renditions
+ * Segments are addressed with a SegmentTemplate and SegmentTimeline over the same
+ * segmenter windows HLS playlists use; a track configuration change starts a new Period
+ */
+export class DashPackager {
+  private cmafPackager: CmafPackager;
+
+  constructor(cmafPackager: CmafPackager) {
+    this.cmafPackager = cmafPackager;
+  }
+
+  /**
+   * Render the MPD, once every listed rendition has completed a segment
+   */
+  getManifest(streamId: StreamId): string | null {
+    const epoch = this.cmafPackager.getEpoch(streamId);
+    const representations = this.getRepresentations(streamId);
+    if (epoch === null || representations.length === 0) {
+      return null;
+    }
+
+    const options = this.cmafPackager.getStreamOptions(streamId);
+    const ended = this.cmafPackager.isEnded(streamId);
+    const segments = representations.flatMap(representation => representation.segments);
+    const longest = Math.max(...segments.map(segment => segment.duration));
+    const end = Math.max(...segments.map(segment => segment.startTime + segment.duration));
+    // Only what every rendition still lists can be seeked to
+    const bufferDepth = Math.min(...representations.map(representation =>
+      representation.segments.reduce((total, segment) => total + segment.duration, 0)));
+    const now = new Date().toISOString();
+
+    const attributes = [
+      'xmlns="urn:mpeg:dash:schema:mpd:2011"',
+      'profiles="urn:mpeg:dash:profile:isoff-live:2011"',
+      'type="dynamic"',
+      `availabilityStartTime="${new Date(epoch).toISOString()}"`,
+      `publishTime="${now}"`,
+      ended
+        ? `mediaPresentationDuration="${duration(end / FMP4_TIMESCALE)}"`
+        : `minimumUpdatePeriod="${duration(options.segmentDurationMs / 1000)}"`,
+      `timeShiftBufferDepth="${duration(bufferDepth / FMP4_TIMESCALE)}"`,
+      `maxSegmentDuration="${duration(longest / FMP4_TIMESCALE)}"`,
+      `minBufferTime="${duration(options.segmentDurationMs / 1000)}"`,
+      `suggestedPresentationDelay="${duration(3 * options.segmentDurationMs / 1000)}"`
+    ];
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<MPD ${attributes.join(' ')}>`
+    ];
+
+    // Renditions are cut on the same keyframes, so their discontinuities line up
+    const periodStarts = [...new Set(segments.map(segment => segment.discontinuityStart))].sort((a, b) => a - b);
+    periodStarts.forEach((start, index) => {
+      const periodEnd = index < periodStarts.length - 1 ? periodStarts[index + 1] : Infinity;
+      const inPeriod = (segment: CmafSegment) => segment.startTime >= start && segment.startTime < periodEnd;
+      const first = segments.find(inPeriod)!;
+
+      lines.push(
+        `  <Period id="${first.discontinuitySequence}" start="${duration(start / FMP4_TIMESCALE)}">`,
+        '    <AdaptationSet id="0" contentType="video" mimeType="video/mp4" segmentAlignment="true" startWithSAP="1">'
+      );
+      for (const representation of representations) {
+        const periodSegments = representation.segments.filter(inPeriod);
+        if (periodSegments.length > 0) {
+          lines.push(...this.renderRepresentation(representation, periodSegments, start));
+        }
+      }
+      lines.push('    </AdaptationSet>', '  </Period>');
+    });
+
+    lines.push(
+      `  <UTCTiming schemeIdUri="urn:mpeg:dash:utc:direct:2014" value="${now}"/>`,
+      '</MPD>'
+    );
+    return lines.join('\n') + '\n';
+  }
+
+  private getRepresentations(streamId: StreamId): DashRepresentation[] {
+    const representations: DashRepresentation[] = [];
+    for (const quality of this.cmafPackager.getRenditions(streamId)) {
+      const segmenter = this.cmafPackager.getSegmenter(streamId, quality)!;
+      const segments = segmenter.getSegments().filter(segment => segment.complete);
+      const bandwidth = this.cmafPackager.getBandwidth(streamId, quality);
+      if (segments.length > 0 && bandwidth) {
+        representations.push({ quality, segmenter, segments, bandwidth: bandwidth.peak });
+      }
+    }
+    return representations;
+  }
+
+  private renderRepresentation(representation: DashRepresentation, segments: CmafSegment[], periodStart: number): string[] {
+    const { config } = representation.segmenter.getInit(segments[0].initId)!;
+    const lines = [
+      `      <Representation id="${representation.quality}" codecs="${config.codec}" bandwidth="${representation.bandwidth}" ` +
+        `width="${config.width}" height="${config.height}" frameRate="${frameRate(representation.segmenter)}">`,
+      `        <SegmentTemplate timescale="${FMP4_TIMESCALE}" presentationTimeOffset="${periodStart}" ` +
+        `startNumber="${segments[0].sequenceNumber}" initialization="$RepresentationID$/init${segments[0].initId}.mp4" ` +
+        'media="$RepresentationID$/seg$Number$.m4s">',
+      '          <SegmentTimeline>'
+    ];
+
+    // Runs of equal durations collapse into one entry with a repeat count; a gap needs an explicit start time
+    const entries: TimelineEntry[] = [];
+    segments.forEach((segment, index) => {
+      const previous = index > 0 ? segments[index - 1] : null;
+      const contiguous = previous !== null && previous.startTime + previous.duration === segment.startTime;
+      const last = entries[entries.length - 1];
+      if (contiguous && last.duration === segment.duration) {
+        last.repeat++;
+      } else {
+        entries.push({ time: contiguous ? null : segment.startTime, duration: segment.duration, repeat: 0 });
+      }
+    });
+
+    for (const entry of entries) {
+      lines.push(`            <S ${entry.time !== null ? `t="${entry.time}" ` : ''}d="${entry.duration}"` +
+        `${entry.repeat > 0 ? ` r="${entry.repeat}"` : ''}/>`);
+    }
+
+    lines.push('          </SegmentTimeline>', '        </SegmentTemplate>', '      </Representation>');
+    return lines;
+  }
+}
\ No newline at end of file
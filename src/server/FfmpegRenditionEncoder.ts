@@ -0,0 +1,127 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { VideoFrame } from '../types';
+import { RenditionEncoder, RenditionEncoderConfig, RenditionEncoderFactory, RenditionEncoderSink } from './RenditionEncoder';
+
+// Keyframes follow the source; this only bounds GOPs of sources that never send one
+const MAX_GOP_FRAMES = 600;
+const STDERR_TAIL_BYTES = 2048;
+
+function isAccessUnitDelimiter(format: 'h264' | 'h265', header: number): boolean {
+  return format === 'h264' ? (header & 0x1f) === 9 : ((header >> 1) & 0x3f) === 35;
+}
+
+/**
+ * Transcoder backed by an ffmpeg binary with libx264/libx265
+ */
+export class FfmpegRenditionEncoderFactory implements RenditionEncoderFactory {
+  readonly name = 'ffmpeg';
+  private ffmpegPath: string;
+  private preset: string;
+
+  constructor(ffmpegPath: string = 'ffmpeg', preset: string = 'veryfast') {
+    this.ffmpegPath = ffmpegPath;
+    this.preset = preset;
+  }
+
+  create(config: RenditionEncoderConfig, sink: RenditionEncoderSink): RenditionEncoder {
+    return new FfmpegRenditionEncoder(this.ffmpegPath, this.preset, config, sink);
+  }
+}
+
+/**
+ * Pipes Annex B access units through one ffmpeg process
+ * Output keeps one access unit per input frame (no B-frames, frame rate passed through),
+ * places keyframes exactly where the source has them and starts each access unit with a
+ * delimiter so the output stream can be split back into frames
+ */
+class FfmpegRenditionEncoder implements RenditionEncoder {
+  private process: ChildProcessWithoutNullStreams;
+  private config: RenditionEncoderConfig;
+  private sink: RenditionEncoderSink;
+  private output: Buffer = Buffer.alloc(0);
+  private scanned = 0;
+  private stderr = '';
+  private closing = false;
+  private exited: Promise<void>;
+
+  constructor(ffmpegPath: string, preset: string, config: RenditionEncoderConfig, sink: RenditionEncoderSink) {
+    this.config = config;
+    this.sink = sink;
+    this.process = spawn(ffmpegPath, this.arguments(preset), { stdio: ['pipe', 'pipe', 'pipe'] });
+
+    this.process.stdout.on('data', (chunk: Buffer) => this.onOutput(chunk));
+    this.process.stderr.on('data', (chunk: Buffer) => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-STDERR_TAIL_BYTES);
+    });
+    // Write failures surface through the process exit below
+    this.process.stdin.on('error', () => {});
+
+    this.exited = new Promise(resolve => {
+      this.process.on('error', (error) => {
+        this.sink.error(new Error(`Failed to start ffmpeg: ${error.message}`));
+        resolve();
+      });
+      this.process.on('close', (code) => {
+        if (this.output.length > 0) {
+          this.sink.frame(this.output);
+          this.output = Buffer.alloc(0);
+        }
+        if (code !== 0 && code !== null && !this.closing) {
+          this.sink.error(new Error(`ffmpeg exited with code ${code}: ${this.stderr.trim()}`));
+        }
+        resolve();
+      });
+    });
+  }
+
+  encode(frame: VideoFrame): void {
+    if (!this.closing && this.process.stdin.writable) {
+      this.process.stdin.write(Buffer.from(frame.data));
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    this.process.stdin.end();
+    await this.exited;
+  }
+
+  private arguments(preset: string): string[] {
+    const { format, width, height, bitrate } = this.config;
+    const codec = format === 'h264'
+      ? ['-c:v', 'libx264', '-sc_threshold', '0', '-bsf:v', 'h264_metadata=aud=insert']
+      : ['-c:v', 'libx265', '-x265-params', 'scenecut=0:bframes=0:log-level=error', '-bsf:v', 'hevc_metadata=aud=insert'];
+
+    return [
+      '-hide_banner', '-loglevel', 'error',
+      '-f', format === 'h264' ? 'h264' : 'hevc', '-i', 'pipe:0',
+      '-an', '-vf', `scale=${width}:${height}`, '-fps_mode', 'passthrough',
+      '-preset', preset, '-tune', 'zerolatency', '-bf', '0',
+      '-g', String(MAX_GOP_FRAMES), '-force_key_frames', 'source',
+      '-b:v', String(bitrate), '-maxrate', String(bitrate), '-bufsize', String(bitrate * 2),
+      ...codec,
+      '-f', format === 'h264' ? 'h264' : 'hevc', 'pipe:1'
+    ];
+  }
+
+  /**
+   * Split the output byte stream into access units at each delimiter after the first
+   */
+  private onOutput(chunk: Buffer): void {
+    this.output = Buffer.concat([this.output, chunk]);
+
+    for (let i = Math.max(this.scanned, 3); i + 3 < this.output.length; i++) {
+      if (this.output[i] !== 0 || this.output[i + 1] !== 0 || this.output[i + 2] !== 1 ||
+          !isAccessUnitDelimiter(this.config.format, this.output[i + 3])) {
+        continue;
+      }
+
+      const boundary = this.output[i - 1] === 0 ? i - 1 : i;
+      this.sink.frame(this.output.subarray(0, boundary));
+      this.output = this.output.subarray(boundary);
+      i = 3;
+    }
+
+    this.scanned = Math.max(3, this.output.length - 3);
+  }
+}
\ No newline at end of file
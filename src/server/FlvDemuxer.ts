@@ -0,0 +1,271 @@
+import { VideoFrame, Resolution } from '../types';
+
+export const FLV_TAG_TYPES = {
+  AUDIO: 8,
+  VIDEO: 9,
+  SCRIPT_DATA: 18
+} as const;
+
+const FLV_CODEC_AVC = 7;
+const FLV_FRAME_KEY = 1;
+const AVC_SEQUENCE_HEADER = 0;
+const AVC_NALU = 1;
+const START_CODE = Buffer.from([0, 0, 0, 1]);
+
+export interface FlvTag {
+  type: number;
+  timestamp: number;
+  data: Buffer;
+}
+
+export interface FlvVideoTag {
+  frameType: number;
+  codecId: number;
+  keyframe: boolean;
+  avcPacketType: number | null;
+  compositionTime: number;
+  data: Buffer;
+}
+
+export interface FlvAudioTag {
+  soundFormat: number;
+  aacPacketType: number | null;
+  data: Buffer;
+}
+
+export interface AvcDecoderConfig {
+  profile: number;
+  level: number;
+  nalLengthSize: number;
+  sps: Buffer[];
+  pps: Buffer[];
+}
+
+/**
+ * Read the tags of an FLV file (header, then tag/previous-tag-size pairs)
+ */
+export function readFlvTags(buffer: Buffer): FlvTag[] {
+  if (buffer.length < 9 || buffer.toString('ascii', 0, 3) !== 'FLV') {
+    throw new Error('Not an FLV file');
+  }
+
+  const tags: FlvTag[] = [];
+  let offset = buffer.readUInt32BE(5) + 4; // header, then the first PreviousTagSize
+
+  while (offset + 11 <= buffer.length) {
+    const type = buffer[offset] & 0x1f;
+    const size = buffer.readUIntBE(offset + 1, 3);
+    // 24-bit timestamp with an 8-bit extension holding the upper bits
+    const timestamp = (buffer[offset + 7] << 24 | buffer.readUIntBE(offset + 4, 3)) >>> 0;
+    const end = offset + 11 + size;
+    if (end > buffer.length) {
+      throw new Error(`Truncated FLV tag at offset ${offset}`);
+    }
+
+    tags.push({ type, timestamp, data: buffer.subarray(offset + 11, end) });
+    offset = end + 4;
+  }
+
+  return tags;
+}
+
+/**
+ * Parse the header of an FLV video tag body
+ */
+export function parseVideoTag(payload: Buffer): FlvVideoTag {
+  if (payload.length < 1) {
+    throw new Error('Empty FLV video tag');
+  }
+
+  const frameType = payload[0] >> 4;
+  const codecId = payload[0] & 0x0f;
+
+  if (codecId !== FLV_CODEC_AVC) {
+    return {
+      frameType,
+      codecId,
+      keyframe: frameType === FLV_FRAME_KEY,
+      avcPacketType: null,
+      compositionTime: 0,
+      data: payload.subarray(1)
+    };
+  }
+
+  if (payload.length < 5) {
+    throw new Error('Truncated AVC video tag');
+  }
+
+  // Composition time is a signed 24-bit offset
+  const compositionTime = (payload.readUIntBE(2, 3) << 8) >> 8;
+
+  return {
+    frameType,
+    codecId,
+    keyframe: frameType === FLV_FRAME_KEY,
+    avcPacketType: payload[1],
+    compositionTime,
+    data: payload.subarray(5)
+  };
+}
+
+/**
+ * Parse the header of an FLV audio tag body
+ */
+export function parseAudioTag(payload: Buffer): FlvAudioTag {
+  if (payload.length < 1) {
+    throw new Error('Empty FLV audio tag');
+  }
+
+  const soundFormat = payload[0] >> 4;
+  const isAac = soundFormat === 10;
+
+  return {
+    soundFormat,
+    aacPacketType: isAac && payload.length > 1 ? payload[1] : null,
+    data: payload.subarray(isAac ? 2 : 1)
+  };
+}
+
+/**
+ * Parse an AVCDecoderConfigurationRecord (the AVC sequence header)
+ */
+export function parseAvcDecoderConfig(data: Buffer): AvcDecoderConfig {
+  if (data.length < 7 || data[0] !== 1) {
+    throw new Error('Invalid AVCDecoderConfigurationRecord');
+  }
+
+  const config: AvcDecoderConfig = {
+    profile: data[1],
+    level: data[3],
+    nalLengthSize: (data[4] & 0x03) + 1,
+    sps: [],
+    pps: []
+  };
+
+  let offset = 5;
+  const spsCount = data[offset++] & 0x1f;
+  for (let i = 0; i < spsCount; i++) {
+    const length = data.readUInt16BE(offset);
+    config.sps.push(data.subarray(offset + 2, offset + 2 + length));
+    offset += 2 + length;
+  }
+
+  const ppsCount = data[offset++];
+  for (let i = 0; i < ppsCount; i++) {
+    const length = data.readUInt16BE(offset);
+    config.pps.push(data.subarray(offset + 2, offset + 2 + length));
+    offset += 2 + length;
+  }
+
+  if (offset > data.length) {
+    throw new Error('Truncated AVCDecoderConfigurationRecord');
+  }
+
+  return config;
+}
+
+/**
+ * Convert length-prefixed (AVCC) NAL units to an Annex B byte stream
+ */
+export function avccToAnnexB(data: Buffer, nalLengthSize: number): Buffer {
+  const parts: Buffer[] = [];
+  let offset = 0;
+
+  while (offset + nalLengthSize <= data.length) {
+    const length = data.readUIntBE(offset, nalLengthSize);
+    offset += nalLengthSize;
+    if (offset + length > data.length) {
+      throw new Error('NAL unit length exceeds AVC packet');
+    }
+
+    parts.push(START_CODE, data.subarray(offset, offset + length));
+    offset += length;
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Turns FLV video tags into H.264 access units
+ * Keyframes carry the SPS/PPS in-band so each one is independently decodable
+ */
+export class FlvVideoDemuxer {
+  private resolution: Resolution;
+  private config: AvcDecoderConfig | null = null;
+  private baseTimestamp: number | null = null;
+  private baseWallClock = 0;
+  private droppedFrames = 0;
+
+  constructor(resolution: Resolution) {
+    this.resolution = resolution;
+  }
+
+  /**
+   * Update the frame dimensions, e.g. once stream metadata arrives
+   */
+  setResolution(resolution: Resolution): void {
+    this.resolution = resolution;
+  }
+
+  /**
+   * Demux one video tag, returning a frame when it carries an access unit
+   */
+  push(payload: Buffer, timestamp: number): VideoFrame | null {
+    const tag = parseVideoTag(payload);
+
+    if (tag.codecId !== FLV_CODEC_AVC) {
+      throw new Error(`Unsupported FLV video codec ${tag.codecId}`);
+    }
+
+    if (tag.avcPacketType === AVC_SEQUENCE_HEADER) {
+      this.config = parseAvcDecoderConfig(tag.data);
+      return null;
+    }
+
+    // End-of-sequence markers carry no picture data
+    if (tag.avcPacketType !== AVC_NALU) {
+      return null;
+    }
+
+    // NAL units cannot be delimited before the sequence header arrives
+    if (!this.config) {
+      this.droppedFrames++;
+      return null;
+    }
+
+    let data = avccToAnnexB(tag.data, this.config.nalLengthSize);
+    if (tag.keyframe) {
+      const parameterSets = [...this.config.sps, ...this.config.pps].flatMap(nal => [START_CODE, nal]);
+      data = Buffer.concat([...parameterSets, data]);
+    }
+
+    return {
+      data: new Uint8Array(data),
+      timestamp: this.toWallClock(timestamp),
+      width: this.resolution.width,
+      height: this.resolution.height,
+      format: 'h264',
+      keyframe: tag.keyframe
+    };
+  }
+
+  getDecoderConfig(): AvcDecoderConfig | null {
+    return this.config;
+  }
+
+  /**
+   * Get the number of frames dropped because no sequence header had arrived
+   */
+  getDroppedFrames(): number {
+    return this.droppedFrames;
+  }
+
+  private toWallClock(timestamp: number): number {
+    if (this.baseTimestamp === null) {
+      this.baseTimestamp = timestamp;
+      this.baseWallClock = Date.now();
+    }
+
+    return this.baseWallClock + (timestamp - this.baseTimestamp);
+  }
+}
\ No newline at end of file
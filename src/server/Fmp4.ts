@@ -0,0 +1,515 @@
+import { VideoFormat, VideoFrame } from '../types';
+import { splitAnnexB, toRbsp } from './MpegTsDemuxer';
+
+/**
+ * Fragmented MP4 (CMAF) writing for a single H.264 or H.265 video track
+ * Samples are stored with 4-byte NAL length prefixes; parameter sets live in the
+ * sample entry of the initialization segment rather than in-band
+ */
+
+export const FMP4_TIMESCALE = 90000;
+const TRACK_ID = 1;
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+const SAMPLE_FLAGS_SYNC = 0x02000000; // sample_depends_on = 2 (does not depend on others)
+const SAMPLE_FLAGS_NON_SYNC = 0x01010000; // depends on others, is_non_sync_sample
+
+// NAL unit types kept out of samples: parameter sets and access unit delimiters
+const H264_SPS = 7;
+const H264_PPS = 8;
+const H264_AUD = 9;
+const H264_IDR = 5;
+const H265_VPS = 32;
+const H265_SPS = 33;
+const H265_PPS = 34;
+const H265_AUD = 35;
+
+export type Fmp4VideoFormat = 'h264' | 'h265';
+
+export interface Fmp4TrackConfig {
+  format: Fmp4VideoFormat;
+  width: number;
+  height: number;
+  parameterSets: Buffer[]; // VPS (H.265 only), SPS and PPS, in that order
+  codec: string; // RFC 6381 codecs parameter, e.g. avc1.64001f
+}
+
+export interface Fmp4Sample {
+  data: Buffer; // length-prefixed NAL units
+  duration: number; // timescale units
+  keyframe: boolean;
+}
+
+/**
+ * A sample of a progressive MP4; its data is copied separately
+ */
+export interface Mp4SampleInfo {
+  size: number;
+  duration: number; // timescale units
+  keyframe: boolean;
+}
+
+/**
+ * Sample description and display size of a track, read back from an initialization segment
+ */
+export interface Mp4TrackDescription {
+  stsd: Buffer;
+  width: number;
+  height: number;
+}
+
+export function isFmp4VideoFormat(format: VideoFormat): format is Fmp4VideoFormat {
+  return format === 'h264' || format === 'h265';
+}
+
+function nalType(format: Fmp4VideoFormat, nal: Buffer): number {
+  return format === 'h264' ? nal[0] & 0x1f : (nal[0] >> 1) & 0x3f;
+}
+
+function isParameterSetOrDelimiter(format: Fmp4VideoFormat, type: number): boolean {
+  return format === 'h264'
+    ? type === H264_SPS || type === H264_PPS || type === H264_AUD
+    : type === H265_VPS || type === H265_SPS || type === H265_PPS || type === H265_AUD;
+}
+
+function isRandomAccess(format: Fmp4VideoFormat, type: number): boolean {
+  return format === 'h264' ? type === H264_IDR : type >= 16 && type <= 21;
+}
+
+function annexBUnits(data: Uint8Array): Buffer[] {
+  return splitAnnexB(Buffer.from(data.buffer, data.byteOffset, data.byteLength)).filter(nal => nal.length > 0);
+}
+
+/**
+ * Read the track configuration from the parameter sets of an Annex B keyframe
+ * Returns null when the access unit does not carry a complete set
+ */
+export function readTrackConfig(format: Fmp4VideoFormat, data: Uint8Array, width: number, height: number): Fmp4TrackConfig | null {
+  const found = new Map<number, Buffer>();
+  for (const nal of annexBUnits(data)) {
+    const type = nalType(format, nal);
+    if (!found.has(type)) {
+      found.set(type, Buffer.from(nal));
+    }
+  }
+
+  const types = format === 'h264' ? [H264_SPS, H264_PPS] : [H265_VPS, H265_SPS, H265_PPS];
+  if (!types.every(type => found.has(type))) {
+    return null;
+  }
+
+  const parameterSets = types.map(type => found.get(type)!);
+  const sps = parameterSets[types.length - 2];
+  return {
+    format,
+    width,
+    height,
+    parameterSets,
+    codec: format === 'h264' ? `avc1.${sps.subarray(1, 4).toString('hex')}` : h265CodecString(sps)
+  };
+}
+
+/**
+ * Check whether two configurations can share an initialization segment
+ */
+export function sameTrackConfig(a: Fmp4TrackConfig, b: Fmp4TrackConfig): boolean {
+  return a.format === b.format
+    && a.width === b.width
+    && a.height === b.height
+    && a.parameterSets.length === b.parameterSets.length
+    && a.parameterSets.every((set, index) => set.equals(b.parameterSets[index]));
+}
+
+/**
+ * Convert an Annex B access unit to sample data, detecting whether it is a random access point
+ */
+export function toSampleData(format: Fmp4VideoFormat, data: Uint8Array): { data: Buffer; keyframe: boolean } {
+  const units: Buffer[] = [];
+  let keyframe = false;
+
+  for (const nal of annexBUnits(data)) {
+    const type = nalType(format, nal);
+    keyframe = keyframe || isRandomAccess(format, type);
+    if (isParameterSetOrDelimiter(format, type)) {
+      continue;
+    }
+
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(nal.length, 0);
+    units.push(length, nal);
+  }
+
+  return { data: Buffer.concat(units), keyframe };
+}
+
+/**
+ * Check whether a frame can start playback; raw frames are each decodable on their own
+ */
+export function isRandomAccessFrame(frame: VideoFrame): boolean {
+  if (frame.keyframe !== undefined) {
+    return frame.keyframe;
+  }
+  return isFmp4VideoFormat(frame.format) ? toSampleData(frame.format, frame.data).keyframe : true;
+}
+
+/**
+ * Build the hvc1 codecs parameter from the general profile_tier_level of an SPS
+ */
+function h265CodecString(sps: Buffer): string {
+  const ptl = toRbsp(sps.subarray(2)).subarray(1, 13);
+  const profileSpace = ['', 'A', 'B', 'C'][ptl[0] >> 6];
+  const tier = ptl[0] & 0x20 ? 'H' : 'L';
+  const profile = ptl[0] & 0x1f;
+
+  // Compatibility flags are written in reverse bit order
+  const flags = ptl.readUInt32BE(1);
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = ((reversed << 1) | ((flags >>> i) & 1)) >>> 0;
+  }
+
+  const constraints = Array.from(ptl.subarray(5, 11));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+    constraints.pop();
+  }
+
+  return [
+    `hvc1.${profileSpace}${profile}`,
+    reversed.toString(16).toUpperCase(),
+    `${tier}${ptl[11]}`,
+    ...constraints.map(byte => byte.toString(16).toUpperCase())
+  ].join('.');
+}
+
+function box(type: string, ...payloads: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + payloads.reduce((size, payload) => size + payload.length, 0), 0);
+  header.write(type, 4, 'ascii');
+  return Buffer.concat([header, ...payloads]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payloads: Buffer[]): Buffer {
+  return box(type, Buffer.from([version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff]), ...payloads);
+}
+
+function u32(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => data.writeUInt32BE(value >>> 0, index * 4));
+  return data;
+}
+
+/**
+ * Write a list of 32-bit values without spreading it into arguments, for tables of any length
+ */
+function u32List(values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => data.writeUInt32BE(value >>> 0, index * 4));
+  return data;
+}
+
+/**
+ * Find a box by its path of container types, e.g. ['moov', 'trak', 'tkhd']
+ * Returns the whole box including its header, or null when it is missing or truncated
+ */
+function findBox(data: Buffer, path: string[]): Buffer | null {
+  let current = data;
+  let offset = 0;
+
+  for (const type of path) {
+    let found: Buffer | null = null;
+    for (let position = offset; position + 8 <= current.length;) {
+      const size = current.readUInt32BE(position);
+      if (size < 8 || position + size > current.length) {
+        break;
+      }
+      if (current.toString('ascii', position + 4, position + 8) === type) {
+        found = current.subarray(position, position + size);
+        break;
+      }
+      position += size;
+    }
+
+    if (!found) {
+      return null;
+    }
+    current = found;
+    offset = 8;
+  }
+
+  return current;
+}
+
+function avcC(sps: Buffer, pps: Buffer): Buffer {
+  const parts = [
+    Buffer.from([1, sps[1], sps[2], sps[3], 0xfc | 3, 0xe0 | 1]),
+    Buffer.from([sps.length >> 8, sps.length & 0xff]), sps,
+    Buffer.from([1, pps.length >> 8, pps.length & 0xff]), pps
+  ];
+
+  // High profiles carry chroma format and bit depth (4:2:0, 8-bit assumed; decoders use the SPS)
+  if ([100, 110, 122, 244].includes(sps[1])) {
+    parts.push(Buffer.from([0xfc | 1, 0xf8, 0xf8, 0]));
+  }
+
+  return box('avcC', ...parts);
+}
+
+function hvcC(vps: Buffer, sps: Buffer, pps: Buffer): Buffer {
+  const rbsp = toRbsp(sps.subarray(2));
+  const header = Buffer.alloc(23);
+  header[0] = 1; // configurationVersion
+  rbsp.copy(header, 1, 1, 13); // general profile_tier_level
+  header.writeUInt16BE(0xf000, 13); // min_spatial_segmentation_idc
+  header[15] = 0xfc; // parallelismType unknown
+  header[16] = 0xfc | 1; // 4:2:0, 8-bit assumed; decoders use the SPS
+  header[17] = 0xf8;
+  header[18] = 0xf8;
+  header[21] = ((((rbsp[0] >> 1) & 0x07) + 1) << 3) | ((rbsp[0] & 1) << 2) | 3;
+  header[22] = 3; // numOfArrays
+
+  const arrays = [vps, sps, pps].map(nal => Buffer.concat([
+    Buffer.from([0x80 | nalType('h265', nal), 0, 1, nal.length >> 8, nal.length & 0xff]),
+    nal
+  ]));
+
+  return box('hvcC', header, ...arrays);
+}
+
+function sampleEntry(config: Fmp4TrackConfig): Buffer {
+  const entry = Buffer.alloc(78);
+  entry.writeUInt16BE(1, 6); // data_reference_index
+  entry.writeUInt16BE(config.width, 24);
+  entry.writeUInt16BE(config.height, 26);
+  entry.writeUInt32BE(0x00480000, 28); // 72 dpi
+  entry.writeUInt32BE(0x00480000, 32);
+  entry.writeUInt16BE(1, 40); // frame_count
+  entry.writeUInt16BE(0x0018, 74); // depth
+  entry.writeInt16BE(-1, 76);
+
+  const [first, second, third] = config.parameterSets;
+  return config.format === 'h264'
+    ? box('avc1', entry, avcC(first, second))
+    : box('hvc1', entry, hvcC(first, second, third));
+}
+
+/**
+ * Create the initialization segment (ftyp + moov) for a track
+ */
+export function createInitSegment(config: Fmp4TrackConfig): Buffer {
+  const ftyp = box('ftyp', Buffer.from('cmfc', 'ascii'), u32(0), Buffer.from('cmfciso6mp41', 'ascii'));
+
+  const mvhd = fullBox('mvhd', 0, 0,
+    u32(0, 0, 1000, 0, 0x00010000), Buffer.from([0x01, 0x00]), Buffer.alloc(10),
+    u32(...UNITY_MATRIX), Buffer.alloc(24), u32(TRACK_ID + 1));
+
+  const tkhd = fullBox('tkhd', 0, 0x000003,
+    u32(0, 0, TRACK_ID, 0, 0), Buffer.alloc(16),
+    u32(...UNITY_MATRIX), u32(config.width * 0x10000, config.height * 0x10000));
+
+  const mdhd = fullBox('mdhd', 0, 0, u32(0, 0, FMP4_TIMESCALE, 0), Buffer.from([0x55, 0xc4, 0, 0])); // language "und"
+  const hdlr = fullBox('hdlr', 0, 0, u32(0), Buffer.from('vide', 'ascii'), Buffer.alloc(12), Buffer.from('VideoHandler\0', 'ascii'));
+
+  const stbl = box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry(config)),
+    fullBox('stts', 0, 0, u32(0)),
+    fullBox('stsc', 0, 0, u32(0)),
+    fullBox('stsz', 0, 0, u32(0, 0)),
+    fullBox('stco', 0, 0, u32(0)));
+
+  const minf = box('minf',
+    fullBox('vmhd', 0, 1, Buffer.alloc(8)),
+    box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+    stbl);
+
+  const trak = box('trak', tkhd, box('mdia', mdhd, hdlr, minf));
+  const mvex = box('mvex', fullBox('trex', 0, 0, u32(TRACK_ID, 1, 0, 0, 0)));
+
+  return Buffer.concat([ftyp, box('moov', mvhd, trak, mvex)]);
+}
+
+/**
+ * Create a media fragment (moof + mdat) holding consecutive samples
+ */
+export function createFragment(sequenceNumber: number, baseDecodeTime: number, samples: Fmp4Sample[]): Buffer {
+  const entries = Buffer.alloc(samples.length * 12);
+  samples.forEach((sample, index) => {
+    entries.writeUInt32BE(sample.duration, index * 12);
+    entries.writeUInt32BE(sample.data.length, index * 12 + 4);
+    entries.writeUInt32BE(sample.keyframe ? SAMPLE_FLAGS_SYNC : SAMPLE_FLAGS_NON_SYNC, index * 12 + 8);
+  });
+
+  // data-offset, sample-duration, sample-size and sample-flags present
+  const trun = fullBox('trun', 0, 0x000701, u32(samples.length, 0), entries);
+  const decodeTime = Buffer.alloc(8);
+  decodeTime.writeBigUInt64BE(BigInt(baseDecodeTime));
+
+  const moof = box('moof',
+    fullBox('mfhd', 0, 0, u32(sequenceNumber)),
+    box('traf',
+      fullBox('tfhd', 0, 0x020000, u32(TRACK_ID)), // default-base-is-moof
+      fullBox('tfdt', 1, 0, decodeTime),
+      trun));
+
+  // trun closes the moof; its data offset points just past the mdat header
+  moof.writeUInt32BE(moof.length + 8, moof.length - trun.length + 16);
+
+  return Buffer.concat([moof, box('mdat', ...samples.map(sample => sample.data))]);
+}
+/**
+ * Read the sample description and display size from an initialization segment
+ */
+export function readTrackDescription(init: Buffer): Mp4TrackDescription | null {
+  const tkhd = findBox(init, ['moov', 'trak', 'tkhd']);
+  const stsd = findBox(init, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stsd']);
+  if (!tkhd || !stsd || tkhd.length < 92) {
+    return null;
+  }
+
+  // tkhd ends with the 16.16 fixed-point width and height
+  return {
+    stsd: Buffer.from(stsd),
+    width: tkhd.readUInt32BE(tkhd.length - 8) >>> 16,
+    height: tkhd.readUInt32BE(tkhd.length - 4) >>> 16
+  };
+}
+
+/**
+ * Read the samples of a movie fragment's first track
+ * The data offset is relative to the start of the moof, where default-base-is-moof puts it
+ */
+export function readFragmentSamples(moof: Buffer): { dataOffset: number; samples: Mp4SampleInfo[] } | null {
+  const tfhd = findBox(moof, ['moof', 'traf', 'tfhd']);
+  const trun = findBox(moof, ['moof', 'traf', 'trun']);
+  if (!tfhd || !trun || tfhd.length < 16 || trun.length < 16) {
+    return null;
+  }
+
+  const tfhdFlags = tfhd.readUInt32BE(8) & 0xffffff;
+  if (tfhdFlags & 0x000001) {
+    return null; // explicit base data offsets are not written by this module
+  }
+
+  let position = 16;
+  position += tfhdFlags & 0x000002 ? 4 : 0; // sample description index
+  let defaultDuration = 0;
+  let defaultSize = 0;
+  let defaultFlags = 0;
+  if (tfhdFlags & 0x000008) {
+    defaultDuration = tfhd.readUInt32BE(position);
+    position += 4;
+  }
+  if (tfhdFlags & 0x000010) {
+    defaultSize = tfhd.readUInt32BE(position);
+    position += 4;
+  }
+  if (tfhdFlags & 0x000020) {
+    defaultFlags = tfhd.readUInt32BE(position);
+  }
+
+  const flags = trun.readUInt32BE(8) & 0xffffff;
+  const count = trun.readUInt32BE(12);
+  const fields = [0x000100, 0x000200, 0x000400, 0x000800].filter(field => flags & field).length;
+  let offset = 16;
+  let dataOffset = 0;
+  let firstFlags: number | null = null;
+
+  if (flags & 0x000001) {
+    dataOffset = trun.readInt32BE(offset);
+    offset += 4;
+  }
+  if (flags & 0x000004) {
+    firstFlags = trun.readUInt32BE(offset);
+    offset += 4;
+  }
+  if (offset + count * fields * 4 > trun.length) {
+    return null;
+  }
+
+  const samples: Mp4SampleInfo[] = [];
+  for (let index = 0; index < count; index++) {
+    const read = (field: number, fallback: number): number => {
+      if (!(flags & field)) {
+        return fallback;
+      }
+      const value = trun.readUInt32BE(offset);
+      offset += 4;
+      return value;
+    };
+
+    const duration = read(0x000100, defaultDuration);
+    const size = read(0x000200, defaultSize);
+    const sampleFlags = read(0x000400, index === 0 && firstFlags !== null ? firstFlags : defaultFlags);
+    read(0x000800, 0); // composition offsets are not kept
+    samples.push({ size, duration, keyframe: (sampleFlags & 0x00010000) === 0 });
+  }
+
+  return { dataOffset, samples };
+}
+
+/**
+ * Create everything of a progressive MP4 that precedes its sample data: ftyp, moov and the mdat header
+ * All samples are stored as one chunk directly after the header, so the movie box comes
+ * first and players can seek without reading the whole file
+ */
+export function createProgressiveHeader(track: Mp4TrackDescription, samples: Mp4SampleInfo[]): Buffer {
+  const ftyp = box('ftyp', Buffer.from('isom', 'ascii'), u32(0x200), Buffer.from('isomiso2mp41', 'ascii'));
+
+  const mediaDuration = samples.reduce((total, sample) => total + sample.duration, 0);
+  const movieDuration = Math.round(mediaDuration * 1000 / FMP4_TIMESCALE);
+  const dataSize = samples.reduce((total, sample) => total + sample.size, 0);
+
+  // Sizes beyond 32 bits use the 64-bit mdat header
+  const mdatHeader = Buffer.alloc(dataSize + 8 > 0xffffffff ? 16 : 8);
+  if (mdatHeader.length === 16) {
+    mdatHeader.writeUInt32BE(1, 0);
+    mdatHeader.write('mdat', 4, 'ascii');
+    mdatHeader.writeBigUInt64BE(BigInt(dataSize + 16), 8);
+  } else {
+    mdatHeader.writeUInt32BE(dataSize + 8, 0);
+    mdatHeader.write('mdat', 4, 'ascii');
+  }
+
+  // Consecutive samples of equal duration share a time-to-sample entry
+  const runs: number[] = [];
+  for (const sample of samples) {
+    if (runs.length > 0 && runs[runs.length - 1] === sample.duration) {
+      runs[runs.length - 2]++;
+    } else {
+      runs.push(1, sample.duration);
+    }
+  }
+
+  const keyframes = samples.flatMap((sample, index) => sample.keyframe ? [index + 1] : []);
+  const mdhd = mediaDuration > 0xffffffff
+    ? fullBox('mdhd', 1, 0, Buffer.alloc(16), u32(FMP4_TIMESCALE), u32(Math.floor(mediaDuration / 0x100000000), mediaDuration % 0x100000000), Buffer.from([0x55, 0xc4, 0, 0]))
+    : fullBox('mdhd', 0, 0, u32(0, 0, FMP4_TIMESCALE, mediaDuration), Buffer.from([0x55, 0xc4, 0, 0]));
+  const hdlr = fullBox('hdlr', 0, 0, u32(0), Buffer.from('vide', 'ascii'), Buffer.alloc(12), Buffer.from('VideoHandler\0', 'ascii'));
+
+  const moov = (chunkOffset: number): Buffer => {
+    const stbl = box('stbl',
+      track.stsd,
+      fullBox('stts', 0, 0, u32(runs.length / 2), u32List(runs)),
+      fullBox('stss', 0, 0, u32(keyframes.length), u32List(keyframes)),
+      fullBox('stsc', 0, 0, ...(samples.length > 0 ? [u32(1, 1, samples.length, 1)] : [u32(0)])),
+      fullBox('stsz', 0, 0, u32(0, samples.length), u32List(samples.map(sample => sample.size))),
+      fullBox('stco', 0, 0, ...(samples.length > 0 ? [u32(1, chunkOffset)] : [u32(0)])));
+
+    const minf = box('minf',
+      fullBox('vmhd', 0, 1, Buffer.alloc(8)),
+      box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+      stbl);
+
+    const mvhd = fullBox('mvhd', 0, 0,
+      u32(0, 0, 1000, movieDuration, 0x00010000), Buffer.from([0x01, 0x00]), Buffer.alloc(10),
+      u32(...UNITY_MATRIX), Buffer.alloc(24), u32(TRACK_ID + 1));
+
+    const tkhd = fullBox('tkhd', 0, 0x000003,
+      u32(0, 0, TRACK_ID, 0, movieDuration), Buffer.alloc(16),
+      u32(...UNITY_MATRIX), u32(track.width * 0x10000, track.height * 0x10000));
+
+    return box('moov', mvhd, box('trak', tkhd, box('mdia', mdhd, hdlr, minf)));
+  };
+
+  // The moov size does not depend on the offset it records
+  const chunkOffset = ftyp.length + moov(0).length + mdatHeader.length;
+  return Buffer.concat([ftyp, moov(chunkOffset), mdatHeader]);
+}
\ No newline at end of file
@@ -0,0 +1,270 @@
+import { CmafPackager } from './CmafPackager';
+import { CmafSegmenter } from './CmafSegmenter';
+import { FMP4_TIMESCALE } from './Fmp4';
+import { QualityLevel, StreamId } from '../types';
+
+/**
+ * Blocking playlist reload parameters (_HLS_msn and _HLS_part)
+ */
+export interface HlsPlaylistRequest {
+  msn?: number;
+  part?: number;
+}
+
+const HLS_VERSION = 6;
+export const HLS_MEDIA_PLAYLIST = 'video.m3u8';
+
+function seconds(ticks: number): string {
+  return (ticks / FMP4_TIMESCALE).toFixed(3);
+}
+
+/**
+ * Renders HLS with Low-Latency HLS extensions from a stream's CMAF renditions
+ * Each rendition gets a media playlist, rendered on request from its segmenter's rolling
+ * window, with blocking reloads and preload hints for the next part
+ */
+export class HlsPackager {
+  private cmafPackager: CmafPackager;
+
+  constructor(cmafPackager: CmafPackager) {
+    this.cmafPackager = cmafPackager;
+  }
+
+  /**
+   * Render the multivariant playlist listing each rendition that has produced a part
+   */
+  getMultivariantPlaylist(streamId: StreamId): string | null {
+    const lines = [
+      '#EXTM3U',
+      `#EXT-X-VERSION:${HLS_VERSION}`,
+      '#EXT-X-INDEPENDENT-SEGMENTS'
+    ];
+
+    for (const quality of this.cmafPackager.getRenditions(streamId)) {
+      const segmenter = this.cmafPackager.getSegmenter(streamId, quality)!;
+      const init = segmenter.getCurrentInit();
+      const bandwidth = this.cmafPackager.getBandwidth(streamId, quality);
+      if (!init || !bandwidth) {
+        continue;
+      }
+
+      const { config } = init;
+      lines.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth.peak},AVERAGE-BANDWIDTH=${bandwidth.average},CODECS="${config.codec}",` +
+          `RESOLUTION=${config.width}x${config.height},FRAME-RATE=${segmenter.getFrameRate().toFixed(3)}`,
+        `${quality}/${HLS_MEDIA_PLAYLIST}`
+      );
+    }
+
+    return lines.length > 3 ? lines.join('\n') + '\n' : null;
+  }
+
+  /**
+   * Render the media playlist, first waiting for the requested segment or part if the
+   * request is a blocking reload (held for at most three target durations)
+   */
+  async getMediaPlaylist(streamId: StreamId, quality: QualityLevel, request: HlsPlaylistRequest = {}): Promise<string | null> {
+    const segmenter = this.cmafPackager.getSegmenter(streamId, quality);
+    if (!segmenter) {
+      return null;
+    }
+
+    if (request.msn !== undefined) {
+      this.validatePlaylistRequest(segmenter, request);
+      const { msn, part } = request;
+      await this.waitFor(segmenter, () => this.isAvailable(segmenter, msn, part), 3000 * this.targetDuration(segmenter));
+    } else if (request.part !== undefined) {
+      throw new Error('_HLS_part requires _HLS_msn');
+    }
+
+    return this.renderMediaPlaylist(segmenter);
+  }
+
+  /**
+   * Get a part; a request for the part named in the preload hint is held until it is produced
+   */
+  async getPart(streamId: StreamId, quality: QualityLevel, sequenceNumber: number, index: number): Promise<Buffer | null> {
+    const segmenter = this.cmafPackager.getSegmenter(streamId, quality);
+    if (!segmenter) {
+      return null;
+    }
+
+    const existing = segmenter.getPart(sequenceNumber, index);
+    if (existing) {
+      return existing.data;
+    }
+
+    const hint = this.preloadHint(segmenter);
+    if (!hint || hint.sequenceNumber !== sequenceNumber || hint.index !== index) {
+      return null;
+    }
+
+    // The hinted part may never exist if a keyframe starts a new segment first
+    await this.waitFor(segmenter, () => {
+      const segment = segmenter.getSegment(sequenceNumber);
+      return segmenter.isEnded() || segment?.complete === true || segment?.parts[index] !== undefined;
+    }, 3000 * this.targetDuration(segmenter));
+
+    return segmenter.getPart(sequenceNumber, index)?.data || null;
+  }
+
+  private validatePlaylistRequest(segmenter: CmafSegmenter, request: HlsPlaylistRequest): void {
+    const { msn, part } = request;
+    if (!Number.isInteger(msn) || msn! < 0 || (part !== undefined && (!Number.isInteger(part) || part < 0))) {
+      throw new Error('_HLS_msn and _HLS_part must be non-negative integers');
+    }
+
+    const segments = segmenter.getSegments();
+    const last = segments.length > 0 ? segments[segments.length - 1].sequenceNumber : -1;
+    if (msn! > last + 2) {
+      throw new Error(`_HLS_msn ${msn} is more than two segments beyond the playlist`);
+    }
+  }
+
+  /**
+   * Check whether a playlist would contain the segment, or part of it, a blocking request waits for
+   * A part index past the end of a completed segment refers to the first part of the next one
+   */
+  private isAvailable(segmenter: CmafSegmenter, msn: number, part: number | undefined): boolean {
+    if (segmenter.isEnded()) {
+      return true;
+    }
+
+    const segments = segmenter.getSegments();
+    if (segments.length > 0 && msn < segments[0].sequenceNumber) {
+      return true;
+    }
+
+    const segment = segments.find(candidate => candidate.sequenceNumber === msn);
+    if (!segment) {
+      return false;
+    }
+
+    if (part === undefined) {
+      return segment.complete;
+    }
+
+    if (part < segment.parts.length) {
+      return true;
+    }
+
+    return segment.complete && this.isAvailable(segmenter, msn + 1, 0);
+  }
+
+  private renderMediaPlaylist(segmenter: CmafSegmenter): string | null {
+    const segments = segmenter.getSegments();
+    if (segments.length === 0) {
+      return null;
+    }
+
+    const options = segmenter.getOptions();
+    const targetDuration = this.targetDuration(segmenter);
+    const partTarget = Math.max(
+      options.partTargetMs / 1000,
+      ...segments.flatMap(segment => segment.parts.map(part => part.duration / FMP4_TIMESCALE))
+    );
+
+    const lines = [
+      '#EXTM3U',
+      `#EXT-X-VERSION:${HLS_VERSION}`,
+      `#EXT-X-TARGETDURATION:${targetDuration}`,
+      `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(3 * partTarget).toFixed(3)}`,
+      `#EXT-X-PART-INF:PART-TARGET=${partTarget.toFixed(3)}`,
+      `#EXT-X-MEDIA-SEQUENCE:${segments[0].sequenceNumber}`
+    ];
+    if (segments[0].discontinuitySequence > 0) {
+      lines.push(`#EXT-X-DISCONTINUITY-SEQUENCE:${segments[0].discontinuitySequence}`);
+    }
+
+    // Parts are only listed near the live edge
+    const last = segments[segments.length - 1];
+    const partsFrom = last.startTime + last.duration - 3 * targetDuration * FMP4_TIMESCALE;
+
+    segments.forEach((segment, index) => {
+      if (index > 0 && segment.discontinuity) {
+        lines.push('#EXT-X-DISCONTINUITY');
+      }
+      if (index === 0 || segment.initId !== segments[index - 1].initId) {
+        lines.push(`#EXT-X-MAP:URI="init${segment.initId}.mp4"`);
+      }
+      if (index === 0 || segment.discontinuity) {
+        lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(segment.programDateTime).toISOString()}`);
+      }
+
+      if (segment.startTime + segment.duration > partsFrom) {
+        for (const part of segment.parts) {
+          lines.push(`#EXT-X-PART:DURATION=${seconds(part.duration)},URI="seg${segment.sequenceNumber}.${part.index}.m4s"` +
+            (part.independent ? ',INDEPENDENT=YES' : ''));
+        }
+      }
+
+      if (segment.complete) {
+        lines.push(`#EXTINF:${seconds(segment.duration)},`, `seg${segment.sequenceNumber}.m4s`);
+      }
+    });
+
+    const hint = this.preloadHint(segmenter);
+    if (hint) {
+      lines.push(`#EXT-X-PRELOAD-HINT:TYPE=PART,URI="seg${hint.sequenceNumber}.${hint.index}.m4s"`);
+    } else {
+      lines.push('#EXT-X-ENDLIST');
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Get the part that will be produced next, or null once the stream has ended
+   */
+  private preloadHint(segmenter: CmafSegmenter): { sequenceNumber: number; index: number } | null {
+    if (segmenter.isEnded()) {
+      return null;
+    }
+
+    const open = segmenter.getOpenSegment();
+    if (open) {
+      return { sequenceNumber: open.sequenceNumber, index: open.parts.length };
+    }
+
+    const segments = segmenter.getSegments();
+    const last = segments[segments.length - 1];
+    return { sequenceNumber: last ? last.sequenceNumber + 1 : 0, index: 0 };
+  }
+
+  /**
+   * Get EXT-X-TARGETDURATION: the configured duration, or the longest segment if a
+   * stream's keyframe interval forced a longer one
+   */
+  private targetDuration(segmenter: CmafSegmenter): number {
+    const longest = Math.max(0, ...segmenter.getSegments()
+      .filter(segment => segment.complete)
+      .map(segment => segment.duration / FMP4_TIMESCALE));
+    return Math.max(1, Math.round(Math.max(segmenter.getOptions().segmentDurationMs / 1000, longest)));
+  }
+
+  private waitFor(segmenter: CmafSegmenter, ready: () => boolean, timeoutMs: number): Promise<boolean> {
+    if (ready()) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const check = () => {
+        if (ready()) {
+          finish(true);
+        }
+      };
+      const finish = (result: boolean) => {
+        clearTimeout(timer);
+        segmenter.off('part:ready', check);
+        segmenter.off('segment:ready', check);
+        segmenter.off('ended', check);
+        resolve(result);
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs);
+
+      segmenter.on('part:ready', check);
+      segmenter.on('segment:ready', check);
+      segmenter.on('ended', check);
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import { FMP4_TIMESCALE, Mp4SampleInfo, Mp4TrackDescription, createProgressiveHeader, readFragmentSamples, readTrackDescription } from './Fmp4';
+
+export interface RemuxResult {
+  durationMs: number;
+  size: number; // bytes of the progressive file
+  samples: number;
+  fragments: number;
+}
+
+/**
+ * Byte range of sample data in the fragmented source
+ */
+interface DataRange {
+  position: number;
+  length: number;
+}
+
+const COPY_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Rewrite a fragmented MP4 as a progressive one with the movie box first
+ * Fragments are read up to the last complete one, so a recording cut short by a crash
+ * keeps everything that reached the disk. The output is written beside the destination
+ * and renamed into place once synced
+ */
+export async function remuxToMp4(source: string, destination: string): Promise<RemuxResult> {
+  const input = await fs.open(source, 'r');
+  let track: Mp4TrackDescription | null = null;
+  const samples: Mp4SampleInfo[] = [];
+  const ranges: DataRange[] = [];
+  let fragments = 0;
+
+  try {
+    const { size: fileSize } = await input.stat();
+    let position = 0;
+    let moof: { position: number; dataOffset: number; samples: Mp4SampleInfo[] } | null = null;
+
+    while (position + 8 <= fileSize) {
+      const header = await read(input, position, 16);
+      let size = header.readUInt32BE(0);
+      const type = header.toString('ascii', 4, 8);
+      if (size === 1 && header.length === 16) {
+        size = Number(header.readBigUInt64BE(8));
+      }
+      if (size < 8 || position + size > fileSize) {
+        break; // a fragment still being written when the recording stopped
+      }
+
+      if (type === 'moov') {
+        track = readTrackDescription(await read(input, position, size));
+      } else if (type === 'moof') {
+        const fragment = readFragmentSamples(await read(input, position, size));
+        moof = fragment ? { position, ...fragment } : null;
+      } else if (type === 'mdat' && moof) {
+        const length = moof.samples.reduce((total, sample) => total + sample.size, 0);
+        if (moof.position + moof.dataOffset + length > position + size) {
+          break;
+        }
+        ranges.push({ position: moof.position + moof.dataOffset, length });
+        samples.push(...moof.samples);
+        fragments++;
+        moof = null;
+      }
+
+      position += size;
+    }
+  } catch (error) {
+    await input.close();
+    throw error;
+  }
+
+  if (!track || samples.length === 0) {
+    await input.close();
+    throw new Error(`${source} has no complete fragments to remux`);
+  }
+
+  const temporary = `${destination}.tmp`;
+  const output = await fs.open(temporary, 'w');
+  try {
+    const header = createProgressiveHeader(track, samples);
+    await output.write(header);
+    let size = header.length;
+
+    const buffer = Buffer.alloc(COPY_CHUNK_BYTES);
+    for (const range of ranges) {
+      for (let copied = 0; copied < range.length;) {
+        const length = Math.min(buffer.length, range.length - copied);
+        const { bytesRead } = await input.read(buffer, 0, length, range.position + copied);
+        if (bytesRead === 0) {
+          throw new Error(`${source} ended while copying sample data`);
+        }
+        await output.write(buffer.subarray(0, bytesRead));
+        copied += bytesRead;
+        size += bytesRead;
+      }
+    }
+
+    await output.sync();
+    await output.close();
+    await input.close();
+    await fs.rename(temporary, destination);
+
+    return {
+      durationMs: Math.round(samples.reduce((total, sample) => total + sample.duration, 0) * 1000 / FMP4_TIMESCALE),
+      size,
+      samples: samples.length,
+      fragments
+    };
+  } catch (error) {
+    await output.close().catch(() => {});
+    await input.close().catch(() => {});
+    await fs.unlink(temporary).catch(() => {});
+    throw error;
+  }
+}
+
+async function read(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
\ No newline at end of file
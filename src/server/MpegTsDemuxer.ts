@@ -0,0 +1,495 @@
+import { VideoFrame, Resolution } from '../types';
+
+/**
+ * MPEG transport stream demux for contribution feeds
+ * Follows the PAT and PMT to the first H.264 or H.265 elementary stream and
+ * returns one frame per PES packet (encoders carry one access unit per PES)
+ */
+
+export const TS_PACKET_SIZE = 188;
+const TS_SYNC_BYTE = 0x47;
+const PAT_PID = 0;
+const STREAM_TYPE_H264 = 0x1b;
+const STREAM_TYPE_H265 = 0x24;
+const PTS_WRAP = 2 ** 33;
+
+export type TsVideoFormat = 'h264' | 'h265';
+
+interface PesAssembly {
+  pts: number | null;
+  expectedLength: number | null;
+  chunks: Buffer[];
+  length: number;
+}
+
+/**
+ * Reads Exp-Golomb coded fields from an RBSP
+ */
+class BitReader {
+  private data: Buffer;
+  private offset = 0;
+
+  constructor(data: Buffer) {
+    this.data = data;
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.data[this.offset >> 3];
+      if (byte === undefined) {
+        throw new Error('Truncated parameter set');
+      }
+      value = value * 2 + ((byte >> (7 - (this.offset & 7))) & 1);
+      this.offset++;
+    }
+    return value;
+  }
+
+  skip(count: number): void {
+    this.offset += count;
+  }
+
+  ue(): number {
+    let zeros = 0;
+    while (this.bits(1) === 0) {
+      if (++zeros > 31) {
+        throw new Error('Invalid Exp-Golomb code');
+      }
+    }
+    return 2 ** zeros - 1 + this.bits(zeros);
+  }
+
+  se(): number {
+    const value = this.ue();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  }
+}
+
+/**
+ * Strip emulation prevention bytes (00 00 03) from a NAL unit payload
+ */
+export function toRbsp(nal: Buffer): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < nal.length; i++) {
+    if (i >= 2 && nal[i] === 3 && nal[i - 1] === 0 && nal[i - 2] === 0) {
+      continue;
+    }
+    bytes.push(nal[i]);
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Split an Annex B byte stream into NAL units (without start codes)
+ */
+export function splitAnnexB(data: Buffer): Buffer[] {
+  const nals: Buffer[] = [];
+  let start = -1;
+
+  for (let i = 0; i + 2 < data.length; i++) {
+    if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+      if (start >= 0) {
+        // A four-byte start code leaves a trailing zero on the previous unit
+        const end = data[i - 1] === 0 ? i - 1 : i;
+        nals.push(data.subarray(start, end));
+      }
+      start = i + 3;
+      i += 2;
+    }
+  }
+
+  if (start >= 0 && start < data.length) {
+    nals.push(data.subarray(start));
+  }
+
+  return nals;
+}
+
+/**
+ * Read the coded picture size from an H.264 sequence parameter set NAL unit
+ */
+export function parseH264SpsResolution(nal: Buffer): Resolution {
+  const reader = new BitReader(toRbsp(nal.subarray(1)));
+  const profile = reader.bits(8);
+  reader.skip(16); // constraint flags and level
+  reader.ue(); // seq_parameter_set_id
+
+  let chromaFormat = 1;
+  if ([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135].includes(profile)) {
+    chromaFormat = reader.ue();
+    if (chromaFormat === 3 && reader.bits(1) === 1) {
+      chromaFormat = 0; // separate colour planes are coded as monochrome
+    }
+    reader.ue(); // bit_depth_luma_minus8
+    reader.ue(); // bit_depth_chroma_minus8
+    reader.skip(1); // qpprime_y_zero_transform_bypass_flag
+    if (reader.bits(1) === 1) {
+      const lists = chromaFormat === 3 ? 12 : 8;
+      for (let i = 0; i < lists; i++) {
+        if (reader.bits(1) === 1) {
+          skipScalingList(reader, i < 6 ? 16 : 64);
+        }
+      }
+    }
+  }
+
+  reader.ue(); // log2_max_frame_num_minus4
+  const pocType = reader.ue();
+  if (pocType === 0) {
+    reader.ue();
+  } else if (pocType === 1) {
+    reader.skip(1);
+    reader.se();
+    reader.se();
+    const cycle = reader.ue();
+    for (let i = 0; i < cycle; i++) {
+      reader.se();
+    }
+  }
+
+  reader.ue(); // max_num_ref_frames
+  reader.skip(1); // gaps_in_frame_num_value_allowed_flag
+  const widthInMbs = reader.ue() + 1;
+  const heightInMapUnits = reader.ue() + 1;
+  const frameMbsOnly = reader.bits(1);
+  if (!frameMbsOnly) {
+    reader.skip(1); // mb_adaptive_frame_field_flag
+  }
+  reader.skip(1); // direct_8x8_inference_flag
+
+  let crop = [0, 0, 0, 0];
+  if (reader.bits(1) === 1) {
+    crop = [reader.ue(), reader.ue(), reader.ue(), reader.ue()];
+  }
+
+  const cropUnitX = chromaFormat === 1 || chromaFormat === 2 ? 2 : 1;
+  const cropUnitY = (chromaFormat === 1 ? 2 : 1) * (2 - frameMbsOnly);
+
+  return {
+    width: widthInMbs * 16 - (crop[0] + crop[1]) * cropUnitX,
+    height: (2 - frameMbsOnly) * heightInMapUnits * 16 - (crop[2] + crop[3]) * cropUnitY
+  };
+}
+
+/**
+ * Read the conformance window size from an H.265 sequence parameter set NAL unit
+ */
+export function parseH265SpsResolution(nal: Buffer): Resolution {
+  const reader = new BitReader(toRbsp(nal.subarray(2)));
+  reader.skip(4); // sps_video_parameter_set_id
+  const maxSubLayers = reader.bits(3);
+  reader.skip(1); // sps_temporal_id_nesting_flag
+
+  // profile_tier_level: general profile (88 bits) and level (8 bits), then optional sub-layers
+  reader.skip(96);
+  const subLayerFlags: Array<[number, number]> = [];
+  for (let i = 0; i < maxSubLayers; i++) {
+    subLayerFlags.push([reader.bits(1), reader.bits(1)]);
+  }
+  if (maxSubLayers > 0) {
+    reader.skip(2 * (8 - maxSubLayers));
+  }
+  for (const [profilePresent, levelPresent] of subLayerFlags) {
+    reader.skip(profilePresent ? 88 : 0);
+    reader.skip(levelPresent ? 8 : 0);
+  }
+
+  reader.ue(); // sps_seq_parameter_set_id
+  let chromaFormat = reader.ue();
+  if (chromaFormat === 3 && reader.bits(1) === 1) {
+    chromaFormat = 0;
+  }
+
+  const width = reader.ue();
+  const height = reader.ue();
+  if (reader.bits(1) === 0) {
+    return { width, height };
+  }
+
+  const [left, right, top, bottom] = [reader.ue(), reader.ue(), reader.ue(), reader.ue()];
+  const subWidth = chromaFormat === 1 || chromaFormat === 2 ? 2 : 1;
+  const subHeight = chromaFormat === 1 ? 2 : 1;
+
+  return {
+    width: width - subWidth * (left + right),
+    height: height - subHeight * (top + bottom)
+  };
+}
+
+function skipScalingList(reader: BitReader, size: number): void {
+  let last = 8;
+  let next = 8;
+  for (let i = 0; i < size; i++) {
+    if (next !== 0) {
+      next = (last + reader.se() + 256) % 256;
+    }
+    last = next === 0 ? last : next;
+  }
+}
+
+/**
+ * Turns MPEG-TS packets into H.264/H.265 access-unit frames
+ */
+export class MpegTsDemuxer {
+  private resolution: Resolution;
+  private remainder: Buffer = Buffer.alloc(0);
+  private pmtPid: number | null = null;
+  private videoPid: number | null = null;
+  private format: TsVideoFormat | null = null;
+  private pes: PesAssembly | null = null;
+  private continuity: Map<number, number> = new Map();
+  private lastPts: number | null = null;
+  private ptsOffset = 0;
+  private basePts: number | null = null;
+  private baseWallClock = 0;
+  private droppedFrames = 0;
+
+  constructor(resolution: Resolution) {
+    this.resolution = resolution;
+  }
+
+  /**
+   * Demux received bytes (any alignment), returning the frames they complete
+   */
+  push(data: Buffer): VideoFrame[] {
+    let buffer = this.remainder.length > 0 ? Buffer.concat([this.remainder, data]) : data;
+    const frames: VideoFrame[] = [];
+    let offset = 0;
+
+    while (offset + TS_PACKET_SIZE <= buffer.length) {
+      if (buffer[offset] !== TS_SYNC_BYTE) {
+        // Resynchronise on the next sync byte
+        const next = buffer.indexOf(TS_SYNC_BYTE, offset + 1);
+        offset = next < 0 ? buffer.length : next;
+        continue;
+      }
+
+      const frame = this.readPacket(buffer.subarray(offset, offset + TS_PACKET_SIZE));
+      if (frame) {
+        frames.push(frame);
+      }
+      offset += TS_PACKET_SIZE;
+    }
+
+    buffer = buffer.subarray(offset);
+    this.remainder = Buffer.from(buffer);
+    return frames;
+  }
+
+  /**
+   * Complete the access unit in progress, e.g. when the feed ends
+   */
+  flush(): VideoFrame[] {
+    const frame = this.completePes();
+    return frame ? [frame] : [];
+  }
+
+  /**
+   * Get the codec of the selected video stream, once the PMT has been seen
+   */
+  getVideoFormat(): TsVideoFormat | null {
+    return this.format;
+  }
+
+  /**
+   * Get the number of access units discarded because packets were lost
+   */
+  getDroppedFrames(): number {
+    return this.droppedFrames;
+  }
+
+  private readPacket(packet: Buffer): VideoFrame | null {
+    const payloadUnitStart = (packet[1] & 0x40) !== 0;
+    const pid = ((packet[1] & 0x1f) << 8) | packet[2];
+    const adaptationControl = (packet[3] >> 4) & 0x03;
+    const continuityCounter = packet[3] & 0x0f;
+
+    if (!(adaptationControl & 0x01)) {
+      return null; // adaptation field only
+    }
+
+    let offset = 4;
+    if (adaptationControl & 0x02) {
+      offset += 1 + packet[4];
+    }
+    if (offset >= TS_PACKET_SIZE) {
+      return null;
+    }
+    const payload = packet.subarray(offset);
+
+    if (pid === PAT_PID) {
+      this.readPat(payload, payloadUnitStart);
+      return null;
+    }
+
+    if (pid === this.pmtPid) {
+      this.readPmt(payload, payloadUnitStart);
+      return null;
+    }
+
+    if (pid !== this.videoPid) {
+      return null;
+    }
+
+    // A gap in the continuity counter means the access unit in progress is incomplete
+    const previous = this.continuity.get(pid);
+    this.continuity.set(pid, continuityCounter);
+    if (previous !== undefined && continuityCounter !== ((previous + 1) & 0x0f) && continuityCounter !== previous) {
+      if (this.pes) {
+        this.droppedFrames++;
+      }
+      this.pes = null;
+    } else if (previous !== undefined && continuityCounter === previous) {
+      return null; // duplicate packet
+    }
+
+    let frame: VideoFrame | null = null;
+    if (payloadUnitStart) {
+      frame = this.completePes();
+      this.pes = this.startPes(payload);
+    } else if (this.pes) {
+      this.pes.chunks.push(payload);
+      this.pes.length += payload.length;
+    }
+
+    if (this.pes && this.pes.expectedLength !== null && this.pes.length >= this.pes.expectedLength) {
+      return frame || this.completePes();
+    }
+
+    return frame;
+  }
+
+  private readPat(payload: Buffer, payloadUnitStart: boolean): void {
+    const section = this.sectionOf(payload, payloadUnitStart);
+    if (!section || section[0] !== 0x00) {
+      return;
+    }
+
+    const end = Math.min(3 + (((section[1] & 0x0f) << 8) | section[2]) - 4, section.length);
+    for (let offset = 8; offset + 4 <= end; offset += 4) {
+      const programNumber = section.readUInt16BE(offset);
+      if (programNumber !== 0) {
+        this.pmtPid = ((section[offset + 2] & 0x1f) << 8) | section[offset + 3];
+        return;
+      }
+    }
+  }
+
+  private readPmt(payload: Buffer, payloadUnitStart: boolean): void {
+    const section = this.sectionOf(payload, payloadUnitStart);
+    if (!section || section[0] !== 0x02) {
+      return;
+    }
+
+    const end = Math.min(3 + (((section[1] & 0x0f) << 8) | section[2]) - 4, section.length);
+    const programInfoLength = ((section[10] & 0x0f) << 8) | section[11];
+
+    for (let offset = 12 + programInfoLength; offset + 5 <= end;) {
+      const streamType = section[offset];
+      const pid = ((section[offset + 1] & 0x1f) << 8) | section[offset + 2];
+      const infoLength = ((section[offset + 3] & 0x0f) << 8) | section[offset + 4];
+
+      if (streamType === STREAM_TYPE_H264 || streamType === STREAM_TYPE_H265) {
+        if (this.videoPid !== pid) {
+          this.videoPid = pid;
+          this.pes = null;
+        }
+        this.format = streamType === STREAM_TYPE_H264 ? 'h264' : 'h265';
+        return;
+      }
+
+      offset += 5 + infoLength;
+    }
+  }
+
+  private sectionOf(payload: Buffer, payloadUnitStart: boolean): Buffer | null {
+    // Sections are expected to fit in one packet, as PAT and PMT do in practice
+    if (!payloadUnitStart) {
+      return null;
+    }
+    const start = 1 + payload[0];
+    return start + 12 <= payload.length ? payload.subarray(start) : null;
+  }
+
+  private startPes(payload: Buffer): PesAssembly | null {
+    if (payload.length < 9 || payload[0] !== 0 || payload[1] !== 0 || payload[2] !== 1) {
+      return null;
+    }
+
+    const packetLength = payload.readUInt16BE(4);
+    const headerLength = payload[8];
+    let pts: number | null = null;
+    if ((payload[7] & 0x80) && payload.length >= 14) {
+      pts = (payload[9] & 0x0e) * 2 ** 29
+        + (payload.readUInt16BE(10) >> 1) * 2 ** 15
+        + (payload.readUInt16BE(12) >> 1);
+    }
+
+    const data = payload.subarray(9 + headerLength);
+    return {
+      pts,
+      // A zero length (usual for video) means the PES runs until the next one starts
+      expectedLength: packetLength > 0 ? packetLength - 3 - headerLength : null,
+      chunks: [data],
+      length: data.length
+    };
+  }
+
+  private completePes(): VideoFrame | null {
+    const pes = this.pes;
+    this.pes = null;
+    if (!pes || pes.length === 0 || !this.format) {
+      return null;
+    }
+
+    const data = Buffer.concat(pes.chunks, pes.expectedLength ?? pes.length);
+    const nals = splitAnnexB(data);
+    let keyframe = false;
+
+    for (const nal of nals) {
+      const type = this.format === 'h264' ? nal[0] & 0x1f : (nal[0] >> 1) & 0x3f;
+      if (this.format === 'h264' ? type === 5 : type >= 16 && type <= 21) {
+        keyframe = true;
+      }
+
+      const isSps = this.format === 'h264' ? type === 7 : type === 33;
+      if (isSps) {
+        try {
+          this.resolution = this.format === 'h264' ? parseH264SpsResolution(nal) : parseH265SpsResolution(nal);
+        } catch (error) {
+          // Keep the previous resolution when a parameter set cannot be read
+        }
+      }
+    }
+
+    return {
+      data: new Uint8Array(data),
+      timestamp: this.toWallClock(pes.pts),
+      width: this.resolution.width,
+      height: this.resolution.height,
+      format: this.format,
+      keyframe
+    };
+  }
+
+  private toWallClock(pts: number | null): number {
+    if (pts === null) {
+      return Date.now();
+    }
+
+    // Unwrap the 33-bit PTS
+    if (this.lastPts !== null && pts + this.ptsOffset < this.lastPts - PTS_WRAP / 2) {
+      this.ptsOffset += PTS_WRAP;
+    }
+    const unwrapped = pts + this.ptsOffset;
+    this.lastPts = unwrapped;
+
+    if (this.basePts === null) {
+      this.basePts = unwrapped;
+      this.baseWallClock = Date.now();
+    }
+
+    return this.baseWallClock + Math.round((unwrapped - this.basePts) / 90);
+  }
+}
\ No newline at end of file
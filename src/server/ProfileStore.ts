@@ -0,0 +1,103 @@
+import { RecordingFile } from './StreamRecorder';
+
+export interface UserProfile {
+  userId: string;
+  socketId: string;
+  username: string;
+  userAgent: string;
+  screenResolution: string;
+  registeredAt: Date;
+  lastSeen: Date;
+  totalSessions: number;
+  isOnline: boolean;
+  isStreaming: boolean;
+  currentStreamId?: string;
+  streamHistory: StreamSession[];
+}
+
+export interface StreamSession {
+  streamId: string;
+  startTime: Date;
+  endTime?: Date;
+  quality: string;
+  persistent: boolean;
+  backgroundMode: boolean;
+  recordings: RecordingFile[];
+}
+
+/**
+ * The part of a profile that outlives a restart; connection state starts over each run
+ */
+export type StoredProfile = Omit<UserProfile, 'socketId' | 'isOnline' | 'isStreaming' | 'currentStreamId'>;
+
+/**
+ * Pluggable persistence used by RealStreamManager for user profiles and their ended stream sessions
+ */
+export interface ProfileStore {
+  readonly name: string;
+  /**
+   * Every stored profile with its stream history, oldest session first
+   */
+  load(): Promise<StoredProfile[]>;
+  /**
+   * Insert or update profiles and their sessions in one write; sessions missing from a profile are kept
+   */
+  save(profiles: StoredProfile[]): Promise<void>;
+  /**
+   * Delete sessions that ended before the cutoff, returning how many were deleted
+   */
+  purgeSessionsBefore(cutoff: Date): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * Profile store that keeps everything in memory, for tests and deployments that need no persistence
+ */
+export class InMemoryProfileStore implements ProfileStore {
+  readonly name = 'memory';
+  private profiles: Map<string, StoredProfile> = new Map();
+
+  async load(): Promise<StoredProfile[]> {
+    return Array.from(this.profiles.values()).map(profile => structuredClone(profile));
+  }
+
+  async save(profiles: StoredProfile[]): Promise<void> {
+    for (const profile of profiles) {
+      const sessions = new Map(this.profiles.get(profile.userId)?.streamHistory.map(session => [session.streamId, session]));
+      for (const session of profile.streamHistory) {
+        sessions.set(session.streamId, session);
+      }
+      this.profiles.set(profile.userId, structuredClone({ ...profile, streamHistory: Array.from(sessions.values()) }));
+    }
+  }
+
+  async purgeSessionsBefore(cutoff: Date): Promise<number> {
+    let purged = 0;
+    for (const profile of this.profiles.values()) {
+      const kept = profile.streamHistory.filter(session => !session.endTime || session.endTime >= cutoff);
+      purged += profile.streamHistory.length - kept.length;
+      profile.streamHistory = kept;
+    }
+    return purged;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * The stored part of a live profile
+ */
+export function toStoredProfile(profile: UserProfile): StoredProfile {
+  return {
+    userId: profile.userId,
+    username: profile.username,
+    userAgent: profile.userAgent,
+    screenResolution: profile.screenResolution,
+    registeredAt: profile.registeredAt,
+    lastSeen: profile.lastSeen,
+    totalSessions: profile.totalSessions,
+    streamHistory: profile.streamHistory
+  };
+}
\ No newline at end of file
@@ -0,0 +1,286 @@
+import { Registry, Gauge, Counter, Histogram, collectDefaultMetrics } from 'prom-client';
+import { StreamingServer } from './index';
+import { RealStreamManager } from './RealStreamManager';
+import { EnhancedFrame, StreamId } from '../types';
+
+const OVERFLOW_STREAM_LABEL = 'other';
+
+/**
+ * Prometheus exporter for streaming, processing and AI metrics
+ * Gauges are read from the live services at scrape time; counters and
+ * histograms are fed from processing events
+ * The scrape endpoint is public, so streams are labelled by the order they were first seen, never by ID
+ */
+export class PrometheusExporter {
+  private registry: Registry;
+  private streamingServer: StreamingServer;
+  private realStreamManager: RealStreamManager;
+  private maxStreamLabels: number;
+  private labelledStreams: Map<StreamId, string> = new Map();
+  private streamsSeen = 0;
+
+  private framesEnhanced: Counter<'stream'>;
+  private framesFallback: Counter<'stream'>;
+  private bufferOverflows: Counter<'stream'>;
+  private aiLatency: Histogram<'model_type'>;
+  private batchLatency: Histogram<'stream'>;
+
+  constructor(
+    streamingServer: StreamingServer,
+    realStreamManager: RealStreamManager,
+    maxStreamLabels: number = 100,
+    registry: Registry = new Registry()
+  ) {
+    this.streamingServer = streamingServer;
+    this.realStreamManager = realStreamManager;
+    this.maxStreamLabels = maxStreamLabels;
+    this.registry = registry;
+
+    collectDefaultMetrics({ register: this.registry, prefix: 'ai_streaming_' });
+
+    this.registerGauges();
+
+    this.framesEnhanced = new Counter({
+      name: 'ai_streaming_frames_enhanced_total',
+      help: 'Frames emitted by the enhancement pipeline',
+      labelNames: ['stream'],
+      registers: [this.registry]
+    });
+
+    this.framesFallback = new Counter({
+      name: 'ai_streaming_frames_fallback_total',
+      help: 'Frames passed through without AI enhancement',
+      labelNames: ['stream'],
+      registers: [this.registry]
+    });
+
+    this.bufferOverflows = new Counter({
+      name: 'ai_streaming_buffer_overflows_total',
+      help: 'Stream buffer overflow events',
+      labelNames: ['stream'],
+      registers: [this.registry]
+    });
+
+    this.aiLatency = new Histogram({
+      name: 'ai_streaming_ai_frame_latency_seconds',
+      help: 'Per-frame AI enhancement latency',
+      labelNames: ['model_type'],
+      buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+      registers: [this.registry]
+    });
+
+    this.batchLatency = new Histogram({
+      name: 'ai_streaming_batch_latency_seconds',
+      help: 'Wall time to enhance a batch of frames',
+      labelNames: ['stream'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+      registers: [this.registry]
+    });
+
+    this.setupEventHandlers();
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  async getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Content type for the exposition format
+   */
+  getContentType(): string {
+    return this.registry.contentType;
+  }
+
+  getRegistry(): Registry {
+    return this.registry;
+  }
+
+  private registerGauges(): void {
+    const ingestionService = this.streamingServer.getIngestionService();
+    const webrtcServer = this.streamingServer.getWebRTCServer();
+    const exporter = this;
+
+    new Gauge({
+      name: 'ai_streaming_active_streams',
+      help: 'Streams currently accepted by the ingestion service',
+      registers: [this.registry],
+      collect() {
+        this.set(ingestionService.getActiveStreamCount());
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_buffer_frames',
+      help: 'Frames waiting in each stream buffer',
+      labelNames: ['stream'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [streamId, stats] of Object.entries(ingestionService.getBufferStats())) {
+          this.inc({ stream: exporter.streamLabel(streamId) }, stats.size);
+        }
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_buffer_utilization_ratio',
+      help: 'Fill level of each stream buffer',
+      labelNames: ['stream'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [streamId, stats] of Object.entries(ingestionService.getBufferStats())) {
+          const label = exporter.streamLabel(streamId);
+          // Ratios cannot be summed into the shared overflow series, so those streams are skipped
+          if (label !== OVERFLOW_STREAM_LABEL) {
+            this.set({ stream: label }, stats.utilization / 100);
+          }
+        }
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_processing_queue_size',
+      help: 'Streams waiting for AI processing',
+      registers: [this.registry],
+      collect() {
+        this.set(ingestionService.getProcessingStatus().queueSize);
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_processing_active_streams',
+      help: 'Streams currently being processed',
+      registers: [this.registry],
+      collect() {
+        this.set(ingestionService.getProcessingStatus().activeStreams);
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_processing_max_concurrent',
+      help: 'Maximum streams processed concurrently',
+      registers: [this.registry],
+      collect() {
+        this.set(ingestionService.getProcessingStatus().maxConcurrent);
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_processing_running',
+      help: 'Whether the processing pipeline is running (1) or stopped (0)',
+      registers: [this.registry],
+      collect() {
+        this.set(ingestionService.getProcessingStatus().isProcessing ? 1 : 0);
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_processing_latency_p95_seconds',
+      help: '95th percentile per-frame processing latency over the rolling window',
+      labelNames: ['stream'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [streamId, metrics] of Object.entries(ingestionService.getAllStreamProcessingMetrics())) {
+          const label = exporter.streamLabel(streamId);
+          if (label !== OVERFLOW_STREAM_LABEL) {
+            this.set({ stream: label }, metrics.p95Latency / 1000);
+          }
+        }
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_webrtc_connections',
+      help: 'Open WebRTC connections',
+      registers: [this.registry],
+      collect() {
+        this.set(webrtcServer.getConnectionCount());
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_real_streams',
+      help: 'Streams tracked by the real stream manager',
+      registers: [this.registry],
+      collect() {
+        this.set(exporter.realStreamManager.getStreamCount());
+      }
+    });
+
+    new Gauge({
+      name: 'ai_streaming_admins_connected',
+      help: 'Connected admin dashboards',
+      registers: [this.registry],
+      collect() {
+        this.set(exporter.realStreamManager.getAdminCount());
+      }
+    });
+  }
+
+  private setupEventHandlers(): void {
+    const ingestionService = this.streamingServer.getIngestionService();
+
+    ingestionService.on('frames:enhanced', (data) => {
+      const streamLabel = this.streamLabel(data.streamId);
+      const frames: EnhancedFrame[] = data.enhancedFrames;
+      const fallbackFrames = frames.filter(frame => frame.enhancementApplied.includes('fallback')).length;
+
+      this.framesEnhanced.inc({ stream: streamLabel }, frames.length - fallbackFrames);
+      if (fallbackFrames > 0) {
+        this.framesFallback.inc({ stream: streamLabel }, fallbackFrames);
+      }
+
+      this.batchLatency.observe({ stream: streamLabel }, data.processingTime / 1000);
+
+      for (const frame of frames) {
+        if (!frame.enhancementApplied.includes('fallback')) {
+          this.aiLatency.observe({ model_type: data.modelType }, frame.processingTime / 1000);
+        }
+      }
+    });
+
+    ingestionService.on('buffer:overflow', (data) => {
+      this.bufferOverflows.inc({ stream: this.streamLabel(data.streamId) });
+    });
+
+    ingestionService.on('stream:disconnected', (data) => {
+      this.releaseStreamLabel(data.streamId);
+    });
+  }
+
+  /**
+   * Map a stream ID to its label value, folding streams past the cap into one series
+   */
+  private streamLabel(streamId: StreamId): string {
+    const label = this.labelledStreams.get(streamId);
+    if (label) {
+      return label;
+    }
+
+    if (this.labelledStreams.size < this.maxStreamLabels) {
+      const assigned = String(++this.streamsSeen);
+      this.labelledStreams.set(streamId, assigned);
+      return assigned;
+    }
+
+    return OVERFLOW_STREAM_LABEL;
+  }
+
+  private releaseStreamLabel(streamId: StreamId): void {
+    const label = this.labelledStreams.get(streamId);
+    if (!label) {
+      return;
+    }
+
+    this.labelledStreams.delete(streamId);
+    this.framesEnhanced.remove({ stream: label });
+    this.framesFallback.remove({ stream: label });
+    this.bufferOverflows.remove({ stream: label });
+    this.batchLatency.remove({ stream: label });
+  }
+}
\ No newline at end of file
@@ -1,50 +1,130 @@
 import { EventEmitter } from 'events';
 import { Server as SocketIOServer } from 'socket.io';
 import { logger } from '../utils/logger';
+import { RecordingFile } from './StreamRecorder';
+import { ProfileStore, InMemoryProfileStore, UserProfile, StreamSession, toStoredProfile } from './ProfileStore';
 
-interface UserProfile {
-  userId: string;
+interface AdminConnection {
   socketId: string;
-  username: string;
-  userAgent: string;
-  screenResolution: string;
-  registeredAt: Date;
-  lastSeen: Date;
-  totalSessions: number;
-  isOnline: boolean;
-  isStreaming: boolean;
-  currentStreamId?: string;
-  streamHistory: StreamSession[];
+  connectedAt: Date;
 }
 
-interface StreamSession {
-  streamId: string;
-  startTime: Date;
-  endTime?: Date;
-  quality: string;
-  persistent: boolean;
-  backgroundMode: boolean;
+export interface RealStreamManagerOptions {
+  flushIntervalMs: number; // profile changes are batched and written at most this often
+  retentionDays: number | null; // ended stream sessions older than this are purged; null keeps them
 }
 
-interface AdminConnection {
-  socketId: string;
-  connectedAt: Date;
-}
+const DEFAULT_OPTIONS: RealStreamManagerOptions = {
+  flushIntervalMs: 5000,
+  retentionDays: null
+};
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Advanced Real Stream Manager - Handles persistent user tracking and advanced streaming
+ * Profiles and ended stream sessions are kept in a ProfileStore: loaded by initialize(),
+ * written in batches of changed profiles, and written out by close()
  */
 export class RealStreamManager extends EventEmitter {
   private userProfiles: Map<string, UserProfile> = new Map();
   private activeStreams: Map<string, StreamSession> = new Map();
   private adminConnections: Map<string, AdminConnection> = new Map();
   private io: SocketIOServer;
+  private store: ProfileStore;
+  private options: RealStreamManagerOptions;
+  private dirtyProfiles: Set<string> = new Set();
+  private writes: Promise<void> = Promise.resolve();
+  private cleanupTimer: NodeJS.Timeout;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private purgeTimer: NodeJS.Timeout | null = null;
 
-  constructor(io: SocketIOServer) {
+  constructor(io: SocketIOServer, store: ProfileStore = new InMemoryProfileStore(), options: Partial<RealStreamManagerOptions> = {}) {
     super();
     this.io = io;
-    this.startCleanupInterval();
-    this.loadUserProfiles();
+    this.store = store;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!(this.options.flushIntervalMs > 0)) {
+      throw new Error('Profile flush interval must be positive');
+    }
+    if (this.options.retentionDays !== null && !(this.options.retentionDays > 0)) {
+      throw new Error('History retention must be a positive number of days');
+    }
+
+    this.cleanupTimer = this.startCleanupInterval();
+  }
+
+  /**
+   * Load stored profiles, purge expired history and start writing changes in batches
+   */
+  async initialize(): Promise<void> {
+    await this.loadUserProfiles();
+    await this.purgeHistory();
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => {
+        // Logged by flush; the profiles stay queued for the next batch
+      });
+    }, this.options.flushIntervalMs);
+    this.flushTimer.unref();
+
+    if (this.options.retentionDays !== null) {
+      this.purgeTimer = setInterval(() => {
+        this.purgeHistory().catch(error => {
+          logger.error('Failed to purge stream history', { error });
+        });
+      }, PURGE_INTERVAL_MS);
+      this.purgeTimer.unref();
+    }
+  }
+
+  /**
+   * Write every changed profile to the store
+   */
+  async flush(): Promise<void> {
+    this.writes = this.writes.catch(() => undefined).then(() => this.saveUserProfiles());
+    await this.writes;
+  }
+
+  /**
+   * Delete ended stream sessions older than the retention period, in memory and in the store
+   */
+  async purgeHistory(): Promise<number> {
+    if (this.options.retentionDays === null) {
+      return 0;
+    }
+
+    const cutoff = new Date(Date.now() - this.options.retentionDays * DAY_MS);
+    this.userProfiles.forEach(user => {
+      user.streamHistory = user.streamHistory.filter(session => !session.endTime || session.endTime >= cutoff);
+    });
+    const purged = await this.store.purgeSessionsBefore(cutoff);
+
+    if (purged > 0) {
+      logger.info('Stream history purged', { cutoff: cutoff.toISOString(), purged });
+    }
+    this.emit('history:purged', { cutoff, purged });
+    return purged;
+  }
+
+  /**
+   * Stop the timers, write outstanding changes and close the store
+   */
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+
+    await this.flush();
+    await this.store.close();
   }
 
   registerUser(socketId: string, userData: any): void {
@@ -65,7 +145,7 @@ export class RealStreamManager extends EventEmitter {
     };
 
     this.userProfiles.set(userData.userId, userProfile);
-    this.saveUserProfiles();
+    this.markDirty(userData.userId);
     
     logger.info('User registered/updated', { 
       userId: userData.userId, 
@@ -77,7 +157,7 @@ export class RealStreamManager extends EventEmitter {
     const user = this.userProfiles.get(userId);
     if (user) {
       user.lastSeen = new Date();
-      this.saveUserProfiles();
+      this.markDirty(userId);
     }
   }
 
@@ -100,7 +180,7 @@ export class RealStreamManager extends EventEmitter {
         delete user.currentStreamId;
       }
       
-      this.saveUserProfiles();
+      this.markDirty(user.userId);
       
       logger.info('User disconnected and profile updated', { 
         userId: user.userId,
@@ -109,6 +189,84 @@ export class RealStreamManager extends EventEmitter {
     }
   }
 
+  /**
+   * Track an ingested stream as its user's current stream
+   * Users publishing through RTMP/SRT/WHIP may never have registered, so a profile is created for them
+   */
+  startStream(userId: string, streamId: string, quality: string): void {
+    let user = this.userProfiles.get(userId);
+    if (!user) {
+      user = {
+        userId,
+        socketId: '',
+        username: `User_${userId.slice(-4)}`,
+        userAgent: '',
+        screenResolution: '',
+        registeredAt: new Date(),
+        lastSeen: new Date(),
+        totalSessions: 0,
+        isOnline: false,
+        isStreaming: false,
+        streamHistory: []
+      };
+      this.userProfiles.set(userId, user);
+    }
+
+    this.activeStreams.set(streamId, {
+      streamId,
+      startTime: new Date(),
+      quality,
+      persistent: false,
+      backgroundMode: false,
+      recordings: []
+    });
+    user.isStreaming = true;
+    user.currentStreamId = streamId;
+    this.markDirty(userId);
+  }
+
+  /**
+   * Move an ended stream into its user's history
+   */
+  endStream(streamId: string): void {
+    const stream = this.activeStreams.get(streamId);
+    if (!stream) {
+      return;
+    }
+
+    stream.endTime = new Date();
+    this.activeStreams.delete(streamId);
+
+    const user = Array.from(this.userProfiles.values()).find(u => u.currentStreamId === streamId);
+    if (user) {
+      user.streamHistory.push(stream);
+      user.isStreaming = false;
+      delete user.currentStreamId;
+      this.markDirty(user.userId);
+    }
+  }
+
+  /**
+   * Attach finished recording files to a stream, whether it is still live or in a user's history
+   * Recordings usually finish after the stream has ended, once they are remuxed
+   */
+  addRecordings(streamId: string, recordings: RecordingFile[]): boolean {
+    const owner = Array.from(this.userProfiles.values()).find(user =>
+      user.currentStreamId === streamId || user.streamHistory.some(session => session.streamId === streamId));
+    const stream = this.activeStreams.get(streamId)
+      || owner?.streamHistory.find(session => session.streamId === streamId);
+    if (!stream) {
+      return false;
+    }
+
+    stream.recordings.push(...recordings);
+    if (owner) {
+      this.markDirty(owner.userId);
+    }
+    this.emit('stream:recorded', { streamId, recordings });
+    return true;
+  }
+
   getAllUsers(): UserProfile[] {
     return Array.from(this.userProfiles.values());
   }
@@ -129,21 +287,57 @@ export class RealStreamManager extends EventEmitter {
     return this.userProfiles.get(userId);
   }
 
-  private loadUserProfiles(): void {
-    // In a real application, this would load from a database
-    // For now, we'll use in-memory storage
-    logger.info('User profiles loaded from memory');
+  getStore(): ProfileStore {
+    return this.store;
+  }
+
+  getOptions(): RealStreamManagerOptions {
+    return { ...this.options };
   }
 
-  private saveUserProfiles(): void {
-    // In a real application, this would save to a database
-    // For now, we'll just log the action
-    logger.info('User profiles saved', { totalUsers: this.userProfiles.size });
+  private async loadUserProfiles(): Promise<void> {
+    const stored = await this.store.load();
+    for (const profile of stored) {
+      // Users who registered while the store was loading are newer
+      if (!this.userProfiles.has(profile.userId)) {
+        this.userProfiles.set(profile.userId, { ...profile, socketId: '', isOnline: false, isStreaming: false });
+      }
+    }
+    logger.info('User profiles loaded', { store: this.store.name, totalUsers: stored.length });
+  }
+
+  /**
+   * Queue a profile for the next batched write
+   */
+  private markDirty(userId: string): void {
+    this.dirtyProfiles.add(userId);
+  }
+
+  private async saveUserProfiles(): Promise<void> {
+    if (this.dirtyProfiles.size === 0) {
+      return;
+    }
+
+    const userIds = Array.from(this.dirtyProfiles);
+    this.dirtyProfiles.clear();
+    const profiles = userIds
+      .map(userId => this.userProfiles.get(userId))
+      .filter((user): user is UserProfile => user !== undefined)
+      .map(toStoredProfile);
+
+    try {
+      await this.store.save(profiles);
+      logger.debug('User profiles saved', { store: this.store.name, savedUsers: profiles.length });
+    } catch (error) {
+      userIds.forEach(userId => this.dirtyProfiles.add(userId));
+      logger.error('Failed to save user profiles', { store: this.store.name, error });
+      throw error;
+    }
   }
 
-  private startCleanupInterval(): void {
+  private startCleanupInterval(): NodeJS.Timeout {
     // Clean up inactive users every 5 minutes
-    setInterval(() => {
+    return setInterval(() => {
       const now = new Date();
       const timeout = 10 * 60 * 1000; // 10 minutes
 
@@ -0,0 +1,38 @@
+import { VideoFrame } from '../types';
+
+export interface RenditionEncoderConfig {
+  format: 'h264' | 'h265';
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+/**
+ * Receives an encoder's output: one Annex B access unit per input frame, in input order
+ */
+export interface RenditionEncoderSink {
+  frame(data: Uint8Array): void;
+  error(error: Error): void;
+}
+
+/**
+ * A running encoder producing one rendition of a stream
+ */
+export interface RenditionEncoder {
+  /**
+   * Queue an encoded source frame; frames flagged as keyframes must come out as keyframes
+   */
+  encode(frame: VideoFrame): void;
+  /**
+   * Deliver outstanding frames to the sink and release the encoder
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Pluggable transcoding backend used by RenditionLadder to create rendition encoders
+ */
+export interface RenditionEncoderFactory {
+  readonly name: string;
+  create(config: RenditionEncoderConfig, sink: RenditionEncoderSink): RenditionEncoder;
+}
\ No newline at end of file
@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events';
+import { StreamIngestionService } from './StreamIngestionService';
+import { RenditionEncoder, RenditionEncoderFactory } from './RenditionEncoder';
+import { FfmpegRenditionEncoderFactory } from './FfmpegRenditionEncoder';
+import { toSampleData } from './Fmp4';
+import { QualityLevel, StreamId, VideoFrame } from '../types';
+import { QUALITY_LEVELS, getQualityLevelPreset } from '../utils/qualityPresets';
+import { logger } from '../utils/logger';
+
+export interface RenditionLadderOptions {
+  levels: QualityLevel[];
+}
+
+/**
+ * One output of a stream's ladder
+ */
+export interface Rendition {
+  quality: QualityLevel;
+  width: number;
+  height: number;
+  frameRate: number;
+  bitrate: number;
+  passthrough: boolean; // the enhanced output itself, not re-encoded
+}
+
+interface SourceTiming {
+  timestamp: number;
+  keyframe: boolean;
+}
+
+interface TranscodedRendition {
+  rendition: Rendition;
+  encoder: RenditionEncoder;
+  queued: SourceTiming[]; // frames sent to the encoder whose output has not arrived yet
+  nextTimestamp: number; // frame rate reduction: earliest timestamp of the next non-keyframe
+  failed: boolean;
+}
+
+interface LadderStream {
+  format: 'h264' | 'h265';
+  source: Rendition;
+  transcoded: Map<QualityLevel, TranscodedRendition>;
+}
+
+const DEFAULT_OPTIONS: RenditionLadderOptions = {
+  levels: [...QUALITY_LEVELS]
+};
+
+/**
+ * Produces an ABR ladder from each stream's enhanced output
+ * The enhanced output is passed through as the highest configured level that fits within
+ * it and every lower level is transcoded to its quality preset; renditions are never
+ * upscaled. Transcoded frames keep the source timestamps and keyframes, so every
+ * rendition is segmented on the same boundaries and players can switch between them
+ */
+export class RenditionLadder extends EventEmitter {
+  private options: RenditionLadderOptions;
+  private ingestionService: StreamIngestionService;
+  private encoderFactory: RenditionEncoderFactory;
+  private streams: Map<StreamId, LadderStream> = new Map();
+
+  constructor(
+    ingestionService: StreamIngestionService,
+    encoderFactory: RenditionEncoderFactory = new FfmpegRenditionEncoderFactory(),
+    options: Partial<RenditionLadderOptions> = {}
+  ) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.ingestionService = ingestionService;
+    this.encoderFactory = encoderFactory;
+
+    const unknown = this.options.levels.filter(level => !QUALITY_LEVELS.includes(level));
+    if (this.options.levels.length === 0 || unknown.length > 0) {
+      throw new Error(`Rendition ladder levels must be a non-empty list of ${QUALITY_LEVELS.join(', ')}`);
+    }
+
+    ingestionService.on('frames:enhanced', (data) => {
+      this.pushFrames(data.streamId, data.enhancedFrames);
+    });
+
+    ingestionService.on('stream:disconnected', (data) => {
+      this.endStream(data.streamId).catch(error => {
+        logger.error('Failed to end rendition ladder', { streamId: data.streamId, error });
+      });
+    });
+  }
+
+  /**
+   * Add enhanced frames of a stream; the ladder is planned from the first H.264/H.265 frame
+   */
+  pushFrames(streamId: StreamId, frames: VideoFrame[]): void {
+    const encoded = frames.filter(frame => frame.format === 'h264' || frame.format === 'h265');
+    if (encoded.length === 0) {
+      return;
+    }
+
+    let stream = this.streams.get(streamId);
+    if (!stream) {
+      stream = this.planStream(streamId, encoded[0]);
+    }
+
+    this.emit('rendition:frames', { streamId, quality: stream.source.quality, frames: encoded });
+
+    for (const transcoded of stream.transcoded.values()) {
+      for (const frame of encoded) {
+        this.encode(stream, transcoded, frame);
+      }
+    }
+  }
+
+  /**
+   * Flush every encoder of a stream, then end its renditions
+   */
+  async endStream(streamId: StreamId): Promise<void> {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return;
+    }
+
+    this.streams.delete(streamId);
+    await Promise.all([...stream.transcoded.values()].map(transcoded => transcoded.encoder.close()));
+    this.emit('stream:ended', { streamId });
+  }
+
+  /**
+   * Get the renditions of a stream, lowest quality first
+   */
+  getRenditions(streamId: StreamId): Rendition[] {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return [];
+    }
+
+    const renditions = [stream.source, ...[...stream.transcoded.values()].map(transcoded => transcoded.rendition)];
+    return renditions
+      .map(rendition => ({ ...rendition }))
+      .sort((a, b) => QUALITY_LEVELS.indexOf(a.quality) - QUALITY_LEVELS.indexOf(b.quality));
+  }
+
+  hasStream(streamId: StreamId): boolean {
+    return this.streams.has(streamId);
+  }
+
+  getOptions(): RenditionLadderOptions {
+    return { levels: [...this.options.levels] };
+  }
+
+  /**
+   * End every stream, flushing their encoders
+   */
+  async stop(): Promise<void> {
+    await Promise.all([...this.streams.keys()].map(streamId => this.endStream(streamId)));
+  }
+
+  private planStream(streamId: StreamId, frame: VideoFrame): LadderStream {
+    const format = frame.format as 'h264' | 'h265';
+    const levels = QUALITY_LEVELS.filter(level => this.options.levels.includes(level));
+    const fitting = levels.filter(level => getQualityLevelPreset(level).resolution.height <= frame.height);
+    const sourceLevel = fitting.length > 0 ? fitting[fitting.length - 1] : levels[0];
+    const sourcePreset = getQualityLevelPreset(sourceLevel);
+    const ingested = this.ingestionService.getActiveStream(streamId)?.config;
+
+    const stream: LadderStream = {
+      format,
+      source: {
+        quality: sourceLevel,
+        width: frame.width,
+        height: frame.height,
+        frameRate: ingested?.frameRate ?? sourcePreset.frameRate,
+        bitrate: ingested?.bitrate ?? sourcePreset.bitrate,
+        passthrough: true
+      },
+      transcoded: new Map()
+    };
+    this.streams.set(streamId, stream);
+    this.emit('rendition:added', { streamId, rendition: { ...stream.source } });
+
+    for (const level of levels.slice(0, levels.indexOf(sourceLevel))) {
+      const preset = getQualityLevelPreset(level);
+      // Keep the source aspect ratio at the preset height, with even dimensions
+      const height = preset.resolution.height;
+      const width = Math.round(frame.width * height / frame.height / 2) * 2;
+      const rendition: Rendition = { quality: level, width, height, frameRate: preset.frameRate, bitrate: preset.bitrate, passthrough: false };
+      stream.transcoded.set(level, this.createTranscodedRendition(streamId, stream, rendition));
+      this.emit('rendition:added', { streamId, rendition: { ...rendition } });
+    }
+
+    logger.info('Rendition ladder planned', {
+      streamId,
+      encoder: this.encoderFactory.name,
+      renditions: this.getRenditions(streamId).map(rendition => `${rendition.quality} ${rendition.width}x${rendition.height}`)
+    });
+    return stream;
+  }
+
+  private createTranscodedRendition(streamId: StreamId, stream: LadderStream, rendition: Rendition): TranscodedRendition {
+    let transcoded: TranscodedRendition;
+    const encoder = this.encoderFactory.create(
+      { format: stream.format, width: rendition.width, height: rendition.height, bitrate: rendition.bitrate },
+      {
+        frame: (data) => this.onEncodedFrame(streamId, stream, transcoded, data),
+        error: (error) => this.fail(streamId, stream, transcoded, error)
+      }
+    );
+
+    transcoded = { rendition, encoder, queued: [], nextTimestamp: -Infinity, failed: false };
+    return transcoded;
+  }
+
+  /**
+   * Send a source frame to a rendition's encoder, dropping frames above the preset frame rate
+   * Source keyframes are always kept so GOP boundaries stay aligned
+   */
+  private encode(stream: LadderStream, transcoded: TranscodedRendition, frame: VideoFrame): void {
+    if (transcoded.failed) {
+      return;
+    }
+
+    const keyframe = frame.keyframe ?? toSampleData(stream.format, frame.data).keyframe;
+    // Half a frame of tolerance absorbs timestamp jitter
+    if (!keyframe && frame.timestamp < transcoded.nextTimestamp - 500 / transcoded.rendition.frameRate) {
+      return;
+    }
+
+    transcoded.nextTimestamp = frame.timestamp + 1000 / transcoded.rendition.frameRate;
+    transcoded.queued.push({ timestamp: frame.timestamp, keyframe });
+    transcoded.encoder.encode({ ...frame, keyframe });
+  }
+
+  private onEncodedFrame(streamId: StreamId, stream: LadderStream, transcoded: TranscodedRendition, data: Uint8Array): void {
+    const timing = transcoded.queued.shift();
+    if (transcoded.failed || !timing) {
+      return;
+    }
+
+    const { rendition } = transcoded;
+    // A rendition whose keyframes drift from the source can no longer be switched to
+    if (timing.keyframe && !toSampleData(stream.format, data).keyframe) {
+      this.fail(streamId, stream, transcoded, new Error(`Encoder did not produce a keyframe at ${timing.timestamp}`));
+      return;
+    }
+
+    const frame: VideoFrame = {
+      data,
+      timestamp: timing.timestamp,
+      width: rendition.width,
+      height: rendition.height,
+      format: stream.format,
+      // Extra encoder keyframes are decodable but must not start segments
+      keyframe: timing.keyframe
+    };
+    this.emit('rendition:frames', { streamId, quality: rendition.quality, frames: [frame] });
+  }
+
+  private fail(streamId: StreamId, stream: LadderStream, transcoded: TranscodedRendition, error: Error): void {
+    if (transcoded.failed) {
+      return;
+    }
+
+    transcoded.failed = true;
+    stream.transcoded.delete(transcoded.rendition.quality);
+    transcoded.encoder.close().catch(() => {});
+
+    logger.warn('Rendition dropped from ladder', { streamId, quality: transcoded.rendition.quality, error: error.message });
+    this.emit('rendition:failed', { streamId, quality: transcoded.rendition.quality, error: error.message });
+  }
+}
\ No newline at end of file
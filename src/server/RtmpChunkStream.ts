@@ -0,0 +1,277 @@
+/**
+ * RTMP chunk stream framing
+ * Messages are split into chunks of at most the negotiated chunk size, each with a
+ * compressed header that omits fields unchanged since the previous chunk on its chunk stream
+ */
+
+export const RTMP_MESSAGE_TYPES = {
+  SET_CHUNK_SIZE: 1,
+  ABORT: 2,
+  ACKNOWLEDGEMENT: 3,
+  USER_CONTROL: 4,
+  WINDOW_ACK_SIZE: 5,
+  SET_PEER_BANDWIDTH: 6,
+  AUDIO: 8,
+  VIDEO: 9,
+  DATA_AMF0: 18,
+  COMMAND_AMF0: 20
+} as const;
+
+export const DEFAULT_CHUNK_SIZE = 128;
+const MAX_CHUNK_SIZE = 0x7fffffff;
+const EXTENDED_TIMESTAMP = 0xffffff;
+
+export interface RtmpMessage {
+  chunkStreamId: number;
+  typeId: number;
+  streamId: number;
+  timestamp: number;
+  payload: Buffer;
+}
+
+interface ChunkStreamState {
+  timestamp: number;
+  timestampDelta: number;
+  length: number;
+  typeId: number;
+  streamId: number;
+  extendedTimestamp: boolean;
+  chunks: Buffer[];
+  received: number;
+}
+
+/**
+ * Reassembles incoming chunks into complete messages
+ */
+export class RtmpChunkParser {
+  private buffer: Buffer = Buffer.alloc(0);
+  private chunkSize = DEFAULT_CHUNK_SIZE;
+  private streams: Map<number, ChunkStreamState> = new Map();
+  private bytesReceived = 0;
+
+  /**
+   * Add received bytes, returning every message they complete
+   */
+  push(data: Buffer): RtmpMessage[] {
+    this.bytesReceived += data.length;
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, data]) : data;
+
+    const messages: RtmpMessage[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const result = this.readChunk(offset);
+      if (!result) {
+        break;
+      }
+
+      offset = result.offset;
+      if (result.message) {
+        messages.push(result.message);
+        this.applyProtocolControl(result.message);
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+    return messages;
+  }
+
+  /**
+   * Get the total number of bytes received, for acknowledgements
+   */
+  getBytesReceived(): number {
+    return this.bytesReceived;
+  }
+
+  getChunkSize(): number {
+    return this.chunkSize;
+  }
+
+  private readChunk(start: number): { offset: number; message: RtmpMessage | null } | null {
+    const buffer = this.buffer;
+    if (start >= buffer.length) {
+      return null;
+    }
+
+    // Basic header: 2-bit format and a 1-3 byte chunk stream ID
+    let offset = start;
+    const format = buffer[offset] >> 6;
+    let chunkStreamId = buffer[offset] & 0x3f;
+    offset++;
+
+    if (chunkStreamId === 0) {
+      if (offset + 1 > buffer.length) return null;
+      chunkStreamId = buffer[offset] + 64;
+      offset += 1;
+    } else if (chunkStreamId === 1) {
+      if (offset + 2 > buffer.length) return null;
+      chunkStreamId = buffer[offset] + buffer[offset + 1] * 256 + 64;
+      offset += 2;
+    }
+
+    const headerLength = [11, 7, 3, 0][format];
+    if (offset + headerLength > buffer.length) {
+      return null;
+    }
+
+    const previous = this.streams.get(chunkStreamId);
+    if (!previous && format !== 0) {
+      throw new Error(`Chunk stream ${chunkStreamId} started without a full header`);
+    }
+
+    const state: ChunkStreamState = previous
+      ? { ...previous }
+      : { timestamp: 0, timestampDelta: 0, length: 0, typeId: 0, streamId: 0, extendedTimestamp: false, chunks: [], received: 0 };
+
+    let timestampField = 0;
+    if (format <= 2) {
+      timestampField = buffer.readUIntBE(offset, 3);
+      state.extendedTimestamp = timestampField === EXTENDED_TIMESTAMP;
+    }
+    if (format <= 1) {
+      state.length = buffer.readUIntBE(offset + 3, 3);
+      state.typeId = buffer[offset + 6];
+    }
+    if (format === 0) {
+      state.streamId = buffer.readUInt32LE(offset + 7);
+    }
+    offset += headerLength;
+
+    if (state.extendedTimestamp) {
+      if (offset + 4 > buffer.length) return null;
+      // Format 3 chunks repeat the extended field of the chunk stream's last header
+      if (format <= 2) {
+        timestampField = buffer.readUInt32BE(offset);
+      }
+      offset += 4;
+    }
+
+    const startsMessage = state.received === 0;
+    const payloadLength = Math.min(this.chunkSize, state.length - state.received);
+    if (offset + payloadLength > buffer.length) {
+      return null;
+    }
+
+    if (format === 0) {
+      state.timestamp = timestampField;
+      state.timestampDelta = 0;
+    } else if (format <= 2) {
+      state.timestampDelta = timestampField;
+      state.timestamp = (state.timestamp + timestampField) >>> 0;
+    } else if (startsMessage) {
+      state.timestamp = (state.timestamp + state.timestampDelta) >>> 0;
+    }
+
+    state.chunks = startsMessage ? [] : state.chunks;
+    state.chunks.push(buffer.subarray(offset, offset + payloadLength));
+    state.received += payloadLength;
+    offset += payloadLength;
+
+    let message: RtmpMessage | null = null;
+    if (state.received >= state.length) {
+      message = {
+        chunkStreamId,
+        typeId: state.typeId,
+        streamId: state.streamId,
+        timestamp: state.timestamp,
+        payload: Buffer.concat(state.chunks)
+      };
+      state.chunks = [];
+      state.received = 0;
+    }
+
+    this.streams.set(chunkStreamId, state);
+    return { offset, message };
+  }
+
+  private applyProtocolControl(message: RtmpMessage): void {
+    if (message.typeId === RTMP_MESSAGE_TYPES.SET_CHUNK_SIZE && message.payload.length >= 4) {
+      const size = message.payload.readUInt32BE(0) & MAX_CHUNK_SIZE;
+      if (size < 1) {
+        throw new Error(`Invalid RTMP chunk size ${size}`);
+      }
+      this.chunkSize = size;
+    } else if (message.typeId === RTMP_MESSAGE_TYPES.ABORT && message.payload.length >= 4) {
+      const state = this.streams.get(message.payload.readUInt32BE(0));
+      if (state) {
+        state.chunks = [];
+        state.received = 0;
+      }
+    }
+  }
+}
+
+/**
+ * Splits outgoing messages into chunks
+ * Every message starts with a full (format 0) header followed by format 3 continuations
+ */
+export class RtmpChunkWriter {
+  private chunkSize = DEFAULT_CHUNK_SIZE;
+
+  /**
+   * Change the outgoing chunk size; the peer must be told with a SET_CHUNK_SIZE message first
+   */
+  setChunkSize(size: number): void {
+    if (size < 1 || size > MAX_CHUNK_SIZE) {
+      throw new Error(`Invalid RTMP chunk size ${size}`);
+    }
+    this.chunkSize = size;
+  }
+
+  getChunkSize(): number {
+    return this.chunkSize;
+  }
+
+  /**
+   * Encode one message as chunks
+   */
+  write(message: RtmpMessage): Buffer {
+    if (message.payload.length > 0xffffff) {
+      throw new Error(`RTMP message of ${message.payload.length} bytes exceeds the 16 MB limit`);
+    }
+
+    const extended = message.timestamp >= EXTENDED_TIMESTAMP;
+    const parts: Buffer[] = [];
+
+    for (let offset = 0; offset === 0 || offset < message.payload.length; offset += this.chunkSize) {
+      const first = offset === 0;
+      parts.push(this.basicHeader(first ? 0 : 3, message.chunkStreamId));
+
+      if (first) {
+        const header = Buffer.alloc(11);
+        header.writeUIntBE(extended ? EXTENDED_TIMESTAMP : message.timestamp, 0, 3);
+        header.writeUIntBE(message.payload.length, 3, 3);
+        header[6] = message.typeId;
+        header.writeUInt32LE(message.streamId, 7);
+        parts.push(header);
+      }
+
+      if (extended) {
+        const timestamp = Buffer.alloc(4);
+        timestamp.writeUInt32BE(message.timestamp >>> 0);
+        parts.push(timestamp);
+      }
+
+      parts.push(message.payload.subarray(offset, offset + this.chunkSize));
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  private basicHeader(format: number, chunkStreamId: number): Buffer {
+    if (chunkStreamId < 2 || chunkStreamId > 65599) {
+      throw new Error(`Invalid RTMP chunk stream ID ${chunkStreamId}`);
+    }
+
+    if (chunkStreamId < 64) {
+      return Buffer.from([(format << 6) | chunkStreamId]);
+    }
+
+    if (chunkStreamId < 320) {
+      return Buffer.from([format << 6, chunkStreamId - 64]);
+    }
+
+    const id = chunkStreamId - 64;
+    return Buffer.from([(format << 6) | 1, id & 0xff, id >> 8]);
+  }
+}
\ No newline at end of file
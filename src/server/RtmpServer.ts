@@ -0,0 +1,487 @@
+import { EventEmitter } from 'events';
+import { createServer, Server, Socket, AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { Resolution, PublishAuthorizer, PublishGrant } from '../types';
+import { Amf0Value, decodeAmf0, encodeAmf0 } from './Amf0';
+import { RtmpChunkParser, RtmpChunkWriter, RtmpMessage, RTMP_MESSAGE_TYPES } from './RtmpChunkStream';
+import { FlvVideoDemuxer, parseAudioTag } from './FlvDemuxer';
+
+export interface RtmpServerOptions {
+  chunkSize: number;
+  windowAckSize: number;
+  peerBandwidth: number;
+  idleTimeoutMs: number;
+  defaultResolution: Resolution;
+}
+
+export interface RtmpStreamMetadata {
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  videoBitrate?: number; // bits per second
+  audioEnabled: boolean;
+  encoder?: string;
+}
+
+interface RtmpSession {
+  sessionId: string;
+  socket: Socket;
+  parser: RtmpChunkParser;
+  writer: RtmpChunkWriter;
+  handshake: 'c0c1' | 'c2' | 'done';
+  pending: Buffer;
+  app: string | null;
+  streamKey: string | null;
+  publishStreamId: number | null;
+  nextStreamId: number;
+  demuxer: FlvVideoDemuxer | null;
+  metadata: RtmpStreamMetadata | null;
+  peerWindowAckSize: number;
+  lastAcknowledged: number;
+}
+
+const RTMP_VERSION = 3;
+const HANDSHAKE_SIZE = 1536;
+const PROTOCOL_CHUNK_STREAM = 2;
+const COMMAND_CHUNK_STREAM = 3;
+const STATUS_CHUNK_STREAM = 5;
+const USER_CONTROL_STREAM_BEGIN = 0;
+
+const DEFAULT_OPTIONS: RtmpServerOptions = {
+  chunkSize: 4096,
+  windowAckSize: 2500000,
+  peerBandwidth: 2500000,
+  idleTimeoutMs: 30000,
+  defaultResolution: { width: 1280, height: 720 }
+};
+
+/**
+ * RTMP ingest server for encoders that only speak RTMP
+ * Handles the handshake, chunk stream, AMF0 connect/createStream/publish commands
+ * and FLV tag demux; published video leaves as H.264 access-unit frames
+ */
+export class RtmpServer extends EventEmitter {
+  private server: Server | null = null;
+  private sessions: Map<string, RtmpSession> = new Map();
+  private options: RtmpServerOptions;
+  private port: number;
+  private publishAuthorizer: PublishAuthorizer | null = null;
+
+  constructor(port: number = 1935, options: Partial<RtmpServerOptions> = {}) {
+    super();
+    this.port = port;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Check stream keys before a publish starts; refused keys get NetStream.Publish.BadName
+   */
+  setPublishAuthorizer(authorizer: PublishAuthorizer | null): void {
+    this.publishAuthorizer = authorizer;
+  }
+
+  /**
+   * Start listening for RTMP connections
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('RTMP server is already running');
+    }
+
+    const server = createServer(socket => this.handleSocket(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.port = (server.address() as AddressInfo).port;
+    this.emit('server:started', { port: this.port });
+  }
+
+  /**
+   * Stop listening and drop every session
+   */
+  async stop(): Promise<void> {
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.closeSession(sessionId);
+    }
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      this.emit('server:stopped');
+    }
+  }
+
+  /**
+   * Disconnect a session, e.g. when its stream is rejected
+   */
+  closeSession(sessionId: string, reason?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    if (reason && session.publishStreamId !== null) {
+      this.sendStatus(session, session.publishStreamId, 'error', 'NetStream.Publish.BadName', reason);
+    }
+
+    // Flush the status before the connection goes away
+    session.socket.end(() => session.socket.destroy());
+    this.endSession(session);
+  }
+
+  /**
+   * Get the bound port (resolved once started)
+   */
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * Get the number of connected sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private handleSocket(socket: Socket): void {
+    const session: RtmpSession = {
+      sessionId: `rtmp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      socket,
+      parser: new RtmpChunkParser(),
+      writer: new RtmpChunkWriter(),
+      handshake: 'c0c1',
+      pending: Buffer.alloc(0),
+      app: null,
+      streamKey: null,
+      publishStreamId: null,
+      nextStreamId: 1,
+      demuxer: null,
+      metadata: null,
+      peerWindowAckSize: 0,
+      lastAcknowledged: 0
+    };
+
+    this.sessions.set(session.sessionId, session);
+    socket.setNoDelay(true);
+    socket.setTimeout(this.options.idleTimeoutMs);
+
+    socket.on('data', (data: Buffer) => {
+      try {
+        this.handleData(session, data);
+      } catch (error) {
+        this.emit('session:error', { sessionId: session.sessionId, streamKey: session.streamKey, error });
+        socket.destroy();
+        this.endSession(session);
+      }
+    });
+
+    socket.on('timeout', () => {
+      socket.destroy();
+    });
+
+    socket.on('error', (error) => {
+      this.emit('session:error', { sessionId: session.sessionId, streamKey: session.streamKey, error });
+    });
+
+    socket.on('close', () => {
+      this.endSession(session);
+    });
+  }
+
+  private handleData(session: RtmpSession, data: Buffer): void {
+    if (session.handshake !== 'done') {
+      session.pending = Buffer.concat([session.pending, data]);
+      const rest = this.advanceHandshake(session);
+      if (!rest || rest.length === 0) {
+        return;
+      }
+      data = rest;
+    }
+
+    for (const message of session.parser.push(data)) {
+      this.handleMessage(session, message);
+    }
+
+    // Acknowledge once the peer's window of bytes has been received
+    const received = session.parser.getBytesReceived();
+    if (session.peerWindowAckSize > 0 && received - session.lastAcknowledged >= session.peerWindowAckSize) {
+      session.lastAcknowledged = received;
+      this.sendProtocolControl(session, RTMP_MESSAGE_TYPES.ACKNOWLEDGEMENT, uint32(received >>> 0));
+    }
+  }
+
+  /**
+   * Consume handshake bytes and return whatever follows C2, or null until C2 arrives
+   */
+  private advanceHandshake(session: RtmpSession): Buffer | null {
+    if (session.handshake === 'c0c1') {
+      if (session.pending.length < 1 + HANDSHAKE_SIZE) {
+        return null;
+      }
+
+      if (session.pending[0] !== RTMP_VERSION) {
+        throw new Error(`Unsupported RTMP version ${session.pending[0]}`);
+      }
+
+      const c1 = session.pending.subarray(1, 1 + HANDSHAKE_SIZE);
+      const s1 = Buffer.concat([Buffer.alloc(8), randomBytes(HANDSHAKE_SIZE - 8)]);
+      s1.writeUInt32BE(0, 0);
+
+      // Simple handshake: S2 echoes C1
+      session.socket.write(Buffer.concat([Buffer.from([RTMP_VERSION]), s1, c1]));
+      session.pending = session.pending.subarray(1 + HANDSHAKE_SIZE);
+      session.handshake = 'c2';
+    }
+
+    if (session.pending.length < HANDSHAKE_SIZE) {
+      return null;
+    }
+
+    const rest = session.pending.subarray(HANDSHAKE_SIZE);
+    session.pending = Buffer.alloc(0);
+    session.handshake = 'done';
+    return rest;
+  }
+
+  private handleMessage(session: RtmpSession, message: RtmpMessage): void {
+    switch (message.typeId) {
+      case RTMP_MESSAGE_TYPES.WINDOW_ACK_SIZE:
+        session.peerWindowAckSize = message.payload.readUInt32BE(0);
+        break;
+
+      case RTMP_MESSAGE_TYPES.COMMAND_AMF0:
+        this.handleCommand(session, message, decodeAmf0(message.payload));
+        break;
+
+      case RTMP_MESSAGE_TYPES.DATA_AMF0:
+        this.handleData0(session, decodeAmf0(message.payload));
+        break;
+
+      case RTMP_MESSAGE_TYPES.VIDEO:
+        this.handleVideo(session, message);
+        break;
+
+      case RTMP_MESSAGE_TYPES.AUDIO:
+        if (session.publishStreamId !== null && message.payload.length > 0) {
+          this.emit('audio:received', {
+            sessionId: session.sessionId,
+            streamKey: session.streamKey,
+            timestamp: message.timestamp,
+            tag: parseAudioTag(message.payload)
+          });
+        }
+        break;
+
+      default:
+        // Chunk size, abort and acknowledgements are applied by the chunk parser or need no reply
+        break;
+    }
+  }
+
+  private handleCommand(session: RtmpSession, message: RtmpMessage, values: Amf0Value[]): void {
+    const [name, transactionId] = values as [string, number];
+
+    switch (name) {
+      case 'connect': {
+        const command = (values[2] || {}) as { [key: string]: Amf0Value };
+        session.app = typeof command.app === 'string' ? command.app : '';
+
+        this.sendProtocolControl(session, RTMP_MESSAGE_TYPES.WINDOW_ACK_SIZE, uint32(this.options.windowAckSize));
+        this.sendProtocolControl(
+          session,
+          RTMP_MESSAGE_TYPES.SET_PEER_BANDWIDTH,
+          Buffer.concat([uint32(this.options.peerBandwidth), Buffer.from([2])])
+        );
+        this.sendProtocolControl(session, RTMP_MESSAGE_TYPES.SET_CHUNK_SIZE, uint32(this.options.chunkSize));
+        session.writer.setChunkSize(this.options.chunkSize);
+
+        this.sendCommand(session, 0, '_result', transactionId,
+          { fmsVer: 'FMS/3,0,1,123', capabilities: 31 },
+          { level: 'status', code: 'NetConnection.Connect.Success', description: 'Connection succeeded.', objectEncoding: 0 });
+
+        this.emit('session:connected', {
+          sessionId: session.sessionId,
+          app: session.app,
+          remoteAddress: session.socket.remoteAddress
+        });
+        break;
+      }
+
+      case 'createStream':
+        this.sendCommand(session, 0, '_result', transactionId, null, session.nextStreamId++);
+        break;
+
+      case 'publish': {
+        if (session.app === null) {
+          throw new Error('publish received before connect');
+        }
+        if (session.publishStreamId !== null) {
+          throw new Error('Session is already publishing');
+        }
+
+        // Encoders may append query parameters to the stream name
+        const streamKey = String(values[3] || '').split('?')[0];
+        if (!streamKey) {
+          this.sendStatus(session, message.streamId, 'error', 'NetStream.Publish.BadName', 'Stream key is required');
+          break;
+        }
+
+        let grant: PublishGrant | null = null;
+        if (this.publishAuthorizer) {
+          try {
+            grant = this.publishAuthorizer(streamKey, session.socket.remoteAddress ?? null);
+          } catch (error) {
+            this.sendStatus(session, message.streamId, 'error', 'NetStream.Publish.BadName',
+              error instanceof Error ? error.message : 'Publish refused');
+            break;
+          }
+        }
+
+        session.streamKey = streamKey;
+        session.publishStreamId = message.streamId;
+        session.demuxer = new FlvVideoDemuxer(this.options.defaultResolution);
+
+        const streamBegin = Buffer.alloc(6);
+        streamBegin.writeUInt16BE(USER_CONTROL_STREAM_BEGIN, 0);
+        streamBegin.writeUInt32BE(message.streamId, 2);
+        this.sendProtocolControl(session, RTMP_MESSAGE_TYPES.USER_CONTROL, streamBegin);
+        this.sendStatus(session, message.streamId, 'status', 'NetStream.Publish.Start', `${streamKey} is now published.`);
+
+        this.emit('stream:publish', { sessionId: session.sessionId, app: session.app, streamKey, grant });
+        break;
+      }
+
+      case 'FCUnpublish':
+      case 'deleteStream':
+      case 'closeStream':
+        this.unpublish(session);
+        break;
+
+      case 'play':
+        this.sendStatus(session, message.streamId, 'error', 'NetStream.Play.Failed', 'Playback is not served over RTMP');
+        break;
+
+      case 'releaseStream':
+      case 'FCPublish':
+      case 'getStreamLength':
+        if (transactionId > 0) {
+          this.sendCommand(session, 0, '_result', transactionId, null);
+        }
+        break;
+
+      default:
+        if (transactionId > 0) {
+          this.sendCommand(session, 0, '_error', transactionId, null,
+            { level: 'error', code: 'NetConnection.Call.Failed', description: `Unsupported command ${name}` });
+        }
+    }
+  }
+
+  private handleData0(session: RtmpSession, values: Amf0Value[]): void {
+    // Encoders send either '@setDataFrame', 'onMetaData', {...} or 'onMetaData', {...}
+    const index = values.indexOf('onMetaData');
+    const properties = index >= 0 ? values[index + 1] : undefined;
+    if (!properties || typeof properties !== 'object' || Array.isArray(properties) || properties instanceof Date) {
+      return;
+    }
+
+    const number = (value: Amf0Value) => (typeof value === 'number' ? value : undefined);
+    const metadata: RtmpStreamMetadata = {
+      width: number(properties.width),
+      height: number(properties.height),
+      frameRate: number(properties.framerate),
+      videoBitrate: properties.videodatarate !== undefined ? number(properties.videodatarate)! * 1000 : undefined,
+      audioEnabled: properties.audiocodecid !== undefined || properties.stereo !== undefined,
+      encoder: typeof properties.encoder === 'string' ? properties.encoder : undefined
+    };
+
+    session.metadata = metadata;
+    if (session.demuxer && metadata.width && metadata.height) {
+      session.demuxer.setResolution({ width: metadata.width, height: metadata.height });
+    }
+
+    this.emit('stream:metadata', { sessionId: session.sessionId, streamKey: session.streamKey, metadata });
+  }
+
+  private handleVideo(session: RtmpSession, message: RtmpMessage): void {
+    if (!session.demuxer || message.payload.length === 0) {
+      return;
+    }
+
+    const frame = session.demuxer.push(message.payload, message.timestamp);
+    if (frame) {
+      this.emit('frame:received', {
+        sessionId: session.sessionId,
+        streamKey: session.streamKey,
+        metadata: session.metadata,
+        frame
+      });
+    }
+  }
+
+  private unpublish(session: RtmpSession): void {
+    if (session.publishStreamId === null) {
+      return;
+    }
+
+    const streamKey = session.streamKey;
+    session.publishStreamId = null;
+    session.streamKey = null;
+    session.demuxer = null;
+    session.metadata = null;
+
+    this.emit('stream:unpublish', { sessionId: session.sessionId, streamKey });
+  }
+
+  private endSession(session: RtmpSession): void {
+    if (!this.sessions.delete(session.sessionId)) {
+      return;
+    }
+
+    this.unpublish(session);
+    this.emit('session:closed', { sessionId: session.sessionId });
+  }
+
+  private sendProtocolControl(session: RtmpSession, typeId: number, payload: Buffer): void {
+    this.write(session, { chunkStreamId: PROTOCOL_CHUNK_STREAM, typeId, streamId: 0, timestamp: 0, payload });
+  }
+
+  private sendCommand(session: RtmpSession, streamId: number, ...values: Amf0Value[]): void {
+    this.write(session, {
+      chunkStreamId: COMMAND_CHUNK_STREAM,
+      typeId: RTMP_MESSAGE_TYPES.COMMAND_AMF0,
+      streamId,
+      timestamp: 0,
+      payload: encodeAmf0(...values)
+    });
+  }
+
+  private sendStatus(session: RtmpSession, streamId: number, level: string, code: string, description: string): void {
+    this.write(session, {
+      chunkStreamId: STATUS_CHUNK_STREAM,
+      typeId: RTMP_MESSAGE_TYPES.COMMAND_AMF0,
+      streamId,
+      timestamp: 0,
+      payload: encodeAmf0('onStatus', 0, null, { level, code, description })
+    });
+  }
+
+  private write(session: RtmpSession, message: RtmpMessage): void {
+    if (!session.socket.destroyed) {
+      session.socket.write(session.writer.write(message));
+    }
+  }
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
\ No newline at end of file
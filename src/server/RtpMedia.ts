@@ -0,0 +1,236 @@
+import { RtpPacket, RtpHeader, dePacketizeRtpPackets, DepacketizerCodec } from 'werift';
+import { VideoFrame, VideoFormat, Resolution } from '../types';
+
+export type RtpVideoFormat = 'h264' | 'vp8' | 'vp9';
+
+const VIDEO_CLOCK_RATE = 90000;
+const H264_FU_A = 28;
+
+const DEPACKETIZER_CODECS: Record<RtpVideoFormat, DepacketizerCodec> = {
+  h264: 'MPEG4/ISO/AVC',
+  vp8: 'VP8',
+  vp9: 'VP9'
+};
+
+/**
+ * Map an RTP codec MIME type (e.g. video/H264) to a video format
+ */
+export function formatFromMimeType(mimeType: string): RtpVideoFormat | null {
+  switch (mimeType.toLowerCase()) {
+    case 'video/h264':
+      return 'h264';
+    case 'video/vp8':
+      return 'vp8';
+    case 'video/vp9':
+      return 'vp9';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reassembles RTP packets into encoded video frames
+ * Packets are grouped by RTP timestamp and a frame is emitted on the marker bit;
+ * frames with sequence gaps are dropped rather than handed to the decoder half-built
+ */
+export class RtpDepacketizer {
+  private format: RtpVideoFormat;
+  private resolution: Resolution;
+  private pending: RtpPacket[] = [];
+  private baseRtpTimestamp: number | null = null;
+  private baseWallClock = 0;
+  private droppedFrames = 0;
+
+  constructor(format: RtpVideoFormat, resolution: Resolution) {
+    this.format = format;
+    this.resolution = resolution;
+  }
+
+  /**
+   * Add a packet, returning a frame when the packet completes one
+   */
+  push(packet: RtpPacket): VideoFrame | null {
+    const current = this.pending[0];
+
+    // A new timestamp before the previous marker means the tail of that frame was lost
+    if (current && current.header.timestamp !== packet.header.timestamp) {
+      this.pending = [];
+      this.droppedFrames++;
+    }
+
+    this.pending.push(packet);
+    if (!packet.header.marker) {
+      return null;
+    }
+
+    const packets = this.pending.sort((a, b) => sequenceDelta(b.header.sequenceNumber, a.header.sequenceNumber));
+    this.pending = [];
+
+    for (let i = 1; i < packets.length; i++) {
+      if (sequenceDelta(packets[i - 1].header.sequenceNumber, packets[i].header.sequenceNumber) !== 1) {
+        this.droppedFrames++;
+        return null;
+      }
+    }
+
+    const { data, isKeyframe } = dePacketizeRtpPackets(DEPACKETIZER_CODECS[this.format], packets);
+    if (data.length === 0) {
+      this.droppedFrames++;
+      return null;
+    }
+
+    return {
+      data: new Uint8Array(data),
+      timestamp: this.toWallClock(packet.header.timestamp),
+      width: this.resolution.width,
+      height: this.resolution.height,
+      format: this.format,
+      keyframe: isKeyframe
+    };
+  }
+
+  /**
+   * Get the number of frames dropped because packets were lost
+   */
+  getDroppedFrames(): number {
+    return this.droppedFrames;
+  }
+
+  private toWallClock(rtpTimestamp: number): number {
+    if (this.baseRtpTimestamp === null) {
+      this.baseRtpTimestamp = rtpTimestamp;
+      this.baseWallClock = Date.now();
+    }
+
+    // Unsigned 32-bit difference handles timestamp wrap-around
+    const elapsed = (rtpTimestamp - this.baseRtpTimestamp) >>> 0;
+    return this.baseWallClock + Math.round((elapsed / VIDEO_CLOCK_RATE) * 1000);
+  }
+}
+
+/**
+ * Splits encoded video frames into RTP packets for forwarding to subscribers
+ * H.264 frames are expected in Annex B byte-stream form
+ */
+export class RtpPacketizer {
+  private format: RtpVideoFormat;
+  private maxPayloadSize: number;
+  private sequenceNumber: number;
+
+  constructor(format: RtpVideoFormat, maxPayloadSize: number = 1200) {
+    if (format === 'vp9') {
+      throw new Error('VP9 packetization is not supported');
+    }
+
+    this.format = format;
+    this.maxPayloadSize = maxPayloadSize;
+    this.sequenceNumber = Math.floor(Math.random() * 0xffff);
+  }
+
+  /**
+   * Check if a frame can be packetized by this packetizer
+   */
+  canPacketize(format: VideoFormat): boolean {
+    return format === this.format;
+  }
+
+  /**
+   * Packetize one encoded frame; the marker bit is set on its last packet
+   */
+  packetize(frame: VideoFrame): RtpPacket[] {
+    if (!this.canPacketize(frame.format)) {
+      throw new Error(`Cannot packetize ${frame.format} frame with ${this.format} packetizer`);
+    }
+
+    const timestamp = Math.round(frame.timestamp * (VIDEO_CLOCK_RATE / 1000)) >>> 0;
+    const payloads = this.format === 'h264'
+      ? this.packetizeH264(Buffer.from(frame.data))
+      : this.packetizeVp8(Buffer.from(frame.data));
+
+    return payloads.map((payload, i) => new RtpPacket(
+      new RtpHeader({
+        sequenceNumber: this.nextSequenceNumber(),
+        timestamp,
+        marker: i === payloads.length - 1
+      }),
+      payload
+    ));
+  }
+
+  private packetizeH264(data: Buffer): Buffer[] {
+    const payloads: Buffer[] = [];
+
+    for (const nal of splitAnnexB(data)) {
+      if (nal.length <= this.maxPayloadSize) {
+        payloads.push(nal);
+        continue;
+      }
+
+      // FU-A: the NAL header is split into an indicator and a per-fragment header
+      const indicator = (nal[0] & 0xe0) | H264_FU_A;
+      const nalType = nal[0] & 0x1f;
+      const chunkSize = this.maxPayloadSize - 2;
+
+      for (let offset = 1; offset < nal.length; offset += chunkSize) {
+        const end = Math.min(offset + chunkSize, nal.length);
+        const start = offset === 1 ? 0x80 : 0;
+        const last = end === nal.length ? 0x40 : 0;
+        payloads.push(Buffer.concat([Buffer.from([indicator, start | last | nalType]), nal.subarray(offset, end)]));
+      }
+    }
+
+    return payloads;
+  }
+
+  private packetizeVp8(data: Buffer): Buffer[] {
+    const payloads: Buffer[] = [];
+    const chunkSize = this.maxPayloadSize - 1;
+
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      // Minimal payload descriptor: only the start-of-partition bit on the first packet
+      const descriptor = offset === 0 ? 0x10 : 0x00;
+      payloads.push(Buffer.concat([Buffer.from([descriptor]), data.subarray(offset, offset + chunkSize)]));
+    }
+
+    return payloads;
+  }
+
+  private nextSequenceNumber(): number {
+    this.sequenceNumber = (this.sequenceNumber + 1) & 0xffff;
+    return this.sequenceNumber;
+  }
+}
+
+function splitAnnexB(data: Buffer): Buffer[] {
+  const nals: Buffer[] = [];
+  let start = -1;
+  let i = 0;
+
+  while (i + 2 < data.length) {
+    if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+      if (start >= 0) {
+        // Trailing zero belongs to a 4-byte start code
+        const end = data[i - 1] === 0 ? i - 1 : i;
+        nals.push(data.subarray(start, end));
+      }
+      i += 3;
+      start = i;
+    } else {
+      i++;
+    }
+  }
+
+  if (start >= 0 && start < data.length) {
+    nals.push(data.subarray(start));
+  } else if (start < 0 && data.length > 0) {
+    // No start codes: treat the whole buffer as a single NAL unit
+    nals.push(data);
+  }
+
+  return nals.filter(nal => nal.length > 0);
+}
+
+function sequenceDelta(from: number, to: number): number {
+  const delta = (to - from) & 0xffff;
+  return delta > 0x8000 ? delta - 0x10000 : delta;
+}
\ No newline at end of file
@@ -0,0 +1,275 @@
+import { EventEmitter } from 'events';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import {
+  SignalingMessage,
+  SignalingMessageType,
+  SignalingRole,
+  JoinRequest,
+  JoinResponse,
+  SessionDescription,
+  IceCandidateMessage,
+  ConnectionStateMessage,
+  WebRTCConnection,
+  StreamId
+} from '../types';
+import { WebRTCServer } from './WebRTCServer';
+import { StreamIngestionService } from './StreamIngestionService';
+import { logger } from '../utils/logger';
+
+interface SignalingSession {
+  socketId: string;
+  connectionId: string;
+  role: SignalingRole;
+  streamId?: StreamId;
+}
+
+/**
+ * Socket.IO signaling channel for WebRTCServer
+ * Each client session joins once, is bound to a WebRTC connection and then
+ * exchanges offer/answer and trickled ICE candidates over the 'signaling' event
+ */
+export class SignalingServer extends EventEmitter {
+  private io: SocketIOServer;
+  private webrtcServer: WebRTCServer;
+  private ingestionService: StreamIngestionService | null;
+  private sessions: Map<string, SignalingSession> = new Map();
+  private connectionSessions: Map<string, string> = new Map();
+
+  /**
+   * With an ingestion service, publishers must present a stream key it accepts
+   */
+  constructor(io: SocketIOServer, webrtcServer: WebRTCServer, ingestionService: StreamIngestionService | null = null) {
+    super();
+    this.io = io;
+    this.webrtcServer = webrtcServer;
+    this.ingestionService = ingestionService;
+    this.setupSocketHandlers();
+    this.setupWebRTCHandlers();
+  }
+
+  /**
+   * Handle one signaling message from a socket
+   */
+  async handleMessage(socket: Socket, message: SignalingMessage): Promise<void> {
+    if (!message || typeof message.sessionId !== 'string' || !message.sessionId) {
+      throw new Error('Signaling message requires a sessionId');
+    }
+
+    if (message.type === 'join') {
+      await this.handleJoin(socket, message as SignalingMessage<JoinRequest>);
+      return;
+    }
+
+    const session = this.getBoundSession(socket, message.sessionId);
+
+    switch (message.type) {
+      case 'offer': {
+        const offer = message.data as SessionDescription;
+        if (offer?.type !== 'offer' || typeof offer.sdp !== 'string') {
+          throw new Error('Offer must carry an SDP offer');
+        }
+
+        const answer = await this.webrtcServer.handleOffer(session.connectionId, offer);
+        this.send(socket.id, 'answer', message.sessionId, { type: 'answer', sdp: answer.sdp } as SessionDescription);
+        break;
+      }
+
+      case 'ice-candidate': {
+        const candidate = message.data as IceCandidateMessage;
+        if (typeof candidate?.candidate !== 'string') {
+          throw new Error('ICE candidate message requires a candidate');
+        }
+
+        await this.webrtcServer.handleIceCandidate(session.connectionId, candidate);
+        break;
+      }
+
+      case 'connection-state':
+        // Client-side state reports are informational only
+        this.emit('client:state', { sessionId: message.sessionId, ...message.data });
+        break;
+
+      case 'bye':
+        await this.closeSession(message.sessionId);
+        break;
+
+      default:
+        throw new Error(`Unsupported signaling message type: ${message.type}`);
+    }
+  }
+
+  /**
+   * Close a session and the WebRTC connection bound to it
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    this.connectionSessions.delete(session.connectionId);
+    await this.webrtcServer.closeConnection(session.connectionId);
+
+    this.emit('session:closed', { sessionId, connectionId: session.connectionId });
+  }
+
+  /**
+   * Get the WebRTC connection bound to a session
+   */
+  getSessionConnection(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.connectionId;
+  }
+
+  /**
+   * Get the number of bound signaling sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleJoin(socket: Socket, message: SignalingMessage<JoinRequest>): Promise<void> {
+    if (this.sessions.has(message.sessionId)) {
+      throw new Error(`Session ${message.sessionId} has already joined`);
+    }
+
+    const request = message.data;
+    let connection: WebRTCConnection;
+
+    if (request?.role === 'publisher') {
+      if (!request.streamConfig || (!request.userId && !this.ingestionService)) {
+        throw new Error('Publishers must provide userId and streamConfig');
+      }
+
+      // The stream key decides who publishes
+      const grant = this.ingestionService?.authorizePublish(request.streamKey, {
+        protocol: 'webrtc',
+        address: socket.handshake.address
+      });
+      connection = await this.webrtcServer.handleConnectionRequest(grant?.userId ?? request.userId!, request.streamConfig);
+      if (grant) {
+        this.ingestionService!.bindPublishGrant(connection.connectionId, grant);
+      }
+    } else if (request?.role === 'subscriber') {
+      if (!request.streamId) {
+        throw new Error('Subscribers must provide streamId');
+      }
+      connection = await this.webrtcServer.handleSubscribeRequest(request.streamId, request.userId || socket.id);
+    } else {
+      throw new Error('Join role must be publisher or subscriber');
+    }
+
+    this.sessions.set(message.sessionId, {
+      socketId: socket.id,
+      connectionId: connection.connectionId,
+      role: request.role,
+      streamId: request.streamId
+    });
+    this.connectionSessions.set(connection.connectionId, message.sessionId);
+
+    const response: JoinResponse = { connectionId: connection.connectionId, role: request.role };
+    this.send(socket.id, 'join', message.sessionId, response);
+
+    this.emit('session:joined', { sessionId: message.sessionId, ...response });
+  }
+
+  private getBoundSession(socket: Socket, sessionId: string): SignalingSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} has not joined`);
+    }
+
+    // Sessions are bound to the socket that joined them
+    if (session.socketId !== socket.id) {
+      throw new Error(`Session ${sessionId} is bound to another socket`);
+    }
+
+    return session;
+  }
+
+  private send<T>(socketId: string, type: SignalingMessageType, sessionId: string, data: T): void {
+    const message: SignalingMessage<T> = { type, data, sessionId, timestamp: Date.now() };
+    this.io.to(socketId).emit('signaling', message);
+  }
+
+  private sendState(connectionId: string, state: ConnectionStateMessage['state'], streamId?: StreamId): void {
+    const sessionId = this.connectionSessions.get(connectionId);
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!sessionId || !session) {
+      return;
+    }
+
+    if (streamId) {
+      session.streamId = streamId;
+    }
+
+    const data: ConnectionStateMessage = { connectionId, state, streamId: session.streamId };
+    this.send(session.socketId, 'connection-state', sessionId, data);
+  }
+
+  private setupWebRTCHandlers(): void {
+    // Trickle server candidates to the owning client
+    this.webrtcServer.on('ice:local_candidate', (data) => {
+      const sessionId = this.connectionSessions.get(data.connectionId);
+      const session = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (sessionId && session) {
+        this.send(session.socketId, 'ice-candidate', sessionId, data.candidate as IceCandidateMessage);
+      }
+    });
+
+    this.webrtcServer.on('connection:established', (data) => {
+      // Publishers are associated with a stream synchronously by ingestion on this event
+      this.sendState(data.connectionId, 'connected', this.webrtcServer.getConnectionStreamId(data.connectionId));
+    });
+
+    this.webrtcServer.on('connection:failed', (data) => {
+      this.sendState(data.connectionId, 'failed');
+    });
+
+    this.webrtcServer.on('connection:closed', (data) => {
+      const sessionId = this.connectionSessions.get(data.connectionId);
+      if (!sessionId) {
+        return;
+      }
+
+      this.sendState(data.connectionId, 'disconnected');
+      const session = this.sessions.get(sessionId);
+      this.sessions.delete(sessionId);
+      this.connectionSessions.delete(data.connectionId);
+      if (session) {
+        this.send(session.socketId, 'bye', sessionId, { connectionId: data.connectionId });
+      }
+    });
+  }
+
+  private setupSocketHandlers(): void {
+    this.io.on('connection', (socket) => {
+
+      // All signaling traffic for a session is carried on one event
+      socket.on('signaling', async (message: SignalingMessage) => {
+        try {
+          await this.handleMessage(socket, message);
+        } catch (error) {
+          logger.warn('Signaling request failed', { socketId: socket.id, type: message?.type, error });
+          this.send(socket.id, 'error', message?.sessionId || '', {
+            message: error instanceof Error ? error.message : String(error),
+            requestType: message?.type
+          });
+        }
+      });
+
+      // Handle disconnect
+      socket.on('disconnect', () => {
+        const owned = Array.from(this.sessions.entries())
+          .filter(([_, session]) => session.socketId === socket.id)
+          .map(([sessionId]) => sessionId);
+
+        for (const sessionId of owned) {
+          this.closeSession(sessionId).catch((error) => {
+            logger.error('Error closing signaling session', { sessionId, error });
+          });
+        }
+      });
+    });
+  }
+}
\ No newline at end of file
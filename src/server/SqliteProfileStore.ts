@@ -0,0 +1,200 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ProfileStore, StoredProfile, StreamSession } from './ProfileStore';
+import { logger } from '../utils/logger';
+
+export interface SqliteProfileStoreOptions {
+  file: string; // ':memory:' for a private in-memory database
+}
+
+const DEFAULT_OPTIONS: SqliteProfileStoreOptions = {
+  file: path.join('data', 'profiles.db')
+};
+
+/**
+ * Schema migrations in order; a database is at the version of the last one applied (PRAGMA user_version)
+ * Append new migrations, never edit applied ones
+ */
+export const PROFILE_STORE_MIGRATIONS: string[] = [
+  `CREATE TABLE profiles (
+    user_id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    user_agent TEXT NOT NULL,
+    screen_resolution TEXT NOT NULL,
+    registered_at INTEGER NOT NULL,
+    last_seen INTEGER NOT NULL,
+    total_sessions INTEGER NOT NULL
+  );
+  CREATE TABLE stream_sessions (
+    stream_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES profiles (user_id) ON DELETE CASCADE,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER,
+    quality TEXT NOT NULL,
+    persistent INTEGER NOT NULL,
+    background_mode INTEGER NOT NULL,
+    recordings TEXT NOT NULL
+  );
+  CREATE INDEX stream_sessions_user ON stream_sessions (user_id, start_time);
+  CREATE INDEX stream_sessions_end ON stream_sessions (end_time);`
+];
+
+interface ProfileRow {
+  user_id: string;
+  username: string;
+  user_agent: string;
+  screen_resolution: string;
+  registered_at: number;
+  last_seen: number;
+  total_sessions: number;
+}
+
+interface SessionRow {
+  stream_id: string;
+  user_id: string;
+  start_time: number;
+  end_time: number | null;
+  quality: string;
+  persistent: number;
+  background_mode: number;
+  recordings: string;
+}
+
+/**
+ * Profile store backed by an embedded SQLite database, migrated to the latest schema when opened
+ */
+export class SqliteProfileStore implements ProfileStore {
+  readonly name = 'sqlite';
+  private options: SqliteProfileStoreOptions;
+  private db: Database.Database;
+
+  constructor(options: Partial<SqliteProfileStoreOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (this.options.file !== ':memory:') {
+      mkdirSync(path.dirname(this.options.file), { recursive: true });
+    }
+    this.db = new Database(this.options.file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  async load(): Promise<StoredProfile[]> {
+    const profiles = this.db.prepare('SELECT * FROM profiles ORDER BY registered_at, user_id').all() as ProfileRow[];
+    const sessions = this.db.prepare('SELECT * FROM stream_sessions ORDER BY start_time, stream_id').all() as SessionRow[];
+
+    const history = new Map<string, StreamSession[]>();
+    for (const row of sessions) {
+      const list = history.get(row.user_id) ?? [];
+      list.push({
+        streamId: row.stream_id,
+        startTime: new Date(row.start_time),
+        ...(row.end_time === null ? {} : { endTime: new Date(row.end_time) }),
+        quality: row.quality,
+        persistent: row.persistent === 1,
+        backgroundMode: row.background_mode === 1,
+        recordings: JSON.parse(row.recordings)
+      });
+      history.set(row.user_id, list);
+    }
+
+    return profiles.map(row => ({
+      userId: row.user_id,
+      username: row.username,
+      userAgent: row.user_agent,
+      screenResolution: row.screen_resolution,
+      registeredAt: new Date(row.registered_at),
+      lastSeen: new Date(row.last_seen),
+      totalSessions: row.total_sessions,
+      streamHistory: history.get(row.user_id) ?? []
+    }));
+  }
+
+  async save(profiles: StoredProfile[]): Promise<void> {
+    const upsertProfile = this.db.prepare(`
+      INSERT INTO profiles (user_id, username, user_agent, screen_resolution, registered_at, last_seen, total_sessions)
+      VALUES (@userId, @username, @userAgent, @screenResolution, @registeredAt, @lastSeen, @totalSessions)
+      ON CONFLICT (user_id) DO UPDATE SET
+        username = excluded.username,
+        user_agent = excluded.user_agent,
+        screen_resolution = excluded.screen_resolution,
+        registered_at = excluded.registered_at,
+        last_seen = excluded.last_seen,
+        total_sessions = excluded.total_sessions`);
+    const upsertSession = this.db.prepare(`
+      INSERT INTO stream_sessions (stream_id, user_id, start_time, end_time, quality, persistent, background_mode, recordings)
+      VALUES (@streamId, @userId, @startTime, @endTime, @quality, @persistent, @backgroundMode, @recordings)
+      ON CONFLICT (stream_id) DO UPDATE SET
+        user_id = excluded.user_id,
+        end_time = excluded.end_time,
+        quality = excluded.quality,
+        persistent = excluded.persistent,
+        background_mode = excluded.background_mode,
+        recordings = excluded.recordings`);
+
+    this.db.transaction((batch: StoredProfile[]) => {
+      for (const profile of batch) {
+        upsertProfile.run({
+          userId: profile.userId,
+          username: profile.username,
+          userAgent: profile.userAgent ?? '',
+          screenResolution: profile.screenResolution ?? '',
+          registeredAt: profile.registeredAt.getTime(),
+          lastSeen: profile.lastSeen.getTime(),
+          totalSessions: profile.totalSessions
+        });
+        for (const session of profile.streamHistory) {
+          upsertSession.run({
+            streamId: session.streamId,
+            userId: profile.userId,
+            startTime: session.startTime.getTime(),
+            endTime: session.endTime ? session.endTime.getTime() : null,
+            quality: session.quality,
+            persistent: session.persistent ? 1 : 0,
+            backgroundMode: session.backgroundMode ? 1 : 0,
+            recordings: JSON.stringify(session.recordings)
+          });
+        }
+      }
+    })(profiles);
+  }
+
+  async purgeSessionsBefore(cutoff: Date): Promise<number> {
+    return this.db.prepare('DELETE FROM stream_sessions WHERE end_time < ?').run(cutoff.getTime()).changes;
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Schema version of the open database
+   */
+  getSchemaVersion(): number {
+    return this.db.pragma('user_version', { simple: true }) as number;
+  }
+
+  getOptions(): SqliteProfileStoreOptions {
+    return { ...this.options };
+  }
+
+  private migrate(): void {
+    const version = this.getSchemaVersion();
+    if (version > PROFILE_STORE_MIGRATIONS.length) {
+      this.db.close();
+      throw new Error(`Profile database ${this.options.file} is at schema version ${version}, newer than this server supports`);
+    }
+
+    for (let index = version; index < PROFILE_STORE_MIGRATIONS.length; index++) {
+      this.db.transaction(() => {
+        this.db.exec(PROFILE_STORE_MIGRATIONS[index]);
+        this.db.pragma(`user_version = ${index + 1}`);
+      })();
+      logger.info('Profile database migrated', { file: this.options.file, version: index + 1 });
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from 'crypto';
+
+/**
+ * SRT payload encryption
+ * The sender generates stream encrypting keys (SEKs), wraps them with a key derived
+ * from the shared passphrase and announces them in a key material message;
+ * payloads are then AES-CTR encrypted with a counter built from the salt and sequence number
+ */
+
+export const SRT_KEY_FLAGS = {
+  EVEN: 1,
+  ODD: 2,
+  BOTH: 3
+} as const;
+
+const KM_SIGNATURE = 0x2029; // "HAI" PnP vendor ID
+const KM_CIPHER_AES_CTR = 2;
+const KM_STREAM_ENCAPSULATION_SRT = 2;
+const SALT_LENGTH = 16;
+const PBKDF2_ITERATIONS = 2048;
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+
+export type SrtKeyLength = 16 | 24 | 32;
+
+export interface SrtKeyMaterial {
+  keyFlags: number;
+  keyLength: SrtKeyLength;
+  salt: Buffer;
+  wrappedKeys: Buffer;
+}
+
+/**
+ * Decode a key material message (KMREQ/KMRSP content)
+ */
+export function parseKeyMaterial(data: Buffer): SrtKeyMaterial {
+  if (data.length < 16 || (data[0] & 0x0f) !== 2 || data.readUInt16BE(1) !== KM_SIGNATURE) {
+    throw new Error('Invalid SRT key material message');
+  }
+
+  if (data[8] !== KM_CIPHER_AES_CTR) {
+    throw new Error(`Unsupported SRT cipher ${data[8]}`);
+  }
+
+  const keyFlags = data[3] & 0x03;
+  const saltLength = data[14] * 4;
+  const keyLength = data[15] * 4;
+  if (keyLength !== 16 && keyLength !== 24 && keyLength !== 32) {
+    throw new Error(`Unsupported SRT key length ${keyLength}`);
+  }
+
+  const keyCount = keyFlags === SRT_KEY_FLAGS.BOTH ? 2 : 1;
+  const wrappedLength = keyCount * keyLength + 8;
+  if (data.length < 16 + saltLength + wrappedLength) {
+    throw new Error('Truncated SRT key material message');
+  }
+
+  return {
+    keyFlags,
+    keyLength,
+    salt: data.subarray(16, 16 + saltLength),
+    wrappedKeys: data.subarray(16 + saltLength, 16 + saltLength + wrappedLength)
+  };
+}
+
+/**
+ * Encode a key material message
+ */
+export function encodeKeyMaterial(material: SrtKeyMaterial): Buffer {
+  const header = Buffer.alloc(16);
+  header[0] = 0x12; // version 1, packet type KM
+  header.writeUInt16BE(KM_SIGNATURE, 1);
+  header[3] = material.keyFlags;
+  header[8] = KM_CIPHER_AES_CTR;
+  header[10] = KM_STREAM_ENCAPSULATION_SRT;
+  header[14] = material.salt.length / 4;
+  header[15] = material.keyLength / 4;
+  return Buffer.concat([header, material.salt, material.wrappedKeys]);
+}
+
+/**
+ * Derive the key encrypting key from the passphrase and the low 64 bits of the salt
+ */
+export function deriveKek(passphrase: string, salt: Buffer, keyLength: SrtKeyLength): Buffer {
+  return pbkdf2Sync(passphrase, salt.subarray(salt.length - 8), PBKDF2_ITERATIONS, keyLength, 'sha1');
+}
+
+/**
+ * Holds the stream encrypting keys of one connection
+ */
+export class SrtCipher {
+  private salt: Buffer;
+  private keys: Map<number, Buffer> = new Map();
+
+  constructor(salt: Buffer, evenKey: Buffer | null, oddKey: Buffer | null) {
+    this.salt = salt;
+    if (evenKey) this.keys.set(SRT_KEY_FLAGS.EVEN, evenKey);
+    if (oddKey) this.keys.set(SRT_KEY_FLAGS.ODD, oddKey);
+  }
+
+  /**
+   * Unwrap announced keys; a wrong passphrase fails the key wrap integrity check
+   */
+  static fromKeyMaterial(material: SrtKeyMaterial, passphrase: string): SrtCipher {
+    const kek = deriveKek(passphrase, material.salt, material.keyLength);
+    let keys: Buffer;
+    try {
+      const decipher = createDecipheriv(`id-aes${material.keyLength * 8}-wrap`, kek, KEY_WRAP_IV);
+      keys = Buffer.concat([decipher.update(material.wrappedKeys), decipher.final()]);
+    } catch (error) {
+      throw new Error('SRT passphrase does not match the key material');
+    }
+
+    const first = keys.subarray(0, material.keyLength);
+    const second = keys.subarray(material.keyLength);
+    switch (material.keyFlags) {
+      case SRT_KEY_FLAGS.EVEN:
+        return new SrtCipher(material.salt, first, null);
+      case SRT_KEY_FLAGS.ODD:
+        return new SrtCipher(material.salt, null, first);
+      default:
+        return new SrtCipher(material.salt, first, second);
+    }
+  }
+
+  /**
+   * Generate an even key and the key material announcing it, as the sending side does
+   */
+  static generate(passphrase: string, keyLength: SrtKeyLength): { cipher: SrtCipher; material: SrtKeyMaterial } {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = randomBytes(keyLength);
+    const cipher = createCipheriv(`id-aes${keyLength * 8}-wrap`, deriveKek(passphrase, salt, keyLength), KEY_WRAP_IV);
+
+    return {
+      cipher: new SrtCipher(salt, key, null),
+      material: {
+        keyFlags: SRT_KEY_FLAGS.EVEN,
+        keyLength,
+        salt,
+        wrappedKeys: Buffer.concat([cipher.update(key), cipher.final()])
+      }
+    };
+  }
+
+  /**
+   * Replace keys announced in a refreshed key material message
+   */
+  update(other: SrtCipher): void {
+    this.salt = other.salt;
+    for (const [flags, key] of other.keys) {
+      this.keys.set(flags, key);
+    }
+  }
+
+  /**
+   * Decrypt (or encrypt: CTR mode is symmetric) one packet payload
+   */
+  apply(payload: Buffer, sequenceNumber: number, keyFlags: number): Buffer {
+    const key = this.keys.get(keyFlags);
+    if (!key) {
+      throw new Error(`No SRT ${keyFlags === SRT_KEY_FLAGS.EVEN ? 'even' : 'odd'} key has been announced`);
+    }
+
+    // Counter block: packet index at bytes 10-13, XORed with the top 112 bits of the salt
+    const iv = Buffer.alloc(16);
+    iv.writeUInt32BE(sequenceNumber >>> 0, 10);
+    for (let i = 0; i < 14; i++) {
+      iv[i] ^= this.salt[i];
+    }
+
+    const cipher = createCipheriv(`aes-${key.length * 8}-ctr`, key, iv);
+    return Buffer.concat([cipher.update(payload), cipher.final()]);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,325 @@
+/**
+ * SRT packet wire format
+ * Every packet has a 16-byte header; control packets carry a type-specific
+ * information field and CIF, data packets carry a sequence number and payload
+ */
+
+export const SRT_HEADER_SIZE = 16;
+export const SRT_VERSION = 5;
+export const SRT_HANDSHAKE_MAGIC = 0x4a17;
+export const SRT_LIBRARY_VERSION = 0x010501; // 1.5.1
+
+export const SRT_CONTROL_TYPES = {
+  HANDSHAKE: 0x0000,
+  KEEPALIVE: 0x0001,
+  ACK: 0x0002,
+  NAK: 0x0003,
+  SHUTDOWN: 0x0005,
+  ACKACK: 0x0006,
+  DROPREQ: 0x0007
+} as const;
+
+export const SRT_HANDSHAKE_TYPES = {
+  INDUCTION: 0x00000001,
+  WAVEAHAND: 0x00000000,
+  CONCLUSION: 0xffffffff,
+  AGREEMENT: 0xfffffffe,
+  DONE: 0xfffffffd
+} as const;
+
+// Handshake rejection reasons are sent in place of the handshake type
+export const SRT_REJECT_REASONS = {
+  PEER: 1002,
+  ROGUE: 1004,
+  VERSION: 1007,
+  BADSECRET: 1010,
+  UNSECURE: 1011,
+  BAD_REQUEST: 1400,
+  UNAUTHORIZED: 1401,
+  BAD_MODE: 1405
+} as const;
+
+export const SRT_EXTENSION_TYPES = {
+  HSREQ: 1,
+  HSRSP: 2,
+  KMREQ: 3,
+  KMRSP: 4,
+  SID: 5
+} as const;
+
+// Extension field flags in a conclusion handshake
+export const SRT_EXTENSION_FLAGS = {
+  HSREQ: 0x1,
+  KMREQ: 0x2,
+  CONFIG: 0x4
+} as const;
+
+// SRT flags carried in HSREQ/HSRSP
+export const SRT_FLAGS = {
+  TSBPDSND: 0x01,
+  TSBPDRCV: 0x02,
+  CRYPT: 0x04,
+  TLPKTDROP: 0x08,
+  PERIODICNAK: 0x10,
+  REXMITFLG: 0x20
+} as const;
+
+export interface SrtDataPacket {
+  control: false;
+  sequenceNumber: number;
+  position: number;
+  inOrder: boolean;
+  keyFlags: number; // 0 clear, 1 even key, 2 odd key
+  retransmitted: boolean;
+  messageNumber: number;
+  timestamp: number;
+  destinationSocketId: number;
+  payload: Buffer;
+}
+
+export interface SrtControlPacket {
+  control: true;
+  controlType: number;
+  subtype: number;
+  typeSpecific: number;
+  timestamp: number;
+  destinationSocketId: number;
+  cif: Buffer;
+}
+
+export type SrtPacket = SrtDataPacket | SrtControlPacket;
+
+export interface SrtHandshakeExtension {
+  type: number;
+  data: Buffer;
+}
+
+export interface SrtHandshake {
+  version: number;
+  encryptionField: number;
+  extensionField: number;
+  initialSequenceNumber: number;
+  mtu: number;
+  flowWindow: number;
+  handshakeType: number;
+  socketId: number;
+  synCookie: number;
+  peerAddress: Buffer;
+  extensions: SrtHandshakeExtension[];
+}
+
+export interface SrtHandshakeRequest {
+  srtVersion: number;
+  flags: number;
+  receiverLatency: number; // milliseconds
+  senderLatency: number;
+}
+
+/**
+ * Decode a UDP datagram as an SRT packet
+ */
+export function parseSrtPacket(datagram: Buffer): SrtPacket {
+  if (datagram.length < SRT_HEADER_SIZE) {
+    throw new Error(`SRT packet of ${datagram.length} bytes is shorter than its header`);
+  }
+
+  const first = datagram.readUInt32BE(0);
+  const second = datagram.readUInt32BE(4);
+  const timestamp = datagram.readUInt32BE(8);
+  const destinationSocketId = datagram.readUInt32BE(12);
+
+  if (first & 0x80000000) {
+    return {
+      control: true,
+      controlType: (first >>> 16) & 0x7fff,
+      subtype: first & 0xffff,
+      typeSpecific: second,
+      timestamp,
+      destinationSocketId,
+      cif: datagram.subarray(SRT_HEADER_SIZE)
+    };
+  }
+
+  return {
+    control: false,
+    sequenceNumber: first,
+    position: second >>> 30,
+    inOrder: ((second >>> 29) & 1) === 1,
+    keyFlags: (second >>> 27) & 0x03,
+    retransmitted: ((second >>> 26) & 1) === 1,
+    messageNumber: second & 0x03ffffff,
+    timestamp,
+    destinationSocketId,
+    payload: datagram.subarray(SRT_HEADER_SIZE)
+  };
+}
+
+/**
+ * Encode a data packet
+ */
+export function encodeDataPacket(packet: Omit<SrtDataPacket, 'control'>): Buffer {
+  const header = Buffer.alloc(SRT_HEADER_SIZE);
+  header.writeUInt32BE(packet.sequenceNumber & 0x7fffffff, 0);
+  header.writeUInt32BE((
+    (packet.position << 30)
+    | ((packet.inOrder ? 1 : 0) << 29)
+    | (packet.keyFlags << 27)
+    | ((packet.retransmitted ? 1 : 0) << 26)
+    | (packet.messageNumber & 0x03ffffff)
+  ) >>> 0, 4);
+  header.writeUInt32BE(packet.timestamp >>> 0, 8);
+  header.writeUInt32BE(packet.destinationSocketId >>> 0, 12);
+  return Buffer.concat([header, packet.payload]);
+}
+
+/**
+ * Encode a control packet
+ */
+export function encodeControlPacket(packet: Omit<SrtControlPacket, 'control'>): Buffer {
+  const header = Buffer.alloc(SRT_HEADER_SIZE);
+  header.writeUInt32BE((0x80000000 | (packet.controlType << 16) | packet.subtype) >>> 0, 0);
+  header.writeUInt32BE(packet.typeSpecific >>> 0, 4);
+  header.writeUInt32BE(packet.timestamp >>> 0, 8);
+  header.writeUInt32BE(packet.destinationSocketId >>> 0, 12);
+  return Buffer.concat([header, packet.cif]);
+}
+
+/**
+ * Decode the CIF of a handshake control packet
+ */
+export function parseHandshake(cif: Buffer): SrtHandshake {
+  if (cif.length < 48) {
+    throw new Error('Truncated SRT handshake');
+  }
+
+  const extensions: SrtHandshakeExtension[] = [];
+  for (let offset = 48; offset + 4 <= cif.length;) {
+    const type = cif.readUInt16BE(offset);
+    const length = cif.readUInt16BE(offset + 2) * 4;
+    if (offset + 4 + length > cif.length) {
+      throw new Error('Truncated SRT handshake extension');
+    }
+    extensions.push({ type, data: cif.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+
+  return {
+    version: cif.readUInt32BE(0),
+    encryptionField: cif.readUInt16BE(4),
+    extensionField: cif.readUInt16BE(6),
+    initialSequenceNumber: cif.readUInt32BE(8),
+    mtu: cif.readUInt32BE(12),
+    flowWindow: cif.readUInt32BE(16),
+    handshakeType: cif.readUInt32BE(20),
+    socketId: cif.readUInt32BE(24),
+    synCookie: cif.readUInt32BE(28),
+    peerAddress: cif.subarray(32, 48),
+    extensions
+  };
+}
+
+/**
+ * Encode a handshake CIF
+ */
+export function encodeHandshake(handshake: SrtHandshake): Buffer {
+  const cif = Buffer.alloc(48);
+  cif.writeUInt32BE(handshake.version, 0);
+  cif.writeUInt16BE(handshake.encryptionField, 4);
+  cif.writeUInt16BE(handshake.extensionField, 6);
+  cif.writeUInt32BE(handshake.initialSequenceNumber >>> 0, 8);
+  cif.writeUInt32BE(handshake.mtu, 12);
+  cif.writeUInt32BE(handshake.flowWindow, 16);
+  cif.writeUInt32BE(handshake.handshakeType >>> 0, 20);
+  cif.writeUInt32BE(handshake.socketId >>> 0, 24);
+  cif.writeUInt32BE(handshake.synCookie >>> 0, 28);
+  handshake.peerAddress.copy(cif, 32, 0, 16);
+
+  const extensions = handshake.extensions.map(extension => {
+    if (extension.data.length % 4 !== 0) {
+      throw new Error('SRT handshake extensions must be a whole number of 32-bit words');
+    }
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(extension.type, 0);
+    header.writeUInt16BE(extension.data.length / 4, 2);
+    return Buffer.concat([header, extension.data]);
+  });
+
+  return Buffer.concat([cif, ...extensions]);
+}
+
+export function parseHandshakeRequest(data: Buffer): SrtHandshakeRequest {
+  if (data.length < 12) {
+    throw new Error('Truncated SRT HSREQ extension');
+  }
+
+  return {
+    srtVersion: data.readUInt32BE(0),
+    flags: data.readUInt32BE(4),
+    receiverLatency: data.readUInt16BE(8),
+    senderLatency: data.readUInt16BE(10)
+  };
+}
+
+export function encodeHandshakeRequest(request: SrtHandshakeRequest): Buffer {
+  const data = Buffer.alloc(12);
+  data.writeUInt32BE(request.srtVersion, 0);
+  data.writeUInt32BE(request.flags, 4);
+  data.writeUInt16BE(request.receiverLatency, 8);
+  data.writeUInt16BE(request.senderLatency, 10);
+  return data;
+}
+
+/**
+ * Decode a stream ID extension
+ * libsrt stores the string in host-order 32-bit words, so each word arrives byte-reversed
+ */
+export function parseStreamIdExtension(data: Buffer): string {
+  const bytes = Buffer.from(data);
+  for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+    bytes.subarray(offset, offset + 4).reverse();
+  }
+  const end = bytes.indexOf(0);
+  return bytes.toString('utf8', 0, end < 0 ? bytes.length : end);
+}
+
+export function encodeStreamIdExtension(streamId: string): Buffer {
+  const text = Buffer.from(streamId, 'utf8');
+  const bytes = Buffer.alloc(Math.ceil(text.length / 4) * 4);
+  text.copy(bytes);
+  for (let offset = 0; offset < bytes.length; offset += 4) {
+    bytes.subarray(offset, offset + 4).reverse();
+  }
+  return bytes;
+}
+
+/**
+ * Parse the key of a stream ID, either plain or in the "#!::r=<key>,m=<mode>" access control syntax
+ */
+export function parseStreamId(streamId: string): { resource: string; mode: string } {
+  if (!streamId.startsWith('#!::')) {
+    return { resource: streamId, mode: 'publish' };
+  }
+
+  const fields = new Map<string, string>();
+  for (const pair of streamId.slice(4).split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      fields.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  }
+
+  return { resource: fields.get('r') || '', mode: fields.get('m') || 'request' };
+}
+
+/**
+ * Compare sequence numbers in the 31-bit circular space
+ * Returns a negative number when a precedes b
+ */
+export function compareSequence(a: number, b: number): number {
+  const difference = (a - b) & 0x7fffffff;
+  return difference >= 0x40000000 ? difference - 0x80000000 : difference;
+}
+
+export function nextSequence(sequenceNumber: number, step: number = 1): number {
+  return (sequenceNumber + step) & 0x7fffffff;
+}
\ No newline at end of file
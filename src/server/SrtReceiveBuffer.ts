@@ -0,0 +1,105 @@
+import { compareSequence, nextSequence } from './SrtPacket';
+
+/**
+ * Reorders received SRT data packets and tracks losses
+ * Contiguous packets are delivered as soon as they arrive; a gap is held open for
+ * retransmission for up to the negotiated latency, then skipped (too-late packet drop)
+ */
+export class SrtReceiveBuffer {
+  private nextToDeliver: number;
+  private highestReceived: number;
+  private pending: Map<number, Buffer> = new Map();
+  private missing: Map<number, number> = new Map(); // sequence number -> time the loss was detected
+  private latencyMs: number;
+  private flowWindow: number;
+  private droppedPackets = 0;
+
+  constructor(initialSequence: number, latencyMs: number, flowWindow: number = 8192) {
+    this.nextToDeliver = initialSequence;
+    this.highestReceived = nextSequence(initialSequence, -1);
+    this.latencyMs = latencyMs;
+    this.flowWindow = flowWindow;
+  }
+
+  /**
+   * Add a packet, returning in-order payloads it releases and the sequence numbers newly found missing
+   */
+  push(sequenceNumber: number, payload: Buffer, now: number): { delivered: Buffer[]; lost: number[] } {
+    const offset = compareSequence(sequenceNumber, this.nextToDeliver);
+    if (offset < 0 || offset >= this.flowWindow || this.pending.has(sequenceNumber)) {
+      return { delivered: [], lost: [] }; // late, duplicate or outside the receive window
+    }
+
+    const lost: number[] = [];
+    if (compareSequence(sequenceNumber, this.highestReceived) > 0) {
+      for (let gap = nextSequence(this.highestReceived); gap !== sequenceNumber; gap = nextSequence(gap)) {
+        this.missing.set(gap, now);
+        lost.push(gap);
+      }
+      this.highestReceived = sequenceNumber;
+    } else {
+      this.missing.delete(sequenceNumber);
+    }
+
+    this.pending.set(sequenceNumber, payload);
+    return { delivered: this.drain(), lost };
+  }
+
+  /**
+   * Give up on gaps older than the latency, returning the payloads released behind them
+   */
+  expire(now: number): Buffer[] {
+    const delivered: Buffer[] = [];
+
+    for (;;) {
+      delivered.push(...this.drain());
+      const lostAt = this.missing.get(this.nextToDeliver);
+      if (lostAt === undefined || now - lostAt < this.latencyMs) {
+        return delivered;
+      }
+
+      this.missing.delete(this.nextToDeliver);
+      this.droppedPackets++;
+      this.nextToDeliver = nextSequence(this.nextToDeliver);
+    }
+  }
+
+  /**
+   * Stop waiting for packets the sender has dropped (DROPREQ)
+   */
+  abandon(first: number, last: number): void {
+    for (const sequenceNumber of this.missing.keys()) {
+      if (compareSequence(sequenceNumber, first) >= 0 && compareSequence(sequenceNumber, last) <= 0) {
+        this.missing.set(sequenceNumber, -Infinity);
+      }
+    }
+  }
+
+  /**
+   * Get the sequence numbers still awaiting retransmission, oldest first
+   */
+  getLossList(): number[] {
+    return Array.from(this.missing.keys()).sort(compareSequence);
+  }
+
+  /**
+   * Get the sequence number up to which everything has been received or dropped
+   */
+  getAckSequence(): number {
+    return this.nextToDeliver;
+  }
+
+  getDroppedPackets(): number {
+    return this.droppedPackets;
+  }
+
+  private drain(): Buffer[] {
+    const delivered: Buffer[] = [];
+    for (let payload = this.pending.get(this.nextToDeliver); payload; payload = this.pending.get(this.nextToDeliver)) {
+      delivered.push(payload);
+      this.pending.delete(this.nextToDeliver);
+      this.nextToDeliver = nextSequence(this.nextToDeliver);
+    }
+    return delivered;
+  }
+}
\ No newline at end of file
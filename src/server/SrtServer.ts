@@ -0,0 +1,798 @@
+import { EventEmitter } from 'events';
+import { createSocket, Socket, RemoteInfo } from 'dgram';
+import { createHmac, randomBytes } from 'crypto';
+import { Resolution, PublishAuthorizer, PublishGrant } from '../types';
+import {
+  SrtControlPacket,
+  SrtDataPacket,
+  SrtHandshake,
+  SRT_CONTROL_TYPES,
+  SRT_EXTENSION_FLAGS,
+  SRT_EXTENSION_TYPES,
+  SRT_FLAGS,
+  SRT_HANDSHAKE_MAGIC,
+  SRT_HANDSHAKE_TYPES,
+  SRT_LIBRARY_VERSION,
+  SRT_REJECT_REASONS,
+  SRT_VERSION,
+  encodeControlPacket,
+  encodeHandshake,
+  encodeHandshakeRequest,
+  encodeStreamIdExtension,
+  nextSequence,
+  parseHandshake,
+  parseHandshakeRequest,
+  parseSrtPacket,
+  parseStreamId,
+  parseStreamIdExtension
+} from './SrtPacket';
+import { SrtCipher, SrtKeyLength, encodeKeyMaterial, parseKeyMaterial } from './SrtCrypto';
+import { SrtReceiveBuffer } from './SrtReceiveBuffer';
+import { MpegTsDemuxer } from './MpegTsDemuxer';
+
+export type SrtMode = 'listener' | 'caller';
+
+type ConclusionResult =
+  | { accepted: true; streamKey: string; grant: PublishGrant | null; latencyMs: number; cipher: SrtCipher | null; keyMaterial: Buffer | null }
+  | { accepted: false; reason: number; message: string };
+
+export interface SrtServerOptions {
+  latencyMs: number;
+  passphrase: string | null;
+  keyLength: SrtKeyLength;
+  peerIdleTimeoutMs: number;
+  connectTimeoutMs: number;
+  defaultResolution: Resolution;
+}
+
+interface SrtSession {
+  sessionId: string;
+  mode: SrtMode;
+  socket: Socket;
+  address: string;
+  port: number;
+  localSocketId: number;
+  peerSocketId: number;
+  streamKey: string;
+  latencyMs: number;
+  startedAt: number;
+  receiver: SrtReceiveBuffer;
+  cipher: SrtCipher | null;
+  demuxer: MpegTsDemuxer;
+  conclusion: Buffer | null;
+  timer: NodeJS.Timeout;
+  lastPacketAt: number;
+  lastKeepaliveAt: number;
+  lastNakAt: number;
+  ackNumber: number;
+  lastAckSequence: number;
+  acksInFlight: Map<number, number>;
+  rtt: number; // microseconds
+  rttVariance: number;
+  rateWindowStart: number;
+  rateWindowPackets: number;
+  rateWindowBytes: number;
+  packetRate: number;
+  byteRate: number;
+}
+
+const MTU = 1500;
+const FLOW_WINDOW = 8192;
+const TICK_INTERVAL_MS = 10;
+const KEEPALIVE_INTERVAL_MS = 1000;
+const MIN_NAK_INTERVAL_MS = 20;
+const HANDSHAKE_RETRY_MS = 250;
+const MAX_NAK_ENTRIES = 300;
+const USER_DEFINED_CONTROL = 0x7fff;
+const RECEIVER_FLAGS = SRT_FLAGS.TSBPDRCV | SRT_FLAGS.TLPKTDROP | SRT_FLAGS.PERIODICNAK | SRT_FLAGS.REXMITFLG;
+
+const DEFAULT_OPTIONS: SrtServerOptions = {
+  latencyMs: 120,
+  passphrase: null,
+  keyLength: 16,
+  peerIdleTimeoutMs: 5000,
+  connectTimeoutMs: 3000,
+  defaultResolution: { width: 1280, height: 720 }
+};
+
+/**
+ * SRT ingest for contribution feeds carrying MPEG-TS
+ * Listens for callers and can also call out to a remote SRT listener; either way the
+ * peer is the sender and received transport streams leave as access-unit frames
+ */
+export class SrtServer extends EventEmitter {
+  private socket: Socket | null = null;
+  private sessions: Map<string, SrtSession> = new Map();
+  private sessionsBySocketId: Map<number, SrtSession> = new Map();
+  private options: SrtServerOptions;
+  private port: number;
+  private cookieSecret: Buffer = randomBytes(16);
+  private publishAuthorizer: PublishAuthorizer | null = null;
+
+  constructor(port: number = 9000, options: Partial<SrtServerOptions> = {}) {
+    super();
+    this.port = port;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    const passphrase = this.options.passphrase;
+    if (passphrase !== null && (passphrase.length < 10 || passphrase.length > 79)) {
+      throw new Error('SRT passphrase must be 10 to 79 characters');
+    }
+  }
+
+  /**
+   * Check stream keys before a feed is accepted; callers with a refused key are rejected as unauthorized
+   */
+  setPublishAuthorizer(authorizer: PublishAuthorizer | null): void {
+    this.publishAuthorizer = authorizer;
+  }
+
+  /**
+   * Start listening for SRT callers
+   */
+  async start(): Promise<void> {
+    if (this.socket) {
+      throw new Error('SRT server is already running');
+    }
+
+    const socket = createSocket('udp4');
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(this.port, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+
+    socket.on('message', (datagram, remote) => this.handleListenerDatagram(socket, datagram, remote));
+    socket.on('error', (error) => this.emit('server:error', { error }));
+
+    this.socket = socket;
+    this.port = socket.address().port;
+    this.emit('server:started', { port: this.port, latencyMs: this.options.latencyMs });
+  }
+
+  /**
+   * Stop listening and shut down every session
+   */
+  async stop(): Promise<void> {
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.closeSession(sessionId);
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      await new Promise<void>(resolve => socket.close(() => resolve()));
+      this.emit('server:stopped');
+    }
+  }
+
+  /**
+   * Call a remote SRT listener and receive the feed it sends
+   * The stream key is checked against the address of whoever asked for the call, not the
+   * remote host they chose, so failed attempts count against the requester
+   */
+  async call(host: string, port: number, streamId: string, requesterAddress: string | null = null): Promise<string> {
+    const streamKey = parseStreamId(streamId).resource;
+    const grant = this.publishAuthorizer ? this.publishAuthorizer(streamKey, requesterAddress) : null;
+
+    const socket = createSocket('udp4');
+    await new Promise<void>(resolve => socket.bind(0, () => resolve()));
+    socket.on('error', (error) => this.emit('server:error', { error }));
+
+    const localSocketId = this.generateSocketId();
+    const initialSequenceNumber = randomBytes(4).readUInt32BE(0) & 0x7fffffff;
+    const generated = this.options.passphrase
+      ? SrtCipher.generate(this.options.passphrase, this.options.keyLength)
+      : null;
+
+    const send = (handshake: SrtHandshake) => {
+      socket.send(encodeControlPacket({
+        controlType: SRT_CONTROL_TYPES.HANDSHAKE,
+        subtype: 0,
+        typeSpecific: 0,
+        timestamp: 0,
+        destinationSocketId: 0,
+        cif: encodeHandshake(handshake)
+      }), port, host);
+    };
+
+    const base: SrtHandshake = {
+      version: 4,
+      encryptionField: 0,
+      extensionField: 2, // UDT datagram socket type, as HSv4 callers announce
+      initialSequenceNumber,
+      mtu: MTU,
+      flowWindow: FLOW_WINDOW,
+      handshakeType: SRT_HANDSHAKE_TYPES.INDUCTION,
+      socketId: localSocketId,
+      synCookie: 0,
+      peerAddress: Buffer.alloc(16),
+      extensions: []
+    };
+
+    try {
+      const response = await new Promise<{ handshake: SrtHandshake; remote: RemoteInfo }>((resolve, reject) => {
+        let request = base;
+        const deadline = setTimeout(() => finish(new Error(`SRT call to ${host}:${port} timed out`)), this.options.connectTimeoutMs);
+        const retry = setInterval(() => send(request), HANDSHAKE_RETRY_MS);
+
+        const finish = (error: Error | null, result?: { handshake: SrtHandshake; remote: RemoteInfo }) => {
+          clearTimeout(deadline);
+          clearInterval(retry);
+          socket.off('message', onMessage);
+          if (error) reject(error); else resolve(result!);
+        };
+
+        const onMessage = (datagram: Buffer, remote: RemoteInfo) => {
+          let handshake: SrtHandshake;
+          try {
+            const packet = parseSrtPacket(datagram);
+            if (!packet.control || packet.controlType !== SRT_CONTROL_TYPES.HANDSHAKE) return;
+            handshake = parseHandshake(packet.cif);
+          } catch (error) {
+            return;
+          }
+
+          if (handshake.handshakeType >= 1000 && handshake.handshakeType < SRT_HANDSHAKE_TYPES.DONE) {
+            finish(new Error(`SRT listener rejected the call (reason ${handshake.handshakeType})`));
+          } else if (handshake.handshakeType === SRT_HANDSHAKE_TYPES.INDUCTION && request === base) {
+            if (handshake.version < SRT_VERSION || handshake.extensionField !== SRT_HANDSHAKE_MAGIC) {
+              finish(new Error('SRT listener does not support handshake version 5'));
+              return;
+            }
+
+            const extensions = [
+              { type: SRT_EXTENSION_TYPES.HSREQ, data: this.handshakeRequest(this.options.latencyMs, !!generated) },
+              ...(generated ? [{ type: SRT_EXTENSION_TYPES.KMREQ, data: encodeKeyMaterial(generated.material) }] : []),
+              { type: SRT_EXTENSION_TYPES.SID, data: encodeStreamIdExtension(streamId) }
+            ];
+            request = {
+              ...base,
+              version: SRT_VERSION,
+              encryptionField: generated ? this.options.keyLength / 8 : 0,
+              extensionField: SRT_EXTENSION_FLAGS.HSREQ | SRT_EXTENSION_FLAGS.CONFIG | (generated ? SRT_EXTENSION_FLAGS.KMREQ : 0),
+              handshakeType: SRT_HANDSHAKE_TYPES.CONCLUSION,
+              synCookie: handshake.synCookie,
+              extensions
+            };
+            send(request);
+          } else if (handshake.handshakeType === SRT_HANDSHAKE_TYPES.CONCLUSION && request !== base) {
+            finish(null, { handshake, remote });
+          }
+        };
+
+        socket.on('message', onMessage);
+        send(request);
+      });
+
+      const hsrsp = response.handshake.extensions.find(extension => extension.type === SRT_EXTENSION_TYPES.HSRSP);
+      const latencyMs = hsrsp
+        ? Math.max(this.options.latencyMs, parseHandshakeRequest(hsrsp.data).senderLatency)
+        : this.options.latencyMs;
+
+      const session = this.createSession({
+        mode: 'caller',
+        socket,
+        address: response.remote.address,
+        port: response.remote.port,
+        localSocketId,
+        peerSocketId: response.handshake.socketId,
+        streamKey,
+        grant,
+        latencyMs,
+        initialSequenceNumber,
+        cipher: generated ? generated.cipher : null
+      });
+
+      socket.on('message', (datagram) => {
+        try {
+          const packet = parseSrtPacket(datagram);
+          if (packet.destinationSocketId === localSocketId) {
+            this.handlePacket(session, packet);
+          }
+        } catch (error) {
+          this.emit('session:error', { sessionId: session.sessionId, streamKey: session.streamKey, error });
+          this.closeSession(session.sessionId, String(error));
+        }
+      });
+
+      return session.sessionId;
+    } catch (error) {
+      socket.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Shut down a session, e.g. when its stream is rejected
+   */
+  closeSession(sessionId: string, reason?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sendControl(session, SRT_CONTROL_TYPES.SHUTDOWN, 0, Buffer.alloc(4));
+    this.endSession(session, reason || 'closed');
+  }
+
+  /**
+   * Get the bound port (resolved once started)
+   */
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * Get the number of connected sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private handleListenerDatagram(socket: Socket, datagram: Buffer, remote: RemoteInfo): void {
+    let packet;
+    try {
+      packet = parseSrtPacket(datagram);
+    } catch (error) {
+      return;
+    }
+
+    if (packet.destinationSocketId === 0) {
+      if (packet.control && packet.controlType === SRT_CONTROL_TYPES.HANDSHAKE) {
+        this.handleHandshake(socket, packet, remote);
+      }
+      return;
+    }
+
+    const session = this.sessionsBySocketId.get(packet.destinationSocketId);
+    if (!session || session.mode !== 'listener' || session.address !== remote.address || session.port !== remote.port) {
+      return;
+    }
+
+    try {
+      this.handlePacket(session, packet);
+    } catch (error) {
+      this.emit('session:error', { sessionId: session.sessionId, streamKey: session.streamKey, error });
+      this.closeSession(session.sessionId, String(error));
+    }
+  }
+
+  private handleHandshake(socket: Socket, packet: SrtControlPacket, remote: RemoteInfo): void {
+    let request: SrtHandshake;
+    try {
+      request = parseHandshake(packet.cif);
+    } catch (error) {
+      return;
+    }
+
+    const reply = (response: SrtHandshake) => {
+      const datagram = encodeControlPacket({
+        controlType: SRT_CONTROL_TYPES.HANDSHAKE,
+        subtype: 0,
+        typeSpecific: 0,
+        timestamp: 0,
+        destinationSocketId: request.socketId,
+        cif: encodeHandshake(response)
+      });
+      socket.send(datagram, remote.port, remote.address);
+      return datagram;
+    };
+
+    if (request.handshakeType === SRT_HANDSHAKE_TYPES.INDUCTION) {
+      reply({
+        ...request,
+        version: SRT_VERSION,
+        encryptionField: 0,
+        extensionField: SRT_HANDSHAKE_MAGIC,
+        mtu: Math.min(request.mtu, MTU),
+        flowWindow: Math.min(request.flowWindow, FLOW_WINDOW),
+        socketId: 0,
+        synCookie: this.cookieFor(remote, 0),
+        extensions: []
+      });
+      return;
+    }
+
+    if (request.handshakeType !== SRT_HANDSHAKE_TYPES.CONCLUSION) {
+      return;
+    }
+
+    // A retransmitted conclusion gets the response already sent
+    for (const session of this.sessions.values()) {
+      if (session.peerSocketId === request.socketId && session.address === remote.address && session.port === remote.port) {
+        if (session.conclusion) {
+          socket.send(session.conclusion, remote.port, remote.address);
+        }
+        return;
+      }
+    }
+
+    if (request.synCookie !== this.cookieFor(remote, 0) && request.synCookie !== this.cookieFor(remote, -1)) {
+      return; // not from a caller that completed induction
+    }
+
+    const accepted = this.acceptConclusion(request, remote);
+    if (!accepted.accepted) {
+      reply({ ...request, version: SRT_VERSION, handshakeType: accepted.reason, socketId: 0, extensions: [] });
+      this.emit('session:rejected', {
+        address: remote.address,
+        port: remote.port,
+        reason: accepted.reason,
+        error: accepted.message
+      });
+      return;
+    }
+
+    const localSocketId = this.generateSocketId();
+    const session = this.createSession({
+      mode: 'listener',
+      socket,
+      address: remote.address,
+      port: remote.port,
+      localSocketId,
+      peerSocketId: request.socketId,
+      streamKey: accepted.streamKey,
+      grant: accepted.grant,
+      latencyMs: accepted.latencyMs,
+      initialSequenceNumber: request.initialSequenceNumber,
+      cipher: accepted.cipher
+    });
+
+    session.conclusion = reply({
+      ...request,
+      version: SRT_VERSION,
+      encryptionField: 0,
+      extensionField: SRT_EXTENSION_FLAGS.HSREQ | (accepted.keyMaterial ? SRT_EXTENSION_FLAGS.KMREQ : 0),
+      mtu: Math.min(request.mtu, MTU),
+      flowWindow: Math.min(request.flowWindow, FLOW_WINDOW),
+      socketId: localSocketId,
+      extensions: [
+        { type: SRT_EXTENSION_TYPES.HSRSP, data: this.handshakeRequest(accepted.latencyMs, !!accepted.cipher) },
+        ...(accepted.keyMaterial ? [{ type: SRT_EXTENSION_TYPES.KMRSP, data: accepted.keyMaterial }] : [])
+      ]
+    });
+  }
+
+  /**
+   * Negotiate a caller's conclusion: stream ID, latency and encryption
+   */
+  private acceptConclusion(request: SrtHandshake, remote: RemoteInfo): ConclusionResult {
+    const extension = (type: number) => request.extensions.find(item => item.type === type);
+    const hsreq = extension(SRT_EXTENSION_TYPES.HSREQ);
+    if (request.version < SRT_VERSION || !hsreq || hsreq.data.length < 12) {
+      return { accepted: false, reason: SRT_REJECT_REASONS.VERSION, message: 'Caller does not use handshake version 5' };
+    }
+
+    const sid = extension(SRT_EXTENSION_TYPES.SID);
+    const { resource, mode } = parseStreamId(sid ? parseStreamIdExtension(sid.data) : '');
+    if (!resource) {
+      return { accepted: false, reason: SRT_REJECT_REASONS.BAD_REQUEST, message: 'A stream ID naming the stream key is required' };
+    }
+    if (mode !== 'publish') {
+      return { accepted: false, reason: SRT_REJECT_REASONS.BAD_MODE, message: `Stream ID mode ${mode} is not served` };
+    }
+
+    const kmreq = extension(SRT_EXTENSION_TYPES.KMREQ);
+    const passphrase = this.options.passphrase;
+    if (!kmreq !== !passphrase) {
+      return {
+        accepted: false,
+        reason: SRT_REJECT_REASONS.UNSECURE,
+        message: passphrase ? 'Caller did not enable encryption' : 'Caller requested encryption but no passphrase is set'
+      };
+    }
+
+    let cipher: SrtCipher | null = null;
+    if (kmreq && passphrase) {
+      try {
+        cipher = SrtCipher.fromKeyMaterial(parseKeyMaterial(kmreq.data), passphrase);
+      } catch (error) {
+        return { accepted: false, reason: SRT_REJECT_REASONS.BADSECRET, message: String(error) };
+      }
+    }
+
+    let grant: PublishGrant | null = null;
+    if (this.publishAuthorizer) {
+      try {
+        grant = this.publishAuthorizer(resource, remote.address);
+      } catch (error) {
+        return { accepted: false, reason: SRT_REJECT_REASONS.UNAUTHORIZED, message: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    const { senderLatency } = parseHandshakeRequest(hsreq.data);
+    return {
+      accepted: true,
+      streamKey: resource,
+      grant,
+      latencyMs: Math.max(this.options.latencyMs, senderLatency),
+      cipher,
+      keyMaterial: kmreq ? Buffer.from(kmreq.data) : null
+    };
+  }
+
+  private createSession(params: {
+    mode: SrtMode;
+    socket: Socket;
+    address: string;
+    port: number;
+    localSocketId: number;
+    peerSocketId: number;
+    streamKey: string;
+    grant: PublishGrant | null;
+    latencyMs: number;
+    initialSequenceNumber: number;
+    cipher: SrtCipher | null;
+  }): SrtSession {
+    const now = Date.now();
+    const session: SrtSession = {
+      sessionId: `srt_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      mode: params.mode,
+      socket: params.socket,
+      address: params.address,
+      port: params.port,
+      localSocketId: params.localSocketId,
+      peerSocketId: params.peerSocketId,
+      streamKey: params.streamKey,
+      latencyMs: params.latencyMs,
+      startedAt: now,
+      receiver: new SrtReceiveBuffer(params.initialSequenceNumber, params.latencyMs, FLOW_WINDOW),
+      cipher: params.cipher,
+      demuxer: new MpegTsDemuxer(this.options.defaultResolution),
+      conclusion: null,
+      timer: setInterval(() => this.tick(session), TICK_INTERVAL_MS),
+      lastPacketAt: now,
+      lastKeepaliveAt: now,
+      lastNakAt: 0,
+      ackNumber: 0,
+      lastAckSequence: params.initialSequenceNumber,
+      acksInFlight: new Map(),
+      rtt: 100000,
+      rttVariance: 50000,
+      rateWindowStart: now,
+      rateWindowPackets: 0,
+      rateWindowBytes: 0,
+      packetRate: 0,
+      byteRate: 0
+    };
+
+    this.sessions.set(session.sessionId, session);
+    this.sessionsBySocketId.set(session.localSocketId, session);
+
+    this.emit('stream:publish', {
+      sessionId: session.sessionId,
+      streamKey: session.streamKey,
+      grant: params.grant,
+      mode: session.mode,
+      latencyMs: session.latencyMs,
+      encrypted: session.cipher !== null
+    });
+
+    return session;
+  }
+
+  private handlePacket(session: SrtSession, packet: SrtDataPacket | SrtControlPacket): void {
+    const now = Date.now();
+    session.lastPacketAt = now;
+
+    if (!packet.control) {
+      this.handleDataPacket(session, packet, now);
+      return;
+    }
+
+    switch (packet.controlType) {
+      case SRT_CONTROL_TYPES.ACKACK: {
+        const sentAt = session.acksInFlight.get(packet.typeSpecific);
+        session.acksInFlight.delete(packet.typeSpecific);
+        if (sentAt !== undefined) {
+          const sample = (now - sentAt) * 1000;
+          session.rttVariance = Math.round(session.rttVariance * 0.75 + Math.abs(session.rtt - sample) * 0.25);
+          session.rtt = Math.round(session.rtt * 0.875 + sample * 0.125);
+        }
+        break;
+      }
+
+      case SRT_CONTROL_TYPES.DROPREQ:
+        if (packet.cif.length >= 8) {
+          session.receiver.abandon(packet.cif.readUInt32BE(0) & 0x7fffffff, packet.cif.readUInt32BE(4) & 0x7fffffff);
+        }
+        break;
+
+      case SRT_CONTROL_TYPES.SHUTDOWN:
+        this.endSession(session, 'peer shutdown');
+        break;
+
+      case SRT_CONTROL_TYPES.HANDSHAKE:
+        // The caller missed our conclusion response
+        if (session.conclusion) {
+          session.socket.send(session.conclusion, session.port, session.address);
+        }
+        break;
+
+      case USER_DEFINED_CONTROL:
+        // Key refresh: the sender announces its next key while still using the current one
+        if (packet.subtype === SRT_EXTENSION_TYPES.KMREQ && session.cipher && this.options.passphrase) {
+          session.cipher.update(SrtCipher.fromKeyMaterial(parseKeyMaterial(packet.cif), this.options.passphrase));
+          this.sendControl(session, USER_DEFINED_CONTROL, 0, packet.cif, SRT_EXTENSION_TYPES.KMRSP);
+        }
+        break;
+
+      default:
+        // Keepalives only refresh the idle timer; ACK and NAK concern data we do not send
+        break;
+    }
+  }
+
+  private handleDataPacket(session: SrtSession, packet: SrtDataPacket, now: number): void {
+    session.rateWindowPackets++;
+    session.rateWindowBytes += packet.payload.length;
+
+    let payload = packet.payload;
+    if (packet.keyFlags !== 0) {
+      if (!session.cipher) {
+        return; // encrypted payload without negotiated keys
+      }
+      payload = session.cipher.apply(payload, packet.sequenceNumber, packet.keyFlags);
+    }
+
+    const { delivered, lost } = session.receiver.push(packet.sequenceNumber, payload, now);
+    if (lost.length > 0) {
+      this.sendNak(session, lost);
+    }
+    this.demux(session, delivered);
+  }
+
+  private demux(session: SrtSession, payloads: Buffer[]): void {
+    for (const payload of payloads) {
+      for (const frame of session.demuxer.push(payload)) {
+        this.emit('frame:received', { sessionId: session.sessionId, streamKey: session.streamKey, frame });
+      }
+    }
+  }
+
+  private tick(session: SrtSession): void {
+    const now = Date.now();
+
+    if (now - session.lastPacketAt > this.options.peerIdleTimeoutMs) {
+      this.closeSession(session.sessionId, 'peer idle timeout');
+      return;
+    }
+
+    this.demux(session, session.receiver.expire(now));
+
+    if (now - session.rateWindowStart >= 1000) {
+      const seconds = (now - session.rateWindowStart) / 1000;
+      session.packetRate = Math.round(session.rateWindowPackets / seconds);
+      session.byteRate = Math.round(session.rateWindowBytes / seconds);
+      session.rateWindowStart = now;
+      session.rateWindowPackets = 0;
+      session.rateWindowBytes = 0;
+    }
+
+    const ackSequence = session.receiver.getAckSequence();
+    if (ackSequence !== session.lastAckSequence) {
+      this.sendAck(session, ackSequence, now);
+    }
+
+    const nakInterval = Math.max(MIN_NAK_INTERVAL_MS, (session.rtt + 4 * session.rttVariance) / 1000);
+    const losses = session.receiver.getLossList();
+    if (losses.length > 0 && now - session.lastNakAt >= nakInterval) {
+      this.sendNak(session, losses);
+    }
+
+    if (now - session.lastKeepaliveAt >= KEEPALIVE_INTERVAL_MS) {
+      this.sendControl(session, SRT_CONTROL_TYPES.KEEPALIVE, 0, Buffer.alloc(4));
+      session.lastKeepaliveAt = now;
+    }
+  }
+
+  private sendAck(session: SrtSession, ackSequence: number, now: number): void {
+    session.ackNumber = nextSequence(session.ackNumber);
+    session.lastAckSequence = ackSequence;
+    session.acksInFlight.set(session.ackNumber, now);
+    if (session.acksInFlight.size > 64) {
+      session.acksInFlight.delete(session.acksInFlight.keys().next().value!);
+    }
+
+    const cif = Buffer.alloc(28);
+    cif.writeUInt32BE(ackSequence, 0);
+    cif.writeUInt32BE(session.rtt, 4);
+    cif.writeUInt32BE(session.rttVariance, 8);
+    cif.writeUInt32BE(FLOW_WINDOW, 12); // available buffer, in packets
+    cif.writeUInt32BE(session.packetRate, 16);
+    cif.writeUInt32BE(session.packetRate, 20); // link capacity estimate
+    cif.writeUInt32BE(session.byteRate, 24);
+    this.sendControl(session, SRT_CONTROL_TYPES.ACK, session.ackNumber, cif);
+  }
+
+  /**
+   * Report lost packets, compressing consecutive runs into ranges
+   */
+  private sendNak(session: SrtSession, sequenceNumbers: number[]): void {
+    const entries: number[] = [];
+    for (let i = 0; i < sequenceNumbers.length && entries.length < MAX_NAK_ENTRIES;) {
+      let last = i;
+      while (last + 1 < sequenceNumbers.length && sequenceNumbers[last + 1] === nextSequence(sequenceNumbers[last])) {
+        last++;
+      }
+      if (last === i) {
+        entries.push(sequenceNumbers[i]);
+      } else {
+        entries.push((sequenceNumbers[i] | 0x80000000) >>> 0, sequenceNumbers[last]);
+      }
+      i = last + 1;
+    }
+
+    const cif = Buffer.alloc(entries.length * 4);
+    entries.forEach((entry, index) => cif.writeUInt32BE(entry, index * 4));
+    this.sendControl(session, SRT_CONTROL_TYPES.NAK, 0, cif);
+    session.lastNakAt = Date.now();
+  }
+
+  private sendControl(session: SrtSession, controlType: number, typeSpecific: number, cif: Buffer, subtype: number = 0): void {
+    const datagram = encodeControlPacket({
+      controlType,
+      subtype,
+      typeSpecific,
+      timestamp: (Date.now() - session.startedAt) * 1000,
+      destinationSocketId: session.peerSocketId,
+      cif
+    });
+    session.socket.send(datagram, session.port, session.address);
+  }
+
+  private endSession(session: SrtSession, reason: string): void {
+    if (!this.sessions.delete(session.sessionId)) {
+      return;
+    }
+
+    this.sessionsBySocketId.delete(session.localSocketId);
+    clearInterval(session.timer);
+
+    for (const frame of session.demuxer.flush()) {
+      this.emit('frame:received', { sessionId: session.sessionId, streamKey: session.streamKey, frame });
+    }
+
+    if (session.mode === 'caller') {
+      session.socket.close();
+    }
+
+    this.emit('stream:unpublish', {
+      sessionId: session.sessionId,
+      streamKey: session.streamKey,
+      reason,
+      droppedPackets: session.receiver.getDroppedPackets()
+    });
+  }
+
+  private handshakeRequest(latencyMs: number, encrypted: boolean): Buffer {
+    return encodeHandshakeRequest({
+      srtVersion: SRT_LIBRARY_VERSION,
+      flags: RECEIVER_FLAGS | (encrypted ? SRT_FLAGS.CRYPT : 0),
+      receiverLatency: latencyMs,
+      senderLatency: latencyMs
+    });
+  }
+
+  /**
+   * Stateless SYN cookie tied to the caller's address and the current minute
+   */
+  private cookieFor(remote: RemoteInfo, minuteOffset: number): number {
+    const minute = Math.floor(Date.now() / 60000) + minuteOffset;
+    return createHmac('sha1', this.cookieSecret)
+      .update(`${remote.address}:${remote.port}:${minute}`)
+      .digest()
+      .readUInt32BE(0);
+  }
+
+  private generateSocketId(): number {
+    let socketId: number;
+    do {
+      socketId = randomBytes(4).readUInt32BE(0) & 0x3fffffff;
+    } while (socketId === 0 || this.sessionsBySocketId.has(socketId));
+    return socketId;
+  }
+}
\ No newline at end of file
@@ -1,6 +1,11 @@
 import { EventEmitter } from 'events';
 import { VideoStream, StreamId, VideoFrame } from '../types';
 
+interface FrameArrival {
+  timestamp: number;
+  bytes: number;
+}
+
 /**
  * Stream buffer for managing video frames before AI processing
  * Implements circular buffer with overflow protection
@@ -10,10 +15,13 @@ export class StreamBuffer extends EventEmitter {
   private maxBufferSize: number;
   private lowWaterMark: number;
   private highWaterMark: number;
+  private arrivals: Map<StreamId, FrameArrival[]> = new Map();
+  private rateWindowMs: number;
 
-  constructor(maxBufferSize: number = 30) {
+  constructor(maxBufferSize: number = 30, rateWindowMs: number = 5000) {
     super();
     this.maxBufferSize = maxBufferSize;
+    this.rateWindowMs = rateWindowMs;
     this.lowWaterMark = Math.floor(maxBufferSize * 0.3);
     this.highWaterMark = Math.floor(maxBufferSize * 0.8);
   }
@@ -29,6 +37,9 @@ export class StreamBuffer extends EventEmitter {
       this.buffers.set(streamId, buffer);
     }
 
+    // Arrivals are counted before overflow handling so the ingest rate reflects what the sender produces
+    this.recordArrival(streamId, frame);
+
     // Check for buffer overflow
     if (buffer.length >= this.maxBufferSize) {
       this.handleOverflow(streamId, buffer);
@@ -137,6 +148,7 @@ export class StreamBuffer extends EventEmitter {
     if (buffer) {
       const clearedFrames = buffer.length;
       this.buffers.delete(streamId);
+      this.arrivals.delete(streamId);
       this.emit('buffer:removed', { streamId, clearedFrames });
     }
   }
@@ -164,6 +176,55 @@ export class StreamBuffer extends EventEmitter {
     return stats;
   }
 
+  /**
+   * Get the ingest frame rate and bitrate (kbps) over the rate window
+   */
+  getIngestStats(streamId: StreamId, now: number = Date.now()): { fps: number; bitrate: number } {
+    const arrivals = this.arrivals.get(streamId);
+    if (!arrivals) {
+      return { fps: 0, bitrate: 0 };
+    }
+
+    this.pruneArrivals(arrivals, now);
+    if (arrivals.length === 0) {
+      return { fps: 0, bitrate: 0 };
+    }
+
+    // Until a full window has been observed, rates are measured over the span actually seen
+    const spanMs = Math.min(this.rateWindowMs, Math.max(now - arrivals[0].timestamp, 1));
+    const bytes = arrivals.reduce((sum, arrival) => sum + arrival.bytes, 0);
+
+    return {
+      fps: arrivals.length / (spanMs / 1000),
+      bitrate: (bytes * 8) / 1000 / (spanMs / 1000)
+    };
+  }
+
+  private recordArrival(streamId: StreamId, frame: VideoFrame): void {
+    let arrivals = this.arrivals.get(streamId);
+    if (!arrivals) {
+      arrivals = [];
+      this.arrivals.set(streamId, arrivals);
+    }
+
+    const now = Date.now();
+    arrivals.push({ timestamp: now, bytes: frame.data.length });
+    this.pruneArrivals(arrivals, now);
+  }
+
+  private pruneArrivals(arrivals: FrameArrival[], now: number): void {
+    const cutoff = now - this.rateWindowMs;
+    let expired = 0;
+
+    while (expired < arrivals.length && arrivals[expired].timestamp < cutoff) {
+      expired++;
+    }
+
+    if (expired > 0) {
+      arrivals.splice(0, expired);
+    }
+  }
+
   /**
    * Handle buffer overflow by removing oldest frames
    */
@@ -0,0 +1,898 @@
+import { EventEmitter } from 'events';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { DistributionService, ViewerMetrics } from '../interfaces/DistributionService';
+import {
+  StreamId,
+  ViewerId,
+  SessionId,
+  VideoStream,
+  ViewerSession,
+  NetworkMetrics,
+  EnhancedFrame,
+  QualityLevel,
+  VideoFrame
+} from '../types';
+import { RenditionLadder } from './RenditionLadder';
+import { TimeShiftStore } from './TimeShiftStore';
+import { isRandomAccessFrame } from './Fmp4';
+import { QUALITY_LEVELS, getQualityLevelPreset } from '../utils/qualityPresets';
+import { logger } from '../utils/logger';
+
+export interface AdaptiveBitrateOptions {
+  bandwidthSafetyFactor: number; // share of a viewer's measured bandwidth a rendition may use
+  upswitchMargin: number; // headroom above its bitrate a higher level needs
+  upswitchHoldMs: number; // how long a higher level must stay sustainable before switching up
+  packetLossPenalty: number; // share of usable bandwidth lost per percent of packet loss
+  maxDelayMs: number; // latency plus twice the jitter above which usable bandwidth is halved
+}
+
+interface SubscribeOptions {
+  socketId?: string;
+  region?: string;
+}
+
+interface ViewerBinding {
+  socketId?: string;
+  region: string;
+}
+
+interface ViewerAbrState {
+  pendingQuality: QualityLevel | null; // switch waiting for a keyframe
+  stoppedAt: number | null; // where the viewer's rendition stopped, for a switch or time-shift; it resumes at a keyframe
+  upswitchSince: number | null; // when a higher level first became sustainable
+  lastTimestamp: number | null; // last frame delivered to the viewer
+}
+
+/**
+ * Where a viewer should play from: a wall clock time, or a distance behind the live edge
+ */
+export interface SeekTarget {
+  time?: number | string; // epoch milliseconds or an ISO 8601 date
+  offsetMs?: number;
+}
+
+/**
+ * Where a viewer is playing; timestamps are stream timestamps
+ */
+export interface ViewerPosition {
+  sessionId: SessionId;
+  streamId: StreamId;
+  live: boolean;
+  timestamp: number | null;
+  time: number | null; // wall clock at which the frame at the playhead went live
+  behindLiveMs: number;
+}
+
+interface TimeShiftPlayback {
+  startTimestamp: number; // keyframe playback started from
+  startedAt: number; // wall clock when playback started
+  cursor: number; // frames before this timestamp have been sent
+  timer: NodeJS.Timeout;
+}
+
+interface RenditionBitrate {
+  quality: QualityLevel;
+  bitrate: number;
+}
+
+/**
+ * Decides whether a socket may watch a stream, throwing with the reason when it may not
+ */
+export type ViewerAuthorizer = (streamId: StreamId, socket: Socket) => void;
+
+// Transcoded renditions carry no enhancement details of their own
+type DistributedFrame = VideoFrame & Partial<Pick<EnhancedFrame, 'processingTime' | 'enhancementApplied'>>;
+
+// Time-shifted frames are sent this far ahead of the playhead
+const TIME_SHIFT_TICK_MS = 100;
+
+const DEFAULT_ABR_OPTIONS: AdaptiveBitrateOptions = {
+  bandwidthSafetyFactor: 0.8,
+  upswitchMargin: 0.25,
+  upswitchHoldMs: 5000,
+  packetLossPenalty: 0.05,
+  maxDelayMs: 400
+};
+
+/**
+ * Stream distribution service implementation
+ * Fans enhanced frames out to subscribed viewers over Socket.IO, switching each viewer
+ * between renditions at keyframes as its reported network conditions change
+ */
+export class StreamDistributionService extends EventEmitter implements DistributionService {
+  private io: SocketIOServer;
+  private publishedStreams: Map<StreamId, VideoStream> = new Map();
+  private viewerSessions: Map<SessionId, ViewerSession> = new Map();
+  private viewerBindings: Map<SessionId, ViewerBinding> = new Map();
+  private streamViewers: Map<StreamId, Set<SessionId>> = new Map();
+  private totalViewers: Map<StreamId, number> = new Map();
+  private completedWatchTimes: Map<StreamId, number[]> = new Map();
+  private abrStates: Map<SessionId, ViewerAbrState> = new Map();
+  private renditionLadder: RenditionLadder | null = null;
+  private timeShiftStore: TimeShiftStore | null = null;
+  private timeShiftPlaybacks: Map<SessionId, TimeShiftPlayback> = new Map();
+  private viewerAuthorizer: ViewerAuthorizer | null = null;
+  private defaultQuality: QualityLevel;
+  private abrOptions: AdaptiveBitrateOptions;
+
+  constructor(
+    io: SocketIOServer,
+    defaultQuality: QualityLevel = 'medium',
+    abrOptions: Partial<AdaptiveBitrateOptions> = {}
+  ) {
+    super();
+    this.io = io;
+    this.defaultQuality = defaultQuality;
+    this.abrOptions = { ...DEFAULT_ABR_OPTIONS, ...abrOptions };
+    this.setupViewerHandlers();
+  }
+
+  /**
+   * Distribute the renditions of a ladder; each viewer receives the frames of its current level
+   */
+  attachRenditionLadder(ladder: RenditionLadder): void {
+    this.renditionLadder = ladder;
+
+    ladder.on('rendition:frames', (data) => {
+      this.distributeFrames(data.streamId, data.frames, data.quality);
+    });
+
+    // Viewers of a dropped rendition move to the nearest remaining one
+    ladder.on('rendition:failed', (data) => {
+      for (const session of this.getStreamSessions(data.streamId)) {
+        const state = this.abrStates.get(session.sessionId)!;
+        if (session.currentQuality === data.quality || state.pendingQuality === data.quality) {
+          const next = this.resolveRendition(data.streamId, state.pendingQuality ?? session.currentQuality);
+          state.pendingQuality = next === session.currentQuality ? null : next;
+        }
+      }
+    });
+  }
+
+  /**
+   * Let viewers seek back into the time-shift window a store retains
+   */
+  attachTimeShiftStore(store: TimeShiftStore): void {
+    this.timeShiftStore = store;
+  }
+
+  /**
+   * Check every socket subscription, so viewers are held to the same rules as other playback paths
+   */
+  attachViewerAuthorizer(authorizer: ViewerAuthorizer): void {
+    this.viewerAuthorizer = authorizer;
+  }
+
+  /**
+   * Move a viewer to a position in its stream's time-shift window
+   * Playback starts at the keyframe at or before the target and runs in real time; a target
+   * at or past the live edge returns the viewer to live
+   */
+  seekViewer(sessionId: SessionId, target: SeekTarget): ViewerPosition {
+    const session = this.viewerSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Viewer session ${sessionId} not found`);
+    }
+
+    const window = this.timeShiftStore?.getWindow(session.streamId);
+    if (!this.timeShiftStore || !window) {
+      throw new Error(`Stream ${session.streamId} has no time-shift window`);
+    }
+
+    const time = typeof target.time === 'string' ? Date.parse(target.time) : target.time;
+    let timestamp: number;
+    if (time !== undefined && target.offsetMs === undefined && Number.isFinite(time)) {
+      timestamp = this.timeShiftStore.toTimestamp(session.streamId, time)!;
+    } else if (time === undefined && Number.isFinite(target.offsetMs) && target.offsetMs! >= 0) {
+      timestamp = window.endTimestamp - target.offsetMs!;
+    } else {
+      throw new Error('Seek needs either a time or a non-negative offset behind live');
+    }
+
+    if (timestamp >= window.endTimestamp) {
+      return this.returnToLive(sessionId);
+    }
+
+    this.stopTimeShift(sessionId);
+    const startTimestamp = this.timeShiftStore.findKeyframe(session.streamId, timestamp)!;
+    const playback: TimeShiftPlayback = {
+      startTimestamp,
+      startedAt: Date.now(),
+      cursor: startTimestamp,
+      timer: setInterval(() => this.playTimeShift(session, playback), TIME_SHIFT_TICK_MS)
+    };
+    playback.timer.unref();
+    this.timeShiftPlaybacks.set(sessionId, playback);
+
+    const position = this.getViewerPosition(sessionId)!;
+    this.emitPosition(position);
+    this.playTimeShift(session, playback);
+    return position;
+  }
+
+  /**
+   * Return a viewer to the live edge; it resumes at the next live keyframe
+   */
+  returnToLive(sessionId: SessionId): ViewerPosition {
+    if (!this.viewerSessions.has(sessionId)) {
+      throw new Error(`Viewer session ${sessionId} not found`);
+    }
+
+    const playback = this.timeShiftPlaybacks.get(sessionId);
+    if (playback) {
+      const state = this.abrStates.get(sessionId)!;
+      state.lastTimestamp = null;
+      state.stoppedAt = this.getPlayhead(playback);
+      this.stopTimeShift(sessionId);
+    }
+
+    const position = this.getViewerPosition(sessionId)!;
+    this.emitPosition(position);
+    return position;
+  }
+
+  /**
+   * Get where a viewer is playing
+   */
+  getViewerPosition(sessionId: SessionId): ViewerPosition | null {
+    const session = this.viewerSessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const playback = this.timeShiftPlaybacks.get(sessionId);
+    const window = this.timeShiftStore?.getWindow(session.streamId);
+    if (!playback || !window) {
+      return {
+        sessionId,
+        streamId: session.streamId,
+        live: true,
+        timestamp: window?.endTimestamp ?? null,
+        time: window?.endTime ?? null,
+        behindLiveMs: 0
+      };
+    }
+
+    const timestamp = this.getPlayhead(playback);
+    return {
+      sessionId,
+      streamId: session.streamId,
+      live: false,
+      timestamp,
+      time: this.timeShiftStore!.toWallClock(session.streamId, timestamp),
+      behindLiveMs: Math.max(0, window.endTimestamp - timestamp)
+    };
+  }
+
+  /**
+   * Publish an enhanced video stream for distribution to viewers
+   */
+  async publishStream(streamId: StreamId, enhancedStream: VideoStream): Promise<void> {
+    this.publishedStreams.set(streamId, enhancedStream);
+
+    if (!this.streamViewers.has(streamId)) {
+      this.streamViewers.set(streamId, new Set());
+    }
+
+    this.emit('stream:published', { streamId, userId: enhancedStream.userId });
+  }
+
+  /**
+   * Subscribe a viewer to a live stream
+   */
+  async subscribeViewer(
+    viewerId: ViewerId,
+    streamId: StreamId,
+    options: SubscribeOptions = {}
+  ): Promise<ViewerSession> {
+    if (!this.publishedStreams.has(streamId)) {
+      throw new Error(`Stream ${streamId} not found`);
+    }
+
+    const session: ViewerSession = {
+      sessionId: this.generateSessionId(),
+      viewerId,
+      streamId,
+      joinTime: new Date(),
+      currentQuality: this.defaultQuality,
+      networkMetrics: {
+        bandwidth: 0,
+        latency: 0,
+        packetLoss: 0,
+        jitter: 0
+      },
+      engagement: {
+        watchTime: 0,
+        bufferingEvents: 0,
+        qualityChanges: 0,
+        interactionCount: 0
+      }
+    };
+
+    this.viewerSessions.set(session.sessionId, session);
+    this.viewerBindings.set(session.sessionId, {
+      socketId: options.socketId,
+      region: options.region || 'unknown'
+    });
+    this.abrStates.set(session.sessionId, { pendingQuality: null, stoppedAt: null, upswitchSince: null, lastTimestamp: null });
+    this.streamViewers.get(streamId)!.add(session.sessionId);
+    this.totalViewers.set(streamId, (this.totalViewers.get(streamId) || 0) + 1);
+
+    this.emit('viewer:subscribed', { sessionId: session.sessionId, viewerId, streamId });
+    return { ...session };
+  }
+
+  /**
+   * Check if a stream is published for distribution
+   */
+  hasStream(streamId: StreamId): boolean {
+    return this.publishedStreams.has(streamId);
+  }
+
+  /**
+   * Adapt bitrate for a viewer session based on network conditions
+   * Lower levels are switched to as soon as the current one no longer fits; a higher level
+   * needs headroom above its bitrate for the whole hold period, so estimates hovering around
+   * a level's bitrate do not flap between levels. Switches take effect at the next keyframe
+   */
+  adaptBitrate(sessionId: SessionId, networkConditions: NetworkMetrics): void {
+    const session = this.viewerSessions.get(sessionId);
+    const state = this.abrStates.get(sessionId);
+    if (!session || !state) {
+      return;
+    }
+
+    session.networkMetrics = { ...networkConditions };
+
+    // Zero bandwidth means the viewer has not measured it yet
+    const renditions = this.getRenditionBitrates(session.streamId);
+    if (renditions.length === 0 || networkConditions.bandwidth <= 0) {
+      return;
+    }
+
+    const usable = this.getUsableBandwidth(networkConditions);
+    const current = renditions.findIndex(rendition => rendition.quality === session.currentQuality);
+    const fitting = Math.max(0, this.findHighestRendition(renditions, bitrate => bitrate <= usable));
+    const sustainable = this.findHighestRendition(renditions, bitrate => bitrate * (1 + this.abrOptions.upswitchMargin) <= usable);
+
+    let next = current;
+    if (current === -1 || fitting < current) {
+      next = fitting;
+      state.upswitchSince = null;
+    } else if (sustainable <= current) {
+      state.upswitchSince = null;
+    } else {
+      const now = Date.now();
+      state.upswitchSince = state.upswitchSince ?? now;
+      if (now - state.upswitchSince >= this.abrOptions.upswitchHoldMs) {
+        next = sustainable;
+      }
+    }
+
+    // Staying at the current level cancels a switch that has not happened yet
+    this.requestQualitySwitch(session, state, renditions[next].quality);
+  }
+
+  /**
+   * Get the level a viewer is switching to, if a switch is waiting for a keyframe
+   */
+  getPendingQuality(sessionId: SessionId): QualityLevel | null {
+    return this.abrStates.get(sessionId)?.pendingQuality ?? null;
+  }
+
+  getAbrOptions(): AdaptiveBitrateOptions {
+    return { ...this.abrOptions };
+  }
+
+  /**
+   * Get viewer metrics for a specific stream
+   */
+  getViewerMetrics(streamId: StreamId): ViewerMetrics {
+    const now = Date.now();
+    const activeSessions = this.getStreamSessions(streamId);
+    const watchTimes = [
+      ...(this.completedWatchTimes.get(streamId) || []),
+      ...activeSessions.map(session => now - session.joinTime.getTime())
+    ];
+
+    const qualityDistribution: Record<string, number> = {};
+    const geographicDistribution: Record<string, number> = {};
+
+    for (const session of activeSessions) {
+      qualityDistribution[session.currentQuality] = (qualityDistribution[session.currentQuality] || 0) + 1;
+
+      const region = this.viewerBindings.get(session.sessionId)?.region || 'unknown';
+      geographicDistribution[region] = (geographicDistribution[region] || 0) + 1;
+    }
+
+    return {
+      totalViewers: this.totalViewers.get(streamId) || 0,
+      activeViewers: activeSessions.length,
+      averageWatchTime: watchTimes.length > 0
+        ? watchTimes.reduce((sum, time) => sum + time, 0) / watchTimes.length
+        : 0,
+      qualityDistribution,
+      geographicDistribution
+    };
+  }
+
+  /**
+   * Unsubscribe a viewer from a stream
+   */
+  async unsubscribeViewer(sessionId: SessionId): Promise<void> {
+    const session = this.viewerSessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.endSession(session);
+    this.emit('viewer:unsubscribed', {
+      sessionId,
+      viewerId: session.viewerId,
+      streamId: session.streamId,
+      watchTime: session.engagement.watchTime
+    });
+  }
+
+  /**
+   * Handle stream end and notify all viewers
+   */
+  async handleStreamEnd(streamId: StreamId): Promise<void> {
+    const sessions = this.getStreamSessions(streamId);
+
+    for (const session of sessions) {
+      this.emitToViewer(session.sessionId, 'stream-ended', {
+        streamId,
+        sessionId: session.sessionId,
+        timestamp: Date.now()
+      });
+      this.endSession(session);
+    }
+
+    this.publishedStreams.delete(streamId);
+    this.streamViewers.delete(streamId);
+    this.totalViewers.delete(streamId);
+    this.completedWatchTimes.delete(streamId);
+
+    this.emit('stream:ended', { streamId, notifiedViewers: sessions.length });
+    logger.info('Stream ended, viewers notified', { streamId, viewers: sessions.length });
+  }
+
+  /**
+   * Fan a batch of frames out to the viewers of a stream
+   * A batch of one rendition reaches the viewers of that level only; an unlabelled batch
+   * reaches every viewer and is relabelled from the keyframe where a viewer switches
+   */
+  distributeFrames(streamId: StreamId, frames: DistributedFrame[], quality?: QualityLevel): number {
+    if (!this.publishedStreams.has(streamId) || frames.length === 0) {
+      return 0;
+    }
+
+    const sessions = this.getStreamSessions(streamId);
+    let delivered = 0;
+
+    for (const session of sessions) {
+      // Time-shifted viewers are fed from the store instead
+      if (this.timeShiftPlaybacks.has(session.sessionId)) {
+        continue;
+      }
+
+      const state = this.abrStates.get(session.sessionId)!;
+      const { frames: viewerFrames, switchIndex } = this.selectViewerFrames(session, state, frames, quality);
+      if (viewerFrames.length === 0) {
+        continue;
+      }
+
+      let sent = false;
+      if (switchIndex > 0) {
+        sent = this.sendFrames(session, viewerFrames.slice(0, switchIndex));
+      }
+      if (switchIndex >= 0) {
+        this.applyQualitySwitch(session, state);
+      }
+      sent = this.sendFrames(session, viewerFrames.slice(Math.max(switchIndex, 0))) || sent;
+      state.lastTimestamp = viewerFrames[viewerFrames.length - 1].timestamp;
+
+      if (sent) {
+        delivered++;
+      }
+    }
+
+    this.emit('frames:distributed', {
+      streamId,
+      frameCount: frames.length,
+      viewerCount: sessions.length,
+      delivered
+    });
+
+    return delivered;
+  }
+
+  /**
+   * Unsubscribe every session bound to a socket
+   */
+  async handleSocketDisconnect(socketId: string): Promise<void> {
+    const sessionIds = Array.from(this.viewerBindings.entries())
+      .filter(([_, binding]) => binding.socketId === socketId)
+      .map(([sessionId]) => sessionId);
+
+    for (const sessionId of sessionIds) {
+      await this.unsubscribeViewer(sessionId);
+    }
+  }
+
+  /**
+   * Get a viewer session by ID
+   */
+  getViewerSession(sessionId: SessionId): ViewerSession | undefined {
+    const session = this.viewerSessions.get(sessionId);
+    return session ? { ...session } : undefined;
+  }
+
+  /**
+   * Check if a stream is published for distribution
+   */
+  isPublished(streamId: StreamId): boolean {
+    return this.publishedStreams.has(streamId);
+  }
+
+  /**
+   * Get all published stream IDs
+   */
+  getPublishedStreams(): StreamId[] {
+    return Array.from(this.publishedStreams.keys());
+  }
+
+  private setupViewerHandlers(): void {
+    this.io.on('connection', (socket) => {
+
+      // Handle viewer subscription to a stream
+      socket.on('viewer-subscribe', async (data) => {
+        const streamId = data?.streamId;
+        try {
+          if (typeof streamId !== 'string') {
+            throw new Error('streamId is required');
+          }
+          this.viewerAuthorizer?.(streamId, socket);
+
+          const session = await this.subscribeViewer(data.viewerId || socket.id, streamId, {
+            socketId: socket.id,
+            region: data.region
+          });
+
+          socket.emit('viewer-subscribed', {
+            sessionId: session.sessionId,
+            streamId: session.streamId,
+            quality: session.currentQuality
+          });
+        } catch (error) {
+          socket.emit('viewer-error', {
+            streamId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      // Handle viewer leaving a stream
+      socket.on('viewer-unsubscribe', (data) => {
+        const sessionId = data?.sessionId;
+        const binding = this.viewerBindings.get(sessionId);
+        if (!binding || binding.socketId !== socket.id) {
+          return;
+        }
+
+        this.unsubscribeViewer(sessionId)
+          .then(() => socket.emit('viewer-unsubscribed', { sessionId }))
+          .catch((error) => {
+            logger.error('Error unsubscribing viewer', { sessionId, error });
+          });
+      });
+
+      // Handle a viewer's network report
+      socket.on('viewer-network-metrics', (data) => {
+        const binding = this.viewerBindings.get(data?.sessionId);
+        if (!binding || binding.socketId !== socket.id) {
+          return;
+        }
+
+        const metrics = {
+          bandwidth: Number(data.bandwidth),
+          latency: Number(data.latency),
+          packetLoss: Number(data.packetLoss),
+          jitter: Number(data.jitter)
+        };
+        if (Object.values(metrics).some(value => !Number.isFinite(value) || value < 0)) {
+          socket.emit('viewer-error', { sessionId: data.sessionId, error: 'Invalid network metrics' });
+          return;
+        }
+
+        this.adaptBitrate(data.sessionId, metrics);
+      });
+
+      // Handle a viewer seeking into the time-shift window, or back to live
+      socket.on('viewer-seek', (data) => {
+        const binding = this.viewerBindings.get(data?.sessionId);
+        if (!binding || binding.socketId !== socket.id) {
+          return;
+        }
+
+        try {
+          if (data.live) {
+            this.returnToLive(data.sessionId);
+          } else {
+            this.seekViewer(data.sessionId, { time: data.time, offsetMs: data.offsetMs });
+          }
+        } catch (error) {
+          socket.emit('viewer-error', {
+            sessionId: data.sessionId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      // Handle disconnect
+      socket.on('disconnect', () => {
+        this.handleSocketDisconnect(socket.id).catch((error) => {
+          logger.error('Error cleaning up viewer sessions', { socketId: socket.id, error });
+        });
+      });
+    });
+  }
+
+  /**
+   * Pick the frames of a batch a viewer receives, and where in them its pending switch applies
+   * A switching viewer's rendition stops at its next keyframe and the new rendition takes over
+   * at its first keyframe after the last frame delivered; renditions share keyframes, so
+   * that is the same instant whichever of them runs ahead
+   */
+  private selectViewerFrames(
+    session: ViewerSession,
+    state: ViewerAbrState,
+    frames: DistributedFrame[],
+    quality?: QualityLevel
+  ): { frames: DistributedFrame[]; switchIndex: number } {
+    const none = { frames: [], switchIndex: -1 };
+
+    // Nothing has been played yet, so a new viewer starts at its chosen level outright
+    if (state.lastTimestamp === null) {
+      session.currentQuality = this.resolveRendition(session.streamId, state.pendingQuality ?? session.currentQuality);
+      state.pendingQuality = null;
+    }
+
+    const lastTimestamp = state.lastTimestamp ?? -Infinity;
+    const nextKeyframe = () => frames.findIndex(frame => frame.timestamp > lastTimestamp && isRandomAccessFrame(frame));
+
+    // A viewer back from time-shift rejoins at a keyframe
+    if (quality === undefined) {
+      const start = state.stoppedAt !== null ? nextKeyframe() : 0;
+      if (start === -1) {
+        return none;
+      }
+      state.stoppedAt = null;
+      const live = frames.slice(start);
+      return { frames: live, switchIndex: state.pendingQuality ? live.findIndex(isRandomAccessFrame) : -1 };
+    }
+
+    if (quality === state.pendingQuality) {
+      const start = nextKeyframe();
+      return start === -1 ? none : { frames: frames.slice(start), switchIndex: 0 };
+    }
+
+    if (quality !== session.currentQuality) {
+      return none;
+    }
+
+    // A new viewer, or one whose switch was cancelled after its rendition stopped, joins at a keyframe
+    if (state.lastTimestamp === null || (state.stoppedAt !== null && !state.pendingQuality)) {
+      const start = nextKeyframe();
+      if (start === -1) {
+        return none;
+      }
+      state.stoppedAt = null;
+      return { frames: frames.slice(start), switchIndex: -1 };
+    }
+
+    if (!state.pendingQuality) {
+      return { frames, switchIndex: -1 };
+    }
+    if (state.stoppedAt !== null) {
+      return none;
+    }
+
+    const cut = nextKeyframe();
+    if (cut === -1) {
+      return { frames, switchIndex: -1 };
+    }
+    state.stoppedAt = frames[cut].timestamp;
+    return { frames: frames.slice(0, cut), switchIndex: -1 };
+  }
+
+  private sendFrames(session: ViewerSession, frames: DistributedFrame[]): boolean {
+    return this.emitToViewer(session.sessionId, 'stream-frames', {
+      streamId: session.streamId,
+      sessionId: session.sessionId,
+      quality: session.currentQuality,
+      frames: frames.map(frame => this.toFramePayload(frame)),
+      timestamp: Date.now()
+    });
+  }
+
+  private toFramePayload(frame: DistributedFrame) {
+    return {
+      data: frame.data,
+      timestamp: frame.timestamp,
+      width: frame.width,
+      height: frame.height,
+      format: frame.format,
+      processingTime: frame.processingTime,
+      enhancementApplied: frame.enhancementApplied
+    };
+  }
+
+  /**
+   * Send a time-shifted viewer the stored frames up to just past its playhead
+   * A playhead the window has moved past restarts at the window's first keyframe; one that
+   * has caught up with the live edge returns the viewer to live
+   */
+  private playTimeShift(session: ViewerSession, playback: TimeShiftPlayback): void {
+    const window = this.timeShiftStore!.getWindow(session.streamId);
+    if (!window) {
+      this.stopTimeShift(session.sessionId);
+      return;
+    }
+
+    if (playback.cursor < window.startTimestamp) {
+      playback.startTimestamp = window.startTimestamp;
+      playback.startedAt = Date.now();
+      playback.cursor = window.startTimestamp;
+      this.emitPosition(this.getViewerPosition(session.sessionId)!);
+    }
+
+    const to = this.getPlayhead(playback) + TIME_SHIFT_TICK_MS;
+    const frames = this.timeShiftStore!.getFrames(session.streamId, playback.cursor, to);
+    playback.cursor = to;
+    if (frames.length > 0) {
+      this.emitToViewer(session.sessionId, 'timeshift-frames', {
+        streamId: session.streamId,
+        sessionId: session.sessionId,
+        frames: frames.map(frame => this.toFramePayload(frame)),
+        timestamp: Date.now()
+      });
+    }
+
+    if (to > window.endTimestamp) {
+      this.returnToLive(session.sessionId);
+    }
+  }
+
+  private getPlayhead(playback: TimeShiftPlayback): number {
+    return playback.startTimestamp + (Date.now() - playback.startedAt);
+  }
+
+  private stopTimeShift(sessionId: SessionId): boolean {
+    const playback = this.timeShiftPlaybacks.get(sessionId);
+    if (!playback) {
+      return false;
+    }
+
+    clearInterval(playback.timer);
+    this.timeShiftPlaybacks.delete(sessionId);
+    return true;
+  }
+
+  private emitPosition(position: ViewerPosition): void {
+    this.emitToViewer(position.sessionId, 'viewer-position', position);
+    this.emit(position.live ? 'viewer:live' : 'viewer:seeked', position);
+  }
+
+  private requestQualitySwitch(session: ViewerSession, state: ViewerAbrState, quality: QualityLevel): void {
+    state.pendingQuality = quality === session.currentQuality ? null : quality;
+  }
+
+  private applyQualitySwitch(session: ViewerSession, state: ViewerAbrState): void {
+    const change = {
+      sessionId: session.sessionId,
+      viewerId: session.viewerId,
+      streamId: session.streamId,
+      from: session.currentQuality,
+      to: state.pendingQuality!,
+      timestamp: Date.now()
+    };
+
+    session.currentQuality = change.to;
+    session.engagement.qualityChanges++;
+    state.pendingQuality = null;
+    state.stoppedAt = null;
+    state.upswitchSince = null;
+
+    this.emitToViewer(session.sessionId, 'quality-changed', change);
+    this.emit('viewer:quality-changed', change);
+  }
+
+  /**
+   * Get the levels a viewer of a stream can switch between, lowest first
+   * Streams without a ladder fall back to the preset bitrates of every level
+   */
+  private getRenditionBitrates(streamId: StreamId): RenditionBitrate[] {
+    const renditions = this.renditionLadder?.getRenditions(streamId) || [];
+    if (renditions.length > 0) {
+      return renditions.map(({ quality, bitrate }) => ({ quality, bitrate }));
+    }
+    return QUALITY_LEVELS.map(quality => ({ quality, bitrate: getQualityLevelPreset(quality).bitrate }));
+  }
+
+  private findHighestRendition(renditions: RenditionBitrate[], fits: (bitrate: number) => boolean): number {
+    for (let i = renditions.length - 1; i >= 0; i--) {
+      if (fits(renditions[i].bitrate)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Estimate the bitrate a viewer can sustain, discounting loss and unstable delay
+   */
+  private getUsableBandwidth(metrics: NetworkMetrics): number {
+    const lossFactor = Math.max(0, 1 - metrics.packetLoss * this.abrOptions.packetLossPenalty);
+    const delayFactor = metrics.latency + 2 * metrics.jitter > this.abrOptions.maxDelayMs ? 0.5 : 1;
+    return metrics.bandwidth * this.abrOptions.bandwidthSafetyFactor * lossFactor * delayFactor;
+  }
+
+  /**
+   * Get the nearest level a stream's ladder offers at or below a quality, else its lowest
+   */
+  private resolveRendition(streamId: StreamId, quality: QualityLevel): QualityLevel {
+    const offered = (this.renditionLadder?.getRenditions(streamId) || []).map(rendition => rendition.quality);
+    if (offered.length === 0 || offered.includes(quality)) {
+      return quality;
+    }
+
+    const below = offered.filter(level => QUALITY_LEVELS.indexOf(level) < QUALITY_LEVELS.indexOf(quality));
+    return below.length > 0 ? below[below.length - 1] : offered[0];
+  }
+
+  private emitToViewer(sessionId: SessionId, event: string, data: any): boolean {
+    const binding = this.viewerBindings.get(sessionId);
+    if (!binding?.socketId) {
+      return false;
+    }
+
+    const socket = this.io.sockets.sockets.get(binding.socketId);
+    if (!socket) {
+      return false;
+    }
+
+    socket.emit(event, data);
+    return true;
+  }
+
+  private endSession(session: ViewerSession): void {
+    session.engagement.watchTime = Date.now() - session.joinTime.getTime();
+
+    const watchTimes = this.completedWatchTimes.get(session.streamId) || [];
+    watchTimes.push(session.engagement.watchTime);
+    this.completedWatchTimes.set(session.streamId, watchTimes);
+
+    this.streamViewers.get(session.streamId)?.delete(session.sessionId);
+    this.viewerSessions.delete(session.sessionId);
+    this.viewerBindings.delete(session.sessionId);
+    this.abrStates.delete(session.sessionId);
+    this.stopTimeShift(session.sessionId);
+  }
+
+  private getStreamSessions(streamId: StreamId): ViewerSession[] {
+    const sessionIds = this.streamViewers.get(streamId);
+    if (!sessionIds) {
+      return [];
+    }
+
+    return Array.from(sessionIds)
+      .map(sessionId => this.viewerSessions.get(sessionId))
+      .filter((session): session is ViewerSession => !!session);
+  }
+
+  private generateSessionId(): SessionId {
+    return `viewer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
\ No newline at end of file
@@ -1,9 +1,17 @@
 import { EventEmitter } from 'events';
 import { IngestionService } from '../interfaces/IngestionService';
-import { WebRTCConnection, StreamId, VideoStream, ValidationResult, UserId, VideoFrame } from '../types';
+import { WebRTCConnection, StreamId, VideoStream, ValidationResult, UserId, VideoFrame, AIModelType, PublishGrant, PublishSource } from '../types';
 import { WebRTCServer } from './WebRTCServer';
 import { StreamBuffer, StreamRouter } from './StreamBuffer';
 import { StreamProcessor } from './StreamProcessor';
+import { RtmpServer, RtmpStreamMetadata } from './RtmpServer';
+import { SrtServer } from './SrtServer';
+import { StreamKeyStore } from './StreamKeyStore';
+import { PipelinePresetName } from '../ai/EnhancementPipeline';
+
+// Assumed when a pushed feed does not describe its frame rate or bitrate
+const DEFAULT_INGEST_FRAME_RATE = 30;
+const DEFAULT_INGEST_BITRATE = 2500000;
 
 /**
  * Stream ingestion service implementation
@@ -16,6 +24,10 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
   private streamRouter: StreamRouter;
   private streamProcessor: StreamProcessor;
   private userSessions: Map<UserId, StreamId> = new Map();
+  private rtmpSessions: Map<string, { streamId: StreamId; userId: UserId; added: boolean }> = new Map();
+  private srtSessions: Map<string, { streamId: StreamId; userId: UserId; added: boolean }> = new Map();
+  private streamKeys: StreamKeyStore | null = null;
+  private publishGrants: Map<string, PublishGrant> = new Map(); // WebRTC publishers authorized before they connect
 
   constructor(webrtcServer: WebRTCServer, bufferSize: number = 30) {
     super();
@@ -32,11 +44,45 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
     this.streamProcessor.start();
   }
 
+  /**
+   * Require a valid stream key on every publish path
+   * Without a key store publishing is open and the stream key names the user
+   */
+  attachStreamKeys(streamKeys: StreamKeyStore): void {
+    this.streamKeys = streamKeys;
+  }
+
+  /**
+   * Authorize a publisher's stream key; throws when it is refused
+   */
+  authorizePublish(streamKey: string | undefined, source: PublishSource): PublishGrant {
+    if (this.streamKeys) {
+      return this.streamKeys.authorize(streamKey, source);
+    }
+    if (!streamKey) {
+      throw new Error('Stream key is required');
+    }
+    return { userId: streamKey, keyId: null };
+  }
+
+  /**
+   * Remember the grant of a WebRTC publisher until its stream is accepted
+   */
+  bindPublishGrant(connectionId: string, grant: PublishGrant): void {
+    this.publishGrants.set(connectionId, grant);
+  }
+
   /**
    * Accept a new WebRTC connection from a streaming client
    */
-  async acceptStream(connection: WebRTCConnection): Promise<StreamId> {
-    const streamId = this.generateStreamId();
+  async acceptStream(connection: WebRTCConnection, grant?: PublishGrant): Promise<StreamId> {
+    const authorized = grant ?? this.publishGrants.get(connection.connectionId);
+    this.publishGrants.delete(connection.connectionId);
+    if (this.streamKeys && !authorized) {
+      throw new Error(`Connection ${connection.connectionId} is not authorized to publish`);
+    }
+
+    const streamId = this.generateStreamId(authorized?.keyId ?? null);
     
     try {
       // Associate connection with stream
@@ -52,6 +98,160 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
     }
   }
 
+  /**
+   * Ingest streams published to an RTMP server
+   * Each publish becomes a VideoStream once its first access unit arrives, so the
+   * encoder's onMetaData can shape the stream configuration, and is routed to processing
+   */
+  attachRtmpServer(rtmpServer: RtmpServer): void {
+    // Keys are checked before the server accepts the publish
+    rtmpServer.setPublishAuthorizer((streamKey, address) => this.authorizePublish(streamKey, { protocol: 'rtmp', address }));
+
+    rtmpServer.on('stream:publish', (data: { sessionId: string; grant: PublishGrant }) => {
+      const { grant } = data;
+      const streamId = this.generateStreamId(grant.keyId);
+      this.rtmpSessions.set(data.sessionId, { streamId, userId: grant.userId, added: false });
+      this.emit('stream:accepted', { streamId, sessionId: data.sessionId });
+    });
+
+    rtmpServer.on('frame:received', async (data: { sessionId: string; metadata: RtmpStreamMetadata | null; frame: VideoFrame }) => {
+      const session = this.rtmpSessions.get(data.sessionId);
+      if (!session) {
+        return;
+      }
+
+      if (session.added) {
+        this.addFrameToBuffer(session.streamId, data.frame);
+        return;
+      }
+
+      const stream: VideoStream = {
+        streamId: session.streamId,
+        userId: session.userId,
+        config: {
+          resolution: {
+            width: data.metadata?.width ?? data.frame.width,
+            height: data.metadata?.height ?? data.frame.height
+          },
+          frameRate: data.metadata?.frameRate ?? DEFAULT_INGEST_FRAME_RATE,
+          bitrate: data.metadata?.videoBitrate ?? DEFAULT_INGEST_BITRATE,
+          audioEnabled: data.metadata?.audioEnabled ?? false
+        },
+        frames: [data.frame],
+        metadata: {
+          streamId: session.streamId,
+          frameNumber: 0,
+          timestamp: data.frame.timestamp,
+          quality: 'medium'
+        }
+      };
+
+      const validation = this.validateStream(stream);
+      if (!validation.isValid) {
+        this.rtmpSessions.delete(data.sessionId);
+        this.emit('stream:error', { streamId: session.streamId, error: `Rejected RTMP stream: ${validation.errors.join(', ')}` });
+        rtmpServer.closeSession(data.sessionId, validation.errors.join(', '));
+        return;
+      }
+
+      session.added = true;
+      this.addVideoStream(stream);
+
+      try {
+        await this.routeToProcessor(session.streamId);
+      } catch (error) {
+        // routeToProcessor has reported the failure; the unpublish handler cleans up
+        rtmpServer.closeSession(data.sessionId, String(error));
+        return;
+      }
+
+      this.emit('stream:ready', { streamId: session.streamId, sessionId: data.sessionId });
+    });
+
+    rtmpServer.on('stream:unpublish', (data) => {
+      const session = this.rtmpSessions.get(data.sessionId);
+      if (session) {
+        this.rtmpSessions.delete(data.sessionId);
+        this.handleDisconnection(session.streamId);
+      }
+    });
+  }
+
+  /**
+   * Ingest MPEG-TS contribution feeds received over SRT
+   * Each feed becomes a VideoStream on its first access unit and is routed to processing
+   */
+  attachSrtServer(srtServer: SrtServer): void {
+    // Keys are checked before the server accepts the publish
+    srtServer.setPublishAuthorizer((streamKey, address) => this.authorizePublish(streamKey, { protocol: 'srt', address }));
+
+    srtServer.on('stream:publish', (data: { sessionId: string; grant: PublishGrant }) => {
+      const { grant } = data;
+      const streamId = this.generateStreamId(grant.keyId);
+      this.srtSessions.set(data.sessionId, { streamId, userId: grant.userId, added: false });
+      this.emit('stream:accepted', { streamId, sessionId: data.sessionId });
+    });
+
+    srtServer.on('frame:received', async (data: { sessionId: string; frame: VideoFrame }) => {
+      const session = this.srtSessions.get(data.sessionId);
+      if (!session) {
+        return;
+      }
+
+      if (session.added) {
+        this.addFrameToBuffer(session.streamId, data.frame);
+        return;
+      }
+
+      const stream: VideoStream = {
+        streamId: session.streamId,
+        userId: session.userId,
+        config: {
+          resolution: { width: data.frame.width, height: data.frame.height },
+          frameRate: DEFAULT_INGEST_FRAME_RATE,
+          bitrate: DEFAULT_INGEST_BITRATE,
+          audioEnabled: false
+        },
+        frames: [data.frame],
+        metadata: {
+          streamId: session.streamId,
+          frameNumber: 0,
+          timestamp: data.frame.timestamp,
+          quality: 'medium'
+        }
+      };
+
+      const validation = this.validateStream(stream);
+      if (!validation.isValid) {
+        this.srtSessions.delete(data.sessionId);
+        this.emit('stream:error', { streamId: session.streamId, error: `Rejected SRT stream: ${validation.errors.join(', ')}` });
+        srtServer.closeSession(data.sessionId, validation.errors.join(', '));
+        return;
+      }
+
+      session.added = true;
+      this.addVideoStream(stream);
+
+      try {
+        await this.routeToProcessor(session.streamId);
+      } catch (error) {
+        // routeToProcessor has reported the failure; the unpublish handler cleans up
+        srtServer.closeSession(data.sessionId, String(error));
+        return;
+      }
+
+      this.emit('stream:ready', { streamId: session.streamId, sessionId: data.sessionId });
+    });
+
+    srtServer.on('stream:unpublish', (data) => {
+      const session = this.srtSessions.get(data.sessionId);
+      if (session) {
+        this.srtSessions.delete(data.sessionId);
+        this.handleDisconnection(session.streamId);
+      }
+    });
+  }
+
   /**
    * Validate an incoming video stream
    */
@@ -212,6 +412,13 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
     this.emit('stream:added', { streamId: stream.streamId, userId: stream.userId });
   }
 
+  /**
+   * Get an active stream by ID
+   */
+  getActiveStream(streamId: StreamId): VideoStream | undefined {
+    return this.activeStreams.get(streamId);
+  }
+
   /**
    * Add single frame to stream buffer
    */
@@ -254,6 +461,13 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
     return this.streamBuffer.getBufferStats();
   }
 
+  /**
+   * Get the ingest frame rate and bitrate (kbps) for a stream
+   */
+  getIngestStats(streamId: StreamId): { fps: number; bitrate: number } {
+    return this.streamBuffer.getIngestStats(streamId);
+  }
+
   /**
    * Get processing status for monitoring
    */
@@ -266,6 +480,20 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
     return this.streamProcessor.getProcessingStatus();
   }
 
+  /**
+   * Select the AI model used to enhance a stream
+   */
+  setStreamModel(streamId: StreamId, modelType: AIModelType): void {
+    this.streamProcessor.setStreamModel(streamId, modelType);
+  }
+
+  /**
+   * Run a stream through a named enhancement pipeline, or back through its single model with null
+   */
+  setStreamPipeline(streamId: StreamId, name: PipelinePresetName | null): void {
+    this.streamProcessor.setStreamPipeline(streamId, name);
+  }
+
   /**
    * Get processing metrics for a specific stream
    */
@@ -273,21 +501,72 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
     return this.streamProcessor.getProcessingMetrics(streamId);
   }
 
+  /**
+   * Get processing metrics for every stream with recorded frames
+   */
+  getAllStreamProcessingMetrics() {
+    return this.streamProcessor.getAllProcessingMetrics();
+  }
+
+  /**
+   * Get AI model metrics aggregated across every stream
+   */
+  getModelProcessingMetrics() {
+    return this.streamProcessor.getModelMetrics();
+  }
+
+  /**
+   * Stop the processing pipeline started with the service
+   */
+  stop(): void {
+    this.streamProcessor.stop();
+  }
+
   private setupWebRTCEventHandlers(): void {
     this.webrtcServer.on('connection:new', (data) => {
       this.emit('connection:new', data);
     });
 
     this.webrtcServer.on('connection:established', async (data) => {
+      // Subscriber connections carry outgoing media only
+      if (data.role === 'subscriber') {
+        return;
+      }
+
       try {
-        const streamId = await this.acceptStream(data.connection);
+        // WHIP publishers are accepted when their resource is created
+        const streamId = this.webrtcServer.getConnectionStreamId(data.connectionId)
+          || await this.acceptStream(data.connection);
+
+        if (data.userId && data.streamConfig) {
+          this.addVideoStream({
+            streamId,
+            userId: data.userId,
+            config: data.streamConfig,
+            frames: [],
+            metadata: {
+              streamId,
+              frameNumber: 0,
+              timestamp: Date.now(),
+              quality: 'medium'
+            }
+          });
+        }
+
         this.emit('stream:ready', { streamId, connectionId: data.connectionId });
       } catch (error) {
         this.emit('connection:error', { connectionId: data.connectionId, error });
       }
     });
 
+    this.webrtcServer.on('frame:received', (data) => {
+      if (this.activeStreams.has(data.streamId)) {
+        this.addFrameToBuffer(data.streamId, data.frame);
+      }
+    });
+
     this.webrtcServer.on('connection:closed', (data) => {
+      this.publishGrants.delete(data.connectionId);
       if (data.streamId) {
         this.handleDisconnection(data.streamId);
       }
@@ -343,12 +622,28 @@ export class StreamIngestionService extends EventEmitter implements IngestionSer
       this.emit('processing:failed', data);
     });
 
+    this.streamProcessor.on('ai:fallback', (data) => {
+      this.emit('ai:fallback', data);
+    });
+
+    this.streamProcessor.on('model:error', (data) => {
+      this.emit('model:error', data);
+    });
+
+    this.streamProcessor.on('model:fallback', (data) => {
+      this.emit('model:fallback', data);
+    });
+
     this.streamProcessor.on('queue:added', (data) => {
       this.emit('queue:added', data);
     });
   }
 
-  private generateStreamId(): StreamId {
-    return `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Stream IDs of authorized publishers carry the key they were published with
+   */
+  generateStreamId(keyId: string | null = null): StreamId {
+    const suffix = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return keyId ? `stream_${keyId}_${suffix}` : `stream_${suffix}`;
   }
 }
\ No newline at end of file
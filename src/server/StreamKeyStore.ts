@@ -0,0 +1,182 @@
+import { EventEmitter } from 'events';
+import { createHash, randomBytes } from 'crypto';
+import { UserId, PublishGrant, PublishSource } from '../types';
+import { logger } from '../utils/logger';
+import { FailureLimiter } from '../utils/FailureLimiter';
+
+/**
+ * A stream key as listed to its owner; the secret itself is only shown when issued
+ */
+export interface StreamKeyInfo {
+  keyId: string;
+  userId: UserId;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface IssuedStreamKey extends StreamKeyInfo {
+  streamKey: string;
+}
+
+export interface StreamKeyStoreOptions {
+  maxFailedAttempts: number; // per source address within the window
+  failureWindowMs: number;
+  lockoutMs: number;
+}
+
+const DEFAULT_OPTIONS: StreamKeyStoreOptions = {
+  maxFailedAttempts: 5,
+  failureWindowMs: 60 * 1000,
+  lockoutMs: 5 * 60 * 1000
+};
+
+interface StoredKey extends StreamKeyInfo {
+  hash: string;
+}
+
+/**
+ * Per-user stream keys that authorize broadcasters to publish
+ * Only a hash of each key is kept; every user has at most one active key, which
+ * rotation replaces. Failed attempts are logged and a source address that keeps
+ * failing is locked out for a while
+ */
+export class StreamKeyStore extends EventEmitter {
+  private options: StreamKeyStoreOptions;
+  private keysByUser: Map<UserId, StoredKey> = new Map();
+  private keysByHash: Map<string, StoredKey> = new Map();
+  private failures: FailureLimiter;
+
+  constructor(options: Partial<StreamKeyStoreOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!(this.options.maxFailedAttempts >= 1) || !(this.options.failureWindowMs > 0) || !(this.options.lockoutMs > 0)) {
+      throw new Error('Stream key rate limits must be positive');
+    }
+    this.failures = new FailureLimiter({
+      maxFailures: this.options.maxFailedAttempts,
+      windowMs: this.options.failureWindowMs,
+      lockoutMs: this.options.lockoutMs
+    });
+  }
+
+  /**
+   * Issue a user's first stream key
+   */
+  createKey(userId: UserId): IssuedStreamKey {
+    if (typeof userId !== 'string' || userId.trim() === '') {
+      throw new Error('User ID is required');
+    }
+    if (this.keysByUser.has(userId)) {
+      throw new Error(`User ${userId} already has a stream key`);
+    }
+
+    const issued = this.issue(userId);
+    this.emit('key:created', { userId, keyId: issued.keyId });
+    return issued;
+  }
+
+  /**
+   * Replace a user's stream key; the old key stops working immediately
+   */
+  rotateKey(userId: UserId): IssuedStreamKey {
+    const previous = this.remove(userId);
+    const issued = this.issue(userId);
+    this.emit('key:rotated', { userId, keyId: issued.keyId, previousKeyId: previous.keyId });
+    return issued;
+  }
+
+  /**
+   * Revoke a user's stream key; streams already live are not interrupted
+   */
+  revokeKey(userId: UserId): StreamKeyInfo {
+    const revoked = this.remove(userId);
+    this.emit('key:revoked', { userId, keyId: revoked.keyId });
+    return toInfo(revoked);
+  }
+
+  getKey(userId: UserId): StreamKeyInfo | null {
+    const key = this.keysByUser.get(userId);
+    return key ? toInfo(key) : null;
+  }
+
+  getKeys(): StreamKeyInfo[] {
+    return Array.from(this.keysByUser.values()).map(toInfo);
+  }
+
+  /**
+   * Check a publisher's stream key, returning who it publishes as
+   * Throws when the key is unknown or the source is locked out after failing too often
+   */
+  authorize(streamKey: string | undefined, source: PublishSource): PublishGrant {
+    const address = source.address ?? 'unknown';
+
+    if (this.getRetryAfterMs(source.address) > 0) {
+      this.deny(source, 'Too many failed publish attempts');
+    }
+
+    const key = typeof streamKey === 'string' && streamKey ? this.keysByHash.get(hashKey(streamKey)) : undefined;
+    if (!key) {
+      if (this.failures.recordFailure(address)) {
+        logger.warn('Publish source locked out', { address, lockoutMs: this.options.lockoutMs });
+      }
+      this.deny(source, streamKey ? 'Invalid stream key' : 'Stream key is required');
+    }
+
+    this.failures.clear(address);
+    key.lastUsedAt = new Date();
+    this.emit('publish:authorized', { userId: key.userId, keyId: key.keyId, ...source });
+    return { userId: key.userId, keyId: key.keyId };
+  }
+
+  /**
+   * Milliseconds until a locked-out source may try again, 0 when it is not locked out
+   */
+  getRetryAfterMs(address: string | null): number {
+    return this.failures.getRetryAfterMs(address ?? 'unknown');
+  }
+
+  getOptions(): StreamKeyStoreOptions {
+    return { ...this.options };
+  }
+
+  private issue(userId: UserId): IssuedStreamKey {
+    const streamKey = `sk_${randomBytes(24).toString('base64url')}`;
+    const key: StoredKey = {
+      keyId: `key_${randomBytes(6).toString('hex')}`,
+      userId,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      hash: hashKey(streamKey)
+    };
+
+    this.keysByUser.set(userId, key);
+    this.keysByHash.set(key.hash, key);
+    return { ...toInfo(key), streamKey };
+  }
+
+  private remove(userId: UserId): StoredKey {
+    const key = this.keysByUser.get(userId);
+    if (!key) {
+      throw new Error(`User ${userId} has no stream key`);
+    }
+
+    this.keysByUser.delete(userId);
+    this.keysByHash.delete(key.hash);
+    return key;
+  }
+
+  private deny(source: PublishSource, reason: string): never {
+    logger.warn('Publish denied', { protocol: source.protocol, address: source.address, reason });
+    this.emit('publish:denied', { ...source, reason });
+    throw new Error(reason);
+  }
+}
+
+function hashKey(streamKey: string): string {
+  return createHash('sha256').update(streamKey).digest('hex');
+}
+
+function toInfo(key: StoredKey): StreamKeyInfo {
+  return { keyId: key.keyId, userId: key.userId, createdAt: key.createdAt, lastUsedAt: key.lastUsedAt };
+}
\ No newline at end of file
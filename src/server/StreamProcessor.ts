@@ -1,6 +1,9 @@
 import { EventEmitter } from 'events';
-import { StreamId, VideoFrame, ProcessingMetrics } from '../types';
+import { StreamId, VideoFrame, EnhancedFrame, ProcessingMetrics, AIModelConfig, AIModelType } from '../types';
 import { StreamBuffer, StreamRouter } from './StreamBuffer';
+import { AIProcessor, AIModelFactory } from '../ai/AIProcessor';
+import { EnhancementPipeline, PipelinePresets, PipelinePresetName } from '../ai/EnhancementPipeline';
+import { MetricsCollector } from '../utils/MetricsCollector';
 
 /**
  * Stream processor coordinator for managing AI processing pipeline
@@ -12,18 +15,41 @@ export class StreamProcessor extends EventEmitter {
   private processingQueue: Map<StreamId, ProcessingJob> = new Map();
   private activeProcessing: Set<StreamId> = new Set();
   private maxConcurrentStreams: number;
-  private processingMetrics: Map<StreamId, ProcessingMetrics> = new Map();
+  private metricsCollector: MetricsCollector;
   private isProcessing: boolean = false;
+  private modelConfigs: Map<AIModelType, AIModelConfig> = new Map();
+  private aiProcessors: Map<AIModelType, AIProcessor> = new Map();
+  private modelInitializations: Map<AIModelType, Promise<AIProcessor>> = new Map();
+  private streamModels: Map<StreamId, AIModelType> = new Map();
+  private pipelines: Map<PipelinePresetName, EnhancementPipeline> = new Map();
+  private pipelineInitializations: Map<PipelinePresetName, Promise<EnhancementPipeline>> = new Map();
+  private streamPipelines: Map<StreamId, PipelinePresetName> = new Map();
+  private defaultModelType: AIModelType;
 
   constructor(
     streamBuffer: StreamBuffer,
     streamRouter: StreamRouter,
-    maxConcurrentStreams: number = 5
+    maxConcurrentStreams: number = 5,
+    modelConfigs: AIModelConfig[] = [
+      AIModelFactory.createUpscalingModel(),
+      AIModelFactory.createDenoisingModel(),
+      AIModelFactory.createColorCorrectionModel(),
+      AIModelFactory.createStabilizationModel()
+    ],
+    defaultModelType: AIModelType = 'colorCorrection',
+    metricsCollector: MetricsCollector = new MetricsCollector()
   ) {
     super();
     this.streamBuffer = streamBuffer;
     this.streamRouter = streamRouter;
     this.maxConcurrentStreams = maxConcurrentStreams;
+    this.defaultModelType = defaultModelType;
+    this.metricsCollector = metricsCollector;
+
+    for (const config of modelConfigs) {
+      this.registerModel(config);
+    }
+
     this.setupEventHandlers();
   }
 
@@ -84,15 +110,114 @@ export class StreamProcessor extends EventEmitter {
   removeStreamFromQueue(streamId: StreamId): void {
     this.processingQueue.delete(streamId);
     this.activeProcessing.delete(streamId);
-    this.processingMetrics.delete(streamId);
+    this.metricsCollector.reset(streamId);
+    this.streamModels.delete(streamId);
+    this.streamPipelines.delete(streamId);
+
+    for (const processor of this.aiProcessors.values()) {
+      processor.resetStream(streamId);
+    }
+    for (const pipeline of this.pipelines.values()) {
+      pipeline.resetStream(streamId);
+    }
+
     this.emit('queue:removed', { streamId, queueSize: this.processingQueue.size });
   }
 
+  /**
+   * Register or replace the configuration used for a model type
+   */
+  registerModel(config: AIModelConfig): void {
+    this.modelConfigs.set(config.modelType, config);
+
+    const processor = this.aiProcessors.get(config.modelType);
+    if (processor) {
+      processor.updateConfig(config);
+    }
+  }
+
+  /**
+   * Select the AI model used to enhance a stream
+   */
+  setStreamModel(streamId: StreamId, modelType: AIModelType): void {
+    if (!this.modelConfigs.has(modelType)) {
+      throw new Error(`No AI model registered for ${modelType}`);
+    }
+
+    this.streamModels.set(streamId, modelType);
+    this.emit('model:selected', { streamId, modelType });
+  }
+
+  /**
+   * Get the AI model type used to enhance a stream
+   */
+  getStreamModel(streamId: StreamId): AIModelType {
+    return this.streamModels.get(streamId) || this.defaultModelType;
+  }
+
+  /**
+   * Run a stream through a chain of models instead of its single model, or back to it with null
+   * Frames from a pipeline are reported with the model type `pipeline:<name>`
+   */
+  setStreamPipeline(streamId: StreamId, name: PipelinePresetName | null): void {
+    if (name === null) {
+      this.streamPipelines.delete(streamId);
+    } else {
+      if (!PipelinePresets.getNames().includes(name)) {
+        throw new Error(`Unknown enhancement pipeline ${name}`);
+      }
+      this.streamPipelines.set(streamId, name);
+    }
+
+    this.emit('pipeline:selected', { streamId, pipeline: name });
+  }
+
+  /**
+   * Get the enhancement pipeline a stream runs through, if any
+   */
+  getStreamPipeline(streamId: StreamId): PipelinePresetName | null {
+    return this.streamPipelines.get(streamId) ?? null;
+  }
+
   /**
    * Get processing metrics for a stream
    */
   getProcessingMetrics(streamId: StreamId): ProcessingMetrics | null {
-    return this.processingMetrics.get(streamId) || null;
+    if (!this.metricsCollector.hasKey(streamId)) {
+      return null;
+    }
+
+    this.metricsCollector.recordQueueDepth(streamId, this.streamBuffer.getBufferSize(streamId));
+    return this.metricsCollector.getMetrics(streamId);
+  }
+
+  /**
+   * Get processing metrics for every stream with recorded frames
+   */
+  getAllProcessingMetrics(): { [streamId: string]: ProcessingMetrics } {
+    const metrics: { [streamId: string]: ProcessingMetrics } = {};
+
+    for (const streamId of this.streamBuffer.getActiveStreams()) {
+      const streamMetrics = this.getProcessingMetrics(streamId);
+      if (streamMetrics) {
+        metrics[streamId] = streamMetrics;
+      }
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Get AI model metrics aggregated across every stream
+   */
+  getModelMetrics(): { [modelType: string]: ProcessingMetrics } {
+    const metrics: { [modelType: string]: ProcessingMetrics } = {};
+
+    for (const [modelType, processor] of this.aiProcessors) {
+      metrics[modelType] = processor.getMetrics();
+    }
+
+    return metrics;
   }
 
   /**
@@ -182,6 +307,12 @@ export class StreamProcessor extends EventEmitter {
 
         } catch (batchError) {
           errors++;
+
+          const batchTime = Date.now() - batchStartTime;
+          for (let i = 0; i < frames.length; i++) {
+            this.metricsCollector.recordFrame(streamId, batchTime / frames.length, false);
+          }
+
           this.emit('batch:error', { streamId, error: batchError, frameCount: frames.length });
         }
 
@@ -192,17 +323,9 @@ export class StreamProcessor extends EventEmitter {
     } finally {
       const totalTime = Date.now() - startTime;
       
-      // Update processing metrics
-      const metrics: ProcessingMetrics = {
-        averageLatency: processedFrames > 0 ? totalTime / processedFrames : 0,
-        frameProcessingRate: processedFrames / (totalTime / 1000),
-        errorRate: processedFrames > 0 ? (errors / processedFrames) * 100 : 0,
-        cpuUsage: 0, // Would be measured by system monitor
-        memoryUsage: 0, // Would be measured by system monitor
-        queueDepth: this.streamBuffer.getBufferSize(streamId)
-      };
-
-      this.processingMetrics.set(streamId, metrics);
+      // Snapshot the stream's rolling metrics window
+      this.metricsCollector.recordQueueDepth(streamId, this.streamBuffer.getBufferSize(streamId));
+      const metrics = this.metricsCollector.getMetrics(streamId);
       
       this.emit('processing:completed', { 
         streamId, 
@@ -215,31 +338,144 @@ export class StreamProcessor extends EventEmitter {
   }
 
   /**
-   * Process a batch of frames (placeholder for AI processing)
+   * Process a batch of frames through the stream's enhancement pipeline or AI model
    */
   private async processBatch(streamId: StreamId, frames: VideoFrame[]): Promise<void> {
-    // This is where the actual AI processing would happen
-    // For now, simulate processing time
-    const processingTime = Math.random() * 20 + 10; // 10-30ms per batch
-    
+    const pipelineName = this.streamPipelines.get(streamId);
+    let modelType: string;
+    let fallbackEnabled: boolean;
+
+    if (pipelineName) {
+      modelType = `pipeline:${pipelineName}`;
+      fallbackEnabled = PipelinePresets.get(pipelineName).every(stage => stage.fallbackEnabled);
+    } else {
+      modelType = this.getStreamModel(streamId);
+      const config = this.modelConfigs.get(modelType as AIModelType);
+      if (!config) {
+        throw new Error(`No AI model registered for ${modelType}`);
+      }
+      fallbackEnabled = config.fallbackEnabled;
+    }
+
+    const startTime = Date.now();
+
     this.emit('ai:processing', { 
       streamId, 
       frameCount: frames.length, 
-      estimatedTime: processingTime 
+      modelType 
     });
 
-    // Simulate AI processing delay
-    await new Promise(resolve => setTimeout(resolve, processingTime));
+    let enhancedFrames: EnhancedFrame[];
+
+    try {
+      const enhancer = pipelineName
+        ? await this.getPipeline(pipelineName)
+        : await this.getAIProcessor(modelType as AIModelType);
+      enhancedFrames = await enhancer.processBatch(frames, streamId);
+    } catch (error) {
+      if (!fallbackEnabled) {
+        throw error;
+      }
+
+      // Pass original frames through untouched when the model is unavailable
+      this.emit('ai:fallback', { streamId, modelType, error });
+      enhancedFrames = frames.map(frame => ({
+        ...frame,
+        processingTime: 0,
+        enhancementApplied: ['fallback']
+      }));
+    }
+
+    const processingTime = Date.now() - startTime;
+
+    // Batch wall time is shared evenly so waits on model loading are counted
+    for (const frame of enhancedFrames) {
+      const success = !frame.enhancementApplied.includes('fallback');
+      this.metricsCollector.recordFrame(streamId, processingTime / enhancedFrames.length, success);
+    }
 
-    // Emit processed frames (would be enhanced frames from AI)
     this.emit('frames:enhanced', { 
       streamId, 
       originalFrames: frames,
-      enhancedFrames: frames, // Placeholder - would be AI-enhanced frames
-      processingTime 
+      enhancedFrames,
+      processingTime,
+      modelType
     });
   }
 
+  /**
+   * Get the AI processor for a model type, loading the model on first use
+   */
+  private getAIProcessor(modelType: AIModelType): Promise<AIProcessor> {
+    const pending = this.modelInitializations.get(modelType);
+    if (pending) {
+      return pending;
+    }
+
+    const processor = new AIProcessor(
+      this.modelConfigs.get(modelType)!,
+      undefined,
+      undefined,
+      this.metricsCollector
+    );
+
+    processor.on('model:loaded', (data) => {
+      this.emit('model:loaded', data);
+    });
+
+    processor.on('model:error', (data) => {
+      this.emit('model:error', { modelType, ...data });
+    });
+
+    processor.on('model:fallback', (data) => {
+      this.emit('model:fallback', data);
+    });
+
+    const initialization = processor.initialize()
+      .then(() => {
+        this.aiProcessors.set(modelType, processor);
+        return processor;
+      })
+      .catch((error) => {
+        // Allow the next batch to retry loading the model
+        this.modelInitializations.delete(modelType);
+        throw error;
+      });
+
+    this.modelInitializations.set(modelType, initialization);
+    return initialization;
+  }
+
+  /**
+   * Get an enhancement pipeline, loading its models on first use
+   */
+  private getPipeline(name: PipelinePresetName): Promise<EnhancementPipeline> {
+    const pending = this.pipelineInitializations.get(name);
+    if (pending) {
+      return pending;
+    }
+
+    const pipeline = EnhancementPipeline.fromPreset(name);
+
+    pipeline.on('stage:skipped', (data) => {
+      this.emit('stage:skipped', { pipeline: name, ...data });
+    });
+
+    const initialization = pipeline.initialize()
+      .then(() => {
+        this.pipelines.set(name, pipeline);
+        return pipeline;
+      })
+      .catch((error) => {
+        // Allow the next batch to retry loading the pipeline
+        this.pipelineInitializations.delete(name);
+        throw error;
+      });
+
+    this.pipelineInitializations.set(name, initialization);
+    return initialization;
+  }
+
   /**
    * Get next job for processing based on priority
    */
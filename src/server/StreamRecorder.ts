@@ -0,0 +1,461 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StreamIngestionService } from './StreamIngestionService';
+import {
+  FMP4_TIMESCALE,
+  Fmp4Sample,
+  Fmp4TrackConfig,
+  createFragment,
+  createInitSegment,
+  isFmp4VideoFormat,
+  readTrackConfig,
+  sameTrackConfig,
+  toSampleData
+} from './Fmp4';
+import { remuxToMp4 } from './Mp4Remuxer';
+import { StreamId, VideoFrame } from '../types';
+import { logger } from '../utils/logger';
+
+export interface StreamRecorderOptions {
+  directory: string;
+  includeRaw: boolean; // default for recordings started without choosing
+  fragmentDurationMs: number; // the most a crash can lose
+}
+
+export type RecordingVariant = 'enhanced' | 'raw';
+
+/**
+ * A finished, seekable recording file
+ */
+export interface RecordingFile {
+  variant: RecordingVariant;
+  path: string;
+  durationMs: number;
+  size: number;
+}
+
+export interface RecordingStatus {
+  streamId: StreamId;
+  startedAt: number;
+  includeRaw: boolean;
+  tracks: {
+    variant: RecordingVariant;
+    path: string | null; // fragmented file being written, null until the first keyframe
+    durationMs: number;
+    bytes: number;
+    error: string | null;
+  }[];
+}
+
+/**
+ * Written next to each fragmented file so it can be finalized after a crash
+ */
+interface RecordingSidecar {
+  streamId: StreamId;
+  variant: RecordingVariant;
+  startedAt: number;
+}
+
+interface PendingSample {
+  data: Buffer;
+  keyframe: boolean;
+  timestamp: number;
+  config: Fmp4TrackConfig | null;
+}
+
+interface RecordingTrack {
+  variant: RecordingVariant;
+  config: Fmp4TrackConfig | null;
+  handle: fs.FileHandle | null;
+  path: string | null;
+  paths: string[]; // every part written; a new part starts when the parameter sets change
+  pending: PendingSample | null; // a sample's duration is known once the next frame arrives
+  samples: Fmp4Sample[];
+  fragmentTicks: number;
+  decodeTime: number;
+  sequenceNumber: number;
+  lastDuration: number;
+  durationTicks: number;
+  bytes: number;
+  error: string | null;
+}
+
+interface ActiveRecording {
+  streamId: StreamId;
+  startedAt: number;
+  includeRaw: boolean;
+  tracks: RecordingTrack[];
+  writes: Promise<void>; // file operations run in order, one at a time
+}
+
+const DEFAULT_OPTIONS: StreamRecorderOptions = {
+  directory: 'recordings',
+  includeRaw: false,
+  fragmentDurationMs: 2000
+};
+
+// For a last sample with nothing after it, when the stream does not state its frame rate
+const DEFAULT_SAMPLE_DURATION = FMP4_TIMESCALE / 30;
+
+/**
+ * Records streams to disk as fragmented MP4 while live, then remuxes them to seekable MP4
+ * Every fragment is synced as it is written, so after a crash a recording keeps all
+ * but its last partial fragment; leftovers are finalized by recover() on the next start
+ */
+export class StreamRecorder extends EventEmitter {
+  private options: StreamRecorderOptions;
+  private ingestionService: StreamIngestionService;
+  private recordings: Map<StreamId, ActiveRecording> = new Map();
+  private finalizing: Set<Promise<void>> = new Set();
+
+  constructor(ingestionService: StreamIngestionService, options: Partial<StreamRecorderOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.ingestionService = ingestionService;
+
+    if (!(this.options.fragmentDurationMs > 0)) {
+      throw new Error('Recording fragment duration must be positive');
+    }
+
+    ingestionService.on('frames:enhanced', (data) => {
+      this.pushFrames(data.streamId, 'enhanced', data.enhancedFrames);
+      this.pushFrames(data.streamId, 'raw', data.originalFrames);
+    });
+
+    ingestionService.on('stream:disconnected', (data) => {
+      if (this.recordings.has(data.streamId)) {
+        this.stopRecording(data.streamId).catch(error => {
+          logger.error('Failed to finalize recording', { streamId: data.streamId, error });
+        });
+      }
+    });
+  }
+
+  /**
+   * Start recording an active stream; writing begins at its next keyframe
+   */
+  startRecording(streamId: StreamId, includeRaw: boolean = this.options.includeRaw): RecordingStatus {
+    const stream = this.ingestionService.getActiveStream(streamId);
+    if (!stream) {
+      throw new Error(`Stream ${streamId} not found`);
+    }
+    if (this.recordings.has(streamId)) {
+      throw new Error(`Stream ${streamId} is already being recorded`);
+    }
+
+    const variants: RecordingVariant[] = includeRaw ? ['enhanced', 'raw'] : ['enhanced'];
+    const frameRate = stream.config.frameRate;
+    const frameDuration = frameRate > 0 ? Math.round(FMP4_TIMESCALE / frameRate) : DEFAULT_SAMPLE_DURATION;
+    const recording: ActiveRecording = {
+      streamId,
+      startedAt: Date.now(),
+      includeRaw,
+      tracks: variants.map(variant => ({
+        variant,
+        config: null,
+        handle: null,
+        path: null,
+        paths: [],
+        pending: null,
+        samples: [],
+        fragmentTicks: 0,
+        decodeTime: 0,
+        sequenceNumber: 1,
+        lastDuration: frameDuration,
+        durationTicks: 0,
+        bytes: 0,
+        error: null
+      })),
+      writes: Promise.resolve()
+    };
+    this.recordings.set(streamId, recording);
+
+    logger.info('Recording started', { streamId, includeRaw });
+    const status = this.toStatus(recording);
+    this.emit('recording:started', status);
+    return status;
+  }
+
+  /**
+   * Stop recording a stream and remux what was written to seekable MP4 files
+   */
+  async stopRecording(streamId: StreamId): Promise<RecordingFile[]> {
+    const recording = this.recordings.get(streamId);
+    if (!recording) {
+      throw new Error(`Stream ${streamId} is not being recorded`);
+    }
+
+    this.recordings.delete(streamId);
+    for (const track of recording.tracks) {
+      if (track.pending) {
+        this.appendSample(recording, track, track.pending, track.lastDuration);
+        track.pending = null;
+      }
+      this.closePart(recording, track);
+    }
+
+    const finalized = recording.writes.then(async () => {
+      const files: RecordingFile[] = [];
+      for (const track of recording.tracks) {
+        for (const fragmented of track.paths) {
+          const file = await this.finalize(fragmented, track.variant);
+          if (file) {
+            files.push(file);
+          }
+        }
+      }
+      return files;
+    });
+
+    const pending = finalized.then(() => {}, () => {});
+    this.finalizing.add(pending);
+    const files = await finalized.finally(() => this.finalizing.delete(pending));
+
+    logger.info('Recording finalized', { streamId, files: files.map(file => file.path) });
+    this.emit('recording:finalized', { streamId, startedAt: recording.startedAt, recordings: files, recovered: false });
+    return files;
+  }
+
+  /**
+   * Finalize fragmented recordings left behind by a crash
+   */
+  async recover(): Promise<RecordingFile[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.options.directory);
+    } catch {
+      return [];
+    }
+
+    const active = new Set([...this.recordings.values()].flatMap(recording => recording.tracks.flatMap(track => track.paths)));
+    const recovered = new Map<StreamId, { startedAt: number; files: RecordingFile[] }>();
+
+    for (const entry of entries.filter(name => name.endsWith('.fmp4')).sort()) {
+      const fragmented = path.join(this.options.directory, entry);
+      if (active.has(fragmented)) {
+        continue;
+      }
+
+      let sidecar: RecordingSidecar;
+      try {
+        sidecar = JSON.parse(await fs.readFile(sidecarPath(fragmented), 'utf8'));
+      } catch {
+        logger.warn('Recording without metadata left unfinalized', { path: fragmented });
+        continue;
+      }
+
+      const file = await this.finalize(fragmented, sidecar.variant);
+      if (file) {
+        const entry = recovered.get(sidecar.streamId) || { startedAt: sidecar.startedAt, files: [] };
+        entry.files.push(file);
+        recovered.set(sidecar.streamId, entry);
+      }
+    }
+
+    for (const [streamId, { startedAt, files }] of recovered) {
+      logger.info('Recording recovered', { streamId, files: files.map(file => file.path) });
+      this.emit('recording:finalized', { streamId, startedAt, recordings: files, recovered: true });
+    }
+    return [...recovered.values()].flatMap(entry => entry.files);
+  }
+
+  getStatus(streamId: StreamId): RecordingStatus | null {
+    const recording = this.recordings.get(streamId);
+    return recording ? this.toStatus(recording) : null;
+  }
+
+  isRecording(streamId: StreamId): boolean {
+    return this.recordings.has(streamId);
+  }
+
+  getOptions(): StreamRecorderOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Finalize every recording, including those already stopping
+   */
+  async stop(): Promise<void> {
+    await Promise.all([...this.recordings.keys()].map(streamId => this.stopRecording(streamId).catch(error => {
+      logger.error('Failed to finalize recording', { streamId, error });
+    })));
+    await Promise.all([...this.finalizing]);
+  }
+
+  private pushFrames(streamId: StreamId, variant: RecordingVariant, frames: VideoFrame[]): void {
+    const recording = this.recordings.get(streamId);
+    const track = recording?.tracks.find(candidate => candidate.variant === variant);
+    if (!recording || !track) {
+      return;
+    }
+
+    for (const frame of frames) {
+      if (track.error) {
+        return;
+      }
+      if (!isFmp4VideoFormat(frame.format)) {
+        this.fail(recording, track, new Error(`Cannot record ${frame.format} video; only H.264 and H.265 are supported`));
+        return;
+      }
+
+      const sample = toSampleData(frame.format, frame.data);
+      const keyframe = frame.keyframe ?? sample.keyframe;
+      const config = keyframe ? readTrackConfig(frame.format, frame.data, frame.width, frame.height) : null;
+      if (!track.config && !track.pending && !config) {
+        continue; // wait for a keyframe carrying parameter sets
+      }
+
+      if (track.pending) {
+        const duration = Math.round((frame.timestamp - track.pending.timestamp) * FMP4_TIMESCALE / 1000);
+        this.appendSample(recording, track, track.pending, duration > 0 ? duration : track.lastDuration);
+      }
+      track.pending = { data: sample.data, keyframe, timestamp: frame.timestamp, config };
+    }
+  }
+
+  private appendSample(recording: ActiveRecording, track: RecordingTrack, pending: PendingSample, duration: number): void {
+    track.lastDuration = duration;
+
+    // An MP4 has one sample description, so new parameter sets start a new file
+    if (pending.config && (!track.config || !sameTrackConfig(pending.config, track.config))) {
+      this.closePart(recording, track);
+      this.openPart(recording, track, pending.config);
+    }
+
+    track.samples.push({ data: pending.data, duration, keyframe: pending.keyframe });
+    track.fragmentTicks += duration;
+    track.durationTicks += duration;
+
+    if (track.fragmentTicks >= this.options.fragmentDurationMs * FMP4_TIMESCALE / 1000) {
+      this.flushFragment(recording, track);
+    }
+  }
+
+  private openPart(recording: ActiveRecording, track: RecordingTrack, config: Fmp4TrackConfig): void {
+    const part = track.paths.length + 1;
+    const name = [safeName(recording.streamId), recording.startedAt, track.variant, ...(part > 1 ? [`part${part}`] : [])].join('_');
+    const fragmented = path.join(this.options.directory, `${name}.fmp4`);
+    const sidecar: RecordingSidecar = { streamId: recording.streamId, variant: track.variant, startedAt: recording.startedAt };
+    const init = createInitSegment(config);
+
+    track.config = config;
+    track.path = fragmented;
+    track.paths.push(fragmented);
+    track.decodeTime = 0;
+    track.sequenceNumber = 1;
+    track.bytes += init.length;
+
+    this.enqueue(recording, track, async () => {
+      await fs.mkdir(this.options.directory, { recursive: true });
+      await fs.writeFile(sidecarPath(fragmented), JSON.stringify(sidecar));
+      track.handle = await fs.open(fragmented, 'w');
+      await track.handle.write(init);
+      await track.handle.datasync();
+    });
+  }
+
+  private closePart(recording: ActiveRecording, track: RecordingTrack): void {
+    if (!track.path) {
+      return;
+    }
+
+    this.flushFragment(recording, track);
+    track.path = null;
+    this.enqueue(recording, track, async () => {
+      await track.handle?.close();
+      track.handle = null;
+    });
+  }
+
+  private flushFragment(recording: ActiveRecording, track: RecordingTrack): void {
+    if (track.samples.length === 0) {
+      return;
+    }
+
+    const fragment = createFragment(track.sequenceNumber++, track.decodeTime, track.samples);
+    track.decodeTime += track.fragmentTicks;
+    track.bytes += fragment.length;
+    track.samples = [];
+    track.fragmentTicks = 0;
+
+    this.enqueue(recording, track, async () => {
+      await track.handle!.write(fragment);
+      await track.handle!.datasync();
+    });
+  }
+
+  private enqueue(recording: ActiveRecording, track: RecordingTrack, task: () => Promise<void>): void {
+    recording.writes = recording.writes.then(async () => {
+      if (track.error) {
+        return;
+      }
+      try {
+        await task();
+      } catch (error) {
+        this.fail(recording, track, error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Stop writing a track; what it wrote so far is still finalized
+   */
+  private fail(recording: ActiveRecording, track: RecordingTrack, error: Error): void {
+    if (track.error) {
+      return;
+    }
+
+    track.error = error.message;
+    track.pending = null;
+    track.samples = [];
+    // Close after any write in progress
+    recording.writes = recording.writes.then(async () => {
+      await track.handle?.close().catch(() => {});
+      track.handle = null;
+    });
+
+    logger.warn('Recording track failed', { streamId: recording.streamId, variant: track.variant, error: error.message });
+    this.emit('recording:error', { streamId: recording.streamId, variant: track.variant, error: error.message });
+  }
+
+  /**
+   * Remux a fragmented file next to itself and remove it with its sidecar
+   * A file that cannot be remuxed is kept so no recorded data is lost
+   */
+  private async finalize(fragmented: string, variant: RecordingVariant): Promise<RecordingFile | null> {
+    const destination = fragmented.replace(/\.fmp4$/, '.mp4');
+    try {
+      const result = await remuxToMp4(fragmented, destination);
+      await fs.unlink(fragmented);
+      await fs.unlink(sidecarPath(fragmented)).catch(() => {});
+      return { variant, path: destination, durationMs: result.durationMs, size: result.size };
+    } catch (error) {
+      logger.warn('Recording could not be finalized', { path: fragmented, error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+
+  private toStatus(recording: ActiveRecording): RecordingStatus {
+    return {
+      streamId: recording.streamId,
+      startedAt: recording.startedAt,
+      includeRaw: recording.includeRaw,
+      tracks: recording.tracks.map(track => ({
+        variant: track.variant,
+        path: track.path,
+        durationMs: Math.round(track.durationTicks * 1000 / FMP4_TIMESCALE),
+        bytes: track.bytes,
+        error: track.error
+      }))
+    };
+  }
+}
+
+function sidecarPath(fragmented: string): string {
+  return fragmented.replace(/\.fmp4$/, '.json');
+}
+
+function safeName(streamId: StreamId): string {
+  return streamId.replace(/[^\w.-]/g, '_');
+}
\ No newline at end of file
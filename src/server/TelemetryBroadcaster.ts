@@ -0,0 +1,265 @@
+import { EventEmitter } from 'events';
+import { Server as SocketIOServer } from 'socket.io';
+import { StreamId, StreamTelemetry } from '../types';
+import { StreamingServer } from './index';
+import { StreamDistributionService } from './StreamDistributionService';
+import { logger } from '../utils/logger';
+
+const MAX_SUBSCRIPTIONS_PER_SOCKET = 20;
+
+/**
+ * Live telemetry broadcaster for dashboards
+ * Dashboards join a per-stream room and receive that stream's ingest,
+ * enhancement, viewer and connection numbers on every tick
+ */
+export class TelemetryBroadcaster extends EventEmitter {
+  private io: SocketIOServer;
+  private streamingServer: StreamingServer;
+  private distributionService: StreamDistributionService;
+  private subscriptions: Map<StreamId, Set<string>> = new Map();
+  private announcedStreams: Set<StreamId> = new Set();
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    io: SocketIOServer,
+    streamingServer: StreamingServer,
+    distributionService: StreamDistributionService,
+    intervalMs: number = 2000
+  ) {
+    super();
+    this.io = io;
+    this.streamingServer = streamingServer;
+    this.distributionService = distributionService;
+    this.intervalMs = intervalMs;
+    this.setupSocketHandlers();
+
+    streamingServer.getIngestionService().on('stream:disconnected', (data) => {
+      this.removeStream(data.streamId);
+    });
+  }
+
+  /**
+   * Start pushing telemetry on the configured interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.broadcast().catch((error) => {
+        logger.error('Error broadcasting telemetry', { error });
+      });
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop pushing telemetry
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Change the push interval, restarting the timer if it is running
+   */
+  setUpdateInterval(intervalMs: number): void {
+    if (intervalMs <= 0) {
+      throw new Error(`Telemetry interval must be positive, got ${intervalMs}`);
+    }
+
+    this.intervalMs = intervalMs;
+    if (this.timer) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  getUpdateInterval(): number {
+    return this.intervalMs;
+  }
+
+  /**
+   * Subscribe a socket to telemetry for the given live streams
+   * Throws, subscribing to none of them, when one is not a live stream or the socket would exceed its limit
+   */
+  subscribe(socketId: string, streamIds: unknown[]): void {
+    const ingestionService = this.streamingServer.getIngestionService();
+    for (const streamId of streamIds) {
+      if (typeof streamId !== 'string' || !(ingestionService.getActiveStream(streamId) || this.announcedStreams.has(streamId))) {
+        throw new Error(`Unknown stream ${String(streamId)}`);
+      }
+    }
+
+    const requested = new Set(streamIds as StreamId[]);
+    const current = this.getSocketStreams(socketId);
+    const total = new Set([...current, ...requested]).size;
+    if (total > MAX_SUBSCRIPTIONS_PER_SOCKET) {
+      throw new Error(`A dashboard can follow at most ${MAX_SUBSCRIPTIONS_PER_SOCKET} streams`);
+    }
+
+    const socket = this.io.sockets.sockets.get(socketId);
+    for (const streamId of requested) {
+      let subscribers = this.subscriptions.get(streamId);
+      if (!subscribers) {
+        subscribers = new Set();
+        this.subscriptions.set(streamId, subscribers);
+      }
+
+      subscribers.add(socketId);
+      socket?.join(this.getRoom(streamId));
+    }
+
+    this.emit('telemetry:subscribed', { socketId, streamIds: Array.from(requested) });
+  }
+
+  /**
+   * Unsubscribe a socket from the given streams, or from every stream when none are given
+   */
+  unsubscribe(socketId: string, streamIds?: StreamId[]): void {
+    const socket = this.io.sockets.sockets.get(socketId);
+    const targets = streamIds || Array.from(this.subscriptions.keys());
+
+    for (const streamId of targets) {
+      const subscribers = this.subscriptions.get(streamId);
+      if (!subscribers?.delete(socketId)) {
+        continue;
+      }
+
+      socket?.leave(this.getRoom(streamId));
+      if (subscribers.size === 0) {
+        this.subscriptions.delete(streamId);
+      }
+    }
+  }
+
+  /**
+   * Let dashboards follow a live stream that is not ingested, such as a socket broadcast, until it is removed
+   */
+  announceStream(streamId: StreamId): void {
+    this.announcedStreams.add(streamId);
+  }
+
+  /**
+   * Drop every subscription to a stream that has ended, telling its dashboards
+   */
+  removeStream(streamId: StreamId): void {
+    this.announcedStreams.delete(streamId);
+    const subscribers = this.subscriptions.get(streamId);
+    if (!subscribers) {
+      return;
+    }
+
+    this.io.to(this.getRoom(streamId)).emit('telemetry-ended', { streamId });
+    for (const socketId of subscribers) {
+      this.io.sockets.sockets.get(socketId)?.leave(this.getRoom(streamId));
+    }
+    this.subscriptions.delete(streamId);
+  }
+
+  /**
+   * Get the streams with at least one subscribed dashboard
+   */
+  getSubscribedStreams(): StreamId[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * Build a telemetry snapshot for a stream from the live services
+   */
+  async collect(streamId: StreamId): Promise<StreamTelemetry> {
+    const ingestionService = this.streamingServer.getIngestionService();
+    const ingest = ingestionService.getIngestStats(streamId);
+    const processing = ingestionService.getStreamProcessingMetrics(streamId);
+    const viewers = this.distributionService.getViewerMetrics(streamId);
+
+    let roundTripTime: number | null = null;
+    try {
+      const stats = await this.streamingServer.getWebRTCServer().getStreamConnectionStats(streamId);
+      roundTripTime = stats ? stats.roundTripTime : null;
+    } catch (error) {
+      logger.warn('Failed to read connection stats', { streamId, error });
+    }
+
+    return {
+      streamId,
+      timestamp: Date.now(),
+      fps: ingest.fps,
+      bitrate: ingest.bitrate,
+      latency: processing ? processing.averageLatency : 0,
+      p95Latency: processing ? processing.p95Latency : 0,
+      viewers: viewers.activeViewers,
+      roundTripTime
+    };
+  }
+
+  /**
+   * Push one round of telemetry to every subscribed room
+   */
+  async broadcast(): Promise<number> {
+    let sent = 0;
+
+    // Only live streams can be subscribed to, and their subscriptions end with them
+    for (const streamId of this.subscriptions.keys()) {
+      const telemetry = await this.collect(streamId);
+      this.io.to(this.getRoom(streamId)).emit('metrics-update', telemetry);
+      sent++;
+    }
+
+    return sent;
+  }
+
+  private setupSocketHandlers(): void {
+    this.io.on('connection', (socket) => {
+
+      // Dashboard subscribing to one or more streams
+      socket.on('telemetry-subscribe', async (data) => {
+        const streamIds: unknown[] = Array.isArray(data?.streamIds) ? data.streamIds : [];
+        if (streamIds.length === 0) {
+          socket.emit('telemetry-error', { error: 'streamIds must be a non-empty array' });
+          return;
+        }
+
+        try {
+          this.subscribe(socket.id, streamIds);
+        } catch (error) {
+          socket.emit('telemetry-error', { error: error instanceof Error ? error.message : 'Cannot subscribe' });
+          return;
+        }
+        const subscribed = Array.from(new Set(streamIds as StreamId[]));
+        socket.emit('telemetry-subscribed', { streamIds: subscribed, intervalMs: this.intervalMs });
+
+        // Send an immediate snapshot so the dashboard does not wait a full interval
+        for (const streamId of subscribed) {
+          socket.emit('metrics-update', await this.collect(streamId));
+        }
+      });
+
+      // Dashboard leaving streams
+      socket.on('telemetry-unsubscribe', (data) => {
+        const streamIds: StreamId[] | undefined = Array.isArray(data?.streamIds) ? data.streamIds : undefined;
+        this.unsubscribe(socket.id, streamIds);
+        socket.emit('telemetry-unsubscribed', { streamIds: streamIds || [] });
+      });
+
+      // Handle disconnect
+      socket.on('disconnect', () => {
+        this.unsubscribe(socket.id);
+      });
+    });
+  }
+
+  private getSocketStreams(socketId: string): StreamId[] {
+    return Array.from(this.subscriptions.entries())
+      .filter(([, subscribers]) => subscribers.has(socketId))
+      .map(([streamId]) => streamId);
+  }
+
+  private getRoom(streamId: StreamId): string {
+    return `telemetry:${streamId}`;
+  }
+}
\ No newline at end of file
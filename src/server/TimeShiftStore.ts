@@ -0,0 +1,227 @@
+import { EventEmitter } from 'events';
+import { StreamIngestionService } from './StreamIngestionService';
+import { isRandomAccessFrame } from './Fmp4';
+import { StreamId, VideoFrame } from '../types';
+
+export interface TimeShiftStoreOptions {
+  windowMs: number; // how far behind the live edge viewers can seek
+  maxBytes: number; // per stream
+}
+
+/**
+ * Range of a stream's enhanced output that can be seeked to
+ * Timestamps are stream timestamps; times are the wall clock at which those frames went live
+ */
+export interface TimeShiftWindow {
+  streamId: StreamId;
+  startTimestamp: number;
+  endTimestamp: number;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  bytes: number;
+  keyframes: number;
+}
+
+/**
+ * Frames from one keyframe up to the next
+ */
+interface TimeShiftGop {
+  timestamp: number;
+  receivedAt: number; // wall clock when the keyframe went live
+  frames: VideoFrame[];
+  bytes: number;
+}
+
+interface TimeShiftStream {
+  gops: TimeShiftGop[];
+  bytes: number;
+}
+
+const DEFAULT_OPTIONS: TimeShiftStoreOptions = {
+  windowMs: 5 * 60 * 1000,
+  maxBytes: 256 * 1024 * 1024
+};
+
+/**
+ * Retains the last minutes of each stream's enhanced output for DVR playback
+ * Frames are grouped by keyframe and whole groups are evicted from the front, so the
+ * window always starts where a decoder can, and stays within its duration and byte bounds
+ */
+export class TimeShiftStore extends EventEmitter {
+  private options: TimeShiftStoreOptions;
+  private streams: Map<StreamId, TimeShiftStream> = new Map();
+
+  constructor(ingestionService: StreamIngestionService, options: Partial<TimeShiftStoreOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!(this.options.windowMs > 0) || !(this.options.maxBytes > 0)) {
+      throw new Error('Time-shift window and byte limit must be positive');
+    }
+
+    ingestionService.on('frames:enhanced', (data) => {
+      this.pushFrames(data.streamId, data.enhancedFrames);
+    });
+
+    ingestionService.on('stream:disconnected', (data) => {
+      this.removeStream(data.streamId);
+    });
+  }
+
+  /**
+   * Add enhanced frames of a stream; frames before its first keyframe are not kept
+   */
+  pushFrames(streamId: StreamId, frames: VideoFrame[]): void {
+    let stream = this.streams.get(streamId);
+    const now = Date.now();
+
+    for (const frame of frames) {
+      const keyframe = isRandomAccessFrame(frame);
+      if (!stream) {
+        if (!keyframe) {
+          continue;
+        }
+        stream = { gops: [], bytes: 0 };
+        this.streams.set(streamId, stream);
+      }
+
+      let gop = stream.gops[stream.gops.length - 1];
+      if (keyframe || !gop) {
+        gop = { timestamp: frame.timestamp, receivedAt: now, frames: [], bytes: 0 };
+        stream.gops.push(gop);
+      }
+
+      gop.frames.push(frame);
+      gop.bytes += frame.data.length;
+      stream.bytes += frame.data.length;
+    }
+
+    if (stream) {
+      this.evict(streamId, stream);
+    }
+  }
+
+  /**
+   * Get the seekable range of a stream
+   */
+  getWindow(streamId: StreamId): TimeShiftWindow | null {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return null;
+    }
+
+    const first = stream.gops[0];
+    const endTimestamp = this.getLiveTimestamp(stream);
+    return {
+      streamId,
+      startTimestamp: first.timestamp,
+      endTimestamp,
+      startTime: first.receivedAt,
+      endTime: this.toTime(stream, endTimestamp),
+      durationMs: endTimestamp - first.timestamp,
+      bytes: stream.bytes,
+      keyframes: stream.gops.length
+    };
+  }
+
+  /**
+   * Find the keyframe at or before a timestamp, or the first one in the window
+   */
+  findKeyframe(streamId: StreamId, timestamp: number): number | null {
+    const gops = this.streams.get(streamId)?.gops;
+    if (!gops) {
+      return null;
+    }
+
+    const at = gops.filter(gop => gop.timestamp <= timestamp);
+    return at.length > 0 ? at[at.length - 1].timestamp : gops[0].timestamp;
+  }
+
+  /**
+   * Convert a wall clock time within the window to a stream timestamp
+   */
+  toTimestamp(streamId: StreamId, time: number): number | null {
+    const gops = this.streams.get(streamId)?.gops;
+    if (!gops) {
+      return null;
+    }
+
+    const at = gops.filter(gop => gop.receivedAt <= time);
+    const gop = at.length > 0 ? at[at.length - 1] : gops[0];
+    return gop.timestamp + Math.max(0, time - gop.receivedAt);
+  }
+
+  /**
+   * Convert a stream timestamp within the window to the wall clock time it went live
+   */
+  toWallClock(streamId: StreamId, timestamp: number): number | null {
+    const stream = this.streams.get(streamId);
+    return stream ? this.toTime(stream, timestamp) : null;
+  }
+
+  /**
+   * Get the frames with timestamps in [from, to)
+   */
+  getFrames(streamId: StreamId, from: number, to: number): VideoFrame[] {
+    const frames: VideoFrame[] = [];
+    for (const gop of this.streams.get(streamId)?.gops || []) {
+      const last = gop.frames[gop.frames.length - 1];
+      if (last.timestamp < from) {
+        continue;
+      }
+      if (gop.timestamp >= to) {
+        break;
+      }
+      frames.push(...gop.frames.filter(frame => frame.timestamp >= from && frame.timestamp < to));
+    }
+    return frames;
+  }
+
+  hasStream(streamId: StreamId): boolean {
+    return this.streams.has(streamId);
+  }
+
+  removeStream(streamId: StreamId): void {
+    if (this.streams.delete(streamId)) {
+      this.emit('stream:removed', { streamId });
+    }
+  }
+
+  getOptions(): TimeShiftStoreOptions {
+    return { ...this.options };
+  }
+
+  stop(): void {
+    this.streams.clear();
+  }
+
+  /**
+   * Drop the oldest keyframe groups until the window fits; the group being written is always kept
+   */
+  private evict(streamId: StreamId, stream: TimeShiftStream): void {
+    const live = this.getLiveTimestamp(stream);
+    let evicted = 0;
+
+    while (stream.gops.length > 1
+      && (stream.bytes > this.options.maxBytes || live - stream.gops[0].timestamp > this.options.windowMs)) {
+      stream.bytes -= stream.gops.shift()!.bytes;
+      evicted++;
+    }
+
+    if (evicted > 0) {
+      this.emit('window:evicted', { streamId, keyframes: evicted, startTimestamp: stream.gops[0].timestamp });
+    }
+  }
+
+  private getLiveTimestamp(stream: TimeShiftStream): number {
+    const gop = stream.gops[stream.gops.length - 1];
+    return gop.frames[gop.frames.length - 1].timestamp;
+  }
+
+  private toTime(stream: TimeShiftStream, timestamp: number): number {
+    const at = stream.gops.filter(gop => gop.timestamp <= timestamp);
+    const gop = at.length > 0 ? at[at.length - 1] : stream.gops[0];
+    return gop.receivedAt + (timestamp - gop.timestamp);
+  }
+}
\ No newline at end of file
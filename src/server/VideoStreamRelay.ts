@@ -1,6 +1,10 @@
 import { EventEmitter } from 'events';
 import { Server as SocketIOServer } from 'socket.io';
 import { logger } from '../utils/logger';
+import { AuthService } from './AuthService';
+import { StreamIngestionService } from './StreamIngestionService';
+import { WatchConsentManager, BroadcastConsent, Watcher } from './WatchConsentManager';
+import { PublishGrant } from '../types';
 
 interface StreamConnection {
   userId: string;
@@ -8,22 +12,33 @@ interface StreamConnection {
   streamId: string;
   socketId: string;
   isStreaming: boolean;
-  connectedAdmins: Set<string>;
   streamData: any;
 }
 
 /**
- * Video Stream Relay - Forwards user video streams to admin dashboard
+ * Video Stream Relay - Forwards user video streams to the watchers their streamers allow
  */
 export class VideoStreamRelay extends EventEmitter {
   private activeStreams: Map<string, StreamConnection> = new Map();
   private adminSockets: Set<string> = new Set();
   private io: SocketIOServer;
-
-  constructor(io: SocketIOServer) {
+  private authService: AuthService;
+  private ingestionService: StreamIngestionService;
+  private watchConsent: WatchConsentManager;
+
+  constructor(
+    io: SocketIOServer,
+    authService: AuthService,
+    ingestionService: StreamIngestionService,
+    watchConsent: WatchConsentManager
+  ) {
     super();
     this.io = io;
+    this.authService = authService;
+    this.ingestionService = ingestionService;
+    this.watchConsent = watchConsent;
     this.setupStreamHandlers();
+    this.setupConsentHandlers();
   }
 
   private setupStreamHandlers(): void {
@@ -31,6 +46,9 @@ export class VideoStreamRelay extends EventEmitter {
       
       // Handle admin connection for video monitoring
       socket.on('admin-video-connect', () => {
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'admin-video-connect')) {
+          return;
+        }
         this.adminSockets.add(socket.id);
         logger.info('Admin connected for video monitoring', { socketId: socket.id });
         
@@ -41,14 +59,24 @@ export class VideoStreamRelay extends EventEmitter {
 
       // Handle user video stream start
       socket.on('video-stream-start', (data) => {
+        const { streamKey, ...streamData } = data || {};
+        let grant: PublishGrant;
+        try {
+          grant = this.ingestionService.authorizePublish(streamKey, { protocol: 'socket', address: socket.handshake.address });
+          // Nobody can attach until the streamer's visibility choice is recorded
+          socket.emit('viewing-consent', this.watchConsent.openBroadcast(socket.id, grant.userId, streamData.visibility ?? undefined));
+        } catch (error) {
+          socket.emit('video-stream-error', { error: error instanceof Error ? error.message : 'Publish refused' });
+          return;
+        }
+
         const streamConnection: StreamConnection = {
           userId: socket.id,
-          username: data.username || `User_${socket.id.slice(-4)}`,
-          streamId: data.streamId || `stream_${Date.now()}`,
+          username: streamData.username || grant.userId,
+          streamId: this.ingestionService.generateStreamId(grant.keyId),
           socketId: socket.id,
           isStreaming: true,
-          connectedAdmins: new Set(),
-          streamData: data
+          streamData
         };
 
         this.activeStreams.set(socket.id, streamConnection);
@@ -71,42 +99,13 @@ export class VideoStreamRelay extends EventEmitter {
       socket.on('video-chunk', (data) => {
         const stream = this.activeStreams.get(socket.id);
         if (stream && stream.isStreaming) {
-          // Forward video chunk to all connected admins
-          this.forwardVideoToAdmins(socket.id, data);
+          this.forwardVideoToWatchers(socket.id, data);
         }
       });
 
-      // Handle admin request to watch specific stream
-      socket.on('admin-watch-stream', (data) => {
-        if (this.adminSockets.has(socket.id)) {
-          const stream = this.activeStreams.get(data.userId);
-          if (stream) {
-            stream.connectedAdmins.add(socket.id);
-            socket.emit('stream-watch-started', {
-              userId: data.userId,
-              streamId: stream.streamId,
-              username: stream.username
-            });
-            
-            logger.info('Admin started watching stream', { 
-              adminId: socket.id, 
-              userId: data.userId 
-            });
-          }
-        }
-      });
-
-      // Handle admin stop watching stream
+      // Watching starts through the watch consent checks ('admin-watch-stream' in WebServer)
       socket.on('admin-stop-watching', (data) => {
-        if (this.adminSockets.has(socket.id)) {
-          const stream = this.activeStreams.get(data.userId);
-          if (stream) {
-            stream.connectedAdmins.delete(socket.id);
-            socket.emit('stream-watch-stopped', {
-              userId: data.userId
-            });
-          }
-        }
+        this.watchConsent.detach(data?.userId, socket.id);
       });
 
       // Handle video stream stop
@@ -114,6 +113,7 @@ export class VideoStreamRelay extends EventEmitter {
         const stream = this.activeStreams.get(socket.id);
         if (stream) {
           stream.isStreaming = false;
+          this.watchConsent.closeBroadcast(socket.id);
           
           // Notify admins that stream stopped
           this.notifyAdmins('video-stream-stopped', {
@@ -158,15 +158,35 @@ export class VideoStreamRelay extends EventEmitter {
     });
   }
 
-  private forwardVideoToAdmins(userId: string, videoData: any): void {
+  private setupConsentHandlers(): void {
+    this.watchConsent.on('watch:attached', ({ broadcast, watcher }: { broadcast: BroadcastConsent; watcher: Watcher }) => {
+      const stream = this.activeStreams.get(broadcast.socketId);
+      if (stream) {
+        this.io.to(watcher.socketId).emit('stream-watch-started', {
+          userId: broadcast.socketId,
+          streamId: stream.streamId,
+          username: stream.username
+        });
+        logger.info('Started watching stream', { watcherId: watcher.socketId, role: watcher.role, userId: broadcast.socketId });
+      }
+    });
+
+    this.watchConsent.on('watch:detached', ({ broadcast, watcher }: { broadcast: BroadcastConsent; watcher: Watcher }) => {
+      if (this.activeStreams.has(broadcast.socketId)) {
+        this.io.to(watcher.socketId).emit('stream-watch-stopped', { userId: broadcast.socketId });
+      }
+    });
+  }
+
+  private forwardVideoToWatchers(userId: string, videoData: any): void {
     const stream = this.activeStreams.get(userId);
     if (!stream) return;
 
-    // Send video data to all admins watching this stream
-    stream.connectedAdmins.forEach(adminSocketId => {
-      const adminSocket = this.io.sockets.sockets.get(adminSocketId);
-      if (adminSocket) {
-        adminSocket.emit('video-data', {
+    // Send video data only to the watchers the streamer allows
+    this.watchConsent.getWatcherSockets(userId).forEach(watcherSocketId => {
+      const watcherSocket = this.io.sockets.sockets.get(watcherSocketId);
+      if (watcherSocket) {
+        watcherSocket.emit('video-data', {
           userId: userId,
           streamId: stream.streamId,
           data: videoData,
@@ -0,0 +1,241 @@
+import { EventEmitter } from 'events';
+import { UserId } from '../types';
+import { Role, ROLES } from './AuthService';
+
+/**
+ * Who a streamer lets watch: anyone, their followers, or moderators only
+ * Moderators may watch any broadcast until the streamer revokes moderator viewing
+ */
+export type StreamVisibility = 'public' | 'followers' | 'moderators';
+export const STREAM_VISIBILITIES: StreamVisibility[] = ['public', 'followers', 'moderators'];
+
+export interface Watcher {
+  socketId: string;
+  subject: string | null; // null for anonymous viewers
+  role: Role;
+  attachedAt: number;
+}
+
+export interface BroadcastConsent {
+  socketId: string; // the streamer's socket, where watch indicators are delivered
+  userId: UserId;
+  visibility: StreamVisibility;
+  moderatorViewing: boolean;
+  watchers: Watcher[];
+}
+
+interface Broadcast {
+  socketId: string;
+  userId: UserId;
+  visibility: StreamVisibility;
+  moderatorViewing: boolean;
+  watchers: Map<string, Watcher>;
+}
+
+export type DetachReason = 'stopped' | 'revoked' | 'disconnected' | 'ended';
+
+/**
+ * Tracks who may watch each browser broadcast and who is watching
+ * Every attach and detach is announced with the watcher's role so the streamer can be told
+ */
+export class WatchConsentManager extends EventEmitter {
+  private broadcasts: Map<string, Broadcast> = new Map();
+  private followers: Map<UserId, Set<UserId>> = new Map();
+  private visibilities: Map<UserId, StreamVisibility> = new Map(); // each streamer's last choice
+
+  /**
+   * Start a broadcast from a streamer's socket with the visibility they chose
+   */
+  openBroadcast(socketId: string, userId: UserId, visibility: StreamVisibility = 'moderators'): BroadcastConsent {
+    if (!STREAM_VISIBILITIES.includes(visibility)) {
+      throw new Error(`Visibility must be one of ${STREAM_VISIBILITIES.join(', ')}`);
+    }
+
+    this.closeBroadcast(socketId);
+    const broadcast: Broadcast = { socketId, userId, visibility, moderatorViewing: true, watchers: new Map() };
+    this.broadcasts.set(socketId, broadcast);
+    this.visibilities.set(userId, visibility);
+
+    this.emit('broadcast:opened', this.toConsent(broadcast));
+    return this.toConsent(broadcast);
+  }
+
+  /**
+   * End a broadcast, detaching everyone watching it
+   */
+  closeBroadcast(socketId: string): void {
+    const broadcast = this.broadcasts.get(socketId);
+    if (!broadcast) {
+      return;
+    }
+
+    for (const watcher of Array.from(broadcast.watchers.values())) {
+      this.removeWatcher(broadcast, watcher, 'ended');
+    }
+    this.broadcasts.delete(socketId);
+    this.emit('broadcast:closed', { socketId, userId: broadcast.userId });
+  }
+
+  /**
+   * Attach a watcher to a broadcast, found by streamer socket or user ID
+   * Throws when the streamer's choice does not allow this watcher
+   */
+  attach(target: string, watcher: Omit<Watcher, 'attachedAt'>): BroadcastConsent {
+    const broadcast = this.resolve(target);
+    if (!broadcast) {
+      throw new Error(`${target} is not broadcasting`);
+    }
+    if (watcher.socketId === broadcast.socketId) {
+      throw new Error('Streamers cannot watch their own broadcast');
+    }
+    if (!this.mayWatch(broadcast, watcher)) {
+      throw new Error(this.refusal(broadcast, watcher));
+    }
+
+    if (!broadcast.watchers.has(watcher.socketId)) {
+      const attached: Watcher = { ...watcher, attachedAt: Date.now() };
+      broadcast.watchers.set(watcher.socketId, attached);
+      this.emit('watch:attached', { broadcast: this.toConsent(broadcast), watcher: attached });
+    }
+    return this.toConsent(broadcast);
+  }
+
+  detach(target: string, watcherSocketId: string): boolean {
+    const broadcast = this.resolve(target);
+    const watcher = broadcast?.watchers.get(watcherSocketId);
+    if (!broadcast || !watcher) {
+      return false;
+    }
+
+    this.removeWatcher(broadcast, watcher, 'stopped');
+    return true;
+  }
+
+  /**
+   * Detach a socket from everything it watches and end its own broadcast
+   */
+  disconnect(socketId: string): void {
+    for (const broadcast of this.broadcasts.values()) {
+      const watcher = broadcast.watchers.get(socketId);
+      if (watcher) {
+        this.removeWatcher(broadcast, watcher, 'disconnected');
+      }
+    }
+    this.closeBroadcast(socketId);
+  }
+
+  /**
+   * Let the streamer withdraw or restore moderator viewing; withdrawing detaches moderators at once
+   */
+  setModeratorViewing(socketId: string, allowed: boolean): BroadcastConsent {
+    const broadcast = this.broadcasts.get(socketId);
+    if (!broadcast) {
+      throw new Error('No broadcast from this socket');
+    }
+
+    broadcast.moderatorViewing = allowed;
+    if (!allowed) {
+      for (const watcher of Array.from(broadcast.watchers.values())) {
+        if (!this.mayWatch(broadcast, watcher)) {
+          this.removeWatcher(broadcast, watcher, 'revoked');
+        }
+      }
+    }
+
+    this.emit('consent:changed', this.toConsent(broadcast));
+    return this.toConsent(broadcast);
+  }
+
+  /**
+   * Check a viewer against a streamer's choice without attaching them, for playback outside the watch events
+   * Between broadcasts the streamer's last choice still applies; streamers who never chose are public
+   */
+  authorizePlayback(userId: UserId, viewer: Pick<Watcher, 'subject' | 'role'>): void {
+    const consent = this.resolve(userId)
+      ?? { userId, visibility: this.visibilities.get(userId) ?? 'public', moderatorViewing: true };
+    if (!this.mayWatch(consent, viewer)) {
+      throw new Error(this.refusal(consent, viewer));
+    }
+  }
+
+  follow(followerId: UserId, userId: UserId): void {
+    if (followerId === userId) {
+      throw new Error('Users cannot follow themselves');
+    }
+
+    let followers = this.followers.get(userId);
+    if (!followers) {
+      followers = new Set();
+      this.followers.set(userId, followers);
+    }
+    followers.add(followerId);
+  }
+
+  unfollow(followerId: UserId, userId: UserId): boolean {
+    return this.followers.get(userId)?.delete(followerId) ?? false;
+  }
+
+  isFollowing(followerId: UserId, userId: UserId): boolean {
+    return this.followers.get(userId)?.has(followerId) ?? false;
+  }
+
+  getBroadcast(target: string): BroadcastConsent | null {
+    const broadcast = this.resolve(target);
+    return broadcast ? this.toConsent(broadcast) : null;
+  }
+
+  /**
+   * Socket IDs currently watching a streamer's socket
+   */
+  getWatcherSockets(socketId: string): string[] {
+    return Array.from(this.broadcasts.get(socketId)?.watchers.keys() ?? []);
+  }
+
+  private mayWatch(broadcast: Pick<Broadcast, 'userId' | 'visibility' | 'moderatorViewing'>, watcher: Pick<Watcher, 'subject' | 'role'>): boolean {
+    if (watcher.subject === broadcast.userId) {
+      return true; // the streamer on another device
+    }
+    if (this.isModerator(watcher.role)) {
+      return broadcast.moderatorViewing;
+    }
+    if (broadcast.visibility === 'public') {
+      return true;
+    }
+    return broadcast.visibility === 'followers'
+      && watcher.subject !== null
+      && this.isFollowing(watcher.subject, broadcast.userId);
+  }
+
+  private refusal(broadcast: Pick<Broadcast, 'userId' | 'visibility' | 'moderatorViewing'>, watcher: Pick<Watcher, 'role'>): string {
+    return this.isModerator(watcher.role) && !broadcast.moderatorViewing
+      ? `${broadcast.userId} has revoked moderator viewing`
+      : `${broadcast.userId} only lets ${broadcast.visibility} watch`;
+  }
+
+  private isModerator(role: Role): boolean {
+    return ROLES.indexOf(role) >= ROLES.indexOf('moderator');
+  }
+
+  private removeWatcher(broadcast: Broadcast, watcher: Watcher, reason: DetachReason): void {
+    broadcast.watchers.delete(watcher.socketId);
+    this.emit('watch:detached', { broadcast: this.toConsent(broadcast), watcher, reason });
+  }
+
+  private resolve(target: string): Broadcast | undefined {
+    const bySocket = this.broadcasts.get(target);
+    if (bySocket) {
+      return bySocket;
+    }
+    return Array.from(this.broadcasts.values()).find(broadcast => broadcast.userId === target);
+  }
+
+  private toConsent(broadcast: Broadcast): BroadcastConsent {
+    return {
+      socketId: broadcast.socketId,
+      userId: broadcast.userId,
+      visibility: broadcast.visibility,
+      moderatorViewing: broadcast.moderatorViewing,
+      watchers: Array.from(broadcast.watchers.values())
+    };
+  }
+}
\ No newline at end of file
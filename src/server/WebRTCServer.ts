@@ -1,19 +1,55 @@
 import { EventEmitter } from 'events';
-import { WebRTCConnection, StreamId, UserId, StreamConfig } from '../types';
+import {
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  RTCRtpTransceiver,
+  RTCIceServer,
+  MediaStreamTrack,
+  RtpPacket
+} from 'werift';
+import { WebRTCConnection, StreamId, UserId, StreamConfig, ConnectionStats, VideoFrame } from '../types';
+import { RtpDepacketizer, RtpPacketizer, formatFromMimeType } from './RtpMedia';
+
+export interface WebRTCServerOptions {
+  iceServers: RTCIceServer[];
+  maxPayloadSize: number;
+}
+
+interface PeerSession {
+  role: 'publisher' | 'subscriber';
+  transceiver: RTCRtpTransceiver;
+  userId?: UserId;
+  streamConfig?: StreamConfig;
+  streamId?: StreamId;
+  depacketizer?: RtpDepacketizer;
+  subscribedStreamId?: StreamId;
+  track?: MediaStreamTrack;
+  packetizer?: RtpPacketizer;
+}
+
+const DEFAULT_OPTIONS: WebRTCServerOptions = {
+  iceServers: [],
+  maxPayloadSize: 1200
+};
 
 /**
- * WebRTC signaling server for handling client connections
- * Manages peer connections and stream establishment
+ * WebRTC SFU for publishers and subscribers
+ * Publisher media terminates here and is depacketized into frames for ingestion;
+ * processed frames are re-packetized and forwarded to each stream's subscribers
  */
 export class WebRTCServer extends EventEmitter {
   private connections: Map<string, WebRTCConnection> = new Map();
   private streamSessions: Map<StreamId, string> = new Map();
+  private peerSessions: Map<string, PeerSession> = new Map();
+  private streamSubscribers: Map<StreamId, Set<string>> = new Map();
+  private options: WebRTCServerOptions;
   private port: number;
   private isRunning: boolean = false;
 
-  constructor(port: number = 8080) {
+  constructor(port: number = 8080, options: Partial<WebRTCServerOptions> = {}) {
     super();
     this.port = port;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
   /**
@@ -38,15 +74,15 @@ export class WebRTCServer extends EventEmitter {
    * Stop the WebRTC signaling server
    */
   async stop(): Promise<void> {
-    if (!this.isRunning) {
-      return;
-    }
-
-    // Close all active connections
+    // Peer connections are closed even if start() was never called
     for (const [connectionId] of this.connections) {
       await this.closeConnection(connectionId);
     }
 
+    if (!this.isRunning) {
+      return;
+    }
+
     this.isRunning = false;
     this.emit('server:stopped');
   }
@@ -59,15 +95,24 @@ export class WebRTCServer extends EventEmitter {
     streamConfig: StreamConfig
   ): Promise<WebRTCConnection> {
     const connectionId = this.generateConnectionId();
-    
+    const peerConnection = this.createPeerConnection(connectionId);
+    const transceiver = peerConnection.addTransceiver('video', { direction: 'recvonly' });
+
     const connection: WebRTCConnection = {
       connectionId,
-      peerConnection: null, // Will be set during WebRTC negotiation
+      peerConnection,
       state: 'connecting'
     };
 
     this.connections.set(connectionId, connection);
-    
+    this.peerSessions.set(connectionId, { role: 'publisher', transceiver, userId, streamConfig });
+
+    peerConnection.onTrack.subscribe((track) => {
+      if (track.kind === 'video') {
+        this.handlePublisherTrack(connectionId, track);
+      }
+    });
+
     // Emit connection event for ingestion service
     this.emit('connection:new', {
       connectionId,
@@ -79,25 +124,55 @@ export class WebRTCServer extends EventEmitter {
     return connection;
   }
 
+  /**
+   * Handle a viewer asking to receive a stream over WebRTC
+   */
+  async handleSubscribeRequest(streamId: StreamId, viewerId: string): Promise<WebRTCConnection> {
+    if (!this.streamSessions.has(streamId)) {
+      throw new Error(`Stream ${streamId} has no WebRTC publisher`);
+    }
+
+    const connectionId = this.generateConnectionId();
+    const peerConnection = this.createPeerConnection(connectionId);
+    const track = new MediaStreamTrack({ kind: 'video' });
+    const transceiver = peerConnection.addTransceiver(track, { direction: 'sendonly' });
+
+    const connection: WebRTCConnection = {
+      connectionId,
+      peerConnection,
+      state: 'connecting'
+    };
+
+    this.connections.set(connectionId, connection);
+    this.peerSessions.set(connectionId, { role: 'subscriber', transceiver, subscribedStreamId: streamId, track });
+
+    let subscribers = this.streamSubscribers.get(streamId);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.streamSubscribers.set(streamId, subscribers);
+    }
+    subscribers.add(connectionId);
+
+    this.emit('subscriber:new', { connectionId, streamId, viewerId });
+    return connection;
+  }
+
   /**
    * Handle WebRTC offer from client
    */
-  async handleOffer(connectionId: string, _offer: any): Promise<any> {
+  async handleOffer(connectionId: string, offer: any): Promise<any> {
     const connection = this.connections.get(connectionId);
     if (!connection) {
       throw new Error(`Connection ${connectionId} not found`);
     }
 
     try {
-      // Create RTCPeerConnection and handle offer
-      // This would integrate with actual WebRTC implementation
-      connection.state = 'connected';
-      this.connections.set(connectionId, connection);
-
-      this.emit('connection:established', { connectionId, connection });
+      const peerConnection: RTCPeerConnection = connection.peerConnection;
+      await peerConnection.setRemoteDescription(offer);
+      await peerConnection.setLocalDescription(await peerConnection.createAnswer());
 
-      // Return answer for client
-      return { type: 'answer', sdp: 'mock-answer-sdp' };
+      const answer = peerConnection.localDescription!;
+      return { type: answer.type, sdp: answer.sdp };
     } catch (error) {
       connection.state = 'failed';
       this.emit('connection:failed', { connectionId, error });
@@ -114,10 +189,71 @@ export class WebRTCServer extends EventEmitter {
       throw new Error(`Connection ${connectionId} not found`);
     }
 
-    // Add ICE candidate to peer connection
+    await (connection.peerConnection as RTCPeerConnection).addIceCandidate(candidate);
     this.emit('ice:candidate', { connectionId, candidate });
   }
 
+  /**
+   * Forward processed frames to every WebRTC subscriber of a stream
+   * Frames in a format the subscriber did not negotiate are skipped
+   */
+  forwardFrames(streamId: StreamId, frames: VideoFrame[]): number {
+    const subscribers = this.streamSubscribers.get(streamId);
+    if (!subscribers || frames.length === 0) {
+      return 0;
+    }
+
+    let forwarded = 0;
+    for (const connectionId of subscribers) {
+      const connection = this.connections.get(connectionId);
+      const session = this.peerSessions.get(connectionId);
+      if (connection?.state !== 'connected' || !session?.track) {
+        continue;
+      }
+
+      const packetizer = this.getPacketizer(session);
+      if (!packetizer) {
+        continue;
+      }
+
+      let sent = false;
+      for (const frame of frames) {
+        if (!packetizer.canPacketize(frame.format)) {
+          continue;
+        }
+
+        for (const packet of packetizer.packetize(frame)) {
+          session.track.writeRtp(packet);
+        }
+        sent = true;
+      }
+
+      if (sent) {
+        forwarded++;
+      }
+    }
+
+    return forwarded;
+  }
+
+  /**
+   * Ask a stream's publisher for a keyframe
+   */
+  requestKeyframe(streamId: StreamId): boolean {
+    const connectionId = this.streamSessions.get(streamId);
+    const session = connectionId ? this.peerSessions.get(connectionId) : undefined;
+    const ssrc = session?.transceiver.receiver.track?.ssrc;
+
+    if (!session || ssrc === undefined) {
+      return false;
+    }
+
+    session.transceiver.receiver.sendRtcpPLI(ssrc).catch((error) => {
+      this.emit('keyframe:failed', { streamId, error });
+    });
+    return true;
+  }
+
   /**
    * Close a specific connection
    */
@@ -128,23 +264,35 @@ export class WebRTCServer extends EventEmitter {
     }
 
     connection.state = 'disconnected';
-    
+    this.connections.delete(connectionId);
+
+    const session = this.peerSessions.get(connectionId);
+    this.peerSessions.delete(connectionId);
+
+    if (session?.subscribedStreamId) {
+      this.streamSubscribers.get(session.subscribedStreamId)?.delete(connectionId);
+    }
+
     // Clean up WebRTC resources
     if (connection.peerConnection) {
-      connection.peerConnection.close();
+      await connection.peerConnection.close();
     }
 
-    this.connections.delete(connectionId);
-    
     // Remove associated stream session
     const streamId = Array.from(this.streamSessions.entries())
       .find(([_, connId]) => connId === connectionId)?.[0];
-    
+
     if (streamId) {
       this.streamSessions.delete(streamId);
+
+      // Subscribers of a publisher that left have nothing more to receive
+      for (const subscriberId of Array.from(this.streamSubscribers.get(streamId) || [])) {
+        await this.closeConnection(subscriberId);
+      }
+      this.streamSubscribers.delete(streamId);
     }
 
-    this.emit('connection:closed', { connectionId, streamId });
+    this.emit('connection:closed', { connectionId, streamId, role: session?.role });
   }
 
   /**
@@ -152,6 +300,12 @@ export class WebRTCServer extends EventEmitter {
    */
   associateStream(streamId: StreamId, connectionId: string): void {
     this.streamSessions.set(streamId, connectionId);
+
+    const session = this.peerSessions.get(connectionId);
+    if (session) {
+      session.streamId = streamId;
+    }
+
     this.emit('stream:associated', { streamId, connectionId });
   }
 
@@ -170,6 +324,67 @@ export class WebRTCServer extends EventEmitter {
       .filter(conn => conn.state === 'connected');
   }
 
+  /**
+   * Check if a stream has a WebRTC publisher that subscribers can attach to
+   */
+  hasPublisher(streamId: StreamId): boolean {
+    return this.streamSessions.has(streamId);
+  }
+
+  /**
+   * Get the stream a connection publishes or subscribes to
+   */
+  getConnectionStreamId(connectionId: string): StreamId | undefined {
+    const session = this.peerSessions.get(connectionId);
+    return session?.streamId || session?.subscribedStreamId;
+  }
+
+  /**
+   * Get the number of WebRTC subscribers for a stream
+   */
+  getSubscriberCount(streamId: StreamId): number {
+    return this.streamSubscribers.get(streamId)?.size || 0;
+  }
+
+  /**
+   * Get transport stats for the connection carrying a stream
+   * Returns null when the stream has no negotiated peer connection
+   */
+  async getStreamConnectionStats(streamId: StreamId): Promise<ConnectionStats | null> {
+    const connectionId = this.streamSessions.get(streamId);
+    const connection = connectionId ? this.connections.get(connectionId) : undefined;
+    if (!connection?.peerConnection) {
+      return null;
+    }
+
+    const report = await connection.peerConnection.getStats();
+    let roundTripTime: number | null = null;
+    let packetsLost = 0;
+    let packetsReceived = 0;
+    let jitter = 0;
+
+    for (const entry of report.values()) {
+      if (entry.type === 'candidate-pair' && entry.nominated && entry.currentRoundTripTime !== undefined) {
+        roundTripTime = entry.currentRoundTripTime * 1000;
+      } else if (entry.type === 'inbound-rtp' && entry.kind === 'video') {
+        packetsLost += entry.packetsLost || 0;
+        packetsReceived += entry.packetsReceived || 0;
+        jitter = Math.max(jitter, (entry.jitter || 0) * 1000);
+      }
+    }
+
+    if (roundTripTime === null) {
+      return null;
+    }
+
+    const totalPackets = packetsLost + packetsReceived;
+    return {
+      roundTripTime,
+      packetLoss: totalPackets > 0 ? (packetsLost / totalPackets) * 100 : 0,
+      jitter
+    };
+  }
+
   /**
    * Get connection count
    */
@@ -177,6 +392,106 @@ export class WebRTCServer extends EventEmitter {
     return this.connections.size;
   }
 
+  private createPeerConnection(connectionId: string): RTCPeerConnection {
+    const peerConnection = new RTCPeerConnection({
+      iceServers: this.options.iceServers,
+      codecs: {
+        // Audio is negotiated so encoder offers with an audio track succeed, but it is not ingested
+        audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 })],
+        video: [
+          new RTCRtpCodecParameters({ mimeType: 'video/VP8', clockRate: 90000 }),
+          new RTCRtpCodecParameters({
+            mimeType: 'video/H264',
+            clockRate: 90000,
+            parameters: 'level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f'
+          })
+        ]
+      }
+    });
+
+    peerConnection.onIceCandidate.subscribe((candidate) => {
+      if (candidate) {
+        this.emit('ice:local_candidate', { connectionId, candidate: candidate.toJSON() });
+      }
+    });
+
+    peerConnection.connectionStateChange.subscribe((state) => {
+      const connection = this.connections.get(connectionId);
+      if (!connection) {
+        return;
+      }
+
+      if (state === 'connected' && connection.state !== 'connected') {
+        connection.state = 'connected';
+        const session = this.peerSessions.get(connectionId);
+        this.emit('connection:established', {
+          connectionId,
+          connection,
+          role: session?.role,
+          userId: session?.userId,
+          streamConfig: session?.streamConfig
+        });
+
+        if (session?.subscribedStreamId) {
+          // A new subscriber can only start decoding from a keyframe
+          this.requestKeyframe(session.subscribedStreamId);
+        }
+      } else if (state === 'failed') {
+        connection.state = 'failed';
+        this.emit('connection:failed', { connectionId, error: new Error('ICE/DTLS transport failed') });
+        this.closeConnection(connectionId).catch(() => undefined);
+      } else if (state === 'closed' || state === 'disconnected') {
+        this.closeConnection(connectionId).catch(() => undefined);
+      }
+    });
+
+    return peerConnection;
+  }
+
+  private handlePublisherTrack(connectionId: string, track: MediaStreamTrack): void {
+    track.onReceiveRtp.subscribe((packet: RtpPacket) => {
+      const session = this.peerSessions.get(connectionId);
+      const streamId = session?.streamId;
+      if (!session || !streamId) {
+        return;
+      }
+
+      if (!session.depacketizer) {
+        const format = track.codec ? formatFromMimeType(track.codec.mimeType) : null;
+        if (!format) {
+          this.emit('connection:failed', {
+            connectionId,
+            error: new Error(`Unsupported codec ${track.codec?.mimeType ?? 'unknown'}`)
+          });
+          return;
+        }
+
+        const resolution = session.streamConfig?.resolution || { width: 0, height: 0 };
+        session.depacketizer = new RtpDepacketizer(format, resolution);
+      }
+
+      const frame = session.depacketizer.push(packet);
+      if (frame) {
+        this.emit('frame:received', { connectionId, streamId, frame });
+      }
+    });
+  }
+
+  private getPacketizer(session: PeerSession): RtpPacketizer | null {
+    if (session.packetizer) {
+      return session.packetizer;
+    }
+
+    const codec = session.transceiver.sender.codec;
+    const format = codec ? formatFromMimeType(codec.mimeType) : null;
+    if (!format || format === 'vp9') {
+      return null;
+    }
+
+    session.packetizer = new RtpPacketizer(format, this.options.maxPayloadSize);
+    return session.packetizer;
+  }
+
   private generateConnectionId(): string {
     return `conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
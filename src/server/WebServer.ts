@@ -1,12 +1,57 @@
 import express from 'express';
 import { createServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
+import { AddressInfo } from 'net';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import path from 'path';
 import { StreamingServer } from './index';
-import { RealStreamManager } from './RealStreamManager';
+import { RealStreamManager, RealStreamManagerOptions } from './RealStreamManager';
+import { ProfileStore, InMemoryProfileStore } from './ProfileStore';
 import { VideoStreamRelay } from './VideoStreamRelay';
+import { StreamDistributionService } from './StreamDistributionService';
+import { PrometheusExporter } from './PrometheusExporter';
+import { TelemetryBroadcaster } from './TelemetryBroadcaster';
+import { SignalingServer } from './SignalingServer';
+import { WhipEndpoint, IceResourceEndpoint, parseTrickleFragment } from './WhipEndpoint';
+import { WhepEndpoint } from './WhepEndpoint';
+import { SrtServerOptions } from './SrtServer';
+import { RenditionLadder, RenditionLadderOptions } from './RenditionLadder';
+import { RenditionEncoderFactory } from './RenditionEncoder';
+import { FfmpegRenditionEncoderFactory } from './FfmpegRenditionEncoder';
+import { CmafPackager, CmafPackagerOptions } from './CmafPackager';
+import { HlsPackager, HlsPlaylistRequest, HLS_MEDIA_PLAYLIST } from './HlsPackager';
+import { DashPackager, DASH_MANIFEST } from './DashPackager';
+import { TimeShiftStore, TimeShiftStoreOptions } from './TimeShiftStore';
+import { StreamRecorder, StreamRecorderOptions } from './StreamRecorder';
+import { AuthService, AuthServiceOptions, AuthClaims, Role } from './AuthService';
+import { StreamKeyStore, StreamKeyStoreOptions } from './StreamKeyStore';
+import { WatchConsentManager, StreamVisibility, BroadcastConsent, Watcher, DetachReason } from './WatchConsentManager';
+import { AuditLog, AuditLogOptions, AuditEntry, AuditQuery } from './AuditLog';
+import { QualityLevel, PublishGrant, StreamId, UserId } from '../types';
 import { logger } from '../utils/logger';
 
+// SDP offers and trickle ICE fragments arrive as plain text bodies
+const SDP_BODY = express.text({ type: ['application/sdp', 'application/trickle-ice-sdpfrag'] });
+
+const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+export interface WebServerOptions {
+  port: number;
+  telemetryIntervalMs: number;
+  rtmpPort: number | null; // null leaves RTMP ingest off
+  srtPort: number | null; // null leaves SRT ingest off
+  srtOptions: Partial<SrtServerOptions>;
+  packagingOptions: Partial<CmafPackagerOptions>;
+  ladderOptions: Partial<RenditionLadderOptions>;
+  renditionEncoder: RenditionEncoderFactory;
+  timeShiftOptions: Partial<TimeShiftStoreOptions>;
+  recordingOptions: Partial<StreamRecorderOptions>;
+  authOptions: Partial<AuthServiceOptions>;
+  streamKeyOptions: Partial<StreamKeyStoreOptions>;
+  auditOptions: Partial<AuditLogOptions>;
+  profileStore: ProfileStore;
+  profileOptions: Partial<RealStreamManagerOptions>;
+}
+
 /**
  * Web server for serving the frontend and handling WebSocket connections
  */
@@ -17,9 +62,45 @@ export class WebServer {
   private streamingServer: StreamingServer;
   private realStreamManager: RealStreamManager;
   private videoStreamRelay: VideoStreamRelay;
+  private distributionService: StreamDistributionService;
+  private metricsExporter: PrometheusExporter;
+  private telemetryBroadcaster: TelemetryBroadcaster;
+  private signalingServer: SignalingServer;
+  private whipEndpoint: WhipEndpoint;
+  private whepEndpoint: WhepEndpoint;
+  private renditionLadder: RenditionLadder;
+  private cmafPackager: CmafPackager;
+  private hlsPackager: HlsPackager;
+  private dashPackager: DashPackager;
+  private timeShiftStore: TimeShiftStore;
+  private streamRecorder: StreamRecorder;
+  private authService: AuthService;
+  private streamKeyStore: StreamKeyStore;
+  private watchConsent: WatchConsentManager;
+  private auditLog: AuditLog;
+  private broadcastStreams: Map<string, StreamId> = new Map(); // streamer socket to the stream ID it was given
+  private streamOwners: Map<StreamId, UserId> = new Map(); // ingested streams, while they can be played
   private port: number;
 
-  constructor(port: number = 3000) {
+  constructor(options: Partial<WebServerOptions> = {}) {
+    // The encoder factory and profile store are created per server, so they cannot be shared defaults
+    const {
+      port = 3000,
+      telemetryIntervalMs = 2000,
+      rtmpPort = null,
+      srtPort = null,
+      srtOptions = {},
+      packagingOptions = {},
+      ladderOptions = {},
+      renditionEncoder = new FfmpegRenditionEncoderFactory(),
+      timeShiftOptions = {},
+      recordingOptions = {},
+      authOptions = {},
+      streamKeyOptions = {},
+      auditOptions = {},
+      profileStore = new InMemoryProfileStore(),
+      profileOptions = {}
+    } = options;
     this.port = port;
     this.app = express();
     this.server = createServer(this.app);
@@ -29,15 +110,58 @@ export class WebServer {
         methods: ["GET", "POST"]
       }
     });
+    // Every socket is authenticated before any connection handler runs
+    this.authService = new AuthService(authOptions);
+    this.io.use(this.authService.socketMiddleware());
+    this.auditLog = new AuditLog(auditOptions);
+    this.setupAudit();
+    this.watchConsent = new WatchConsentManager();
+    this.setupWatchConsent();
     
-    this.streamingServer = new StreamingServer(8080);
+    this.streamingServer = new StreamingServer(8080, 30, rtmpPort, srtPort, srtOptions);
+    // Every publish path needs a stream key from here on
+    this.streamKeyStore = new StreamKeyStore(streamKeyOptions);
+    this.streamingServer.getIngestionService().attachStreamKeys(this.streamKeyStore);
     this.setupMiddleware();
     this.setupRoutes();
     this.setupSocketHandlers();
     
     // Initialize real stream manager and video relay
-    this.realStreamManager = new RealStreamManager(this.io);
-    this.videoStreamRelay = new VideoStreamRelay(this.io);
+    this.realStreamManager = new RealStreamManager(this.io, profileStore, profileOptions);
+    this.videoStreamRelay = new VideoStreamRelay(
+      this.io,
+      this.authService,
+      this.streamingServer.getIngestionService(),
+      this.watchConsent
+    );
+    // The ladder plans a stream before distribution sees its frames
+    this.renditionLadder = new RenditionLadder(this.streamingServer.getIngestionService(), renditionEncoder, ladderOptions);
+    this.timeShiftStore = new TimeShiftStore(this.streamingServer.getIngestionService(), timeShiftOptions);
+    this.streamRecorder = new StreamRecorder(this.streamingServer.getIngestionService(), recordingOptions);
+    this.distributionService = new StreamDistributionService(this.io);
+    this.setupDistribution();
+    this.setupRecording();
+    this.metricsExporter = new PrometheusExporter(this.streamingServer, this.realStreamManager);
+    this.telemetryBroadcaster = new TelemetryBroadcaster(
+      this.io,
+      this.streamingServer,
+      this.distributionService,
+      telemetryIntervalMs
+    );
+    this.signalingServer = new SignalingServer(
+      this.io,
+      this.streamingServer.getWebRTCServer(),
+      this.streamingServer.getIngestionService()
+    );
+    this.whipEndpoint = new WhipEndpoint(
+      this.streamingServer.getWebRTCServer(),
+      this.streamingServer.getIngestionService()
+    );
+    this.whepEndpoint = new WhepEndpoint(this.streamingServer.getWebRTCServer(), this.distributionService);
+    this.cmafPackager = new CmafPackager(this.renditionLadder, packagingOptions);
+    this.hlsPackager = new HlsPackager(this.cmafPackager);
+    this.dashPackager = new DashPackager(this.cmafPackager);
+    this.setupPlaybackConsent();
   }
 
   private setupMiddleware(): void {
@@ -48,7 +172,7 @@ export class WebServer {
     // CORS middleware
     this.app.use((req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
       next();
     });
   }
@@ -65,8 +189,9 @@ export class WebServer {
     });
 
     // API endpoints
+    // Stream IDs are left out: they are all anyone needs to request playback
     this.app.get('/api/status', (req, res) => {
-      const status = this.streamingServer.getStatus();
+      const { bufferStats: _bufferStats, ...status } = this.streamingServer.getStatus();
       res.json({
         success: true,
         data: status,
@@ -74,12 +199,14 @@ export class WebServer {
       });
     });
 
-    this.app.get('/api/metrics', (req, res) => {
+    this.app.get('/api/metrics', this.authService.requireRole('moderator'), (req, res) => {
       const ingestionService = this.streamingServer.getIngestionService();
       const metrics = {
         activeStreams: ingestionService.getActiveStreamCount(),
         bufferStats: ingestionService.getBufferStats(),
-        processingStatus: ingestionService.getProcessingStatus()
+        processingStatus: ingestionService.getProcessingStatus(),
+        streamMetrics: ingestionService.getAllStreamProcessingMetrics(),
+        modelMetrics: ingestionService.getModelProcessingMetrics()
       };
       
       res.json({
@@ -89,44 +216,704 @@ export class WebServer {
       });
     });
 
-    // Real stream endpoints
-    this.app.get('/api/real-streams', (req, res) => {
-      const streams = this.realStreamManager.getActiveStreams();
-      res.json({
-        success: true,
-        data: {
-          streams,
-          totalStreams: this.realStreamManager.getStreamCount(),
-          adminCount: this.realStreamManager.getAdminCount()
-        },
-        timestamp: new Date().toISOString()
-      });
-    });
+    // Session tokens: the owner logs in with the configured password and issues tokens for everyone else
+    this.app.post('/api/auth/login', (req, res) => {
+      const { password } = req.body || {};
+      if (typeof password !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Password is required',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const retryAfterMs = this.authService.getLoginRetryAfterMs(req.ip ?? null);
+      if (retryAfterMs > 0) {
+        res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+        res.status(429).json({
+          success: false,
+          error: 'Too many failed login attempts',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      try {
+        const token = this.authService.login(password, req.ip ?? null);
+        res.json({
+          success: true,
+          data: { token, claims: this.authService.verifyToken(token) },
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Login failed';
+        res.status(message === 'Invalid password' ? 401 : 503).json({
+          success: false,
+          error: message,
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    this.app.post('/api/auth/tokens', this.authService.requireRole('owner'), (req, res) => {
+      const { subject, role, ttlSeconds } = req.body || {};
+      if (ttlSeconds !== undefined && !(typeof ttlSeconds === 'number' && ttlSeconds > 0)) {
+        res.status(400).json({
+          success: false,
+          error: 'ttlSeconds must be a positive number',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      try {
+        const token = this.authService.issueToken(subject, role as Role, ttlSeconds === undefined ? undefined : ttlSeconds * 1000);
+        this.audit(res.locals.auth, req.ip ?? 'unknown', {
+          action: 'auth:token-issue',
+          target: subject,
+          details: { role, ttlSeconds: ttlSeconds ?? null }
+        });
+        res.status(201).json({
+          success: true,
+          data: { token, claims: this.authService.verifyToken(token) },
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Token could not be issued',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Stream keys: streamers manage their own, moderators anyone's
+    const keyOwner: express.RequestHandler = (req, res, next) => {
+      const claims: AuthClaims = res.locals.auth;
+      if (claims.sub !== req.params.userId && !this.authService.hasRole(claims, 'moderator')) {
+        res.status(403).json({
+          success: false,
+          error: 'moderator role required',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      next();
+    };
+
+    this.app.get('/api/stream-keys', this.authService.requireRole('moderator'), (req, res) => {
+      res.json({
+        success: true,
+        data: this.streamKeyStore.getKeys(),
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.app.get('/api/stream-keys/:userId', this.authService.requireRole('streamer'), keyOwner, (req, res) => {
+      const key = this.streamKeyStore.getKey(req.params.userId);
+      if (!key) {
+        res.status(404).json({
+          success: false,
+          error: `User ${req.params.userId} has no stream key`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: key,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.app.post('/api/stream-keys/:userId', this.authService.requireRole('streamer'), keyOwner, (req, res) => {
+      if (this.streamKeyStore.getKey(req.params.userId)) {
+        res.status(409).json({
+          success: false,
+          error: `User ${req.params.userId} already has a stream key`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const issued = this.streamKeyStore.createKey(req.params.userId);
+      this.audit(res.locals.auth, req.ip ?? 'unknown', { action: 'stream-key:create', target: req.params.userId, details: { keyId: issued.keyId } });
+      res.status(201).json({
+        success: true,
+        data: issued,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.app.post('/api/stream-keys/:userId/rotate', this.authService.requireRole('streamer'), keyOwner, (req, res) => {
+      if (!this.streamKeyStore.getKey(req.params.userId)) {
+        res.status(404).json({
+          success: false,
+          error: `User ${req.params.userId} has no stream key`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const issued = this.streamKeyStore.rotateKey(req.params.userId);
+      this.audit(res.locals.auth, req.ip ?? 'unknown', { action: 'stream-key:rotate', target: req.params.userId, details: { keyId: issued.keyId } });
+      res.json({
+        success: true,
+        data: issued,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.app.delete('/api/stream-keys/:userId', this.authService.requireRole('streamer'), keyOwner, (req, res) => {
+      if (!this.streamKeyStore.getKey(req.params.userId)) {
+        res.status(404).json({
+          success: false,
+          error: `User ${req.params.userId} has no stream key`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const revoked = this.streamKeyStore.revokeKey(req.params.userId);
+      this.audit(res.locals.auth, req.ip ?? 'unknown', { action: 'stream-key:revoke', target: req.params.userId, details: { keyId: revoked.keyId } });
+      res.json({
+        success: true,
+        data: revoked,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Follows decide who may watch a followers-only broadcast
+    this.app.post('/api/users/:userId/followers', this.authService.requireRole('viewer'), (req, res) => {
+      const claims: AuthClaims = res.locals.auth;
+      try {
+        this.watchConsent.follow(claims.sub, req.params.userId);
+        res.status(201).json({
+          success: true,
+          data: { follower: claims.sub, userId: req.params.userId },
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Cannot follow',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    this.app.delete('/api/users/:userId/followers', this.authService.requireRole('viewer'), (req, res) => {
+      const claims: AuthClaims = res.locals.auth;
+      if (!this.watchConsent.unfollow(claims.sub, req.params.userId)) {
+        res.status(404).json({
+          success: false,
+          error: `${claims.sub} does not follow ${req.params.userId}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { follower: claims.sub, userId: req.params.userId },
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Real stream endpoints
+    // Audit trail, newest first; filter by actor, target, action and time range (ISO dates or epoch milliseconds)
+    this.app.get('/api/audit', this.authService.requireRole('owner'), async (req, res) => {
+      const { actor, target, action, since, until, limit } = req.query;
+      const query: AuditQuery = {};
+      try {
+        for (const [field, value] of Object.entries({ actor, target, action })) {
+          if (value !== undefined) {
+            if (typeof value !== 'string') {
+              throw new Error(`${field} must be a single value`);
+            }
+            query[field as 'actor' | 'target' | 'action'] = value;
+          }
+        }
+        query.since = parseAuditTime('since', since);
+        query.until = parseAuditTime('until', until);
+        if (limit !== undefined) {
+          query.limit = Number(limit);
+          if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_AUDIT_QUERY_LIMIT) {
+            throw new Error(`limit must be an integer from 1 to ${MAX_AUDIT_QUERY_LIMIT}`);
+          }
+        }
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid audit query',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      try {
+        res.json({
+          success: true,
+          data: await this.auditLog.query(query),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Error querying audit log', { error });
+        res.status(500).json({
+          success: false,
+          error: 'Failed to query audit log',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    this.app.get('/api/real-streams', this.authService.requireRole('moderator'), (req, res) => {
+      const streams = this.realStreamManager.getActiveStreams();
+      res.json({
+        success: true,
+        data: {
+          streams,
+          totalStreams: this.realStreamManager.getStreamCount(),
+          adminCount: this.realStreamManager.getAdminCount()
+        },
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.app.get('/api/real-streams/:userId', this.authService.requireRole('moderator'), (req, res) => {
+      const stream = this.realStreamManager.getStreamById(req.params.userId);
+      if (stream) {
+        res.json({
+          success: true,
+          data: stream,
+          timestamp: new Date().toISOString()
+        });
+      } else {
+        res.status(404).json({
+          success: false,
+          error: 'Stream not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Health check endpoint
+    this.app.get('/health', (req, res) => {
+      res.json({
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime()
+      });
+    });
+
+    // WHIP ingest: POST an SDP offer, PATCH trickle ICE, DELETE to stop
+    this.app.post('/whip/:streamKey', SDP_BODY, async (req, res) => {
+      if (!req.is('application/sdp') || typeof req.body !== 'string') {
+        res.status(415).send('Content-Type must be application/sdp');
+        return;
+      }
+
+      const retryAfterMs = this.streamKeyStore.getRetryAfterMs(req.ip ?? null);
+      if (retryAfterMs > 0) {
+        res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+        res.status(429).send('Too many failed publish attempts');
+        return;
+      }
+
+      try {
+        const resource = await this.whipEndpoint.publish(req.params.streamKey, req.body, req.ip ?? null);
+        if (!resource) {
+          res.status(401).send('Unknown stream key');
+          return;
+        }
+
+        this.sendSdpAnswer(res, resource.location, resource.answer);
+      } catch (error) {
+        logger.warn('WHIP publish failed', { error });
+        res.status(400).send(error instanceof Error ? error.message : 'Invalid offer');
+      }
+    });
+    this.registerIceResourceRoutes('/whip', () => this.whipEndpoint);
+
+    // Every playback path honours the streamer's visibility choice
+    const playback = this.requirePlaybackConsent();
+
+    // WHEP playback of a stream's enhanced output
+    this.app.post('/whep/:streamId', playback, SDP_BODY, async (req, res) => {
+      if (!req.is('application/sdp') || typeof req.body !== 'string') {
+        res.status(415).send('Content-Type must be application/sdp');
+        return;
+      }
+
+      try {
+        const resource = await this.whepEndpoint.play(req.params.streamId, req.body);
+        if (!resource) {
+          res.status(404).send('Stream not found');
+          return;
+        }
+
+        this.sendSdpAnswer(res, resource.location, resource.answer);
+      } catch (error) {
+        logger.warn('WHEP playback failed', { streamId: req.params.streamId, error });
+        res.status(400).send(error instanceof Error ? error.message : 'Invalid offer');
+      }
+    });
+    this.registerIceResourceRoutes('/whep', () => this.whepEndpoint);
+
+    // Renditions of a stream's enhanced output in the ABR ladder
+    this.app.get('/api/streams/:streamId/renditions', this.authService.requireRole('moderator'), (req, res) => {
+      const { streamId } = req.params;
+      if (!this.renditionLadder.hasStream(streamId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Stream not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.renditionLadder.getRenditions(streamId),
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // DVR: the range of a stream viewers can seek back into
+    this.app.get('/api/streams/:streamId/timeshift', this.authService.requireRole('moderator'), (req, res) => {
+      const window = this.timeShiftStore.getWindow(req.params.streamId);
+      if (!window) {
+        res.status(404).json({
+          success: false,
+          error: 'Stream not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: window,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Seek a viewer to a time or an offset behind live, or return it to live with { live: true }
+    // Viewers seek their own session over their socket with viewer-seek
+    this.app.post('/api/viewers/:sessionId/seek', this.authService.requireRole('moderator'), (req, res) => {
+      const { sessionId } = req.params;
+      if (!this.distributionService.getViewerSession(sessionId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Viewer session not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { time, offsetMs, live } = req.body || {};
+      try {
+        res.json({
+          success: true,
+          data: live
+            ? this.distributionService.returnToLive(sessionId)
+            : this.distributionService.seekViewer(sessionId, { time, offsetMs }),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid seek',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    this.app.get('/api/viewers/:sessionId/position', (req, res) => {
+      const position = this.distributionService.getViewerPosition(req.params.sessionId);
+      if (!position) {
+        res.status(404).json({
+          success: false,
+          error: 'Viewer session not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: position,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Recording: POST starts, DELETE stops and returns the finalized MP4 files
+    this.app.get('/api/streams/:streamId/recording', this.authService.requireRole('moderator'), (req, res) => {
+      const status = this.streamRecorder.getStatus(req.params.streamId);
+      if (!status) {
+        res.status(404).json({
+          success: false,
+          error: 'Stream is not being recorded',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: status,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.app.post('/api/streams/:streamId/recording', this.authService.requireRole('moderator'), (req, res) => {
+      const { streamId } = req.params;
+      if (!this.streamingServer.getIngestionService().getActiveStream(streamId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Stream not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { includeRaw } = req.body || {};
+      if (includeRaw !== undefined && typeof includeRaw !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'includeRaw must be a boolean',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      try {
+        const status = this.streamRecorder.startRecording(streamId, includeRaw);
+        this.audit(res.locals.auth, req.ip ?? 'unknown', { action: 'recording:start', target: streamId, details: { includeRaw: status.includeRaw } });
+        res.status(201).json({
+          success: true,
+          data: status,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        res.status(409).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Recording could not be started',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    this.app.delete('/api/streams/:streamId/recording', this.authService.requireRole('moderator'), async (req, res) => {
+      const { streamId } = req.params;
+      if (!this.streamRecorder.isRecording(streamId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Stream is not being recorded',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const recordings = await this.streamRecorder.stopRecording(streamId);
+      this.audit(res.locals.auth, req.ip ?? 'unknown', { action: 'recording:stop', target: streamId });
+      res.json({
+        success: true,
+        data: recordings,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // HLS / LL-HLS playback of a stream's renditions
+    this.app.get('/hls/:streamId/index.m3u8', playback, (req, res) => {
+      const playlist = this.hlsPackager.getMultivariantPlaylist(req.params.streamId);
+      if (!playlist) {
+        res.status(404).send('Stream not found');
+        return;
+      }
+
+      this.sendPlaylist(res, playlist);
+    });
+
+    this.app.get(`/hls/:streamId/:quality/${HLS_MEDIA_PLAYLIST}`, playback, async (req, res) => {
+      const { _HLS_msn: msn, _HLS_part: part } = req.query;
+      const request: HlsPlaylistRequest = {
+        msn: msn === undefined ? undefined : Number(msn),
+        part: part === undefined ? undefined : Number(part)
+      };
+
+      try {
+        const playlist = await this.hlsPackager.getMediaPlaylist(req.params.streamId, req.params.quality as QualityLevel, request);
+        if (!playlist) {
+          res.status(404).send('Stream not found');
+          return;
+        }
+
+        this.sendPlaylist(res, playlist);
+      } catch (error) {
+        res.status(400).send(error instanceof Error ? error.message : 'Invalid playlist request');
+      }
+    });
+
+    this.app.get('/hls/:streamId/:quality/:resource', playback, async (req, res) => {
+      const { streamId, resource } = req.params;
+      const quality = req.params.quality as QualityLevel;
+      const init = /^init(\d+)\.mp4$/.exec(resource);
+      const segment = /^seg(\d+)\.m4s$/.exec(resource);
+      const part = /^seg(\d+)\.(\d+)\.m4s$/.exec(resource);
+
+      let data: Buffer | null = null;
+      if (init) {
+        data = this.cmafPackager.getInitSegment(streamId, quality, Number(init[1]));
+      } else if (segment) {
+        data = this.cmafPackager.getSegment(streamId, quality, Number(segment[1]));
+      } else if (part) {
+        data = await this.hlsPackager.getPart(streamId, quality, Number(part[1]), Number(part[2]));
+      }
+
+      if (!data) {
+        res.status(404).send('Not found');
+        return;
+      }
+
+      res.set('Content-Type', 'video/mp4').send(data);
+    });
+
+    // MPEG-DASH playback, served from the same CMAF segments as HLS
+    this.app.get(`/dash/:streamId/${DASH_MANIFEST}`, playback, (req, res) => {
+      const manifest = this.dashPackager.getManifest(req.params.streamId);
+      if (!manifest) {
+        res.status(404).send('Stream not found');
+        return;
+      }
+
+      res.set({ 'Content-Type': 'application/dash+xml', 'Cache-Control': 'no-cache' }).send(manifest);
+    });
+
+    this.app.get('/dash/:streamId/:quality/:resource', playback, (req, res) => {
+      const { streamId, resource } = req.params;
+      const quality = req.params.quality as QualityLevel;
+      const init = /^init(\d+)\.mp4$/.exec(resource);
+      const segment = /^seg(\d+)\.m4s$/.exec(resource);
+
+      let data: Buffer | null = null;
+      if (init) {
+        data = this.cmafPackager.getInitSegment(streamId, quality, Number(init[1]));
+      } else if (segment) {
+        data = this.cmafPackager.getSegment(streamId, quality, Number(segment[1]));
+      }
+
+      if (!data) {
+        res.status(404).send('Not found');
+        return;
+      }
+
+      res.set('Content-Type', 'video/mp4').send(data);
+    });
+
+    // Per-stream CMAF segmenting for HLS and DASH: segment duration, part target and window length
+    this.app.get('/api/hls/:streamId/settings', (req, res) => {
+      res.json({
+        success: true,
+        data: this.cmafPackager.getStreamOptions(req.params.streamId),
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    this.app.put('/api/hls/:streamId/settings', this.authService.requireRole('moderator'), (req, res) => {
+      const { streamId } = req.params;
+      if (!this.streamingServer.getIngestionService().getActiveStream(streamId) && !this.cmafPackager.hasStream(streamId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Stream not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { segmentDurationMs, partTargetMs, windowSegments } = req.body || {};
+      const changes = Object.fromEntries(
+        Object.entries({ segmentDurationMs, partTargetMs, windowSegments }).filter(([, value]) => value !== undefined)
+      );
+
+      try {
+        const options = this.cmafPackager.setStreamOptions(streamId, changes);
+        this.audit(res.locals.auth, req.ip ?? 'unknown', { action: 'hls:settings', target: streamId, details: changes });
+        res.json({
+          success: true,
+          data: options,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid HLS settings',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // SRT caller mode: pull a contribution feed from a remote SRT listener
+    this.app.post('/api/srt/calls', this.authService.requireRole('moderator'), async (req, res) => {
+      const srtServer = this.streamingServer.getSrtServer();
+      if (!srtServer) {
+        res.status(503).json({
+          success: false,
+          error: 'SRT ingest is not enabled',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
 
-    this.app.get('/api/real-streams/:userId', (req, res) => {
-      const stream = this.realStreamManager.getStreamById(req.params.userId);
-      if (stream) {
-        res.json({
+      const { host, port, streamId } = req.body || {};
+      if (typeof host !== 'string' || !Number.isInteger(port) || typeof streamId !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'host, port and streamId are required',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const retryAfterMs = this.streamKeyStore.getRetryAfterMs(req.ip ?? null);
+      if (retryAfterMs > 0) {
+        res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+        res.status(429).json({
+          success: false,
+          error: 'Too many failed publish attempts',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      try {
+        const sessionId = await srtServer.call(host, port, streamId, req.ip ?? null);
+        res.status(201).json({
           success: true,
-          data: stream,
+          data: { sessionId },
           timestamp: new Date().toISOString()
         });
-      } else {
-        res.status(404).json({
+      } catch (error) {
+        logger.warn('SRT call failed', { host, port, error });
+        res.status(502).json({
           success: false,
-          error: 'Stream not found',
+          error: error instanceof Error ? error.message : 'SRT call failed',
           timestamp: new Date().toISOString()
         });
       }
     });
 
-    // Health check endpoint
-    this.app.get('/health', (req, res) => {
-      res.json({
-        status: 'healthy',
-        timestamp: new Date().toISOString(),
-        uptime: process.uptime()
-      });
+    // Prometheus scrape endpoint
+    this.app.get('/metrics', async (req, res) => {
+      try {
+        res.set('Content-Type', this.metricsExporter.getContentType());
+        res.send(await this.metricsExporter.getMetrics());
+      } catch (error) {
+        logger.error('Error collecting Prometheus metrics', { error });
+        res.status(500).send('Failed to collect metrics');
+      }
     });
 
     // 404 handler
@@ -142,11 +929,15 @@ export class WebServer {
   private setupSocketHandlers(): void {
     this.io.on('connection', (socket) => {
       logger.info('Client connected', { socketId: socket.id });
+      this.joinUserRoom(socket, socket.data.auth?.sub);
 
       // SIMPLE WORKING HANDLERS
       
       // Admin registration
       socket.on('i-am-admin', (data) => {
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'i-am-admin')) {
+          return;
+        }
         logger.info('Admin registered', { socketId: socket.id });
         socket.join('admins');
       });
@@ -154,6 +945,7 @@ export class WebServer {
       // User joined
       socket.on('user-joined', (data) => {
         logger.info('User joined', { socketId: socket.id, userId: data.userId });
+        this.joinUserRoom(socket, data.userId);
         
         // Broadcast to all admins
         this.io.to('admins').emit('user-activity', {
@@ -167,12 +959,16 @@ export class WebServer {
 
       // Stream started
       socket.on('stream-started', (data) => {
-        logger.info('Stream started', { socketId: socket.id, userId: data.userId });
+        const grant = this.authorizeSocketPublish(socket, data?.streamKey, 'stream-error');
+        if (!grant || !this.openBroadcast(socket, grant.userId, data.visibility)) {
+          return;
+        }
+        logger.info('Stream started', { socketId: socket.id, userId: grant.userId });
         
         // Broadcast to all admins
         this.io.to('admins').emit('user-activity', {
-          userId: data.userId,
-          username: `User_${data.userId.slice(-4)}`,
+          userId: grant.userId,
+          username: `User_${grant.userId.slice(-4)}`,
           status: 'online',
           isStreaming: true,
           timestamp: data.timestamp
@@ -181,47 +977,78 @@ export class WebServer {
 
       // Video frame
       socket.on('video-frame', (data) => {
-        // Forward to all admins
-        this.io.to('admins').emit('user-video', {
-          userId: data.userId,
-          frame: data.frame,
-          timestamp: data.timestamp
+        const broadcast = this.watchConsent.getBroadcast(socket.id);
+        if (!broadcast) {
+          return;
+        }
+
+        // Forward to whoever the streamer lets watch
+        this.emitToWatchers(socket.id, 'user-video', {
+          userId: broadcast.userId,
+          frame: data?.frame,
+          timestamp: data?.timestamp
         });
       });
 
       // Stream stopped
       socket.on('stream-stopped', (data) => {
-        logger.info('Stream stopped', { socketId: socket.id, userId: data.userId });
+        const broadcast = this.watchConsent.getBroadcast(socket.id);
+        if (!broadcast) {
+          return;
+        }
+        logger.info('Stream stopped', { socketId: socket.id, userId: broadcast.userId });
+        this.watchConsent.closeBroadcast(socket.id);
         
         // Broadcast to all admins
         this.io.to('admins').emit('user-activity', {
-          userId: data.userId,
-          username: `User_${data.userId.slice(-4)}`,
+          userId: broadcast.userId,
+          username: `User_${broadcast.userId.slice(-4)}`,
           status: 'online',
           isStreaming: false,
-          timestamp: data.timestamp
+          timestamp: data?.timestamp
         });
       });
 
-      // Admin watch user
+      // Admin watch user; the streamer is told by the watch consent handlers
       socket.on('watch-user', (data) => {
-        logger.info('Admin watching user', { adminId: socket.id, userId: data.userId });
-        
-        // Notify user that admin is watching
-        this.io.emit('admin-watching', { userId: data.userId });
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'watch-user')) {
+          return;
+        }
+        logger.info('Admin watching user', { adminId: socket.id, userId: data?.userId });
+        this.attachWatcher(socket, data?.userId);
+      });
+
+      // Any viewer the streamer's visibility allows
+      socket.on('watch-stream', (data) => {
+        this.attachWatcher(socket, data?.userId);
+      });
+
+      socket.on('stop-watching', (data) => {
+        this.watchConsent.detach(data?.userId, socket.id);
+      });
+
+      // Streamers may withdraw and restore moderator viewing at any time
+      socket.on('revoke-moderator-viewing', () => {
+        this.setModeratorViewing(socket, false);
+      });
+
+      socket.on('allow-moderator-viewing', () => {
+        this.setModeratorViewing(socket, true);
       });
 
       // Admin kick user
       socket.on('kick-user', (data) => {
-        logger.info('Admin kicking user', { adminId: socket.id, userId: data.userId });
-        
-        // Send kick message to user
-        this.io.emit('kicked', { userId: data.userId });
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'kick-user')) {
+          return;
+        }
+        logger.info('Admin kicking user', { adminId: socket.id, userId: data?.userId });
+        this.kickUser(socket, data?.userId, data?.reason, 'kicked', false);
       });
 
       // Handle disconnect
       socket.on('disconnect', () => {
         logger.info('Client disconnected', { socketId: socket.id });
+        this.watchConsent.disconnect(socket.id);
         
         // Broadcast user left to admins
         this.io.to('admins').emit('user-left', {
@@ -233,24 +1060,40 @@ export class WebServer {
       // LEGACY COMPATIBILITY HANDLERS
       
       socket.on('user-register', (data) => {
+        this.joinUserRoom(socket, data?.userId);
         this.realStreamManager.registerUser(socket.id, data);
         this.io.emit('user-registered', { ...data, socketId: socket.id, timestamp: Date.now() });
       });
 
       socket.on('admin-register', (data) => {
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'admin-register')) {
+          return;
+        }
         socket.join('admins');
         const users = this.realStreamManager.getAllUsers();
         socket.emit('user-history', users);
       });
 
       socket.on('advanced-stream-start', (data) => {
-        const streamData = { ...data, socketId: socket.id };
-        socket.emit('advanced-stream-started', { success: true, streamId: data.streamId });
+        const { streamKey, ...rest } = data || {};
+        const grant = this.authorizeSocketPublish(socket, streamKey, 'advanced-stream-error');
+        if (!grant) {
+          return;
+        }
+
+        const streamId = this.streamingServer.getIngestionService().generateStreamId(grant.keyId);
+        if (!this.openBroadcast(socket, grant.userId, rest.visibility)) {
+          return;
+        }
+        this.joinUserRoom(socket, rest.userId);
+        this.announceBroadcastStream(socket, streamId);
+        const streamData = { ...rest, streamId, socketId: socket.id };
+        socket.emit('advanced-stream-started', { success: true, streamId });
         this.io.emit('advanced-stream-started', streamData);
       });
 
       socket.on('optimized-video-chunk', (data) => {
-        socket.broadcast.emit('optimized-video-chunk', { ...data, userId: socket.id });
+        this.emitToWatchers(socket.id, 'optimized-video-chunk', { ...data, userId: socket.id });
       });
 
       socket.on('stream-background-mode', (data) => {
@@ -263,85 +1106,506 @@ export class WebServer {
       });
 
       socket.on('admin-watch-advanced-stream', (data) => {
-        socket.emit('watch-stream-started', { userId: data.userId });
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'admin-watch-advanced-stream')) {
+          return;
+        }
+        if (this.attachWatcher(socket, data?.userId)) {
+          socket.emit('watch-stream-started', { userId: data.userId });
+        }
       });
 
       socket.on('advanced-stream-stop', (data) => {
+        this.watchConsent.closeBroadcast(socket.id);
         this.io.emit('advanced-stream-stopped', data);
       });
 
       socket.on('real-stream-start', (data) => {
+        const grant = this.authorizeSocketPublish(socket, data?.streamKey, 'real-stream-error');
+        if (!grant || !this.openBroadcast(socket, grant.userId, data.visibility)) {
+          return;
+        }
+
         const streamData = {
           userId: socket.id,
-          username: data.username || `User_${socket.id.slice(-4)}`,
+          username: data.username || grant.userId,
           status: 'live',
-          streamId: `stream_${Date.now()}`,
+          streamId: this.streamingServer.getIngestionService().generateStreamId(grant.keyId),
           timestamp: Date.now(),
           aiEnabled: data.aiEnabled || false,
           quality: data.quality || '1080p'
         };
+        this.announceBroadcastStream(socket, streamData.streamId);
         socket.emit('real-stream-started', { success: true, streamId: streamData.streamId });
         this.io.emit('user-stream-started', streamData);
       });
 
       socket.on('video-chunk', (data) => {
-        socket.broadcast.emit('video-chunk', { ...data, userId: socket.id, timestamp: Date.now() });
+        this.emitToWatchers(socket.id, 'video-chunk', { ...data, userId: socket.id, timestamp: Date.now() });
       });
 
       socket.on('admin-watch-stream', (data) => {
-        socket.emit('watch-stream-started', { userId: data.userId });
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'admin-watch-stream')) {
+          return;
+        }
+        if (this.attachWatcher(socket, data?.userId)) {
+          socket.emit('watch-stream-started', { userId: data.userId });
+        }
       });
 
       socket.on('stop-stream', (data) => {
+        this.watchConsent.closeBroadcast(socket.id);
         this.io.emit('user-stream-stopped', { userId: socket.id, timestamp: Date.now(), status: 'offline' });
       });
 
+      socket.on('recording-start', (data) => {
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'recording-start')) {
+          return;
+        }
+        try {
+          const status = this.streamRecorder.startRecording(data?.streamId, data?.includeRaw === true);
+          this.audit(socket.data.auth, socket.id, { action: 'recording:start', target: status.streamId, details: { includeRaw: status.includeRaw } });
+          socket.emit('recording-started', status);
+        } catch (error) {
+          socket.emit('recording-error', {
+            streamId: data?.streamId,
+            error: error instanceof Error ? error.message : 'Recording could not be started'
+          });
+        }
+      });
+
+      socket.on('recording-stop', async (data) => {
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'recording-stop')) {
+          return;
+        }
+        try {
+          const recordings = await this.streamRecorder.stopRecording(data?.streamId);
+          this.audit(socket.data.auth, socket.id, { action: 'recording:stop', target: data.streamId });
+          socket.emit('recording-stopped', { streamId: data.streamId, recordings });
+        } catch (error) {
+          socket.emit('recording-error', {
+            streamId: data?.streamId,
+            error: error instanceof Error ? error.message : 'Recording could not be stopped'
+          });
+        }
+      });
+
       socket.on('admin-kick-user', (data) => {
-        const targetSocket = this.io.sockets.sockets.get(data.targetUserId);
-        if (targetSocket) {
-          targetSocket.emit('admin-kicked', { reason: 'Kicked by admin' });
-          targetSocket.disconnect();
+        if (!this.authService.authorizeSocket(socket, 'moderator', 'admin-kick-user')) {
+          return;
         }
+        this.kickUser(socket, data?.targetUserId, data?.reason, 'admin-kicked', true);
+      });
+    });
+  }
+
+  private sendPlaylist(res: express.Response, playlist: string): void {
+    res.set({
+      'Content-Type': 'application/vnd.apple.mpegurl',
+      'Cache-Control': 'no-cache'
+    }).send(playlist);
+  }
+
+  /**
+   * Tell streamers who attaches to and detaches from their broadcast, and audit every attach
+   */
+  private setupWatchConsent(): void {
+    const describe = (watcher: Watcher) => ({ watcherId: watcher.subject, role: watcher.role, attachedAt: watcher.attachedAt });
+
+    this.watchConsent.on('watch:attached', ({ broadcast, watcher }: { broadcast: BroadcastConsent; watcher: Watcher }) => {
+      this.io.to(broadcast.socketId).emit('watcher-attached', {
+        ...describe(watcher),
+        watchers: broadcast.watchers.map(describe)
+      });
+      this.auditLog.record({
+        actor: watcher.subject ?? watcher.socketId,
+        role: watcher.role,
+        action: 'watch:attach',
+        target: broadcast.userId,
+        details: { visibility: broadcast.visibility, streamerSocketId: broadcast.socketId }
+      });
+    });
+
+    this.watchConsent.on('watch:detached', ({ broadcast, watcher, reason }: { broadcast: BroadcastConsent; watcher: Watcher; reason: DetachReason }) => {
+      this.io.to(broadcast.socketId).emit('watcher-detached', {
+        ...describe(watcher),
+        reason,
+        watchers: broadcast.watchers.map(describe)
+      });
+      if (reason !== 'stopped' && reason !== 'disconnected') {
+        this.io.to(watcher.socketId).emit('watch-ended', { userId: broadcast.userId, reason });
+      }
+      this.auditLog.record({
+        actor: watcher.subject ?? watcher.socketId,
+        role: watcher.role,
+        action: 'watch:detach',
+        target: broadcast.userId,
+        reason,
+        details: { visibility: broadcast.visibility, streamerSocketId: broadcast.socketId }
       });
     });
+
+    this.watchConsent.on('broadcast:closed', ({ socketId }: { socketId: string }) => {
+      const streamId = this.broadcastStreams.get(socketId);
+      if (streamId) {
+        this.broadcastStreams.delete(socketId);
+        this.telemetryBroadcaster.removeStream(streamId);
+      }
+    });
+  }
+
+  /**
+   * Remember whose each ingested stream is until its last segments expire, and check socket viewers against it
+   */
+  private setupPlaybackConsent(): void {
+    const ingestionService = this.streamingServer.getIngestionService();
+
+    ingestionService.on('stream:added', (data) => {
+      this.streamOwners.set(data.streamId, data.userId);
+    });
+
+    ingestionService.on('stream:disconnected', (data) => {
+      if (!this.cmafPackager.hasStream(data.streamId)) {
+        this.streamOwners.delete(data.streamId);
+      }
+    });
+
+    this.cmafPackager.on('stream:removed', (data) => {
+      if (!ingestionService.getActiveStream(data.streamId)) {
+        this.streamOwners.delete(data.streamId);
+      }
+    });
+
+    this.distributionService.attachViewerAuthorizer((streamId, socket) => {
+      this.authorizePlayback(streamId, socket.data.auth ?? null);
+    });
   }
 
-  private sendPeriodicUpdates(socket: any): void {
-    const interval = setInterval(() => {
-      if (!socket.connected) {
-        clearInterval(interval);
+  /**
+   * Express middleware: refuse WHEP, HLS and DASH playback the streamer's visibility does not allow
+   */
+  private requirePlaybackConsent(): express.RequestHandler {
+    const authenticate = this.authService.authenticate();
+    return (req, res, next) => authenticate(req, res, () => {
+      try {
+        this.authorizePlayback(req.params.streamId, res.locals.auth);
+      } catch (error) {
+        res.status(403).send(error instanceof Error ? error.message : 'Cannot watch');
         return;
       }
+      next();
+    });
+  }
 
-      // Send real-time metrics
-      const metrics = {
-        timestamp: Date.now(),
-        latency: Math.floor(20 + Math.random() * 30),
-        bitrate: (2.0 + Math.random() * 2.0).toFixed(1),
-        fps: Math.floor(28 + Math.random() * 4),
-        quality: Math.floor(95 + Math.random() * 5),
-        viewers: Math.floor(Math.random() * 100),
-        cpuUsage: Math.floor(20 + Math.random() * 40)
-      };
+  /**
+   * Hold a viewer to the visibility chosen by the streamer an ingested stream belongs to
+   */
+  private authorizePlayback(streamId: StreamId, claims: AuthClaims | null): void {
+    const owner = this.streamOwners.get(streamId);
+    if (owner) {
+      this.watchConsent.authorizePlayback(owner, { subject: claims?.sub ?? null, role: claims?.role ?? 'viewer' });
+    }
+  }
+
+  /**
+   * Let dashboards follow a socket broadcast's telemetry until the broadcast closes
+   */
+  private announceBroadcastStream(socket: Socket, streamId: StreamId): void {
+    this.broadcastStreams.set(socket.id, streamId);
+    this.telemetryBroadcaster.announceStream(streamId);
+  }
+
+  /**
+   * Start a broadcast with the streamer's chosen visibility; an unknown choice refuses the stream
+   */
+  private openBroadcast(socket: Socket, userId: string, visibility: unknown): boolean {
+    try {
+      const consent = this.watchConsent.openBroadcast(socket.id, userId, (visibility ?? undefined) as StreamVisibility | undefined);
+      socket.emit('viewing-consent', consent);
+      return true;
+    } catch (error) {
+      socket.emit('consent-error', { error: error instanceof Error ? error.message : 'Invalid visibility' });
+      return false;
+    }
+  }
 
-      socket.emit('metrics-update', metrics);
-    }, 2000);
+  /**
+   * Attach a socket as a watcher of a broadcast, telling it when the streamer does not allow it
+   */
+  private attachWatcher(socket: Socket, target: unknown): boolean {
+    const claims: AuthClaims | null = socket.data.auth ?? null;
+    try {
+      if (typeof target !== 'string' || !target) {
+        throw new Error('userId of the streamer to watch is required');
+      }
+      this.watchConsent.attach(target, {
+        socketId: socket.id,
+        subject: claims?.sub ?? null,
+        role: claims?.role ?? 'viewer'
+      });
+      return true;
+    } catch (error) {
+      socket.emit('watch-error', { userId: target, error: error instanceof Error ? error.message : 'Cannot watch' });
+      return false;
+    }
+  }
+
+  /**
+   * Audit refused privileged requests alongside the actions themselves
+   */
+  private setupAudit(): void {
+    this.authService.on('auth:denied', ({ subject, role, required, action }) => {
+      this.auditLog.record({
+        actor: subject ?? 'anonymous',
+        role: role ?? 'viewer',
+        action: 'auth:denied',
+        target: null,
+        details: { required, request: action }
+      });
+    });
+  }
+
+  /**
+   * Record an action by an authenticated client, or by an anonymous one under a fallback actor
+   */
+  private audit(
+    claims: AuthClaims | null | undefined,
+    fallbackActor: string,
+    entry: Pick<AuditEntry, 'action' | 'target'> & Partial<Pick<AuditEntry, 'reason' | 'details'>>
+  ): void {
+    this.auditLog.record({ actor: claims?.sub ?? fallbackActor, role: claims?.role ?? 'viewer', ...entry });
+  }
+
+  /**
+   * Sockets can be addressed by their user ID: the token subject, or the ID an anonymous page declares
+   */
+  private joinUserRoom(socket: Socket, userId: unknown): void {
+    if (typeof userId === 'string' && userId) {
+      socket.join(`user:${userId}`);
+    }
+  }
+
+  /**
+   * Deliver a kick only to the target's sockets, found by socket ID or user ID, and audit it
+   */
+  private kickUser(socket: Socket, target: unknown, reason: unknown, event: 'kicked' | 'admin-kicked', disconnect: boolean): void {
+    if (typeof target !== 'string' || !target) {
+      socket.emit('kick-error', { userId: target, error: 'userId of the user to kick is required' });
+      return;
+    }
+
+    const bySocket = this.io.sockets.sockets.get(target);
+    const socketIds = bySocket ? [bySocket.id] : Array.from(this.io.sockets.adapter.rooms.get(`user:${target}`) ?? []);
+    if (socketIds.length === 0) {
+      socket.emit('kick-error', { userId: target, error: `${target} is not connected` });
+      return;
+    }
+
+    const kickReason = typeof reason === 'string' && reason ? reason : null;
+    this.audit(socket.data.auth, socket.id, {
+      action: 'user:kick',
+      target,
+      reason: kickReason,
+      details: { sockets: socketIds.length, disconnected: disconnect }
+    });
+
+    for (const socketId of socketIds) {
+      const kicked = this.io.sockets.sockets.get(socketId);
+      kicked?.emit(event, { userId: target, reason: kickReason ?? 'Kicked by admin' });
+      if (disconnect) {
+        kicked?.disconnect(true);
+      }
+    }
+    socket.emit('user-kicked', { userId: target, sockets: socketIds.length });
+  }
+
+  private setModeratorViewing(socket: Socket, allowed: boolean): void {
+    const claims: AuthClaims | null = socket.data.auth ?? null;
+    try {
+      const consent = this.watchConsent.setModeratorViewing(socket.id, allowed);
+      socket.emit('viewing-consent', consent);
+      this.audit(claims, consent.userId, {
+        action: allowed ? 'watch:allow-moderators' : 'watch:revoke-moderators',
+        target: consent.userId
+      });
+    } catch (error) {
+      socket.emit('consent-error', { error: error instanceof Error ? error.message : 'No broadcast' });
+    }
+  }
+
+  /**
+   * Send a broadcast's media to its attached watchers only
+   */
+  private emitToWatchers(streamerSocketId: string, event: string, data: unknown): void {
+    const watchers = this.watchConsent.getWatcherSockets(streamerSocketId);
+    if (watchers.length > 0) {
+      this.io.to(watchers).emit(event, data);
+    }
+  }
+
+  /**
+   * Authorize a browser broadcaster's stream key, telling the socket when it is refused
+   */
+  private authorizeSocketPublish(socket: Socket, streamKey: unknown, errorEvent: string): PublishGrant | null {
+    try {
+      return this.streamingServer.getIngestionService().authorizePublish(
+        typeof streamKey === 'string' ? streamKey : undefined,
+        { protocol: 'socket', address: socket.handshake.address }
+      );
+    } catch (error) {
+      socket.emit(errorEvent, { error: error instanceof Error ? error.message : 'Publish refused' });
+      return null;
+    }
+  }
+
+  private sendSdpAnswer(res: express.Response, location: string, answer: string): void {
+    res.status(201).set({
+      'Content-Type': 'application/sdp',
+      'Location': location,
+      'Access-Control-Expose-Headers': 'Location'
+    }).send(answer);
+  }
+
+  /**
+   * Register the OPTIONS, trickle ICE PATCH and teardown DELETE routes shared by WHIP and WHEP
+   * Endpoints are resolved per request since routes are registered before they are created
+   */
+  private registerIceResourceRoutes<R>(prefix: string, getEndpoint: () => IceResourceEndpoint<R>): void {
+    this.app.options(`${prefix}/:key`, (req, res) => {
+      res.set({
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+        'Accept-Post': 'application/sdp'
+      });
+      res.sendStatus(204);
+    });
+
+    this.app.options(`${prefix}/:key/:resourceId`, (req, res) => {
+      res.set({
+        'Access-Control-Allow-Methods': 'PATCH, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match',
+        'Accept-Patch': 'application/trickle-ice-sdpfrag'
+      });
+      res.sendStatus(204);
+    });
+
+    this.app.patch(`${prefix}/:key/:resourceId`, SDP_BODY, async (req, res) => {
+      const endpoint = getEndpoint();
+      const resource = endpoint.getResource(req.params.key, req.params.resourceId);
+      if (!resource) {
+        res.status(404).send('Resource not found');
+        return;
+      }
+
+      if (!req.is('application/trickle-ice-sdpfrag') || typeof req.body !== 'string') {
+        res.status(415).send('Content-Type must be application/trickle-ice-sdpfrag');
+        return;
+      }
+
+      const fragment = parseTrickleFragment(req.body);
+      if (endpoint.isIceRestart(resource, fragment)) {
+        res.status(501).send('ICE restarts are not supported');
+        return;
+      }
+
+      try {
+        await endpoint.trickle(resource, fragment);
+        res.sendStatus(204);
+      } catch (error) {
+        logger.warn('Trickle ICE failed', { path: req.path, error });
+        res.status(400).send(error instanceof Error ? error.message : 'Invalid candidate');
+      }
+    });
+
+    this.app.delete(`${prefix}/:key/:resourceId`, async (req, res) => {
+      const endpoint = getEndpoint();
+      const resource = endpoint.getResource(req.params.key, req.params.resourceId);
+      if (!resource) {
+        res.status(404).send('Resource not found');
+        return;
+      }
+
+      await endpoint.teardown(resource);
+      res.sendStatus(200);
+    });
+  }
+
+  private setupDistribution(): void {
+    const ingestionService = this.streamingServer.getIngestionService();
+
+    ingestionService.on('stream:added', async (data) => {
+      const stream = ingestionService.getActiveStream(data.streamId);
+      if (stream) {
+        await this.distributionService.publishStream(data.streamId, stream);
+      }
+    });
+
+    // Encoded streams reach viewers through their renditions
+    this.distributionService.attachRenditionLadder(this.renditionLadder);
+    this.distributionService.attachTimeShiftStore(this.timeShiftStore);
+    ingestionService.on('frames:enhanced', (data) => {
+      if (!this.renditionLadder.hasStream(data.streamId)) {
+        this.distributionService.distributeFrames(data.streamId, data.enhancedFrames);
+      }
+    });
+
+    ingestionService.on('stream:disconnected', async (data) => {
+      try {
+        await this.distributionService.handleStreamEnd(data.streamId);
+      } catch (error) {
+        logger.error('Error ending stream distribution', { streamId: data.streamId, error });
+      }
+    });
+  }
+
+  /**
+   * Keep ingested streams in their users' history, with the recordings made of them
+   */
+  private setupRecording(): void {
+    const ingestionService = this.streamingServer.getIngestionService();
+
+    ingestionService.on('stream:added', (data) => {
+      const stream = ingestionService.getActiveStream(data.streamId);
+      const quality = stream ? `${stream.config.resolution.height}p` : 'unknown';
+      this.realStreamManager.startStream(data.userId, data.streamId, quality);
+    });
+
+    ingestionService.on('stream:disconnected', (data) => {
+      this.realStreamManager.endStream(data.streamId);
+    });
+
+    this.streamRecorder.on('recording:finalized', (data) => {
+      if (data.recordings.length > 0 && !this.realStreamManager.addRecordings(data.streamId, data.recordings)) {
+        logger.warn('Recording finalized for a stream without history', { streamId: data.streamId });
+      }
+      this.io.to('admins').emit('recording-finalized', data);
+    });
   }
 
   async start(): Promise<void> {
     try {
+      await this.realStreamManager.initialize();
+
       // Start the streaming server
       await this.streamingServer.start();
       
       // Start the web server
       await new Promise<void>((resolve) => {
         this.server.listen(this.port, () => {
+          // Resolve the real port when an ephemeral one (0) was requested
+          this.port = (this.server.address() as AddressInfo).port;
           logger.info(`Web server started on port ${this.port}`);
           logger.info(`Open http://localhost:${this.port} to access the application`);
           resolve();
         });
       });
 
+      this.telemetryBroadcaster.start();
+
+      // Recordings interrupted by a crash are finalized in the background
+      this.streamRecorder.recover().catch(error => {
+        logger.error('Failed to recover recordings', { error });
+      });
+
     } catch (error) {
       logger.error('Failed to start web server', { error });
       throw error;
@@ -350,6 +1614,14 @@ export class WebServer {
 
   async stop(): Promise<void> {
     try {
+      this.telemetryBroadcaster.stop();
+      await this.renditionLadder.stop();
+      await this.streamRecorder.stop();
+      await this.auditLog.flush();
+      await this.realStreamManager.close();
+      this.cmafPackager.stop();
+      this.timeShiftStore.stop();
+
       // Stop streaming server
       await this.streamingServer.stop();
       
@@ -367,7 +1639,87 @@ export class WebServer {
     }
   }
 
+  getPort(): number {
+    return this.port;
+  }
+
   getStreamingServer(): StreamingServer {
     return this.streamingServer;
   }
+
+  getDistributionService(): StreamDistributionService {
+    return this.distributionService;
+  }
+
+  getTelemetryBroadcaster(): TelemetryBroadcaster {
+    return this.telemetryBroadcaster;
+  }
+
+  getSignalingServer(): SignalingServer {
+    return this.signalingServer;
+  }
+
+  getWhipEndpoint(): WhipEndpoint {
+    return this.whipEndpoint;
+  }
+
+  getWhepEndpoint(): WhepEndpoint {
+    return this.whepEndpoint;
+  }
+
+  getRenditionLadder(): RenditionLadder {
+    return this.renditionLadder;
+  }
+
+  getTimeShiftStore(): TimeShiftStore {
+    return this.timeShiftStore;
+  }
+
+  getStreamRecorder(): StreamRecorder {
+    return this.streamRecorder;
+  }
+
+  getAuthService(): AuthService {
+    return this.authService;
+  }
+
+  getStreamKeyStore(): StreamKeyStore {
+    return this.streamKeyStore;
+  }
+
+  getWatchConsent(): WatchConsentManager {
+    return this.watchConsent;
+  }
+
+  getAuditLog(): AuditLog {
+    return this.auditLog;
+  }
+
+  getRealStreamManager(): RealStreamManager {
+    return this.realStreamManager;
+  }
+
+  getCmafPackager(): CmafPackager {
+    return this.cmafPackager;
+  }
+
+  getHlsPackager(): HlsPackager {
+    return this.hlsPackager;
+  }
+
+  getDashPackager(): DashPackager {
+    return this.dashPackager;
+  }
+}
+
+function parseAuditTime(field: string, value: unknown): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const time = typeof value === 'string' ? (/^\d+$/.test(value) ? Number(value) : Date.parse(value)) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`${field} must be an ISO date or epoch milliseconds`);
+  }
+  return new Date(time);
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events';
+import { StreamId, SessionId, ViewerId } from '../types';
+import { WebRTCServer } from './WebRTCServer';
+import { StreamDistributionService } from './StreamDistributionService';
+import { IceResourceEndpoint, TrickleFragment, parseTrickleFragment } from './WhipEndpoint';
+
+export interface WhepResource {
+  resourceId: string;
+  streamId: StreamId;
+  viewerId: ViewerId;
+  sessionId: SessionId;
+  answer: string;
+  location: string;
+  remoteUfrag: string | null;
+  createdAt: Date;
+}
+
+/**
+ * WHEP (WebRTC-HTTP Egress Protocol) endpoint for viewers
+ * Each POSTed offer becomes a WebRTCServer subscriber that receives the stream's
+ * enhanced output, and a distribution viewer session for the length of playback
+ */
+export class WhepEndpoint extends EventEmitter implements IceResourceEndpoint<WhepResource> {
+  private webrtcServer: WebRTCServer;
+  private distributionService: StreamDistributionService;
+  private resources: Map<string, WhepResource> = new Map();
+
+  constructor(webrtcServer: WebRTCServer, distributionService: StreamDistributionService) {
+    super();
+    this.webrtcServer = webrtcServer;
+    this.distributionService = distributionService;
+    this.setupWebRTCHandlers();
+  }
+
+  /**
+   * Create a playback resource from an SDP offer
+   * Returns null when the stream is not live over WebRTC
+   */
+  async play(streamId: StreamId, offer: string, region?: string): Promise<WhepResource | null> {
+    if (!offer.startsWith('v=0')) {
+      throw new Error('Body is not an SDP offer');
+    }
+
+    if (!this.distributionService.hasStream(streamId) || !this.webrtcServer.hasPublisher(streamId)) {
+      return null;
+    }
+
+    const viewerId = `whep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const connection = await this.webrtcServer.handleSubscribeRequest(streamId, viewerId);
+
+    try {
+      const answer = await this.webrtcServer.handleOffer(connection.connectionId, { type: 'offer', sdp: offer });
+      const session = await this.distributionService.subscribeViewer(viewerId, streamId, { region });
+
+      const resource: WhepResource = {
+        resourceId: connection.connectionId,
+        streamId,
+        viewerId,
+        sessionId: session.sessionId,
+        answer: answer.sdp,
+        location: `/whep/${encodeURIComponent(streamId)}/${connection.connectionId}`,
+        remoteUfrag: parseTrickleFragment(offer).ufrag,
+        createdAt: new Date()
+      };
+      this.resources.set(resource.resourceId, resource);
+
+      this.emit('whep:playing', { resourceId: resource.resourceId, streamId, sessionId: session.sessionId });
+      return resource;
+    } catch (error) {
+      await this.webrtcServer.closeConnection(connection.connectionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a resource, provided it plays the given stream
+   */
+  getResource(streamId: StreamId, resourceId: string): WhepResource | undefined {
+    const resource = this.resources.get(resourceId);
+    return resource && resource.streamId === streamId ? resource : undefined;
+  }
+
+  /**
+   * Check if a trickle fragment asks for an ICE restart (new remote credentials)
+   */
+  isIceRestart(resource: WhepResource, fragment: TrickleFragment): boolean {
+    return fragment.ufrag !== null && resource.remoteUfrag !== null && fragment.ufrag !== resource.remoteUfrag;
+  }
+
+  /**
+   * Apply trickled remote candidates to a resource's connection
+   */
+  async trickle(resource: WhepResource, fragment: TrickleFragment): Promise<number> {
+    for (const candidate of fragment.candidates) {
+      await this.webrtcServer.handleIceCandidate(resource.resourceId, candidate);
+    }
+
+    return fragment.candidates.length;
+  }
+
+  /**
+   * Stop playback and release the viewer session
+   */
+  async teardown(resource: WhepResource): Promise<void> {
+    await this.webrtcServer.closeConnection(resource.resourceId);
+
+    // Normally already released by the connection:closed handler
+    await this.release(resource.resourceId);
+  }
+
+  /**
+   * Get the number of live WHEP resources
+   */
+  getResourceCount(): number {
+    return this.resources.size;
+  }
+
+  private async release(resourceId: string): Promise<void> {
+    const resource = this.resources.get(resourceId);
+    if (!resource) {
+      return;
+    }
+
+    this.resources.delete(resourceId);
+    await this.distributionService.unsubscribeViewer(resource.sessionId);
+
+    this.emit('whep:deleted', { resourceId, streamId: resource.streamId, sessionId: resource.sessionId });
+  }
+
+  private setupWebRTCHandlers(): void {
+    // Viewers leave when their connection closes, including when the publisher ends the stream
+    this.webrtcServer.on('connection:closed', (data) => {
+      this.release(data.connectionId).catch(() => undefined);
+    });
+  }
+}
\ No newline at end of file
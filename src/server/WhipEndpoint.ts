@@ -0,0 +1,205 @@
+import { EventEmitter } from 'events';
+import { StreamConfig, StreamId, IceCandidateMessage, PublishGrant } from '../types';
+import { WebRTCServer } from './WebRTCServer';
+import { StreamIngestionService } from './StreamIngestionService';
+
+export interface WhipEndpointOptions {
+  defaultStreamConfig: StreamConfig;
+}
+
+export interface WhipResource {
+  resourceId: string;
+  streamKey: string;
+  streamId: StreamId;
+  answer: string;
+  location: string;
+  remoteUfrag: string | null;
+  createdAt: Date;
+}
+
+export interface TrickleFragment {
+  ufrag: string | null;
+  pwd: string | null;
+  candidates: IceCandidateMessage[];
+}
+
+/**
+ * Resource operations shared by the WHIP and WHEP HTTP endpoints
+ */
+export interface IceResourceEndpoint<R> {
+  getResource(key: string, resourceId: string): R | undefined;
+  isIceRestart(resource: R, fragment: TrickleFragment): boolean;
+  trickle(resource: R, fragment: TrickleFragment): Promise<number>;
+  teardown(resource: R): Promise<void>;
+}
+
+const DEFAULT_OPTIONS: WhipEndpointOptions = {
+  defaultStreamConfig: {
+    resolution: { width: 1280, height: 720 },
+    frameRate: 30,
+    bitrate: 2500000,
+    audioEnabled: true
+  }
+};
+
+/**
+ * Parse an application/trickle-ice-sdpfrag body into its ICE credentials and candidates
+ */
+export function parseTrickleFragment(fragment: string): TrickleFragment {
+  const result: TrickleFragment = { ufrag: null, pwd: null, candidates: [] };
+  let mid: string | null = null;
+  let mLineIndex = -1;
+
+  for (const rawLine of fragment.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (line.startsWith('m=')) {
+      mLineIndex++;
+      mid = null;
+    } else if (line.startsWith('a=mid:')) {
+      mid = line.slice('a=mid:'.length);
+    } else if (line.startsWith('a=ice-ufrag:')) {
+      result.ufrag = line.slice('a=ice-ufrag:'.length);
+    } else if (line.startsWith('a=ice-pwd:')) {
+      result.pwd = line.slice('a=ice-pwd:'.length);
+    } else if (line.startsWith('a=candidate:')) {
+      result.candidates.push({
+        candidate: line.slice('a='.length),
+        sdpMid: mid,
+        sdpMLineIndex: mLineIndex >= 0 ? mLineIndex : null
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * WHIP (WebRTC-HTTP Ingestion Protocol) endpoint for publishers
+ * Each POSTed offer becomes a WebRTCServer connection and an accepted ingestion
+ * stream; the returned resource takes trickled candidates and is deleted on teardown
+ */
+export class WhipEndpoint extends EventEmitter implements IceResourceEndpoint<WhipResource> {
+  private webrtcServer: WebRTCServer;
+  private ingestionService: StreamIngestionService;
+  private options: WhipEndpointOptions;
+  private resources: Map<string, WhipResource> = new Map();
+
+  constructor(
+    webrtcServer: WebRTCServer,
+    ingestionService: StreamIngestionService,
+    options: Partial<WhipEndpointOptions> = {}
+  ) {
+    super();
+    this.webrtcServer = webrtcServer;
+    this.ingestionService = ingestionService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.setupWebRTCHandlers();
+  }
+
+  /**
+   * Create a publishing resource from an SDP offer
+   * Returns null when the stream key is not accepted
+   */
+  async publish(streamKey: string, offer: string, address: string | null = null): Promise<WhipResource | null> {
+    if (!offer.startsWith('v=0')) {
+      throw new Error('Body is not an SDP offer');
+    }
+
+    let grant: PublishGrant;
+    try {
+      grant = this.ingestionService.authorizePublish(streamKey, { protocol: 'whip', address });
+    } catch {
+      return null; // the refusal has been logged
+    }
+    const { userId } = grant;
+
+    const streamConfig: StreamConfig = {
+      ...this.options.defaultStreamConfig,
+      audioEnabled: /^m=audio /m.test(offer)
+    };
+
+    const connection = await this.webrtcServer.handleConnectionRequest(userId, streamConfig);
+
+    try {
+      const answer = await this.webrtcServer.handleOffer(connection.connectionId, { type: 'offer', sdp: offer });
+      const streamId = await this.ingestionService.acceptStream(connection, grant);
+
+      const resource: WhipResource = {
+        resourceId: connection.connectionId,
+        streamKey,
+        streamId,
+        answer: answer.sdp,
+        location: `/whip/${encodeURIComponent(streamKey)}/${connection.connectionId}`,
+        remoteUfrag: parseTrickleFragment(offer).ufrag,
+        createdAt: new Date()
+      };
+      this.resources.set(resource.resourceId, resource);
+
+      this.emit('whip:published', { resourceId: resource.resourceId, streamKey, streamId, userId });
+      return resource;
+    } catch (error) {
+      await this.webrtcServer.closeConnection(connection.connectionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a resource, provided it belongs to the given stream key
+   */
+  getResource(streamKey: string, resourceId: string): WhipResource | undefined {
+    const resource = this.resources.get(resourceId);
+    return resource && resource.streamKey === streamKey ? resource : undefined;
+  }
+
+  /**
+   * Check if a trickle fragment asks for an ICE restart (new remote credentials)
+   */
+  isIceRestart(resource: WhipResource, fragment: TrickleFragment): boolean {
+    return fragment.ufrag !== null && resource.remoteUfrag !== null && fragment.ufrag !== resource.remoteUfrag;
+  }
+
+  /**
+   * Apply trickled remote candidates to a resource's connection
+   */
+  async trickle(resource: WhipResource, fragment: TrickleFragment): Promise<number> {
+    for (const candidate of fragment.candidates) {
+      await this.webrtcServer.handleIceCandidate(resource.resourceId, candidate);
+    }
+
+    return fragment.candidates.length;
+  }
+
+  /**
+   * Tear down a resource and its connection
+   */
+  async teardown(resource: WhipResource): Promise<void> {
+    await this.webrtcServer.closeConnection(resource.resourceId);
+
+    // Normally already removed by the connection:closed handler
+    this.resources.delete(resource.resourceId);
+  }
+
+  /**
+   * Get the number of live WHIP resources
+   */
+  getResourceCount(): number {
+    return this.resources.size;
+  }
+
+  private setupWebRTCHandlers(): void {
+    this.webrtcServer.on('connection:closed', (data) => {
+      const resource = this.resources.get(data.connectionId);
+      if (!resource) {
+        return;
+      }
+
+      this.resources.delete(data.connectionId);
+      this.emit('whip:deleted', {
+        resourceId: resource.resourceId,
+        streamKey: resource.streamKey,
+        streamId: resource.streamId
+      });
+    });
+  }
+}
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { WebRTCServer } from './WebRTCServer';
 import { StreamIngestionService } from './StreamIngestionService';
+import { RtmpServer } from './RtmpServer';
+import { SrtServer, SrtServerOptions } from './SrtServer';
 import { logger } from '../utils/logger';
 
 /**
@@ -9,11 +11,27 @@ import { logger } from '../utils/logger';
 export class StreamingServer {
   private webrtcServer: WebRTCServer;
   private ingestionService: StreamIngestionService;
+  private rtmpServer: RtmpServer | null = null;
+  private srtServer: SrtServer | null = null;
   private isRunning: boolean = false;
 
-  constructor(port: number = 8080, bufferSize: number = 30) {
+  constructor(
+    port: number = 8080,
+    bufferSize: number = 30,
+    rtmpPort: number | null = null,
+    srtPort: number | null = null,
+    srtOptions: Partial<SrtServerOptions> = {}
+  ) {
     this.webrtcServer = new WebRTCServer(port);
     this.ingestionService = new StreamIngestionService(this.webrtcServer, bufferSize);
+    if (rtmpPort !== null) {
+      this.rtmpServer = new RtmpServer(rtmpPort);
+      this.ingestionService.attachRtmpServer(this.rtmpServer);
+    }
+    if (srtPort !== null) {
+      this.srtServer = new SrtServer(srtPort, srtOptions);
+      this.ingestionService.attachSrtServer(this.srtServer);
+    }
     this.setupEventHandlers();
   }
 
@@ -27,6 +45,12 @@ export class StreamingServer {
 
     try {
       await this.webrtcServer.start();
+      if (this.rtmpServer) {
+        await this.rtmpServer.start();
+      }
+      if (this.srtServer) {
+        await this.srtServer.start();
+      }
       this.isRunning = true;
       
       logger.info('Streaming server started successfully', {
@@ -44,12 +68,20 @@ export class StreamingServer {
    * Stop the streaming server
    */
   async stop(): Promise<void> {
+    // The processor runs from construction, whether or not the server was started
+    this.ingestionService.stop();
     if (!this.isRunning) {
       return;
     }
 
     try {
       await this.webrtcServer.stop();
+      if (this.rtmpServer) {
+        await this.rtmpServer.stop();
+      }
+      if (this.srtServer) {
+        await this.srtServer.stop();
+      }
       this.isRunning = false;
       
       logger.info('Streaming server stopped successfully');
@@ -91,6 +123,20 @@ export class StreamingServer {
     return this.webrtcServer;
   }
 
+  /**
+   * Get RTMP ingest server, if RTMP ingest is enabled
+   */
+  getRtmpServer(): RtmpServer | null {
+    return this.rtmpServer;
+  }
+
+  /**
+   * Get SRT ingest server, if SRT ingest is enabled
+   */
+  getSrtServer(): SrtServer | null {
+    return this.srtServer;
+  }
+
   private setupEventHandlers(): void {
     // WebRTC Server events
     this.webrtcServer.on('server:started', (data) => {
@@ -116,6 +162,13 @@ export class StreamingServer {
       });
     });
 
+    this.webrtcServer.on('subscriber:new', (data) => {
+      logger.info('New WebRTC subscriber', { 
+        connectionId: data.connectionId,
+        streamId: data.streamId 
+      });
+    });
+
     this.webrtcServer.on('connection:closed', (data) => {
       logger.info('WebRTC connection closed', { 
         connectionId: data.connectionId,
@@ -123,6 +176,75 @@ export class StreamingServer {
       });
     });
 
+    // RTMP Server events
+    if (this.rtmpServer) {
+      this.rtmpServer.on('server:started', (data) => {
+        logger.info('RTMP server started', data);
+      });
+
+      this.rtmpServer.on('stream:publish', (data) => {
+        logger.info('RTMP publish started', {
+          sessionId: data.sessionId,
+          app: data.app
+        });
+      });
+
+      this.rtmpServer.on('stream:unpublish', (data) => {
+        logger.info('RTMP publish ended', { sessionId: data.sessionId });
+      });
+
+      this.rtmpServer.on('session:error', (data) => {
+        logger.error('RTMP session error', {
+          sessionId: data.sessionId,
+          error: data.error
+        });
+      });
+    }
+
+    // SRT Server events
+    if (this.srtServer) {
+      this.srtServer.on('server:started', (data) => {
+        logger.info('SRT server started', data);
+      });
+
+      this.srtServer.on('stream:publish', (data) => {
+        logger.info('SRT feed connected', {
+          sessionId: data.sessionId,
+          mode: data.mode,
+          latencyMs: data.latencyMs,
+          encrypted: data.encrypted
+        });
+      });
+
+      this.srtServer.on('stream:unpublish', (data) => {
+        logger.info('SRT feed disconnected', {
+          sessionId: data.sessionId,
+          reason: data.reason,
+          droppedPackets: data.droppedPackets
+        });
+      });
+
+      this.srtServer.on('session:rejected', (data) => {
+        logger.warn('SRT caller rejected', {
+          address: data.address,
+          reason: data.reason,
+          error: data.error
+        });
+      });
+
+      this.srtServer.on('session:error', (data) => {
+        logger.error('SRT session error', {
+          sessionId: data.sessionId,
+          error: data.error
+        });
+      });
+    }
+
+    // Forward processed output to WebRTC subscribers
+    this.ingestionService.on('frames:enhanced', (data) => {
+      this.webrtcServer.forwardFrames(data.streamId, data.enhancedFrames);
+    });
+
     // Ingestion Service events
     this.ingestionService.on('stream:accepted', (data) => {
       logger.info('Stream accepted', { 
@@ -177,6 +299,29 @@ export class StreamingServer {
       });
     });
 
+    this.ingestionService.on('ai:fallback', (data) => {
+      logger.warn('AI model unavailable, passing frames through', { 
+        streamId: data.streamId,
+        modelType: data.modelType,
+        error: data.error 
+      });
+    });
+
+    this.ingestionService.on('model:error', (data) => {
+      logger.error('AI model failed to load', { 
+        modelType: data.modelType,
+        modelPath: data.modelPath,
+        error: data.error 
+      });
+    });
+
+    this.ingestionService.on('model:fallback', (data) => {
+      logger.warn('AI model unavailable, using CPU reference enhancement', { 
+        modelType: data.modelType,
+        modelPath: data.modelPath 
+      });
+    });
+
     // Process monitoring
     this.ingestionService.on('processing:next', (data) => {
       logger.debug('Next stream for processing', { streamId: data.streamId });
@@ -187,4 +332,7 @@ export class StreamingServer {
 // Export for use in other modules
 export { WebRTCServer } from './WebRTCServer';
 export { StreamIngestionService } from './StreamIngestionService';
-export { StreamBuffer, StreamRouter } from './StreamBuffer';
\ No newline at end of file
+export { RtmpServer } from './RtmpServer';
+export { SrtServer } from './SrtServer';
+export { StreamBuffer, StreamRouter } from './StreamBuffer';
+export { StreamDistributionService } from './StreamDistributionService';
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * Mock Socket.IO server that records emitted events per socket, in order
+ * Connection handlers are never invoked; tests that need them run a real server
+ */
+export class MockSocketServer {
+  readonly received: Map<string, { event: string; data: any }[]> = new Map();
+  public sockets = { sockets: new Map<string, { emit: (event: string, data: any) => void }>() };
+
+  on(_event: string, _handler: (...args: any[]) => void): void {
+    // Handlers are registered but never called
+  }
+
+  addSocket(socketId: string): void {
+    this.received.set(socketId, []);
+    this.sockets.sockets.set(socketId, {
+      emit: (event: string, data: any) => {
+        this.received.get(socketId)!.push({ event, data });
+      }
+    });
+  }
+
+  getEvents(socketId: string, event: string): any[] {
+    return (this.received.get(socketId) || [])
+      .filter(entry => entry.event === event)
+      .map(entry => entry.data);
+  }
+}
\ No newline at end of file
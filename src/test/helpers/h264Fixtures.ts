@@ -0,0 +1,83 @@
+import { EnhancedFrame } from '../../types';
+
+// Baseline profile, level 3.0
+export const H264_SPS = Buffer.from([0x67, 0x42, 0xc0, 0x1e, 0xd9, 0x00, 0xa0, 0x47, 0xfe, 0xc8]);
+export const H264_PPS = Buffer.from([0x68, 0xce, 0x3c, 0x80]);
+
+export interface H264FrameOptions {
+  intervalMs: number;
+  firstTimestamp: number;
+  firstIndex: number; // continues the payloads and timestamps of an earlier call
+  width: number;
+  height: number;
+  parameterSets: Buffer[]; // sent with every keyframe
+  leading: number; // frames before the first keyframe
+}
+
+const DEFAULT_FRAME_OPTIONS: H264FrameOptions = {
+  intervalMs: 40,
+  firstTimestamp: 0,
+  firstIndex: 0,
+  width: 640,
+  height: 360,
+  parameterSets: [H264_SPS, H264_PPS],
+  leading: 0
+};
+
+export function annexB(nals: Buffer[]): Uint8Array {
+  return new Uint8Array(Buffer.concat(nals.flatMap(nal => [Buffer.from([0, 0, 0, 1]), nal])));
+}
+
+/**
+ * H.264 access units with the given GOP lengths; payload bytes are never zero so no start code is emulated
+ */
+export function h264Frames(gops: number[], options: Partial<H264FrameOptions> = {}): EnhancedFrame[] {
+  const { intervalMs, firstTimestamp, firstIndex, width, height, parameterSets, leading } = { ...DEFAULT_FRAME_OPTIONS, ...options };
+  const frames: EnhancedFrame[] = [];
+  const lengths = leading > 0 ? [leading, ...gops] : gops;
+
+  lengths.forEach((length, gop) => {
+    for (let i = 0; i < length; i++) {
+      const index = firstIndex + frames.length;
+      const keyframe = i === 0 && (leading === 0 || gop > 0);
+      const payload = Buffer.alloc(20 + (index * 37) % 300, (index % 254) + 1);
+      const slice = Buffer.concat([Buffer.from([keyframe ? 0x65 : 0x41]), payload]);
+      frames.push({
+        data: annexB([Buffer.from([0x09, 0xf0]), ...(keyframe ? parameterSets : []), slice]),
+        timestamp: firstTimestamp + index * intervalMs,
+        width,
+        height,
+        format: 'h264',
+        keyframe,
+        processingTime: 1,
+        enhancementApplied: []
+      });
+    }
+  });
+  return frames;
+}
+
+export function readBoxes(data: Buffer): Array<{ type: string; start: number; size: number; body: Buffer }> {
+  const boxes = [];
+  for (let offset = 0; offset + 8 <= data.length;) {
+    const size = data.readUInt32BE(offset);
+    boxes.push({ type: data.toString('ascii', offset + 4, offset + 8), start: offset, size, body: data.subarray(offset + 8, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * The body of the box at a path of nested box types, or null when one is missing
+ */
+export function findBox(data: Buffer, path: string[]): Buffer | null {
+  let current = data;
+  for (const type of path) {
+    const found = readBoxes(current).find(box => box.type === type);
+    if (!found) {
+      return null;
+    }
+    current = found.body;
+  }
+  return current;
+}
\ No newline at end of file
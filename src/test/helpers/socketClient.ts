@@ -0,0 +1,20 @@
+import { io as connectSocket, Socket as ClientSocket } from 'socket.io-client';
+
+/**
+ * Connect a Socket.IO client to a test server, signed in when a token is given
+ */
+export function connect(base: string, token?: string): { socket: ClientSocket; connected: Promise<void> } {
+  const socket = connectSocket(base, { transports: ['websocket'], reconnection: false, auth: token ? { token } : {} });
+  const connected = new Promise<void>((resolve, reject) => {
+    socket.once('connect', resolve);
+    socket.once('connect_error', reject);
+  });
+  return { socket, connected };
+}
+
+/**
+ * The next payload of an event on a client socket
+ */
+export function next<T = any>(socket: ClientSocket, event: string): Promise<T> {
+  return new Promise(resolve => socket.once(event, resolve));
+}
\ No newline at end of file
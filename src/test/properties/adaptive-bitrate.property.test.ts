@@ -0,0 +1,338 @@
+/**
+ * Property-based tests for per-viewer adaptive bitrate
+ * Feature: ai-live-streaming, Property 23: Viewers switch renditions only at keyframes, down at once and up only after sustained headroom
+ */
+
+import fc from 'fast-check';
+import { io as connectSocket, Socket as ClientSocket } from 'socket.io-client';
+import { StreamDistributionService } from '../../server/StreamDistributionService';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { WebRTCServer } from '../../server/WebRTCServer';
+import { WebServer } from '../../server/WebServer';
+import { RenditionLadder } from '../../server/RenditionLadder';
+import { RenditionEncoder, RenditionEncoderConfig, RenditionEncoderFactory, RenditionEncoderSink } from '../../server/RenditionEncoder';
+import { EnhancedFrame, NetworkMetrics, QualityLevel, VideoStream } from '../../types';
+import { QUALITY_LEVELS, getQualityLevelPreset } from '../../utils/qualityPresets';
+import { MockSocketServer } from '../helpers/MockSocketServer';
+import { h264Frames } from '../helpers/h264Fixtures';
+
+/**
+ * Encoder that returns its input at once, so transcoded renditions keep the source keyframes
+ */
+class EchoEncoderFactory implements RenditionEncoderFactory {
+  readonly name = 'echo';
+  sinks: Map<number, RenditionEncoderSink> = new Map();
+
+  create(config: RenditionEncoderConfig, sink: RenditionEncoderSink): RenditionEncoder {
+    this.sinks.set(config.height, sink);
+    return {
+      encode: (frame) => sink.frame(frame.data),
+      close: async () => {}
+    };
+  }
+}
+
+function createStream(streamId: string): VideoStream {
+  return {
+    streamId,
+    userId: `user_${streamId}`,
+    config: {
+      resolution: { width: 1280, height: 720 },
+      frameRate: 25,
+      bitrate: 2000000,
+      audioEnabled: false
+    },
+    frames: [],
+    metadata: {
+      streamId,
+      frameNumber: 0,
+      timestamp: Date.now(),
+      quality: 'medium'
+    }
+  };
+}
+
+function createFrames(keyframes: boolean[], firstTimestamp: number): EnhancedFrame[] {
+  return keyframes.map((keyframe, i) => ({
+    data: new Uint8Array(12),
+    timestamp: firstTimestamp + i * 40,
+    width: 2,
+    height: 2,
+    format: 'h264' as const,
+    keyframe,
+    processingTime: 5,
+    enhancementApplied: []
+  }));
+}
+
+function metrics(bandwidth: number, overrides: Partial<NetworkMetrics> = {}): NetworkMetrics {
+  return { bandwidth, latency: 20, packetLoss: 0, jitter: 5, ...overrides };
+}
+
+function bitrate(quality: QualityLevel): number {
+  return getQualityLevelPreset(quality).bitrate;
+}
+
+describe('Adaptive Bitrate Properties', () => {
+  let clock = 0;
+
+  // Hold periods are measured on a clock the tests advance
+  const useClock = () => {
+    clock = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('quality changes happen only at keyframes, are counted once each, and never leave a viewer above its bandwidth', async () => {
+    useClock();
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.oneof(
+            fc.record({ bandwidth: fc.integer({ min: 0, max: 12_000_000 }), elapsedMs: fc.integer({ min: 0, max: 3000 }) }),
+            fc.array(fc.boolean(), { minLength: 1, maxLength: 8 })
+          ),
+          { maxLength: 60 }
+        ),
+        async (operations) => {
+          const io = new MockSocketServer();
+          io.addSocket('socket_viewer');
+          const service = new StreamDistributionService(io as any, 'medium', { upswitchHoldMs: 4000 });
+          const serviceChanges: any[] = [];
+          service.on('viewer:quality-changed', change => serviceChanges.push(change));
+
+          await service.publishStream('stream_abr', createStream('stream_abr'));
+          const { sessionId } = await service.subscribeViewer('viewer', 'stream_abr', { socketId: 'socket_viewer' });
+          let timestamp = 0;
+          let pushed = 0;
+
+          for (const operation of operations) {
+            if (Array.isArray(operation)) {
+              service.distributeFrames('stream_abr', createFrames(operation, timestamp));
+              timestamp += operation.length * 40;
+              pushed += operation.length;
+              continue;
+            }
+
+            clock += operation.elapsedMs;
+            service.adaptBitrate(sessionId, metrics(operation.bandwidth));
+            const target = service.getPendingQuality(sessionId) ?? service.getViewerSession(sessionId)!.currentQuality;
+            if (operation.bandwidth > 0) {
+              expect(target === 'low' || bitrate(target) <= operation.bandwidth * 0.8).toBe(true);
+            }
+          }
+
+          // Every frame is delivered once, labelled with the level in effect for it
+          let label: QualityLevel | null = null;
+          let switchedTo: QualityLevel | null = null;
+          let delivered = 0;
+          for (const { event, data } of io.received.get('socket_viewer')!) {
+            if (event === 'quality-changed') {
+              expect(data.from).toBe(label);
+              expect(data.to).not.toBe(label);
+              switchedTo = data.to;
+              continue;
+            }
+
+            if (switchedTo !== null) {
+              expect(data.quality).toBe(switchedTo);
+              label = switchedTo;
+              switchedTo = null;
+            }
+            expect(data.quality).toBe(label ?? data.quality);
+            label = data.quality;
+            delivered += data.frames.length;
+          }
+          expect(delivered).toBe(pushed);
+
+          const changes = io.getEvents('socket_viewer', 'quality-changed');
+          expect(service.getViewerSession(sessionId)!.engagement.qualityChanges).toBe(changes.length);
+          expect(serviceChanges).toEqual(changes);
+
+          // The first frame of each new level is a keyframe
+          const batches = io.getEvents('socket_viewer', 'stream-frames');
+          const keyframesAt = new Set<number>();
+          operations.filter(Array.isArray).reduce((start, keyframes) => {
+            keyframes.forEach((keyframe, i) => keyframe && keyframesAt.add(start + i * 40));
+            return start + keyframes.length * 40;
+          }, 0);
+          for (let i = 1; i < batches.length; i++) {
+            if (batches[i].quality !== batches[i - 1].quality) {
+              expect(keyframesAt.has(batches[i].frames[0].timestamp)).toBe(true);
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('bandwidth hovering around a level does not flap, and a higher level needs sustained headroom', async () => {
+    useClock();
+    const io = new MockSocketServer();
+    io.addSocket('socket_viewer');
+    const service = new StreamDistributionService(io as any, 'medium');
+    await service.publishStream('stream_abr', createStream('stream_abr'));
+    const { sessionId } = await service.subscribeViewer('viewer', 'stream_abr', { socketId: 'socket_viewer' });
+    service.distributeFrames('stream_abr', createFrames([true], 0));
+
+    // Between medium's bitrate and the headroom high needs, nothing changes
+    for (let i = 0; i < 20; i++) {
+      clock += 1000;
+      service.adaptBitrate(sessionId, metrics(i % 2 === 0 ? 2_600_000 : 6_000_000));
+      expect(service.getPendingQuality(sessionId)).toBeNull();
+    }
+
+    // Enough for high with headroom, but only until the hold period has passed
+    const sustained = (bitrate('high') * 1.25) / 0.8;
+    for (let elapsed = 0; elapsed < 5000; elapsed += 1000) {
+      service.adaptBitrate(sessionId, metrics(sustained));
+      expect(service.getPendingQuality(sessionId)).toBeNull();
+      clock += 1000;
+    }
+    service.adaptBitrate(sessionId, metrics(sustained));
+    expect(service.getPendingQuality(sessionId)).toBe('high');
+
+    // The switch waits for a keyframe
+    service.distributeFrames('stream_abr', createFrames([false, false], 40));
+    expect(service.getViewerSession(sessionId)!.currentQuality).toBe('medium');
+    service.distributeFrames('stream_abr', createFrames([false, true, false], 120));
+    expect(service.getViewerSession(sessionId)!.currentQuality).toBe('high');
+    expect(io.getEvents('socket_viewer', 'stream-frames').slice(-2).map(batch => [batch.quality, batch.frames.length]))
+      .toEqual([['medium', 1], ['high', 2]]);
+
+    // A drop below the current level switches down without waiting
+    service.adaptBitrate(sessionId, metrics(bitrate('low') / 0.8));
+    expect(service.getPendingQuality(sessionId)).toBe('low');
+    // A recovery before the keyframe cancels the pending switch
+    service.adaptBitrate(sessionId, metrics(sustained));
+    expect(service.getPendingQuality(sessionId)).toBeNull();
+    service.distributeFrames('stream_abr', createFrames([true], 240));
+
+    const session = service.getViewerSession(sessionId)!;
+    expect(session.currentQuality).toBe('high');
+    expect(session.engagement.qualityChanges).toBe(1);
+    expect(session.networkMetrics).toEqual(metrics(sustained));
+  });
+
+  test('packet loss and unstable delay reduce the bandwidth a viewer is given', async () => {
+    const service = new StreamDistributionService(new MockSocketServer() as any, 'high', { upswitchHoldMs: 0 });
+    await service.publishStream('stream_abr', createStream('stream_abr'));
+    const { sessionId } = await service.subscribeViewer('viewer', 'stream_abr');
+    const target = () => service.getPendingQuality(sessionId) ?? service.getViewerSession(sessionId)!.currentQuality;
+
+    service.adaptBitrate(sessionId, metrics(6_000_000));
+    expect(target()).toBe('high');
+    service.adaptBitrate(sessionId, metrics(6_000_000, { packetLoss: 10 }));
+    expect(target()).toBe('medium');
+    service.adaptBitrate(sessionId, metrics(6_000_000, { latency: 300, jitter: 60 }));
+    expect(target()).toBe('medium');
+    service.adaptBitrate(sessionId, metrics(6_000_000, { packetLoss: 10, latency: 300, jitter: 60 }));
+    expect(target()).toBe('low');
+    service.adaptBitrate(sessionId, metrics(20_000_000, { packetLoss: 25 }));
+    expect(target()).toBe('low');
+
+    // An unmeasured bandwidth is recorded but does not move the viewer
+    service.adaptBitrate(sessionId, metrics(0));
+    expect(target()).toBe('low');
+    expect(service.getViewerSession(sessionId)!.networkMetrics.bandwidth).toBe(0);
+  });
+
+  test('viewers of a laddered stream receive their rendition\'s frames and join a new one at its next keyframe', async () => {
+    const io = new MockSocketServer();
+    const ingestion = new StreamIngestionService(new WebRTCServer(0));
+    const encoder = new EchoEncoderFactory();
+    const ladder = new RenditionLadder(ingestion, encoder, { levels: ['low', 'medium'] });
+    const service = new StreamDistributionService(io as any, 'high', { upswitchHoldMs: 0 });
+    service.attachRenditionLadder(ladder);
+    await service.publishStream('stream_abr', createStream('stream_abr'));
+
+    io.addSocket('socket_switching');
+    io.addSocket('socket_steady');
+    const switching = await service.subscribeViewer('viewer_switching', 'stream_abr', { socketId: 'socket_switching' });
+    const steady = await service.subscribeViewer('viewer_steady', 'stream_abr', { socketId: 'socket_steady' });
+
+    const frames = h264Frames([10, 10, 10], { width: 1280, height: 720 });
+    ladder.pushFrames('stream_abr', frames.slice(0, 5));
+    service.adaptBitrate(switching.sessionId, metrics(bitrate('low') / 0.8));
+    ladder.pushFrames('stream_abr', frames.slice(5, 15));
+    ladder.pushFrames('stream_abr', frames.slice(15));
+
+    // Neither viewer gets a 1080p stream the ladder does not offer; both start at its nearest level
+    const steadyBatches = io.getEvents('socket_steady', 'stream-frames');
+    expect(new Set(steadyBatches.map(batch => batch.quality))).toEqual(new Set(['medium']));
+    expect(steadyBatches.flatMap(batch => batch.frames.map((frame: any) => frame.timestamp)))
+      .toEqual(frames.map(frame => frame.timestamp));
+    expect(service.getViewerSession(steady.sessionId)!.engagement.qualityChanges).toBe(0);
+
+    const received = io.getEvents('socket_switching', 'stream-frames')
+      .flatMap(batch => batch.frames.map((frame: any) => ({ quality: batch.quality, timestamp: frame.timestamp, width: frame.width })));
+    expect(received.map(frame => frame.timestamp)).toEqual(frames.map(frame => frame.timestamp));
+    expect(received.slice(0, 10).every(frame => frame.quality === 'medium' && frame.width === 1280)).toBe(true);
+    expect(received.slice(10).every(frame => frame.quality === 'low' && frame.width === 854)).toBe(true);
+    expect(io.getEvents('socket_switching', 'quality-changed')).toMatchObject([{ from: 'medium', to: 'low' }]);
+
+    // Viewers of a failed rendition move to the nearest remaining one
+    encoder.sinks.get(480)!.error(new Error('encoder crashed'));
+    expect(service.getPendingQuality(switching.sessionId)).toBe('medium');
+    ladder.pushFrames('stream_abr', h264Frames([10], { width: 1280, height: 720 }).map(frame => ({ ...frame, timestamp: frame.timestamp + 1200 })));
+    expect(service.getViewerSession(switching.sessionId)!.currentQuality).toBe('medium');
+    expect(service.getViewerSession(switching.sessionId)!.engagement.qualityChanges).toBe(2);
+
+    await ladder.stop();
+  });
+
+  test('viewers report network conditions over their socket', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000 });
+    await server.start();
+    const sockets: ClientSocket[] = [];
+
+    const connect = async () => {
+      const socket = connectSocket(`http://127.0.0.1:${server.getPort()}`, { transports: ['websocket'], reconnection: false });
+      sockets.push(socket);
+      await new Promise<void>((resolve, reject) => {
+        socket.once('connect', resolve);
+        socket.once('connect_error', reject);
+      });
+      return socket;
+    };
+    const next = (socket: ClientSocket, event: string) => new Promise<any>(resolve => socket.once(event, resolve));
+
+    try {
+      const distribution = server.getDistributionService();
+      await distribution.publishStream('stream_abr', createStream('stream_abr'));
+      const [viewer, other] = await Promise.all([connect(), connect()]);
+
+      // Events sent without a payload are refused, not fatal
+      for (const event of ['viewer-unsubscribe', 'viewer-network-metrics', 'viewer-seek']) {
+        viewer.emit(event);
+      }
+      const refused = next(viewer, 'viewer-error');
+      viewer.emit('viewer-subscribe');
+      expect(await refused).toEqual({ error: 'streamId is required' });
+
+      const subscribed = next(viewer, 'viewer-subscribed');
+      viewer.emit('viewer-subscribe', { streamId: 'stream_abr', viewerId: 'viewer' });
+      const { sessionId, quality } = await subscribed;
+      expect(quality).toBe('medium');
+
+      // Reports about another viewer's session are ignored
+      other.emit('viewer-network-metrics', { sessionId, ...metrics(100_000) });
+      const rejected = next(viewer, 'viewer-error');
+      viewer.emit('viewer-network-metrics', { sessionId, ...metrics(-1) });
+      expect(await rejected).toEqual({ sessionId, error: 'Invalid network metrics' });
+      expect(distribution.getPendingQuality(sessionId)).toBeNull();
+
+      viewer.emit('viewer-network-metrics', { sessionId, ...metrics(500_000) });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(distribution.getViewerSession(sessionId)!.networkMetrics.bandwidth).toBe(500_000);
+      expect(distribution.getPendingQuality(sessionId)).toBe(QUALITY_LEVELS[0]);
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
@@ -0,0 +1,190 @@
+/**
+ * Property-based tests for the audit log
+ * Feature: ai-live-streaming, Property 29: The audit log keeps the newest entries within its rotation limits, queries return exactly the matching entries newest first, and kicks reach only their target
+ */
+
+import fc from 'fast-check';
+import { promises as fs, mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog, AuditEntry } from '../../server/AuditLog';
+import { WebServer } from '../../server/WebServer';
+import { connect, next } from '../helpers/socketClient';
+
+const entryArbitrary = fc.record({
+  actor: fc.constantFrom('owner', 'mod_a', 'mod_b'),
+  target: fc.option(fc.constantFrom('alice', 'bob'), { nil: null }),
+  action: fc.constantFrom('user:kick', 'watch:attach', 'recording:start'),
+  offsetMs: fc.integer({ min: 0, max: 24 * 60 * 60 * 1000 })
+});
+
+describe('Audit Log Properties', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('rotation keeps the newest entries within the size and file limits', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 60 }), fc.integer({ min: 200, max: 2000 }), fc.integer({ min: 0, max: 3 }),
+        async (count, maxFileBytes, maxFiles) => {
+          const file = path.join(directory, `rotation-${count}-${maxFileBytes}-${maxFiles}`, 'audit.jsonl');
+          const log = new AuditLog({ file, maxFileBytes, maxFiles });
+          const recorded: AuditEntry[] = [];
+          for (let index = 0; index < count; index++) {
+            recorded.push(log.record({ actor: 'mod', role: 'moderator', action: 'user:kick', target: `user_${index}` }));
+          }
+
+          const kept = await log.query({ limit: count });
+          expect(kept.length).toBeGreaterThan(0);
+          expect(kept).toEqual(recorded.slice(recorded.length - kept.length).reverse());
+
+          const files = await fs.readdir(path.dirname(file));
+          expect(files.length).toBeLessThanOrEqual(maxFiles + 1);
+          for (const name of files) {
+            const { size } = await fs.stat(path.join(path.dirname(file), name));
+            expect(size).toBeLessThanOrEqual(maxFileBytes);
+          }
+          if (files.length <= maxFiles) {
+            expect(kept).toHaveLength(count); // nothing has been deleted yet
+          }
+        }),
+      { numRuns: 25 }
+    );
+  });
+
+  test('queries return exactly the entries matching every filter, newest first', async () => {
+    const start = Date.UTC(2026, 0, 1);
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(entryArbitrary, { maxLength: 30 }),
+        fc.record({
+          actor: fc.option(fc.constantFrom('owner', 'mod_a', 'mod_b'), { nil: undefined }),
+          target: fc.option(fc.constantFrom('alice', 'bob'), { nil: undefined }),
+          action: fc.option(fc.constantFrom('user:kick', 'watch:attach'), { nil: undefined }),
+          sinceMs: fc.option(fc.integer({ min: 0, max: 24 * 60 * 60 * 1000 }), { nil: undefined }),
+          untilMs: fc.option(fc.integer({ min: 0, max: 24 * 60 * 60 * 1000 }), { nil: undefined }),
+          limit: fc.integer({ min: 1, max: 40 })
+        }),
+        async (entries, filter) => {
+          // Entries are on disk in the order they were written, times ascending
+          const file = path.join(directory, `query-${Math.random().toString(36).slice(2)}.jsonl`);
+          const written: AuditEntry[] = entries
+            .map(({ offsetMs, ...entry }) => ({ offsetMs, entry }))
+            .sort((a, b) => a.offsetMs - b.offsetMs)
+            .map(({ offsetMs, entry }) => ({ timestamp: new Date(start + offsetMs).toISOString(), role: 'moderator', reason: null, ...entry }));
+          await fs.writeFile(file, written.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+
+          const since = filter.sinceMs === undefined ? undefined : new Date(start + filter.sinceMs);
+          const until = filter.untilMs === undefined ? undefined : new Date(start + filter.untilMs);
+          const expected = written
+            .filter(entry => (filter.actor === undefined || entry.actor === filter.actor)
+              && (filter.target === undefined || entry.target === filter.target)
+              && (filter.action === undefined || entry.action === filter.action)
+              && (since === undefined || Date.parse(entry.timestamp) >= since.getTime())
+              && (until === undefined || Date.parse(entry.timestamp) <= until.getTime()))
+            .reverse()
+            .slice(0, filter.limit);
+
+          const log = new AuditLog({ file });
+          expect(await log.query({ actor: filter.actor, target: filter.target, action: filter.action, since, until, limit: filter.limit }))
+            .toEqual(expected);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('kicks reach only their target and are audited with the reason', async () => {
+    const file = path.join(directory, 'audit.jsonl');
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, authOptions: { secret: 'test-secret' }, auditOptions: { file } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const auth = server.getAuthService();
+    const moderator = connect(base, auth.issueToken('mod', 'moderator'));
+    const target = connect(base);
+    const bystander = connect(base);
+    const signedIn = connect(base, auth.issueToken('bob', 'streamer'));
+    const sockets = [moderator, target, bystander, signedIn].map(({ socket }) => socket);
+    const audit = (query: string, token = auth.issueToken('owner', 'owner')) =>
+      fetch(`${base}/api/audit${query}`, { headers: { Authorization: `Bearer ${token}` } });
+
+    try {
+      await Promise.all([moderator.connected, target.connected, bystander.connected, signedIn.connected]);
+      const kicks: string[] = [];
+      bystander.socket.on('kicked', () => kicks.push('bystander'));
+      bystander.socket.on('admin-kicked', () => kicks.push('bystander'));
+      moderator.socket.on('kicked', () => kicks.push('moderator'));
+
+      const missing = next(moderator.socket, 'kick-error');
+      moderator.socket.emit('i-am-admin');
+      moderator.socket.emit('kick-user', { userId: 'user_target' });
+      expect(await missing).toEqual({ userId: 'user_target', error: 'user_target is not connected' });
+
+      // Admins hear of each join once it has been handled
+      const joined = new Promise<void>(resolve => {
+        const seen = new Set<string>();
+        moderator.socket.on('user-activity', ({ userId }) => {
+          seen.add(userId);
+          if (seen.size === 2) {
+            resolve();
+          }
+        });
+      });
+      target.socket.emit('user-joined', { userId: 'user_target', username: 'Target', timestamp: Date.now() });
+      bystander.socket.emit('user-joined', { userId: 'user_bystander', username: 'Bystander', timestamp: Date.now() });
+      await joined;
+
+      const kicked = next(target.socket, 'kicked');
+      const acknowledged = next(moderator.socket, 'user-kicked');
+      moderator.socket.emit('kick-user', { userId: 'user_target', reason: 'spam' });
+      expect(await kicked).toEqual({ userId: 'user_target', reason: 'spam' });
+      expect(await acknowledged).toEqual({ userId: 'user_target', sockets: 1 });
+
+      // Signed-in users are found by their token subject; admin kicks also disconnect
+      const adminKicked = next(signedIn.socket, 'admin-kicked');
+      const disconnected = next(signedIn.socket, 'disconnect');
+      moderator.socket.emit('admin-kick-user', { targetUserId: 'bob' });
+      expect(await adminKicked).toEqual({ userId: 'bob', reason: 'Kicked by admin' });
+      await disconnected;
+
+      const denied = next(target.socket, 'auth-error');
+      target.socket.emit('kick-user', { userId: 'user_bystander' });
+      await denied;
+      expect(kicks).toEqual([]);
+
+      expect((await audit('', auth.issueToken('mod', 'moderator'))).status).toBe(403);
+      expect((await audit('?since=yesterday')).status).toBe(400);
+      expect((await audit('?limit=0')).status).toBe(400);
+
+      const byModerator = (await (await audit('?actor=mod&action=user:kick')).json()).data;
+      expect(byModerator.map(({ actor, role, target, reason }: AuditEntry) => ({ actor, role, target, reason }))).toEqual([
+        { actor: 'mod', role: 'moderator', target: 'bob', reason: null },
+        { actor: 'mod', role: 'moderator', target: 'user_target', reason: 'spam' }
+      ]);
+
+      const since = byModerator[1].timestamp;
+      const limited = (await (await audit(`?target=bob&since=${encodeURIComponent(since)}&limit=1`)).json()).data;
+      expect(limited).toHaveLength(1);
+      expect(limited[0]).toMatchObject({ action: 'user:kick', target: 'bob' });
+      expect((await (await audit(`?until=${Date.parse(byModerator[1].timestamp) - 1}&action=user:kick`)).json()).data).toEqual([]);
+
+      const refusals = (await (await audit('?action=auth:denied')).json()).data;
+      expect(refusals.some((entry: AuditEntry) => entry.actor === 'anonymous' && entry.details?.request === 'kick-user')).toBe(true);
+
+      const query = jest.spyOn(server.getAuditLog(), 'query').mockRejectedValueOnce(new Error('disk unavailable'));
+      const failed = await audit('');
+      expect(failed.status).toBe(500);
+      expect(await failed.json()).toMatchObject({ success: false, error: 'Failed to query audit log' });
+      query.mockRestore();
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
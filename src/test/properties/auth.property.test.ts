@@ -0,0 +1,158 @@
+/**
+ * Property-based tests for session tokens and admin roles
+ * Feature: ai-live-streaming, Property 26: Only unexpired tokens signed by the server reach admin-only handlers, and only with a sufficient role
+ */
+
+import fc from 'fast-check';
+import { Socket as ClientSocket } from 'socket.io-client';
+import { AuthService, ROLES, Role } from '../../server/AuthService';
+import { WebServer } from '../../server/WebServer';
+import { connect, next } from '../helpers/socketClient';
+
+const roleArbitrary = fc.constantFrom<Role>(...ROLES);
+const subjectArbitrary = fc.string({ minLength: 1, maxLength: 20 }).filter(subject => subject.trim() !== '');
+
+describe('Authentication Properties', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('tokens verify to the claims they were issued with until they expire', () => {
+    const auth = new AuthService({ secret: 'test-secret' });
+    fc.assert(
+      fc.property(subjectArbitrary, roleArbitrary, fc.integer({ min: 1, max: 86400 }), (subject, role, ttlSeconds) => {
+        const now = Date.UTC(2026, 0, 1);
+        const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+        const claims = auth.verifyToken(auth.issueToken(subject, role, ttlSeconds * 1000));
+        expect(claims).toEqual({ sub: subject, role, iat: now / 1000, exp: now / 1000 + ttlSeconds });
+
+        const token = auth.issueToken(subject, role, ttlSeconds * 1000);
+        clock.mockReturnValue(now + ttlSeconds * 1000 - 1);
+        expect(auth.verifyToken(token).sub).toBe(subject);
+        clock.mockReturnValue(now + ttlSeconds * 1000);
+        expect(() => auth.verifyToken(token)).toThrow('Token expired');
+        clock.mockRestore();
+      })
+    );
+  });
+
+  test('tampered tokens and tokens signed with another secret are rejected', () => {
+    const auth = new AuthService({ secret: 'test-secret' });
+    const other = new AuthService({ secret: 'other-secret' });
+    fc.assert(
+      fc.property(subjectArbitrary, roleArbitrary, fc.nat(), fc.constantFrom(...'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'), (subject, role, position, replacement) => {
+        const token = auth.issueToken(subject, role);
+        const index = position % token.length;
+        const tampered = token.slice(0, index) + replacement + token.slice(index + 1);
+        if (tampered !== token) {
+          expect(() => auth.verifyToken(tampered)).toThrow();
+        }
+
+        expect(() => auth.verifyToken(other.issueToken(subject, role))).toThrow('Invalid token signature');
+
+        // Raising the role claim breaks the signature
+        const [header, , signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ sub: subject, role: 'owner', iat: 0, exp: 4102444800 })).toString('base64url');
+        expect(() => auth.verifyToken(`${header}.${forged}.${signature}`)).toThrow('Invalid token signature');
+      })
+    );
+
+    expect(() => auth.verifyToken('not-a-token')).toThrow('Malformed token');
+    expect(() => auth.issueToken(' ', 'viewer')).toThrow('Token subject is required');
+    expect(() => auth.issueToken('someone', 'admin' as Role)).toThrow('Role must be one of viewer, streamer, moderator, owner');
+  });
+
+  test('a role grants exactly the roles at or below it', () => {
+    const auth = new AuthService({ secret: 'test-secret' });
+    fc.assert(
+      fc.property(roleArbitrary, roleArbitrary, (held, required) => {
+        const claims = auth.verifyToken(auth.issueToken('someone', held));
+        expect(auth.hasRole(claims, required)).toBe(ROLES.indexOf(held) >= ROLES.indexOf(required));
+        expect(auth.hasRole(null, required)).toBe(required === 'viewer');
+      })
+    );
+  });
+
+  test('admin routes and socket events are gated on the token role', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, authOptions: { secret: 'test-secret', ownerPassword: 'hunter2', maxFailedLogins: 3 } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const auth = server.getAuthService();
+    const sockets: ClientSocket[] = [];
+    const get = (path: string, token?: string) => fetch(`${base}${path}`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    const post = (path: string, body: unknown, token?: string) => fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(body)
+    });
+
+    try {
+      // REST
+      expect((await get('/api/real-streams')).status).toBe(401);
+      expect((await get('/api/real-streams', 'garbage')).status).toBe(401);
+      expect((await get('/api/real-streams', auth.issueToken('streamer', 'streamer'))).status).toBe(403);
+      expect((await get('/api/real-streams/nobody', auth.issueToken('streamer', 'streamer'))).status).toBe(403);
+      expect((await get('/api/real-streams', new AuthService({ secret: 'other' }).issueToken('mod', 'moderator'))).status).toBe(401);
+
+      expect((await post('/api/auth/login', { password: 'guess' })).status).toBe(401);
+      const login = await (await post('/api/auth/login', { password: 'hunter2' })).json();
+      expect(login.data.claims).toMatchObject({ sub: 'owner', role: 'owner' });
+
+      expect((await post('/api/auth/tokens', { subject: 'mod', role: 'moderator' }, auth.issueToken('mod', 'moderator'))).status).toBe(403);
+      expect((await post('/api/auth/tokens', { subject: 'mod', role: 'root' }, login.data.token)).status).toBe(400);
+      const issued = await post('/api/auth/tokens', { subject: 'mod', role: 'moderator', ttlSeconds: 60 }, login.data.token);
+      expect(issued.status).toBe(201);
+      const moderatorToken = (await issued.json()).data.token;
+      const streams = await get('/api/real-streams', moderatorToken);
+      expect(streams.status).toBe(200);
+      expect((await streams.json()).success).toBe(true);
+
+      // A successful login clears earlier failures; enough wrong guesses in a row lock the address out
+      for (let attempt = 0; attempt < 3; attempt++) {
+        expect((await post('/api/auth/login', { password: `guess_${attempt}` })).status).toBe(401);
+      }
+      const locked = await post('/api/auth/login', { password: 'hunter2' });
+      expect(locked.status).toBe(429);
+      expect(Number(locked.headers.get('retry-after'))).toBe(300);
+      expect(auth.getLoginRetryAfterMs('203.0.113.9')).toBe(0);
+
+      // Sockets: an invalid token is refused outright
+      const rejected = connect(base, 'garbage');
+      sockets.push(rejected.socket);
+      await expect(rejected.connected).rejects.toThrow('Malformed token');
+
+      const anonymous = connect(base);
+      const streamer = connect(base, auth.issueToken('streamer', 'streamer'));
+      const moderator = connect(base, moderatorToken);
+      sockets.push(anonymous.socket, streamer.socket, moderator.socket);
+      await Promise.all([anonymous.connected, streamer.connected, moderator.connected]);
+
+      for (const { socket } of [anonymous, streamer]) {
+        for (const event of ['i-am-admin', 'admin-register', 'watch-user', 'kick-user', 'admin-kick-user', 'admin-watch-stream', 'admin-video-connect']) {
+          const denied = next(socket, 'auth-error');
+          socket.emit(event, { userId: 'someone', targetUserId: moderator.socket.id });
+          expect(await denied).toEqual({ event, error: 'moderator role required' });
+        }
+      }
+
+      const history = next(moderator.socket, 'user-history');
+      moderator.socket.emit('admin-register', {});
+      expect(Array.isArray(await history)).toBe(true);
+
+      // Only the admin room hears user activity
+      const heard: ClientSocket[] = [];
+      for (const { socket } of [anonymous, streamer, moderator]) {
+        socket.on('user-activity', () => heard.push(socket));
+      }
+      const activity = next(moderator.socket, 'user-activity');
+      streamer.socket.emit('user-joined', { userId: 'user_1', username: 'one', timestamp: Date.now() });
+      await activity;
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(heard).toEqual([moderator.socket]);
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
@@ -0,0 +1,205 @@
+/**
+ * Property-based tests for CPU reference enhancements
+ * Feature: ai-live-streaming, Property 9: Deterministic pixel-level enhancement
+ */
+
+import fc from 'fast-check';
+import { CPUEnhancer } from '../../ai/CPUEnhancer';
+import { EnhancementPipeline } from '../../ai/EnhancementPipeline';
+import { VideoFrame } from '../../types';
+
+function createFrame(
+  format: 'rgb24' | 'yuv420p',
+  width: number,
+  height: number,
+  pixel: (i: number) => number
+): VideoFrame {
+  const data = new Uint8Array(CPUEnhancer.getFrameSize(format, width, height));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = pixel(i);
+  }
+  return { data, timestamp: Date.now(), width, height, format };
+}
+
+// Textured luma pattern used to give block matching something to lock on to
+function texture(x: number, y: number): number {
+  return ((x * 37 + y * 91) ^ (x * y)) & 0xff;
+}
+
+function shiftedGrayFrame(width: number, height: number, dx: number, dy: number): VideoFrame {
+  const frame = createFrame('yuv420p', width, height, () => 128);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      frame.data[y * width + x] = texture(x - dx, y - dy);
+    }
+  }
+  return frame;
+}
+
+function interiorDifference(a: VideoFrame, b: VideoFrame, margin: number): number {
+  let sum = 0;
+  for (let y = margin; y < a.height - margin; y++) {
+    for (let x = margin; x < a.width - margin; x++) {
+      sum += Math.abs(a.data[y * a.width + x] - b.data[y * b.width + x]);
+    }
+  }
+  return sum;
+}
+
+const formatGenerator = fc.constantFrom<'rgb24' | 'yuv420p'>('rgb24', 'yuv420p');
+const dimensionGenerator = fc.integer({ min: 2, max: 24 });
+
+describe('CPU Enhancement Properties', () => {
+  test('upscaling changes frame dimensions and keeps data consistent with format', () => {
+    fc.assert(
+      fc.property(
+        formatGenerator,
+        dimensionGenerator,
+        dimensionGenerator,
+        fc.constantFrom(2, 3),
+        fc.constantFrom<'bilinear' | 'bicubic'>('bilinear', 'bicubic'),
+        (format, width, height, scaleFactor, interpolation) => {
+          const enhancer = new CPUEnhancer({ scaleFactor, interpolation });
+          const frame = createFrame(format, width, height, i => (i * 7) & 0xff);
+
+          const { frame: result, enhancements } = enhancer.upscale(frame);
+
+          expect(result.width).toBe(width * scaleFactor);
+          expect(result.height).toBe(height * scaleFactor);
+          expect(result.data.length).toBe(CPUEnhancer.getFrameSize(format, result.width, result.height));
+          expect(enhancements).toContain(`${interpolation}_interpolation`);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('flat frames stay flat through upscaling and denoising', () => {
+    fc.assert(
+      fc.property(
+        formatGenerator,
+        dimensionGenerator,
+        dimensionGenerator,
+        fc.integer({ min: 0, max: 255 }),
+        fc.integer({ min: 0, max: 100 }),
+        (format, width, height, value, intensity) => {
+          const enhancer = new CPUEnhancer();
+          const frame = createFrame(format, width, height, () => value);
+
+          const upscaled = enhancer.enhance(frame, 'upscaling', intensity).frame;
+          const denoised = enhancer.enhance(frame, 'denoising', intensity).frame;
+
+          expect(upscaled.data.every(byte => byte === value)).toBe(true);
+          expect(denoised.data.every(byte => byte === value)).toBe(true);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('colour correction at zero intensity is the identity', () => {
+    fc.assert(
+      fc.property(
+        formatGenerator,
+        dimensionGenerator,
+        dimensionGenerator,
+        fc.integer({ min: 1, max: 1000 }),
+        (format, width, height, seed) => {
+          const enhancer = new CPUEnhancer();
+          const frame = createFrame(format, width, height, i => (i * seed + 13) & 0xff);
+
+          const result = enhancer.enhance(frame, 'colorCorrection', 0).frame;
+
+          expect(Array.from(result.data)).toEqual(Array.from(frame.data));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('enhancement is deterministic for identical input sequences', () => {
+    fc.assert(
+      fc.property(
+        formatGenerator,
+        fc.constantFrom<'denoising' | 'colorCorrection' | 'stabilization'>('denoising', 'colorCorrection', 'stabilization'),
+        fc.integer({ min: 0, max: 100 }),
+        (format, modelType, intensity) => {
+          const frames = [0, 1, 2].map(n => createFrame(format, 16, 16, i => (i * 11 + n * 29) & 0xff));
+          const runA = new CPUEnhancer();
+          const runB = new CPUEnhancer();
+
+          for (const frame of frames) {
+            const a = runA.enhance(frame, modelType, intensity, 'stream');
+            const b = runB.enhance(frame, modelType, intensity, 'stream');
+            expect(Array.from(a.frame.data)).toEqual(Array.from(b.frame.data));
+            expect(a.enhancements).toEqual(b.enhancements);
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('stabilization moves a shaken frame back toward the previous frame', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -4, max: 4 }),
+        fc.integer({ min: -4, max: 4 }),
+        (dx, dy) => {
+          fc.pre(dx !== 0 || dy !== 0);
+          const enhancer = new CPUEnhancer({ searchRange: 6 });
+          const reference = shiftedGrayFrame(48, 48, 0, 0);
+          const shaken = shiftedGrayFrame(48, 48, dx, dy);
+
+          enhancer.stabilize(reference, 1, 'stream');
+          const { frame: stabilized, enhancements } = enhancer.stabilize(shaken, 1, 'stream');
+
+          expect(enhancements).toContain('motion_stabilization');
+          expect(interiorDifference(stabilized, reference, 8))
+            .toBeLessThan(interiorDifference(shaken, reference, 8));
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('frames with mismatched data length are rejected', () => {
+    const enhancer = new CPUEnhancer();
+    const frame: VideoFrame = { data: new Uint8Array(10), timestamp: 0, width: 4, height: 4, format: 'rgb24' };
+
+    expect(() => enhancer.enhance(frame, 'denoising', 50)).toThrow('does not match');
+  });
+
+  test('pipeline chains stages and accumulates enhancements and timings', async () => {
+    const pipeline = new EnhancementPipeline([
+      { modelType: 'denoising', intensity: 50, realTimeMode: false, targetLatency: 10, fallbackEnabled: true },
+      { modelType: 'colorCorrection', intensity: 50, realTimeMode: false, targetLatency: 10, fallbackEnabled: true },
+      { modelType: 'upscaling', intensity: 50, realTimeMode: false, targetLatency: 10, fallbackEnabled: true }
+    ]);
+    await pipeline.initialize();
+
+    const result = await pipeline.processFrame(createFrame('rgb24', 8, 6, i => (i * 5) & 0xff));
+
+    expect(result.width).toBe(16);
+    expect(result.height).toBe(12);
+    expect(result.enhancementApplied).toEqual(expect.arrayContaining([
+      'spatial_denoise', 'white_balance', 'gamma_correction', '2x_upscale'
+    ]));
+    expect(result.stageTimings!.map(stage => stage.modelType)).toEqual(['denoising', 'colorCorrection', 'upscaling']);
+    expect(result.stageTimings!.every(stage => !stage.skipped)).toBe(true);
+  });
+
+  test('pipeline skips real-time stages that would exceed the latency budget', async () => {
+    const pipeline = new EnhancementPipeline([
+      { modelType: 'colorCorrection', intensity: 50, realTimeMode: true, targetLatency: 5, fallbackEnabled: true },
+      { modelType: 'upscaling', intensity: 50, realTimeMode: true, targetLatency: 50, fallbackEnabled: true }
+    ], 10);
+    await pipeline.initialize();
+
+    const result = await pipeline.processFrame(createFrame('yuv420p', 8, 8, () => 100));
+
+    expect(result.width).toBe(8);
+    expect(result.stageTimings![1]).toEqual({ modelType: 'upscaling', processingTime: 0, skipped: true });
+    expect(pipeline.getStageStats()[1].skips).toBe(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,219 @@
+/**
+ * Property-based tests for MPEG-DASH packaging
+ * Feature: ai-live-streaming, Property 21: DASH manifests address exactly the CMAF segments HLS serves, on the wall clock timeline
+ */
+
+import fc from 'fast-check';
+import { StreamingServer } from '../../server/index';
+import { WebServer } from '../../server/WebServer';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { RenditionLadder } from '../../server/RenditionLadder';
+import { CmafPackager } from '../../server/CmafPackager';
+import { DashPackager } from '../../server/DashPackager';
+import { EnhancedFrame, QualityLevel } from '../../types';
+import { H264_SPS, H264_PPS, h264Frames } from '../helpers/h264Fixtures';
+
+interface TimelineSegment {
+  number: number;
+  time: number;
+  duration: number;
+}
+
+interface Representation {
+  attributes: Record<string, string>;
+  template: Record<string, string>;
+  timeline: TimelineSegment[];
+}
+
+function attributesOf(tag: string): Record<string, string> {
+  return Object.fromEntries([...tag.matchAll(/(\w+)="([^"]*)"/g)].map(match => [match[1], match[2]]));
+}
+
+function seconds(duration: string): number {
+  return Number(/^PT([\d.]+)S$/.exec(duration)![1]);
+}
+
+/**
+ * Expand each Representation's SegmentTimeline into one entry per $Number$
+ */
+function readRepresentations(xml: string): Map<string, Representation> {
+  const representations = new Map<string, Representation>();
+  for (const [, tag, body] of xml.matchAll(/<Representation ([^>]*)>([\s\S]*?)<\/Representation>/g)) {
+    const attributes = attributesOf(tag);
+    const template = attributesOf(/<SegmentTemplate ([^>]*)>/.exec(body)![1]);
+    const timeline: TimelineSegment[] = [];
+    let number = Number(template.startNumber);
+    let time = 0;
+    for (const [, entry] of body.matchAll(/<S ([^>]*)\/>/g)) {
+      const { t, d, r } = attributesOf(entry);
+      time = t === undefined ? time : Number(t);
+      for (let i = 0; i <= Number(r || 0); i++) {
+        timeline.push({ number: number++, time, duration: Number(d) });
+        time += Number(d);
+      }
+    }
+    representations.set(attributes.id, { attributes, template, timeline });
+  }
+  return representations;
+}
+
+function pushFrames(server: WebServer, streamId: string, frames: EnhancedFrame[]): void {
+  server.getStreamingServer().getIngestionService()
+    .emit('frames:enhanced', { streamId, originalFrames: frames, enhancedFrames: frames, processingTime: 1, modelType: 'denoising' });
+}
+
+/**
+ * Disconnect a stream and wait until the packager has completed its renditions
+ */
+function disconnect(ingestion: StreamIngestionService, packager: CmafPackager, streamId: string): Promise<void> {
+  return new Promise(resolve => {
+    const listener = (data: { streamId: string }) => {
+      if (data.streamId === streamId) {
+        packager.off('stream:ended', listener);
+        resolve();
+      }
+    };
+    packager.on('stream:ended', listener);
+    ingestion.emit('stream:disconnected', { streamId });
+  });
+}
+
+describe('DASH Packaging Properties', () => {
+  test('each representation\'s timeline lists exactly the segments in its window, timed from availabilityStartTime', async () => {
+    const server = new StreamingServer();
+    const cmafPackager = new CmafPackager(new RenditionLadder(server.getIngestionService()));
+    const packager = new DashPackager(cmafPackager);
+    let run = 0;
+
+    try {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(fc.integer({ min: 1, max: 40 }), { minLength: 1, maxLength: 8 }),
+          fc.constantFrom(20, 33, 40),
+          fc.integer({ min: 300, max: 2000 }),
+          fc.integer({ min: 1, max: 4 }),
+          async (gops, intervalMs, segmentDurationMs, windowSegments) => {
+            const streamId = `stream_dash_${run++}`;
+            cmafPackager.setStreamOptions(streamId, { segmentDurationMs, partTargetMs: Math.min(200, segmentDurationMs), windowSegments });
+
+            const pushedFrom = Date.now();
+            const renditions: Array<[QualityLevel, number]> = [['high', 1280], ['low', 640]];
+            for (const [quality, width] of renditions) {
+              cmafPackager.pushFrames(streamId, h264Frames(gops, { intervalMs, width, height: width * 9 / 16 }), quality);
+            }
+
+            const listed = cmafPackager.getSegmenter(streamId, 'low')!.getSegments().filter(segment => segment.complete);
+            const manifest = packager.getManifest(streamId);
+            if (listed.length === 0) {
+              expect(manifest).toBeNull();
+              return;
+            }
+
+            const mpd = attributesOf(/<MPD ([^>]*)>/.exec(manifest!)![1]);
+            expect(mpd.type).toBe('dynamic');
+            expect(mpd.availabilityStartTime).toBe(new Date(cmafPackager.getEpoch(streamId)!).toISOString());
+            expect(Date.parse(mpd.availabilityStartTime)).toBeGreaterThanOrEqual(pushedFrom);
+            expect(seconds(mpd.minimumUpdatePeriod)).toBe(segmentDurationMs / 1000);
+            expect(manifest!.match(/<Period /g)).toHaveLength(1);
+
+            // Representations are listed lowest quality first
+            const representations = readRepresentations(manifest!);
+            expect([...representations.keys()]).toEqual(['low', 'high']);
+
+            for (const [quality, width] of renditions) {
+              const { attributes, template, timeline } = representations.get(quality)!;
+              expect(attributes).toMatchObject({ codecs: 'avc1.42c01e', width: String(width), bandwidth: String(cmafPackager.getBandwidth(streamId, quality)!.peak) });
+              expect(template).toMatchObject({ timescale: '90000', presentationTimeOffset: '0', initialization: '$RepresentationID$/init0.mp4', media: '$RepresentationID$/seg$Number$.m4s' });
+
+              expect(timeline.map(segment => segment.number)).toEqual(listed.map(segment => segment.sequenceNumber));
+              expect(timeline.length).toBeLessThanOrEqual(windowSegments);
+              timeline.forEach(({ number, time, duration }) => {
+                const segment = cmafPackager.getSegmenter(streamId, quality)!.getSegment(number)!;
+                expect(segment.startTime).toBe(time);
+                expect(segment.duration).toBe(duration);
+                // The media the manifest addresses is the very buffer HLS serves
+                expect(cmafPackager.getSegment(streamId, quality, number)).toBe(segment.data);
+              });
+
+              const depth = timeline.reduce((total, segment) => total + segment.duration, 0);
+              expect(seconds(mpd.timeShiftBufferDepth)).toBeCloseTo(depth / 90000, 3);
+            }
+          }
+        ),
+        { numRuns: 60 }
+      );
+    } finally {
+      cmafPackager.stop();
+    }
+  });
+
+  test('the manifest and its media are served over HTTP and finalized when the stream ends', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, packagingOptions: { segmentDurationMs: 1000, partTargetMs: 250, windowSegments: 3 } });
+    await server.start();
+
+    try {
+      const base = `http://127.0.0.1:${server.getPort()}`;
+      expect((await fetch(`${base}/dash/stream_dash/manifest.mpd`)).status).toBe(404);
+
+      // A 360p stream fits no preset, so its enhanced output passes through as the lowest level
+      pushFrames(server, 'stream_dash', h264Frames([25, 25, 25, 25]));
+      const response = await fetch(`${base}/dash/stream_dash/manifest.mpd`);
+      expect(response.headers.get('content-type')).toContain('application/dash+xml');
+      const live = await response.text();
+      expect(live).toContain('minimumUpdatePeriod="PT1S"');
+      expect(live).toContain('timeShiftBufferDepth="PT3S"');
+      expect(live).toMatch(/<UTCTiming schemeIdUri="urn:mpeg:dash:utc:direct:2014" value="[^"]+"\/>/);
+
+      const { template, timeline } = readRepresentations(live).get('low')!;
+      expect(timeline.map(segment => segment.number)).toEqual([0, 1, 2]);
+      const init = template.initialization.replace('$RepresentationID$', 'low');
+      const media = template.media.replace('$RepresentationID$', 'low').replace('$Number$', '1');
+
+      const [dashInit, hlsInit] = await Promise.all([`dash/stream_dash/${init}`, `hls/stream_dash/${init}`].map(path => fetch(`${base}/${path}`)));
+      expect(dashInit.headers.get('content-type')).toContain('video/mp4');
+      expect(Buffer.from(await dashInit.arrayBuffer()).equals(Buffer.from(await hlsInit.arrayBuffer()))).toBe(true);
+
+      const [dashSegment, hlsSegment] = await Promise.all([`dash/stream_dash/${media}`, `hls/stream_dash/${media}`].map(path => fetch(`${base}/${path}`)));
+      expect(dashSegment.status).toBe(200);
+      expect(Buffer.from(await dashSegment.arrayBuffer()).equals(Buffer.from(await hlsSegment.arrayBuffer()))).toBe(true);
+
+      expect((await fetch(`${base}/dash/stream_dash/low/seg99.m4s`)).status).toBe(404);
+      expect((await fetch(`${base}/dash/stream_dash/ultra/seg1.m4s`)).status).toBe(404);
+      expect((await fetch(`${base}/dash/stream_dash/low/seg1.0.m4s`)).status).toBe(404);
+
+      await disconnect(server.getStreamingServer().getIngestionService(), server.getCmafPackager(), 'stream_dash');
+      const ended = await (await fetch(`${base}/dash/stream_dash/manifest.mpd`)).text();
+      expect(ended).not.toContain('minimumUpdatePeriod');
+      expect(ended).toContain('mediaPresentationDuration="PT4S"');
+      expect(readRepresentations(ended).get('low')!.timeline.map(segment => segment.number)).toEqual([1, 2, 3]);
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+
+  test('a change of parameter sets starts a new Period with its own initialization segment', () => {
+    const server = new StreamingServer();
+    const cmafPackager = new CmafPackager(new RenditionLadder(server.getIngestionService()), { segmentDurationMs: 1000, partTargetMs: 500 });
+    const packager = new DashPackager(cmafPackager);
+
+    try {
+      const resized = h264Frames([25, 25], { width: 1280, height: 720, parameterSets: [Buffer.concat([H264_SPS, Buffer.from([0x01])]), H264_PPS] })
+        .map(frame => ({ ...frame, timestamp: frame.timestamp + 2000 }));
+      cmafPackager.pushFrames('stream_resize', [...h264Frames([25, 25]), ...resized], 'medium');
+      cmafPackager.endStream('stream_resize');
+
+      const manifest = packager.getManifest('stream_resize')!;
+      const periods = [...manifest.matchAll(/<Period ([^>]*)>([\s\S]*?)<\/Period>/g)];
+      expect(periods.map(([, tag]) => attributesOf(tag))).toEqual([{ id: '0', start: 'PT0S' }, { id: '1', start: 'PT2S' }]);
+
+      const [first, second] = periods.map(([, , body]) => readRepresentations(body).get('medium')!);
+      expect(first.attributes.width).toBe('640');
+      expect(first.timeline.map(segment => segment.number)).toEqual([0, 1]);
+      expect(second.attributes.width).toBe('1280');
+      expect(second.template).toMatchObject({ presentationTimeOffset: '180000', startNumber: '2', initialization: '$RepresentationID$/init1.mp4' });
+      expect(second.timeline[0]).toEqual({ number: 2, time: 180000, duration: 90000 });
+    } finally {
+      cmafPackager.stop();
+    }
+  });
+});
\ No newline at end of file
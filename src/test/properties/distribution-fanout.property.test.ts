@@ -0,0 +1,119 @@
+/**
+ * Property-based tests for stream distribution fan-out
+ * Feature: ai-live-streaming, Property 8: Distribution fan-out
+ */
+
+import fc from 'fast-check';
+import { StreamDistributionService } from '../../server/StreamDistributionService';
+import { EnhancedFrame, VideoStream } from '../../types';
+import { MockSocketServer } from '../helpers/MockSocketServer';
+
+function createStream(streamId: string): VideoStream {
+  return {
+    streamId,
+    userId: `user_${streamId}`,
+    config: {
+      resolution: { width: 640, height: 480 },
+      frameRate: 30,
+      bitrate: 1000000,
+      audioEnabled: false
+    },
+    frames: [],
+    metadata: {
+      streamId,
+      frameNumber: 0,
+      timestamp: Date.now(),
+      quality: 'medium'
+    }
+  };
+}
+
+function createFrames(count: number): EnhancedFrame[] {
+  return Array.from({ length: count }, (_, i) => ({
+    data: new Uint8Array(12),
+    timestamp: Date.now() + i * 33,
+    width: 2,
+    height: 2,
+    format: 'h264' as const,
+    processingTime: 5,
+    enhancementApplied: ['noise_reduction']
+  }));
+}
+
+describe('Distribution Fan-out Properties', () => {
+  test('every subscribed viewer receives every enhanced batch of its stream only', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 8 }),
+        fc.integer({ min: 0, max: 5 }),
+        fc.integer({ min: 1, max: 10 }),
+        async (viewerCount, otherViewerCount, frameCount) => {
+          const io = new MockSocketServer();
+          const service = new StreamDistributionService(io as any);
+
+          await service.publishStream('stream_a', createStream('stream_a'));
+          await service.publishStream('stream_b', createStream('stream_b'));
+
+          for (let i = 0; i < viewerCount; i++) {
+            io.addSocket(`a_${i}`);
+            await service.subscribeViewer(`viewer_a_${i}`, 'stream_a', { socketId: `a_${i}` });
+          }
+          for (let i = 0; i < otherViewerCount; i++) {
+            io.addSocket(`b_${i}`);
+            await service.subscribeViewer(`viewer_b_${i}`, 'stream_b', { socketId: `b_${i}` });
+          }
+
+          const delivered = service.distributeFrames('stream_a', createFrames(frameCount));
+          expect(delivered).toBe(viewerCount);
+
+          for (let i = 0; i < viewerCount; i++) {
+            const batches = io.getEvents(`a_${i}`, 'stream-frames');
+            expect(batches).toHaveLength(1);
+            expect(batches[0].frames).toHaveLength(frameCount);
+          }
+          for (let i = 0; i < otherViewerCount; i++) {
+            expect(io.getEvents(`b_${i}`, 'stream-frames')).toHaveLength(0);
+          }
+
+          const metrics = service.getViewerMetrics('stream_a');
+          expect(metrics.activeViewers).toBe(viewerCount);
+          expect(metrics.totalViewers).toBe(viewerCount);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('stream end notifies every viewer and releases their sessions', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 10 }),
+        async (viewerCount) => {
+          const io = new MockSocketServer();
+          const service = new StreamDistributionService(io as any);
+          await service.publishStream('stream_a', createStream('stream_a'));
+
+          const sessionIds: string[] = [];
+          for (let i = 0; i < viewerCount; i++) {
+            io.addSocket(`socket_${i}`);
+            const session = await service.subscribeViewer(`viewer_${i}`, 'stream_a', { socketId: `socket_${i}` });
+            sessionIds.push(session.sessionId);
+          }
+
+          await service.handleStreamEnd('stream_a');
+
+          for (let i = 0; i < viewerCount; i++) {
+            expect(io.getEvents(`socket_${i}`, 'stream-ended')).toHaveLength(1);
+            expect(service.getViewerSession(sessionIds[i])).toBeUndefined();
+          }
+
+          expect(service.isPublished('stream_a')).toBe(false);
+          expect(service.getViewerMetrics('stream_a').activeViewers).toBe(0);
+          expect(service.getViewerMetrics('stream_a')).toMatchObject({ totalViewers: 0, averageWatchTime: 0 });
+          await expect(service.subscribeViewer('late_viewer', 'stream_a')).rejects.toThrow('not found');
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
\ No newline at end of file
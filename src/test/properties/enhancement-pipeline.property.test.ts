@@ -0,0 +1,134 @@
+/**
+ * Property-based tests for the multi-model enhancement pipeline
+ * Feature: ai-live-streaming, Property 32: Pipeline stages run in order, their enhancements and timings accumulate, and real-time stages that would exceed the latency budget are skipped
+ */
+
+import fc from 'fast-check';
+import { AIProcessor } from '../../ai/AIProcessor';
+import { EnhancementPipeline, PipelinePresets } from '../../ai/EnhancementPipeline';
+import { StreamProcessor } from '../../server/StreamProcessor';
+import { StreamBuffer, StreamRouter } from '../../server/StreamBuffer';
+import { AIModelType, EnhancedFrame, VideoFrame } from '../../types';
+
+const MODEL_TYPES: AIModelType[] = ['upscaling', 'denoising', 'colorCorrection', 'stabilization'];
+
+const stagesArbitrary = fc.shuffledSubarray(MODEL_TYPES, { minLength: 1 }).chain(modelTypes =>
+  fc.tuple(...modelTypes.map(modelType => fc.record({
+    modelType: fc.constant(modelType),
+    realTimeMode: fc.boolean(),
+    targetLatency: fc.integer({ min: 1, max: 40 }),
+    cost: fc.integer({ min: 0, max: 40 }) // milliseconds the stage actually takes
+  })))
+);
+
+function createFrame(timestamp: number): VideoFrame {
+  return { data: new Uint8Array(8 * 6 * 3).fill(90), timestamp, width: 8, height: 6, format: 'rgb24' };
+}
+
+describe('Enhancement Pipeline Properties', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('stages run in order and are skipped only when they would exceed the budget', async () => {
+    await fc.assert(
+      fc.asyncProperty(stagesArbitrary, fc.integer({ min: 0, max: 100 }), fc.integer({ min: 1, max: 3 }), async (stages, budget, frameCount) => {
+        // Each stage advances the clock by its cost and tags the frame with its model type
+        let now = 1_000_000;
+        const costs = new Map(stages.map(stage => [stage.modelType, stage.cost]));
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        jest.spyOn(AIProcessor.prototype, 'initialize').mockResolvedValue(undefined);
+        jest.spyOn(AIProcessor.prototype, 'processFrame').mockImplementation(async function (this: AIProcessor, frame: VideoFrame) {
+          const { modelType } = this.getConfig();
+          now += costs.get(modelType)!;
+          return { ...frame, processingTime: costs.get(modelType)!, enhancementApplied: [`${modelType}_applied`] };
+        });
+
+        const pipeline = new EnhancementPipeline(
+          stages.map(({ cost: _cost, ...stage }) => ({ ...stage, intensity: 50, fallbackEnabled: true })),
+          budget
+        );
+        await pipeline.initialize();
+
+        const averages = new Map<AIModelType, number>();
+        const skips = new Map<AIModelType, number>();
+        for (let index = 0; index < frameCount; index++) {
+          const result: EnhancedFrame = await pipeline.processFrame(createFrame(index));
+          expect(result.stageTimings!.map(timing => timing.modelType)).toEqual(stages.map(stage => stage.modelType));
+
+          let elapsed = 0;
+          const applied: string[] = [];
+          stages.forEach((stage, position) => {
+            const timing = result.stageTimings![position];
+            const estimate = averages.get(stage.modelType) ?? stage.targetLatency;
+            const skipped = stage.realTimeMode && elapsed + estimate > budget;
+
+            expect(timing).toEqual({ modelType: stage.modelType, processingTime: skipped ? 0 : stage.cost, skipped });
+            if (skipped) {
+              skips.set(stage.modelType, (skips.get(stage.modelType) ?? 0) + 1);
+            } else {
+              elapsed += stage.cost;
+              averages.set(stage.modelType, stage.cost);
+              applied.push(`${stage.modelType}_applied`);
+            }
+          });
+
+          expect(result.enhancementApplied).toEqual(applied);
+          expect(result.processingTime).toBe(elapsed);
+          expect(result.timestamp).toBe(index);
+        }
+
+        expect(pipeline.getStageStats()).toEqual(stages.map(stage => ({
+          modelType: stage.modelType,
+          averageTime: averages.has(stage.modelType) ? stage.cost : 0,
+          runs: frameCount - (skips.get(stage.modelType) ?? 0),
+          skips: skips.get(stage.modelType) ?? 0
+        })));
+        jest.restoreAllMocks();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('streams given a pipeline are enhanced through each of its stages', async () => {
+    const buffer = new StreamBuffer();
+    const processor = new StreamProcessor(buffer, new StreamRouter());
+    const stages = PipelinePresets.get('archival').map(stage => stage.modelType);
+
+    try {
+      expect(() => processor.setStreamPipeline('stream_a', 'cinematic' as any)).toThrow('Unknown enhancement pipeline cinematic');
+      processor.setStreamPipeline('stream_a', 'archival');
+      expect(processor.getStreamPipeline('stream_a')).toBe('archival');
+      expect(processor.getStreamPipeline('stream_b')).toBeNull();
+
+      const enhanced = new Map<string, any>();
+      const done = new Promise<void>(resolve => {
+        processor.on('frames:enhanced', data => {
+          enhanced.set(data.streamId, data);
+          if (enhanced.size === 2) {
+            resolve();
+          }
+        });
+      });
+      buffer.addFrame('stream_a', createFrame(0));
+      buffer.addFrame('stream_b', createFrame(0));
+      processor.start();
+      await done;
+
+      const piped = enhanced.get('stream_a');
+      expect(piped.modelType).toBe('pipeline:archival');
+      expect(piped.enhancedFrames[0].stageTimings.map((timing: any) => timing.modelType)).toEqual(stages);
+      expect(piped.enhancedFrames[0].width).toBeGreaterThan(8); // the last stage upscales
+
+      const single = enhanced.get('stream_b');
+      expect(single.modelType).toBe('colorCorrection');
+      expect(single.enhancedFrames[0].stageTimings).toBeUndefined();
+
+      // Removing the stream drops its pipeline
+      processor.removeStreamFromQueue('stream_a');
+      expect(processor.getStreamPipeline('stream_a')).toBeNull();
+    } finally {
+      processor.stop();
+    }
+  });
+});
\ No newline at end of file
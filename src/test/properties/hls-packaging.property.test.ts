@@ -0,0 +1,352 @@
+/**
+ * Property-based tests for HLS packaging
+ * Feature: ai-live-streaming, Property 20: HLS segments and parts carry exactly the enhanced access units, cut on keyframes
+ */
+
+import fc from 'fast-check';
+import { StreamingServer } from '../../server/index';
+import { WebServer } from '../../server/WebServer';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { RenditionLadder } from '../../server/RenditionLadder';
+import { CmafPackager } from '../../server/CmafPackager';
+import { HlsPackager } from '../../server/HlsPackager';
+import { splitAnnexB } from '../../server/MpegTsDemuxer';
+import { EnhancedFrame } from '../../types';
+import { H264_SPS, H264_PPS, annexB, h264Frames, readBoxes, findBox } from '../helpers/h264Fixtures';
+
+const START_TIME = Date.UTC(2026, 0, 1);
+const H265_VPS = Buffer.from([0x40, 0x01, 0x0c, 0x01, 0xff, 0xff]);
+// Main profile, level 3.1; the general profile_tier_level needs emulation prevention bytes
+const H265_SPS = Buffer.from([0x42, 0x01, 0x01, 0x01, 0x60, 0x00, 0x00, 0x03, 0x00, 0x90, 0x00, 0x00, 0x03, 0x00, 0x00, 0x03, 0x00, 0x5d, 0xa0, 0x02, 0x80]);
+const H265_PPS = Buffer.from([0x44, 0x01, 0xc1, 0x72, 0xb4]);
+
+interface Sample {
+  duration: number;
+  keyframe: boolean;
+  data: Buffer;
+}
+
+interface Fragment {
+  sequenceNumber: number;
+  baseDecodeTime: number;
+  samples: Sample[];
+}
+
+/**
+ * The NAL units expected in a sample: everything but delimiters and parameter sets
+ */
+function sampleUnits(frame: EnhancedFrame): Buffer[] {
+  return splitAnnexB(Buffer.from(frame.data)).filter(nal => ![7, 8, 9].includes(nal[0] & 0x1f));
+}
+
+function lengthPrefixedUnits(data: Buffer): Buffer[] {
+  const units: Buffer[] = [];
+  for (let offset = 0; offset < data.length;) {
+    const length = data.readUInt32BE(offset);
+    units.push(data.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return units;
+}
+
+/**
+ * Read the moof/mdat fragments of a segment or part back into samples
+ */
+function readFragments(data: Buffer): Fragment[] {
+  const fragments: Fragment[] = [];
+  for (const box of readBoxes(data)) {
+    if (box.type !== 'moof') {
+      expect(box.type).toBe('mdat');
+      continue;
+    }
+
+    const mfhd = findBox(box.body, ['mfhd'])!;
+    const tfdt = findBox(box.body, ['traf', 'tfdt'])!;
+    const trun = findBox(box.body, ['traf', 'trun'])!;
+    const count = trun.readUInt32BE(4);
+    const dataOffset = trun.readInt32BE(8);
+    expect(dataOffset).toBe(box.size + 8);
+
+    let position = box.start + dataOffset;
+    const samples: Sample[] = [];
+    for (let i = 0; i < count; i++) {
+      const size = trun.readUInt32BE(16 + i * 12);
+      samples.push({
+        duration: trun.readUInt32BE(12 + i * 12),
+        keyframe: trun.readUInt32BE(20 + i * 12) === 0x02000000,
+        data: data.subarray(position, position + size)
+      });
+      position += size;
+    }
+
+    fragments.push({ sequenceNumber: mfhd.readUInt32BE(4), baseDecodeTime: Number(tfdt.readBigUInt64BE(4)), samples });
+  }
+  return fragments;
+}
+
+function playlistLines(playlist: string, tag: string): string[] {
+  return playlist.split('\n').filter(line => line.startsWith(tag)).map(line => line.slice(tag.length));
+}
+
+function pushFrames(server: StreamingServer | WebServer, streamId: string, frames: EnhancedFrame[]): void {
+  const ingestion = server instanceof WebServer ? server.getStreamingServer().getIngestionService() : server.getIngestionService();
+  ingestion.emit('frames:enhanced', { streamId, originalFrames: frames, enhancedFrames: frames, processingTime: 1, modelType: 'denoising' });
+}
+
+/**
+ * Disconnect a stream and wait until the packager has completed its renditions
+ */
+function disconnect(ingestion: StreamIngestionService, packager: CmafPackager, streamId: string): Promise<void> {
+  return new Promise(resolve => {
+    const listener = (data: { streamId: string }) => {
+      if (data.streamId === streamId) {
+        packager.off('stream:ended', listener);
+        resolve();
+      }
+    };
+    packager.on('stream:ended', listener);
+    ingestion.emit('stream:disconnected', { streamId });
+  });
+}
+
+describe('HLS Packaging Properties', () => {
+  test('segments and parts reassemble the enhanced access units, starting segments on keyframes', async () => {
+    const server = new StreamingServer();
+    const cmafPackager = new CmafPackager(new RenditionLadder(server.getIngestionService()));
+    const packager = new HlsPackager(cmafPackager);
+    let run = 0;
+
+    try {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(fc.integer({ min: 1, max: 45 }), { minLength: 1, maxLength: 6 }),
+          fc.constantFrom(20, 33, 40, 50),
+          fc.integer({ min: 500, max: 3000 }),
+          fc.integer({ min: 100, max: 1000 }),
+          fc.integer({ min: 1, max: 30 }),
+          async (gops, intervalMs, segmentDurationMs, partTargetMs, batchSize) => {
+            const streamId = `stream_hls_${run++}`;
+            const frames = h264Frames(gops, { intervalMs, firstTimestamp: START_TIME });
+            const options = cmafPackager.setStreamOptions(streamId, {
+              segmentDurationMs,
+              partTargetMs: Math.min(partTargetMs, segmentDurationMs),
+              windowSegments: 1000
+            });
+
+            const pushedFrom = Date.now();
+            for (let offset = 0; offset < frames.length; offset += batchSize) {
+              pushFrames(server, streamId, frames.slice(offset, offset + batchSize));
+            }
+            await disconnect(server.getIngestionService(), cmafPackager, streamId);
+
+            const playlist = (await packager.getMediaPlaylist(streamId, 'low'))!;
+            const segmentUris = playlist.split('\n').filter(line => /^seg\d+\.m4s$/.test(line));
+            expect(playlist).toContain('#EXT-X-MAP:URI="init0.mp4"');
+            expect(playlist.trimEnd().endsWith('#EXT-X-ENDLIST')).toBe(true);
+            expect(playlist).not.toContain('#EXT-X-PRELOAD-HINT');
+            // Wall clock time starts when the first frame arrives, whatever the source timestamps
+            const programDateTimes = playlistLines(playlist, '#EXT-X-PROGRAM-DATE-TIME:');
+            expect(programDateTimes).toHaveLength(1);
+            const [programDateTime] = programDateTimes;
+            expect(Date.parse(programDateTime)).toBeGreaterThanOrEqual(pushedFrom);
+            expect(Date.parse(programDateTime)).toBeLessThanOrEqual(Date.now());
+            expect(packager.getMultivariantPlaylist(streamId)).toContain('CODECS="avc1.42c01e",RESOLUTION=640x360');
+
+            const avcC = findBox(cmafPackager.getInitSegment(streamId, 'low', 0)!, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stsd'])!;
+            expect(avcC.includes(H264_SPS) && avcC.includes(H264_PPS)).toBe(true);
+
+            const interval = intervalMs * 90;
+            const segmentTarget = options.segmentDurationMs * 90;
+            const partTarget = options.partTargetMs * 90;
+            const samples: Sample[] = [];
+            const durations = playlistLines(playlist, '#EXTINF:').map(value => parseFloat(value));
+
+            segmentUris.forEach((uri, index) => {
+              const sequenceNumber = Number(/\d+/.exec(uri)![0]);
+              const segment = cmafPackager.getSegment(streamId, 'low', sequenceNumber)!;
+              const parts = readFragments(segment);
+              const segmentSamples = parts.flatMap(part => part.samples);
+              const segmentDuration = segmentSamples.reduce((total, sample) => total + sample.duration, 0);
+
+              // Decode times run on without gaps
+              const decodeTime = samples.reduce((total, sample) => total + sample.duration, 0);
+              expect(parts[0].baseDecodeTime).toBe(decodeTime);
+              expect(durations[index]).toBeCloseTo(segmentDuration / 90000, 3);
+
+              // Cut at the first keyframe once the target duration is reached
+              expect(segmentSamples[0].keyframe).toBe(true);
+              let elapsed = 0;
+              segmentSamples.forEach((sample, position) => {
+                if (position > 0 && sample.keyframe) {
+                  expect(elapsed).toBeLessThan(segmentTarget - interval / 2);
+                }
+                elapsed += sample.duration;
+              });
+              if (index < segmentUris.length - 1) {
+                expect(segmentDuration).toBeGreaterThanOrEqual(segmentTarget - interval / 2);
+              }
+
+              // Parts stay within the part target and the segment is exactly its parts
+              parts.forEach((part, partIndex) => {
+                const partDuration = part.samples.reduce((total, sample) => total + sample.duration, 0);
+                expect(partDuration).toBeLessThanOrEqual(Math.max(partTarget, interval));
+                expect(cmafPackager.getSegmenter(streamId, 'low')!.getPart(sequenceNumber, partIndex)!.independent).toBe(part.samples[0].keyframe);
+              });
+              const partData = parts.map((_, partIndex) => cmafPackager.getSegmenter(streamId, 'low')!.getPart(sequenceNumber, partIndex)!.data);
+              expect(Buffer.concat(partData).equals(segment)).toBe(true);
+
+              samples.push(...segmentSamples);
+            });
+
+            const hex = (units: Buffer[]) => units.map(unit => unit.toString('hex'));
+            expect(samples.map(sample => hex(lengthPrefixedUnits(sample.data)))).toEqual(frames.map(frame => hex(sampleUnits(frame))));
+            expect(samples.map(sample => sample.keyframe)).toEqual(frames.map(frame => frame.keyframe));
+            // A lone frame has no successor to time it by and gets the default duration
+            expect(samples.every(sample => sample.duration === (frames.length > 1 ? interval : 3000))).toBe(true);
+          }
+        ),
+        { numRuns: 60 }
+      );
+    } finally {
+      cmafPackager.stop();
+    }
+  });
+
+  test('LL-HLS blocking reloads and preload-hinted parts are held until the part exists', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, packagingOptions: { segmentDurationMs: 1000, partTargetMs: 200, windowSegments: 3 } });
+    await server.start();
+
+    try {
+      const base = `http://127.0.0.1:${server.getPort()}/hls/stream_llhls/low`;
+      const frames = h264Frames([30, 30, 30], { firstTimestamp: START_TIME });
+      const isPending = async (request: Promise<Response>) =>
+        Promise.race([request.then(() => false), new Promise<boolean>(resolve => setTimeout(() => resolve(true), 150))]);
+
+      const multivariantUri = `http://127.0.0.1:${server.getPort()}/hls/stream_llhls/index.m3u8`;
+      expect((await fetch(multivariantUri)).status).toBe(404);
+      pushFrames(server, 'stream_llhls', frames.slice(0, 12));
+
+      const multivariant = await fetch(multivariantUri);
+      expect(multivariant.headers.get('content-type')).toContain('application/vnd.apple.mpegurl');
+      expect(await multivariant.text()).toMatch(/#EXT-X-STREAM-INF:BANDWIDTH=\d+,AVERAGE-BANDWIDTH=\d+,CODECS="avc1\.42c01e",RESOLUTION=640x360,FRAME-RATE=25\.000\nlow\/video\.m3u8/);
+
+      const playlist = await (await fetch(`${base}/video.m3u8`)).text();
+      expect(playlist).toContain('#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=0.600');
+      expect(playlist).toContain('#EXT-X-PART-INF:PART-TARGET=0.200');
+      const [hint] = playlistLines(playlist, '#EXT-X-PRELOAD-HINT:TYPE=PART,URI=');
+      const [, msn, part] = /"seg(\d+)\.(\d+)\.m4s"/.exec(hint)!;
+
+      // Both the hinted part and a blocking reload for it wait for more frames
+      const partRequest = fetch(`${base}/seg${msn}.${part}.m4s`);
+      const reloadRequest = fetch(`${base}/video.m3u8?_HLS_msn=${msn}&_HLS_part=${part}`);
+      expect(await isPending(partRequest)).toBe(true);
+      expect(await isPending(reloadRequest)).toBe(true);
+
+      pushFrames(server, 'stream_llhls', frames.slice(12, 40));
+      const partResponse = await partRequest;
+      expect(partResponse.status).toBe(200);
+      expect(Buffer.from(await partResponse.arrayBuffer()))
+        .toEqual(await server.getHlsPackager().getPart('stream_llhls', 'low', Number(msn), Number(part)));
+      expect(await (await reloadRequest).text()).toContain(`URI="seg${msn}.${part}.m4s"`);
+
+      // A blocking reload for a whole segment resolves once it completes
+      const segmentReload = fetch(`${base}/video.m3u8?_HLS_msn=1`);
+      expect(await isPending(segmentReload)).toBe(true);
+      pushFrames(server, 'stream_llhls', frames.slice(40));
+      expect(await (await segmentReload).text()).toMatch(/#EXTINF:[\d.]+,\nseg1\.m4s/);
+
+      const segment = await fetch(`${base}/seg0.m4s`);
+      expect(segment.headers.get('content-type')).toContain('video/mp4');
+      expect(readFragments(Buffer.from(await segment.arrayBuffer()))[0].samples[0].keyframe).toBe(true);
+      expect((await fetch(`${base}/init0.mp4`)).status).toBe(200);
+
+      expect((await fetch(`${base}/video.m3u8?_HLS_msn=9`)).status).toBe(400);
+      expect((await fetch(`${base}/video.m3u8?_HLS_part=1`)).status).toBe(400);
+      expect((await fetch(`${base}/seg99.m4s`)).status).toBe(404);
+      expect((await fetch(`http://127.0.0.1:${server.getPort()}/hls/stream_unknown/low/video.m3u8`)).status).toBe(404);
+      expect((await fetch(`http://127.0.0.1:${server.getPort()}/hls/stream_llhls/ultra/video.m3u8`)).status).toBe(404);
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+
+  test('per-stream settings are validated and the window rolls forward', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000 });
+    await server.start();
+
+    try {
+      const api = `http://127.0.0.1:${server.getPort()}/api/hls`;
+      const moderatorToken = server.getAuthService().issueToken('mod', 'moderator');
+      const audited: any[] = [];
+      server.getAuditLog().on('audit:recorded', entry => audited.push(entry));
+      const put = (streamId: string, body: object, token: string | null = moderatorToken) => fetch(`${api}/${streamId}/settings`, {
+        method: 'PUT',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) }
+      });
+
+      pushFrames(server, 'stream_window', h264Frames([25], { firstTimestamp: START_TIME }));
+      expect((await put('stream_window', { windowSegments: 2 }, null)).status).toBe(401);
+      expect((await put('stream_window', { windowSegments: 2 }, server.getAuthService().issueToken('bob', 'streamer'))).status).toBe(403);
+      expect((await put('stream_unknown', { windowSegments: 2 })).status).toBe(404);
+      expect((await put('stream_window', { partTargetMs: 5000 })).status).toBe(400);
+      expect((await put('stream_window', { windowSegments: 'two' })).status).toBe(400);
+
+      const updated = await put('stream_window', { segmentDurationMs: 1000, windowSegments: 2 });
+      expect(await updated.json()).toMatchObject({ success: true, data: { segmentDurationMs: 1000, partTargetMs: 500, windowSegments: 2 } });
+      // Only the applied change is audited, with the settings it changed
+      expect(audited.filter(entry => entry.action === 'hls:settings')).toEqual([expect.objectContaining({
+        actor: 'mod',
+        role: 'moderator',
+        target: 'stream_window',
+        details: { segmentDurationMs: 1000, windowSegments: 2 }
+      })]);
+
+      // The new duration applies from the next segment
+      pushFrames(server, 'stream_window', h264Frames([25, 25, 25, 25, 25, 25], { firstTimestamp: START_TIME }).slice(25));
+      const playlist = (await server.getHlsPackager().getMediaPlaylist('stream_window', 'low'))!;
+      expect(playlistLines(playlist, '#EXT-X-MEDIA-SEQUENCE:')).toEqual(['3']);
+      expect(playlist.split('\n').filter(line => /^seg\d+\.m4s$/.test(line))).toEqual(['seg3.m4s', 'seg4.m4s']);
+      expect(playlist).toContain('#EXT-X-TARGETDURATION:1');
+
+      // Segments just out of the window stay fetchable for a while
+      expect(server.getCmafPackager().getSegment('stream_window', 'low', 1)).not.toBeNull();
+      expect(server.getCmafPackager().getSegment('stream_window', 'low', 0)).toBeNull();
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+
+  test('a change of parameter sets starts a discontinuity with a new initialization segment', async () => {
+    const server = new StreamingServer();
+    const cmafPackager = new CmafPackager(new RenditionLadder(server.getIngestionService()), { segmentDurationMs: 1000, partTargetMs: 500 });
+    const packager = new HlsPackager(cmafPackager);
+
+    try {
+      const h265Frames = h264Frames([25, 25], { firstTimestamp: START_TIME }).map(frame => ({
+        ...frame,
+        format: 'h265' as const,
+        data: annexB([...(frame.keyframe ? [H265_VPS, H265_SPS, H265_PPS] : []), Buffer.from([frame.keyframe ? 0x26 : 0x02, 0x01, 0xaa])])
+      }));
+      const resized = h265Frames.slice(25).map((frame, index) => ({
+        ...frame,
+        width: 1280,
+        height: 720,
+        data: index === 0 ? annexB([H265_VPS, Buffer.concat([H265_SPS, Buffer.from([0x01])]), H265_PPS, Buffer.from([0x26, 0x01, 0xbb])]) : frame.data
+      }));
+
+      pushFrames(server, 'stream_resize', [...h265Frames.slice(0, 25), ...resized]);
+      await disconnect(server.getIngestionService(), cmafPackager, 'stream_resize');
+
+      const playlist = (await packager.getMediaPlaylist('stream_resize', 'low'))!;
+      expect(playlist).toMatch(/#EXT-X-MAP:URI="init0.mp4"[\s\S]*seg0\.m4s\n#EXT-X-DISCONTINUITY\n#EXT-X-MAP:URI="init1.mp4"\n#EXT-X-PROGRAM-DATE-TIME:[^\n]+\n[\s\S]*seg1\.m4s/);
+      expect(packager.getMultivariantPlaylist('stream_resize')).toContain('CODECS="hvc1.1.6.L93.90",RESOLUTION=1280x720');
+
+      const hvcC = findBox(cmafPackager.getInitSegment('stream_resize', 'low', 0)!, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stsd'])!;
+      expect(hvcC.includes(H265_SPS)).toBe(true);
+      expect(findBox(cmafPackager.getInitSegment('stream_resize', 'low', 1)!, ['moov', 'trak', 'tkhd'])!.readUInt32BE(76)).toBe(1280 * 0x10000);
+    } finally {
+      cmafPackager.stop();
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * Property-based tests for rolling-window processing metrics
+ * Feature: ai-live-streaming, Property 11: Frame-accurate processing metrics
+ */
+
+import fc from 'fast-check';
+import { MetricsCollector } from '../../utils/MetricsCollector';
+
+const sampleGenerator = fc.array(
+  fc.record({
+    latency: fc.integer({ min: 0, max: 500 }),
+    success: fc.boolean()
+  }),
+  { minLength: 1, maxLength: 200 }
+);
+
+describe('Metrics Window Properties', () => {
+  test('latency percentiles are ordered and bounded by the samples', () => {
+    fc.assert(
+      fc.property(sampleGenerator, (samples) => {
+        const collector = new MetricsCollector({ windowMs: 10000 });
+        const start = 1000000;
+
+        samples.forEach((sample, i) => collector.recordFrame('stream', sample.latency, sample.success, start + i));
+        const metrics = collector.getMetrics('stream', start + samples.length);
+
+        const latencies = samples.map(sample => sample.latency);
+        expect(metrics.p50Latency).toBeGreaterThanOrEqual(Math.min(...latencies));
+        expect(metrics.p50Latency).toBeLessThanOrEqual(metrics.p95Latency);
+        expect(metrics.p95Latency).toBeLessThanOrEqual(metrics.p99Latency);
+        expect(metrics.p99Latency).toBeLessThanOrEqual(Math.max(...latencies));
+        expect(metrics.averageLatency).toBeCloseTo(latencies.reduce((a, b) => a + b, 0) / latencies.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('error rate and frame rate reflect the frames inside the window', () => {
+    fc.assert(
+      fc.property(sampleGenerator, fc.integer({ min: 1, max: 100 }), (samples, intervalMs) => {
+        const windowMs = 1000;
+        const collector = new MetricsCollector({ windowMs });
+        const start = 5000000;
+
+        samples.forEach((sample, i) => collector.recordFrame('stream', sample.latency, sample.success, start + i * intervalMs));
+        const now = start + (samples.length - 1) * intervalMs;
+        const metrics = collector.getMetrics('stream', now);
+
+        const inWindow = samples.filter((_, i) => start + i * intervalMs >= now - windowMs);
+        const failures = inWindow.filter(sample => !sample.success).length;
+        const spanMs = Math.min(windowMs, Math.max(now - start, 1));
+
+        expect(metrics.errorRate).toBeCloseTo((failures / inWindow.length) * 100);
+        expect(metrics.frameProcessingRate).toBeCloseTo(inWindow.length / (spanMs / 1000));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('windows are kept per key and aggregated by prefix', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 50 }), fc.integer({ min: 1, max: 50 }), (countA, countB) => {
+        const collector = new MetricsCollector();
+        const now = Date.now();
+
+        for (let i = 0; i < countA; i++) collector.recordFrame('denoising:a', 10, true, now);
+        for (let i = 0; i < countB; i++) collector.recordFrame('denoising:b', 30, false, now);
+        collector.recordFrame('stream_a', 1000, true, now);
+
+        expect(collector.getMetrics('denoising:a', now).errorRate).toBe(0);
+        expect(collector.getMetrics('denoising:b', now).errorRate).toBe(100);
+
+        const aggregate = collector.getAggregateMetrics('denoising:', now);
+        expect(aggregate.errorRate).toBeCloseTo((countB / (countA + countB)) * 100);
+        expect(aggregate.p99Latency).toBeLessThanOrEqual(30);
+
+        collector.reset('denoising:a');
+        expect(collector.hasKey('denoising:a')).toBe(false);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('process usage figures come from the running process', () => {
+    const collector = new MetricsCollector();
+    const metrics = collector.getMetrics('missing');
+
+    expect(metrics.memoryUsage).toBeGreaterThan(0);
+    expect(metrics.cpuUsage).toBeGreaterThanOrEqual(0);
+    expect(metrics.cpuUsage).toBeLessThanOrEqual(100);
+    expect(metrics.frameProcessingRate).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * Property-based tests for model runtime loading and tensor conversion
+ * Feature: ai-live-streaming, Property 10: Model loading with fallback
+ */
+
+import fc from 'fast-check';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AIProcessor, AIModelFactory } from '../../ai/AIProcessor';
+import { ModelRuntime, LoadedModel, ModelTensor, TensorDim, frameToTensor, tensorToFrame } from '../../ai/ModelRuntime';
+import { OnnxModelRuntime } from '../../ai/OnnxModelRuntime';
+import { VideoFrame } from '../../types';
+
+// Mock runtime serving an identity model with configurable tensor shapes
+class MockModelRuntime implements ModelRuntime {
+  readonly name = 'mock';
+  public released = 0;
+
+  constructor(
+    private inputDims: TensorDim[] = [1, 3, 'height', 'width'],
+    private outputDims: TensorDim[] = [1, 3, 'height', 'width']
+  ) {}
+
+  async load(modelPath: string): Promise<LoadedModel> {
+    return {
+      modelPath,
+      input: { name: 'input', dims: this.inputDims },
+      output: { name: 'output', dims: this.outputDims },
+      run: async (tensor: ModelTensor) => ({ data: new Float32Array(tensor.data), dims: [...tensor.dims] }),
+      release: async () => {
+        this.released++;
+      }
+    };
+  }
+}
+
+function createRgbFrame(width: number, height: number, seed: number): VideoFrame {
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (i * seed + 17) & 0xff;
+  }
+  return { data, timestamp: 1000, width, height, format: 'rgb24' };
+}
+
+describe('Model Runtime Properties', () => {
+  test('rgb24 frames survive a tensor round trip unchanged', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 32 }),
+        fc.integer({ min: 1, max: 32 }),
+        fc.integer({ min: 1, max: 997 }),
+        (width, height, seed) => {
+          const frame = createRgbFrame(width, height, seed);
+          const tensor = frameToTensor(frame);
+
+          expect(tensor.dims).toEqual([1, 3, height, width]);
+          expect(tensor.data.every(value => value >= 0 && value <= 1)).toBe(true);
+
+          const restored = tensorToFrame(tensor, 'rgb24', frame.timestamp);
+          expect(Array.from(restored.data)).toEqual(Array.from(frame.data));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('loaded models run inference on raw frames', async () => {
+    const processor = new AIProcessor({ ...AIModelFactory.createDenoisingModel(), intensity: 100 }, new MockModelRuntime());
+    const loaded = jest.fn();
+    processor.on('model:loaded', loaded);
+
+    await processor.initialize();
+    const frame = createRgbFrame(8, 4, 31);
+    const result = await processor.processFrame(frame);
+
+    expect(loaded).toHaveBeenCalledWith(expect.objectContaining({ modelType: 'denoising', runtime: 'mock' }));
+    expect(processor.isModelLoaded()).toBe(true);
+    expect(result.enhancementApplied).toEqual(['denoising_inference']);
+    expect(Array.from(result.data)).toEqual(Array.from(frame.data));
+  });
+
+  test('frames that do not fit a fixed-size model fall back per frame', async () => {
+    const processor = new AIProcessor(AIModelFactory.createDenoisingModel(), new MockModelRuntime([1, 3, 4, 4]));
+    await processor.initialize();
+
+    const result = await processor.processFrame(createRgbFrame(8, 8, 3));
+
+    expect(result.enhancementApplied).toEqual(['fallback']);
+  });
+
+  test('models with incompatible tensor shapes are rejected at load', async () => {
+    const runtime = new MockModelRuntime([1, 1, 'height', 'width']);
+    const processor = new AIProcessor({ ...AIModelFactory.createUpscalingModel(), fallbackEnabled: false }, runtime);
+
+    await expect(processor.initialize()).rejects.toThrow('expected 3 (RGB)');
+    expect(runtime.released).toBe(1);
+  });
+
+  test('missing models surface an error and use the CPU fallback when enabled', async () => {
+    const processor = new AIProcessor({
+      ...AIModelFactory.createColorCorrectionModel(),
+      modelPath: '/nonexistent/color.onnx'
+    });
+    const errors: any[] = [];
+    processor.on('model:error', data => errors.push(data));
+
+    await processor.initialize();
+    const result = await processor.processFrame(createRgbFrame(4, 4, 7));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error.code).toBe('MODEL_LOAD_FAILED');
+    expect(errors[0].error.message).toContain('Model file not found');
+    expect(processor.isModelLoaded()).toBe(false);
+    expect(result.enhancementApplied).toEqual(['white_balance', 'gamma_correction']);
+  });
+
+  test('missing models fail initialization when fallback is disabled', async () => {
+    const processor = new AIProcessor({
+      ...AIModelFactory.createStabilizationModel(),
+      modelPath: '/nonexistent/stabilization.onnx',
+      fallbackEnabled: false
+    });
+
+    await expect(processor.initialize()).rejects.toThrow('Model file not found');
+    expect(processor.isReady()).toBe(false);
+  });
+
+  test('malformed model files produce a clear load error', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'model-runtime-'));
+    const modelPath = path.join(dir, 'broken.onnx');
+    writeFileSync(modelPath, 'not an onnx model');
+
+    try {
+      await expect(new OnnxModelRuntime().load(modelPath)).rejects.toThrow(`Failed to load ONNX model ${modelPath}`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,209 @@
+/**
+ * Property-based tests for user profile persistence
+ * Feature: ai-live-streaming, Property 30: Stored profiles and stream history survive a restart, changes are written in batches, and history past the retention period is purged
+ */
+
+import fc from 'fast-check';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Server as SocketIOServer } from 'socket.io';
+import { ProfileStore, InMemoryProfileStore, StoredProfile } from '../../server/ProfileStore';
+import { SqliteProfileStore, PROFILE_STORE_MIGRATIONS } from '../../server/SqliteProfileStore';
+import { RealStreamManager } from '../../server/RealStreamManager';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const epoch = Date.UTC(2026, 0, 1);
+
+const sessionArbitrary = fc.record({
+  startOffset: fc.integer({ min: 0, max: 30 * DAY_MS }),
+  durationMs: fc.option(fc.integer({ min: 1, max: DAY_MS }), { nil: null }),
+  quality: fc.constantFrom('720p', '1080p', 'HD'),
+  persistent: fc.boolean(),
+  backgroundMode: fc.boolean(),
+  recordings: fc.array(fc.record({
+    variant: fc.constantFrom<'enhanced' | 'raw'>('enhanced', 'raw'),
+    path: fc.stringMatching(/^recordings\/[a-z0-9_]{1,12}\.mp4$/),
+    durationMs: fc.integer({ min: 0, max: 3600000 }),
+    size: fc.integer({ min: 0, max: 2 ** 31 })
+  }), { maxLength: 2 })
+});
+
+const profilesArbitrary = fc.uniqueArray(
+  fc.record({
+    userId: fc.stringMatching(/^user_[a-z0-9]{1,10}$/),
+    username: fc.string({ maxLength: 20 }),
+    userAgent: fc.string({ maxLength: 40 }),
+    screenResolution: fc.constantFrom('1920x1080', '1280x720', ''),
+    totalSessions: fc.nat({ max: 1000 }),
+    sessions: fc.array(sessionArbitrary, { maxLength: 4 })
+  }),
+  { selector: profile => profile.userId, maxLength: 6 }
+);
+
+type GeneratedProfile = typeof profilesArbitrary extends fc.Arbitrary<Array<infer T>> ? T : never;
+
+function toStored(profiles: GeneratedProfile[]): StoredProfile[] {
+  return profiles.map(({ sessions, ...profile }, index) => ({
+    ...profile,
+    registeredAt: new Date(epoch + index),
+    lastSeen: new Date(epoch + 40 * DAY_MS),
+    streamHistory: sessions
+      .map((session, position) => ({
+        streamId: `${profile.userId}_stream_${position}`,
+        startTime: new Date(epoch + session.startOffset),
+        ...(session.durationMs === null ? {} : { endTime: new Date(epoch + session.startOffset + session.durationMs) }),
+        quality: session.quality,
+        persistent: session.persistent,
+        backgroundMode: session.backgroundMode,
+        recordings: session.recordings
+      }))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || (a.streamId < b.streamId ? -1 : 1))
+  }));
+}
+
+function byUser(profiles: StoredProfile[]): StoredProfile[] {
+  return [...profiles].sort((a, b) => (a.userId < b.userId ? -1 : 1));
+}
+
+describe('Profile Store Properties', () => {
+  let directory: string;
+  let runs = 0;
+  const io = {} as SocketIOServer;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'profiles-test-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const stores: Array<[string, () => { open: () => ProfileStore }]> = [
+    ['memory', () => {
+      const store = new InMemoryProfileStore();
+      return { open: () => store };
+    }],
+    ['sqlite', () => {
+      const file = path.join(directory, `profiles-${runs++}.db`);
+      return { open: () => new SqliteProfileStore({ file }) };
+    }]
+  ];
+
+  test.each(stores)('%s store returns what was saved, across reopening', async (_name, create) => {
+    await fc.assert(
+      fc.asyncProperty(profilesArbitrary, async generated => {
+        const profiles = toStored(generated);
+        const location = create();
+        const writer = location.open();
+        await writer.save(profiles);
+
+        // Saving a profile without its history updates it and keeps the sessions
+        const renamed = profiles.map(profile => ({ ...profile, username: `${profile.username}!`, streamHistory: [] }));
+        await writer.save(renamed);
+        await writer.close();
+
+        const reader = location.open();
+        const expected = profiles.map(profile => ({ ...profile, username: `${profile.username}!` }));
+        expect(byUser(await reader.load())).toEqual(byUser(expected));
+        await reader.close();
+      }),
+      { numRuns: 25 }
+    );
+  });
+
+  test('the SQLite schema is migrated once and newer databases are refused', async () => {
+    const file = path.join(directory, 'migrations.db');
+    const store = new SqliteProfileStore({ file });
+    expect(store.getSchemaVersion()).toBe(PROFILE_STORE_MIGRATIONS.length);
+    await store.save(toStored([{ userId: 'user_a', username: 'A', userAgent: '', screenResolution: '', totalSessions: 1, sessions: [] }]));
+    await store.close();
+
+    const reopened = new SqliteProfileStore({ file });
+    expect(reopened.getSchemaVersion()).toBe(PROFILE_STORE_MIGRATIONS.length);
+    expect((await reopened.load()).map(profile => profile.userId)).toEqual(['user_a']);
+    await reopened.close();
+
+    const db = new Database(file);
+    db.pragma(`user_version = ${PROFILE_STORE_MIGRATIONS.length + 1}`);
+    db.close();
+    expect(() => new SqliteProfileStore({ file })).toThrow('newer than this server supports');
+  });
+
+  test('changes are written in batches and loaded again after a restart', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 50 }), fc.integer({ min: 1, max: 4 }), async (heartbeats, streams) => {
+        const store = new InMemoryProfileStore();
+        const saves: number[] = [];
+        const save = store.save.bind(store);
+        jest.spyOn(store, 'save').mockImplementation(async profiles => {
+          saves.push(profiles.length);
+          return save(profiles);
+        });
+
+        const manager = new RealStreamManager(io, store, { flushIntervalMs: 60000 });
+        await manager.initialize();
+        manager.registerUser('socket_1', { userId: 'user_live', userAgent: 'test', screenResolution: '1280x720' });
+        for (let index = 0; index < streams; index++) {
+          manager.startStream('user_live', `stream_${index}`, '1080p');
+          manager.endStream(`stream_${index}`);
+        }
+        manager.startStream('user_rtmp', 'stream_open', '720p');
+        for (let beat = 0; beat < heartbeats; beat++) {
+          manager.updateUserLastSeen('user_live');
+        }
+
+        expect(saves).toEqual([]);
+        await manager.flush();
+        expect(saves).toEqual([2]);
+        await manager.flush();
+        expect(saves).toEqual([2]);
+        await manager.close();
+
+        const restarted = new RealStreamManager(io, store);
+        await restarted.initialize();
+        const user = restarted.getStreamById('user_live')!;
+        expect(user).toMatchObject({ socketId: '', isOnline: false, isStreaming: false, totalSessions: 1 });
+        expect(user.streamHistory.map(session => session.streamId)).toEqual(Array.from({ length: streams }, (_, index) => `stream_${index}`));
+        expect(restarted.getStreamById('user_rtmp')).toMatchObject({ isStreaming: false, streamHistory: [] });
+        await restarted.close();
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('history older than the retention period is purged from memory and the store', async () => {
+    await fc.assert(
+      fc.asyncProperty(profilesArbitrary, fc.integer({ min: 1, max: 30 }), async (generated, retentionDays) => {
+        const profiles = toStored(generated);
+        const store = new SqliteProfileStore({ file: ':memory:' });
+        await store.save(profiles);
+
+        const now = epoch + 31 * DAY_MS;
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+        const cutoff = now - retentionDays * DAY_MS;
+        const kept = (profile: StoredProfile) => profile.streamHistory
+          .filter(session => !session.endTime || session.endTime.getTime() >= cutoff)
+          .map(session => session.streamId);
+        const expectedPurged = profiles.reduce((total, profile) => total + profile.streamHistory.length - kept(profile).length, 0);
+
+        const manager = new RealStreamManager(io, store, { retentionDays });
+        const purged = new Promise<any>(resolve => manager.once('history:purged', resolve));
+        await manager.initialize();
+        expect((await purged).purged).toBe(expectedPurged);
+
+        for (const profile of profiles) {
+          expect(manager.getStreamById(profile.userId)!.streamHistory.map(session => session.streamId)).toEqual(kept(profile));
+        }
+        const stored = await store.load();
+        expect(stored.flatMap(profile => profile.streamHistory).length)
+          .toBe(profiles.reduce((total, profile) => total + kept(profile).length, 0));
+        await manager.close();
+        jest.restoreAllMocks();
+      }),
+      { numRuns: 25 }
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,122 @@
+/**
+ * Property-based tests for the Prometheus metrics exporter
+ * Feature: ai-live-streaming, Property 12: Scrapeable server metrics
+ */
+
+import fc from 'fast-check';
+import { StreamingServer } from '../../server/index';
+import { RealStreamManager } from '../../server/RealStreamManager';
+import { PrometheusExporter } from '../../server/PrometheusExporter';
+import { EnhancedFrame } from '../../types';
+
+function createStubManager(streamCount: number, adminCount: number): RealStreamManager {
+  return {
+    getStreamCount: () => streamCount,
+    getAdminCount: () => adminCount
+  } as unknown as RealStreamManager;
+}
+
+function createFrames(count: number, fallback: number): EnhancedFrame[] {
+  return Array.from({ length: count }, (_, i) => ({
+    data: new Uint8Array(0),
+    timestamp: i,
+    width: 640,
+    height: 480,
+    format: 'h264' as const,
+    enhancementApplied: i < fallback ? ['fallback'] : ['white_balance'],
+    processingTime: 4
+  }));
+}
+
+function sampleValue(text: string, metric: string, labels: string = ''): number | undefined {
+  const line = text.split('\n').find(entry => entry.startsWith(`${metric}${labels} `));
+  return line === undefined ? undefined : Number(line.split(' ')[1]);
+}
+
+describe('Prometheus Exporter Properties', () => {
+  const servers: StreamingServer[] = [];
+
+  function createServer(): StreamingServer {
+    const server = new StreamingServer(0);
+    servers.push(server);
+    return server;
+  }
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.stop()));
+  });
+
+  test('frame counters split enhanced and fallback frames per stream', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 30 }),
+        fc.integer({ min: 0, max: 30 }),
+        async (count, fallbackSeed) => {
+          const server = createServer();
+          const exporter = new PrometheusExporter(server, createStubManager(0, 0));
+          const fallback = fallbackSeed % (count + 1);
+
+          server.getIngestionService().emit('frames:enhanced', {
+            streamId: 'stream_a',
+            originalFrames: [],
+            enhancedFrames: createFrames(count, fallback),
+            processingTime: 20,
+            modelType: 'colorCorrection'
+          });
+
+          const text = await exporter.getMetrics();
+          expect(text).not.toContain('stream_a');
+          expect(sampleValue(text, 'ai_streaming_frames_enhanced_total', '{stream="1"}')).toBe(count - fallback);
+          if (count > fallback) {
+            expect(sampleValue(text, 'ai_streaming_ai_frame_latency_seconds_count', '{model_type="colorCorrection"}'))
+              .toBe(count - fallback);
+          }
+          if (fallback > 0) {
+            expect(sampleValue(text, 'ai_streaming_frames_fallback_total', '{stream="1"}')).toBe(fallback);
+          }
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('streams are labelled in the order they are seen, capped and folded into an overflow series', async () => {
+    const server = createServer();
+    const exporter = new PrometheusExporter(server, createStubManager(0, 0), 2);
+    const ingestionService = server.getIngestionService();
+
+    for (const streamId of ['s1', 's2', 's3', 's4']) {
+      ingestionService.emit('buffer:overflow', { streamId });
+    }
+
+    const text = await exporter.getMetrics();
+    expect(sampleValue(text, 'ai_streaming_buffer_overflows_total', '{stream="1"}')).toBe(1);
+    expect(sampleValue(text, 'ai_streaming_buffer_overflows_total', '{stream="2"}')).toBe(1);
+    expect(sampleValue(text, 'ai_streaming_buffer_overflows_total', '{stream="3"}')).toBeUndefined();
+    expect(sampleValue(text, 'ai_streaming_buffer_overflows_total', '{stream="other"}')).toBe(2);
+
+    ingestionService.emit('stream:disconnected', { streamId: 's1' });
+    ingestionService.emit('buffer:overflow', { streamId: 's5' });
+
+    const afterDisconnect = await exporter.getMetrics();
+    expect(sampleValue(afterDisconnect, 'ai_streaming_buffer_overflows_total', '{stream="1"}')).toBeUndefined();
+    expect(sampleValue(afterDisconnect, 'ai_streaming_buffer_overflows_total', '{stream="3"}')).toBe(1);
+    expect(afterDisconnect).not.toMatch(/stream="s\d"/);
+  });
+
+  test('gauges reflect live server state at scrape time', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 50 }), fc.integer({ min: 0, max: 5 }), async (streams, admins) => {
+        const exporter = new PrometheusExporter(createServer(), createStubManager(streams, admins));
+        const text = await exporter.getMetrics();
+
+        expect(sampleValue(text, 'ai_streaming_real_streams')).toBe(streams);
+        expect(sampleValue(text, 'ai_streaming_admins_connected')).toBe(admins);
+        expect(sampleValue(text, 'ai_streaming_active_streams')).toBe(0);
+        expect(sampleValue(text, 'ai_streaming_webrtc_connections')).toBe(0);
+        expect(exporter.getContentType()).toContain('text/plain');
+      }),
+      { numRuns: 10 }
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,299 @@
+/**
+ * Property-based tests for stream recording
+ * Feature: ai-live-streaming, Property 25: A recording finalizes to a seekable MP4 holding exactly the recorded access units, and survives a crash up to its last fragment
+ */
+
+import fc from 'fast-check';
+import { promises as fs, mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { io as connectSocket, Socket as ClientSocket } from 'socket.io-client';
+import { StreamRecorder, RecordingFile } from '../../server/StreamRecorder';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { WebRTCServer } from '../../server/WebRTCServer';
+import { WebServer } from '../../server/WebServer';
+import { splitAnnexB } from '../../server/MpegTsDemuxer';
+import { EnhancedFrame, VideoStream } from '../../types';
+import { H264_PPS, h264Frames, readBoxes, findBox } from '../helpers/h264Fixtures';
+
+// Same stream, different level: a new sample description
+const H264_SPS_LEVEL_31 = Buffer.from([0x67, 0x42, 0xc0, 0x1f, 0xd9, 0x00, 0xa0, 0x47, 0xfe, 0xc8]);
+
+interface Mp4Sample {
+  duration: number;
+  keyframe: boolean;
+  data: Buffer;
+}
+
+function createStream(streamId: string): VideoStream {
+  return {
+    streamId,
+    userId: `user_${streamId}`,
+    config: {
+      resolution: { width: 640, height: 360 },
+      frameRate: 25,
+      bitrate: 1000000,
+      audioEnabled: false
+    },
+    frames: [],
+    metadata: {
+      streamId,
+      frameNumber: 0,
+      timestamp: Date.now(),
+      quality: 'low'
+    }
+  };
+}
+
+function sampleData(frame: EnhancedFrame): Buffer {
+  const units = splitAnnexB(Buffer.from(frame.data)).filter(nal => ![7, 8, 9].includes(nal[0] & 0x1f));
+  return Buffer.concat(units.flatMap(nal => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(nal.length);
+    return [length, nal];
+  }));
+}
+
+/**
+ * Read a progressive MP4 back into samples through its sample tables
+ */
+function readProgressiveMp4(data: Buffer): { boxes: string[]; durationMs: number; samples: Mp4Sample[] } {
+  const stbl = ['moov', 'trak', 'mdia', 'minf', 'stbl'];
+  const stts = findBox(data, [...stbl, 'stts'])!;
+  const stss = findBox(data, [...stbl, 'stss'])!;
+  const stsz = findBox(data, [...stbl, 'stsz'])!;
+  const stco = findBox(data, [...stbl, 'stco'])!;
+  expect(findBox(data, [...stbl, 'stsc'])!.readUInt32BE(4)).toBe(1);
+
+  const durations: number[] = [];
+  for (let i = 0; i < stts.readUInt32BE(4); i++) {
+    durations.push(...Array(stts.readUInt32BE(8 + i * 8)).fill(stts.readUInt32BE(12 + i * 8)));
+  }
+  const keyframes = new Set(Array.from({ length: stss.readUInt32BE(4) }, (_, i) => stss.readUInt32BE(8 + i * 4)));
+
+  let position = stco.readUInt32BE(8);
+  const samples: Mp4Sample[] = [];
+  for (let i = 0; i < stsz.readUInt32BE(8); i++) {
+    const size = stsz.readUInt32BE(12 + i * 4);
+    samples.push({ duration: durations[i], keyframe: keyframes.has(i + 1), data: data.subarray(position, position + size) });
+    position += size;
+  }
+  expect(position).toBe(data.length);
+
+  const mvhd = findBox(data, ['moov', 'mvhd'])!;
+  return { boxes: readBoxes(data).map(box => box.type), durationMs: mvhd.readUInt32BE(16), samples };
+}
+
+function push(ingestion: StreamIngestionService, streamId: string, frames: EnhancedFrame[], originalFrames: EnhancedFrame[] = frames): void {
+  ingestion.emit('frames:enhanced', { streamId, originalFrames, enhancedFrames: frames, processingTime: 1, modelType: 'denoising' });
+}
+
+/**
+ * Wait until everything the recorder has queued for a stream is on disk
+ */
+async function flushed(recorder: StreamRecorder, streamId: string): Promise<string> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const track = recorder.getStatus(streamId)!.tracks[0];
+    const size = track.path ? await fs.stat(track.path).then(stat => stat.size, () => 0) : 0;
+    if (track.path && size === track.bytes) {
+      return track.path;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('Recording was not flushed');
+}
+
+describe('Stream Recording Properties', () => {
+  let directory: string;
+  let services: Array<{ ingestion: StreamIngestionService; webrtcServer: WebRTCServer }> = [];
+
+  // Each service's processor runs until it is stopped
+  function createIngestion(): StreamIngestionService {
+    const webrtcServer = new WebRTCServer(0);
+    const ingestion = new StreamIngestionService(webrtcServer);
+    services.push({ ingestion, webrtcServer });
+    return ingestion;
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'recording-test-'));
+  });
+
+  afterEach(async () => {
+    for (const { ingestion, webrtcServer } of services) {
+      ingestion.stop();
+      await webrtcServer.stop();
+    }
+    services = [];
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('a stopped recording is a faststart MP4 of every access unit from the first keyframe on', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.integer({ min: 1, max: 40 }), { minLength: 1, maxLength: 6 }),
+        fc.integer({ min: 0, max: 5 }),
+        fc.integer({ min: 1, max: 7 }),
+        async (gops, leading, batches) => {
+          const ingestion = createIngestion();
+          const recorder = new StreamRecorder(ingestion, { directory, fragmentDurationMs: 500 });
+          ingestion.addVideoStream(createStream('stream_rec'));
+          recorder.startRecording('stream_rec');
+
+          const frames = h264Frames(gops, { leading });
+          const size = Math.ceil(frames.length / batches);
+          for (let i = 0; i < frames.length; i += size) {
+            push(ingestion, 'stream_rec', frames.slice(i, i + size));
+          }
+
+          const [file] = await recorder.stopRecording('stream_rec');
+          const recorded = frames.slice(leading);
+          expect(file).toMatchObject({ variant: 'enhanced', durationMs: recorded.length * 40 });
+          expect(path.dirname(file.path)).toBe(directory);
+
+          const data = await fs.readFile(file.path);
+          expect(file.size).toBe(data.length);
+          const mp4 = readProgressiveMp4(data);
+          expect(mp4.boxes).toEqual(['ftyp', 'moov', 'mdat']);
+          expect(mp4.durationMs).toBe(recorded.length * 40);
+          expect(mp4.samples.map(sample => sample.duration)).toEqual(recorded.map(() => 3600));
+          expect(mp4.samples.map(sample => sample.keyframe)).toEqual(recorded.map(frame => frame.keyframe));
+          mp4.samples.forEach((sample, index) => expect(sample.data.equals(sampleData(recorded[index]))).toBe(true));
+
+          // Only the finished file is left behind
+          expect(await fs.readdir(directory)).toEqual([path.basename(file.path)]);
+          await fs.unlink(file.path);
+        }
+      ),
+      { numRuns: 25 }
+    );
+  });
+
+  test('after a crash the complete fragments are recovered and a partial one is dropped', async () => {
+    const ingestion = createIngestion();
+    const crashed = new StreamRecorder(ingestion, { directory, fragmentDurationMs: 1000 });
+    ingestion.addVideoStream(createStream('stream_crash'));
+    crashed.startRecording('stream_crash');
+
+    // 4.4 seconds: four one-second fragments reach the disk, the rest is still buffered
+    push(ingestion, 'stream_crash', h264Frames([50, 50, 10]));
+    const fragmented = await flushed(crashed, 'stream_crash');
+
+    // A fragment torn mid-write
+    const torn = Buffer.alloc(64);
+    torn.writeUInt32BE(4096, 0);
+    torn.write('moof', 4, 'ascii');
+    await fs.appendFile(fragmented, torn);
+
+    const restarted = new StreamRecorder(createIngestion(), { directory });
+    const finalized = new Promise<any>(resolve => restarted.once('recording:finalized', resolve));
+    const [file] = await restarted.recover();
+
+    expect(file.path).toBe(fragmented.replace(/\.fmp4$/, '.mp4'));
+    expect(file.durationMs).toBe(4000);
+    expect(await finalized).toMatchObject({ streamId: 'stream_crash', recovered: true, recordings: [file] });
+
+    const mp4 = readProgressiveMp4(await fs.readFile(file.path));
+    const frames = h264Frames([50, 50, 10]).slice(0, 100);
+    expect(mp4.samples).toHaveLength(100);
+    mp4.samples.forEach((sample, index) => expect(sample.data.equals(sampleData(frames[index]))).toBe(true));
+    expect((await fs.readdir(directory)).sort()).toEqual([path.basename(file.path)]);
+    await crashed.stop();
+  });
+
+  test('new parameter sets start a new file, raw output is recorded alongside, and unsupported formats fail their track', async () => {
+    const ingestion = createIngestion();
+    const recorder = new StreamRecorder(ingestion, { directory, includeRaw: true });
+    const errors: any[] = [];
+    recorder.on('recording:error', error => errors.push(error));
+    ingestion.addVideoStream(createStream('stream_parts'));
+
+    expect(() => recorder.startRecording('stream_unknown')).toThrow('Stream stream_unknown not found');
+    expect(recorder.startRecording('stream_parts').tracks.map(track => track.variant)).toEqual(['enhanced', 'raw']);
+    expect(() => recorder.startRecording('stream_parts')).toThrow('Stream stream_parts is already being recorded');
+
+    const first = h264Frames([25]);
+    const second = h264Frames([25], { parameterSets: [H264_SPS_LEVEL_31, H264_PPS], firstIndex: 25 });
+    push(ingestion, 'stream_parts', [...first, ...second], []);
+    const raw = h264Frames([25, 25]).map(frame => ({ ...frame, format: 'vp8' as const }));
+    push(ingestion, 'stream_parts', [], raw);
+    expect(errors).toEqual([{ streamId: 'stream_parts', variant: 'raw', error: 'Cannot record vp8 video; only H.264 and H.265 are supported' }]);
+
+    const files = await recorder.stopRecording('stream_parts');
+    expect(files.map(file => [file.variant, path.basename(file.path).replace(/^stream_parts_\d+_/, ''), file.durationMs])).toEqual([
+      ['enhanced', 'enhanced.mp4', 1000],
+      ['enhanced', 'enhanced_part2.mp4', 1000]
+    ]);
+    expect(recorder.isRecording('stream_parts')).toBe(false);
+    await expect(recorder.stopRecording('stream_parts')).rejects.toThrow('Stream stream_parts is not being recorded');
+
+    // Raw H.264 ingest is recorded as its own file
+    recorder.startRecording('stream_parts', true);
+    push(ingestion, 'stream_parts', h264Frames([10]), h264Frames([20]));
+    const both = await recorder.stopRecording('stream_parts');
+    expect(both.map(file => [file.variant, file.durationMs])).toEqual([['enhanced', 400], ['raw', 800]]);
+  });
+
+  test('recordings are toggled over HTTP and the socket and stored in the stream history', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, ladderOptions: { levels: ['low'] }, recordingOptions: { directory } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const token = server.getAuthService().issueToken('moderator', 'moderator');
+    const socket: ClientSocket = connectSocket(base, { transports: ['websocket'], reconnection: false, auth: { token } });
+    const next = (event: string) => new Promise<any>(resolve => socket.once(event, resolve));
+    const connected = new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('connect_error', reject);
+    });
+    const request = (method: string, body?: unknown) => fetch(`${base}/api/streams/stream_live/recording`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    try {
+      await connected;
+      const ingestion = server.getStreamingServer().getIngestionService();
+      expect((await request('POST', {})).status).toBe(404);
+
+      ingestion.addVideoStream(createStream('stream_live'));
+      expect((await request('POST', { includeRaw: 'yes' })).status).toBe(400);
+      const started = await request('POST', {});
+      expect(started.status).toBe(201);
+      expect((await started.json()).data).toMatchObject({ streamId: 'stream_live', includeRaw: false });
+      expect((await request('POST', {})).status).toBe(409);
+
+      push(ingestion, 'stream_live', h264Frames([25]));
+      const status = await (await request('GET')).json();
+      expect(status.data.tracks[0].durationMs).toBe(960);
+
+      const stopped = await (await request('DELETE')).json();
+      const [first]: RecordingFile[] = stopped.data;
+      expect(first).toMatchObject({ variant: 'enhanced', durationMs: 1000 });
+      expect((await request('DELETE')).status).toBe(404);
+
+      // The socket toggle; disconnecting the stream finalizes the recording into its history entry
+      const socketStarted = next('recording-started');
+      socket.emit('recording-start', { streamId: 'stream_live' });
+      expect(await socketStarted).toMatchObject({ streamId: 'stream_live' });
+
+      const rejected = next('recording-error');
+      socket.emit('recording-start', { streamId: 'stream_live' });
+      expect((await rejected).error).toBe('Stream stream_live is already being recorded');
+
+      push(ingestion, 'stream_live', h264Frames([50], { firstIndex: 25 }));
+      const recorded = new Promise<any>(resolve => server.getRealStreamManager().once('stream:recorded', resolve));
+      ingestion.handleDisconnection('stream_live');
+      const [second] = (await recorded).recordings;
+      expect(second.durationMs).toBe(2000);
+
+      const history = server.getRealStreamManager().getStreamById('user_stream_live')!.streamHistory;
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ streamId: 'stream_live', quality: '360p', recordings: [first, second] });
+      expect(history[0].endTime).toBeDefined();
+    } finally {
+      socket.close();
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
@@ -0,0 +1,241 @@
+/**
+ * Property-based tests for the ABR rendition ladder
+ * Feature: ai-live-streaming, Property 22: Every rendition keeps the source's keyframes, so all renditions are segmented identically
+ */
+
+import fc from 'fast-check';
+import { chmodSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { StreamingServer } from '../../server/index';
+import { WebServer } from '../../server/WebServer';
+import { RenditionLadder, Rendition } from '../../server/RenditionLadder';
+import { RenditionEncoder, RenditionEncoderConfig, RenditionEncoderFactory, RenditionEncoderSink } from '../../server/RenditionEncoder';
+import { FfmpegRenditionEncoderFactory } from '../../server/FfmpegRenditionEncoder';
+import { CmafPackager } from '../../server/CmafPackager';
+import { splitAnnexB } from '../../server/MpegTsDemuxer';
+import { EnhancedFrame, QualityLevel, VideoFrame } from '../../types';
+import { QUALITY_LEVELS, getQualityLevelPreset } from '../../utils/qualityPresets';
+import { annexB, h264Frames } from '../helpers/h264Fixtures';
+
+/**
+ * Encoder that returns its input after a random delay, optionally losing keyframes or failing
+ */
+class ScriptedEncoderFactory implements RenditionEncoderFactory {
+  readonly name = 'scripted';
+  configs: RenditionEncoderConfig[] = [];
+  dropKeyframesAt: number | null = null; // height of the rendition whose second keyframe is lost
+  failAt: number | null = null; // height of the rendition whose encoder reports an error
+
+  create(config: RenditionEncoderConfig, sink: RenditionEncoderSink): RenditionEncoder {
+    this.configs.push(config);
+    const pending: Uint8Array[] = [];
+    let keyframes = 0;
+    let timer: NodeJS.Timeout | null = null;
+
+    const deliver = () => {
+      timer = null;
+      pending.splice(0, 1 + Math.floor(Math.random() * pending.length)).forEach(data => sink.frame(data));
+      if (pending.length > 0) {
+        timer = setTimeout(deliver, Math.random() * 2);
+      }
+    };
+
+    return {
+      encode: (frame: VideoFrame) => {
+        let data = frame.data;
+        if (frame.keyframe && ++keyframes === 2 && this.dropKeyframesAt === config.height) {
+          data = annexB(splitAnnexB(Buffer.from(data)).filter(nal => ![7, 8].includes(nal[0] & 0x1f))
+            .map(nal => (nal[0] & 0x1f) === 5 ? Buffer.concat([Buffer.from([0x41]), nal.subarray(1)]) : nal));
+        }
+        if (frame.keyframe && keyframes === 2 && this.failAt === config.height) {
+          setImmediate(() => sink.error(new Error('encoder crashed')));
+        }
+        pending.push(data);
+        timer = timer || setTimeout(deliver, Math.random() * 2);
+      },
+      close: async () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        pending.splice(0).forEach(data => sink.frame(data));
+      }
+    };
+  }
+}
+
+function pushFrames(server: StreamingServer, streamId: string, frames: EnhancedFrame[]): void {
+  server.getIngestionService().emit('frames:enhanced', { streamId, originalFrames: frames, enhancedFrames: frames, processingTime: 1, modelType: 'denoising' });
+}
+
+/**
+ * Collect every frame the ladder emits for a stream, per rendition
+ */
+function collectFrames(ladder: RenditionLadder, streamId: string): Map<QualityLevel, VideoFrame[]> {
+  const collected = new Map<QualityLevel, VideoFrame[]>();
+  ladder.on('rendition:frames', (data: { streamId: string; quality: QualityLevel; frames: VideoFrame[] }) => {
+    if (data.streamId === streamId) {
+      collected.set(data.quality, [...(collected.get(data.quality) || []), ...data.frames]);
+    }
+  });
+  return collected;
+}
+
+async function endStream(server: StreamingServer, ladder: RenditionLadder, streamId: string): Promise<void> {
+  const ended = new Promise(resolve => ladder.once('stream:ended', resolve));
+  server.getIngestionService().emit('stream:disconnected', { streamId });
+  await ended;
+}
+
+describe('Rendition Ladder Properties', () => {
+  test('renditions below the source are transcoded on the source keyframes and segment identically', async () => {
+    const server = new StreamingServer();
+    let run = 0;
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.integer({ min: 1, max: 30 }), { minLength: 1, maxLength: 5 }),
+        fc.constantFrom(16, 33, 40),
+        fc.constantFrom(360, 480, 720, 1080, 2160),
+        fc.subarray(QUALITY_LEVELS, { minLength: 1 }),
+        async (gops, intervalMs, height, levels) => {
+          const streamId = `stream_ladder_${run++}`;
+          const factory = new ScriptedEncoderFactory();
+          const ladder = new RenditionLadder(server.getIngestionService(), factory, { levels });
+          const packager = new CmafPackager(ladder, { segmentDurationMs: 500, partTargetMs: 200, windowSegments: 100 });
+          const collected = collectFrames(ladder, streamId);
+          const frames = h264Frames(gops, { intervalMs, firstTimestamp: 1000, width: height * 16 / 9, height });
+
+          ladder.pushFrames(streamId, frames);
+          const renditions = ladder.getRenditions(streamId);
+          await ladder.endStream(streamId);
+
+          // The source passes through as the highest configured level that fits; nothing is upscaled
+          const fitting = levels.filter(level => getQualityLevelPreset(level).resolution.height <= height);
+          const sourceLevel = fitting.length > 0 ? fitting[fitting.length - 1] : levels[0];
+          expect(renditions.map(rendition => rendition.quality))
+            .toEqual(levels.slice(0, levels.indexOf(sourceLevel) + 1));
+          expect(renditions.find(rendition => rendition.passthrough)).toMatchObject({ quality: sourceLevel, width: frames[0].width, height });
+          expect(collected.get(sourceLevel)).toEqual(frames);
+
+          const transcoded = renditions.filter(rendition => !rendition.passthrough);
+          expect(factory.configs).toEqual(transcoded.map(rendition => ({ format: 'h264', width: rendition.width, height: rendition.height, bitrate: rendition.bitrate })));
+
+          const sourceKeyframes = frames.filter(frame => frame.keyframe).map(frame => frame.timestamp);
+          for (const rendition of transcoded) {
+            const preset = getQualityLevelPreset(rendition.quality);
+            expect(rendition).toMatchObject({ height: preset.resolution.height, frameRate: preset.frameRate, bitrate: preset.bitrate });
+            expect(rendition.width % 2).toBe(0);
+
+            const output = collected.get(rendition.quality)!;
+            expect(output.filter(frame => frame.keyframe).map(frame => frame.timestamp)).toEqual(sourceKeyframes);
+            expect(output.every(frame => frame.width === rendition.width && frame.height === rendition.height)).toBe(true);
+
+            // Frames above the preset frame rate are dropped, except keyframes
+            output.forEach((frame, index) => {
+              if (index > 0 && !frame.keyframe) {
+                expect(frame.timestamp - output[index - 1].timestamp).toBeGreaterThanOrEqual(500 / preset.frameRate);
+              }
+            });
+            if (1000 / intervalMs <= preset.frameRate) {
+              expect(output.map(frame => frame.timestamp)).toEqual(frames.map(frame => frame.timestamp));
+            }
+          }
+
+          // Segment boundaries match across renditions, so players can switch at any of them
+          const boundaries = (quality: QualityLevel) => packager.getSegmenter(streamId, quality)!.getSegments()
+            .map(segment => [segment.startTime, segment.sequenceNumber]);
+          for (const rendition of renditions) {
+            expect(boundaries(rendition.quality)).toEqual(boundaries(sourceLevel));
+          }
+          packager.stop();
+        }
+      ),
+      { numRuns: 40 }
+    );
+  });
+
+  test('renditions are listed through the API and the HLS multivariant playlist', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, packagingOptions: { segmentDurationMs: 500, partTargetMs: 200 }, renditionEncoder: new ScriptedEncoderFactory() });
+    await server.start();
+
+    try {
+      const base = `http://127.0.0.1:${server.getPort()}`;
+      const headers = { Authorization: `Bearer ${server.getAuthService().issueToken('mod', 'moderator')}` };
+      expect((await fetch(`${base}/api/streams/stream_abr/renditions`)).status).toBe(401);
+      expect((await fetch(`${base}/api/streams/stream_abr/renditions`, { headers })).status).toBe(404);
+
+      pushFrames(server.getStreamingServer(), 'stream_abr', h264Frames([15, 15, 15], { intervalMs: 33, firstTimestamp: 1000, width: 1920, height: 1080 }));
+      const response = await (await fetch(`${base}/api/streams/stream_abr/renditions`, { headers })).json() as { success: boolean; data: Rendition[] };
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual([
+        { quality: 'low', width: 854, height: 480, frameRate: 30, bitrate: 1000000, passthrough: false },
+        { quality: 'medium', width: 1280, height: 720, frameRate: 30, bitrate: 2000000, passthrough: false },
+        { quality: 'high', width: 1920, height: 1080, frameRate: 60, bitrate: 4000000, passthrough: true }
+      ]);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const multivariant = await (await fetch(`${base}/hls/stream_abr/index.m3u8`)).text();
+      expect(multivariant.split('\n').filter(line => line.endsWith('video.m3u8')))
+        .toEqual(['low/video.m3u8', 'medium/video.m3u8', 'high/video.m3u8']);
+      expect(multivariant).toContain('RESOLUTION=854x480');
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+
+  test('a rendition that loses a source keyframe or whose encoder fails is dropped from the ladder', async () => {
+    const server = new StreamingServer();
+    const factory = new ScriptedEncoderFactory();
+    factory.dropKeyframesAt = 480;
+    factory.failAt = 720;
+    const ladder = new RenditionLadder(server.getIngestionService(), factory);
+    const packager = new CmafPackager(ladder, { segmentDurationMs: 500, partTargetMs: 200 });
+    const failures: Array<{ quality: QualityLevel; error: string }> = [];
+    const bothFailed = new Promise<void>(resolve => ladder.on('rendition:failed', ({ quality, error }) => {
+      failures.push({ quality, error });
+      if (failures.length === 2) {
+        resolve();
+      }
+    }));
+
+    pushFrames(server, 'stream_failing', h264Frames([15, 15, 15], { intervalMs: 33, firstTimestamp: 1000, width: 1920, height: 1080 }));
+    await bothFailed;
+    expect(ladder.getRenditions('stream_failing').map(rendition => rendition.quality)).toEqual(['high']);
+    await endStream(server, ladder, 'stream_failing');
+
+    expect(failures.sort((a, b) => a.quality.localeCompare(b.quality))).toEqual([
+      { quality: 'low', error: 'Encoder did not produce a keyframe at 1495' },
+      { quality: 'medium', error: 'encoder crashed' }
+    ]);
+    expect(packager.getRenditions('stream_failing')).toEqual(['high']);
+    packager.stop();
+  });
+
+  test('the ffmpeg encoder splits its output into one access unit per frame and reports a missing binary', async () => {
+    // A stand-in for ffmpeg that copies its input, which already has access unit delimiters
+    const directory = mkdtempSync(path.join(tmpdir(), 'ladder-'));
+    const ffmpeg = path.join(directory, 'ffmpeg');
+    writeFileSync(ffmpeg, '#!/bin/sh\nexec cat\n');
+    chmodSync(ffmpeg, 0o755);
+
+    const server = new StreamingServer();
+    const ladder = new RenditionLadder(server.getIngestionService(), new FfmpegRenditionEncoderFactory(ffmpeg), { levels: ['low', 'medium'] });
+    const collected = collectFrames(ladder, 'stream_ffmpeg');
+    const frames = h264Frames([10, 10], { intervalMs: 33, firstTimestamp: 1000, width: 1280, height: 720 });
+
+    pushFrames(server, 'stream_ffmpeg', frames);
+    await endStream(server, ladder, 'stream_ffmpeg');
+
+    const output = collected.get('low')!;
+    expect(output.map(frame => Buffer.from(frame.data).toString('hex'))).toEqual(frames.map(frame => Buffer.from(frame.data).toString('hex')));
+    expect(output.map(frame => [frame.timestamp, frame.keyframe])).toEqual(frames.map(frame => [frame.timestamp, frame.keyframe]));
+
+    const missing = new RenditionLadder(server.getIngestionService(), new FfmpegRenditionEncoderFactory(path.join(directory, 'missing')), { levels: ['low', 'medium'] });
+    const failed = new Promise(resolve => missing.once('rendition:failed', resolve));
+    missing.pushFrames('stream_missing', frames);
+    expect(await failed).toMatchObject({ streamId: 'stream_missing', quality: 'low', error: expect.stringContaining('Failed to start ffmpeg') });
+    expect(missing.getRenditions('stream_missing').map(rendition => rendition.quality)).toEqual(['medium']);
+    await missing.stop();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,418 @@
+/**
+ * Property-based tests for RTMP ingest
+ * Feature: ai-live-streaming, Property 18: RTMP publishes replayed from FLV reach the stream buffer as H.264 access units
+ */
+
+import fc from 'fast-check';
+import { connect, Socket } from 'net';
+import { StreamingServer } from '../../server/index';
+import { StreamBuffer } from '../../server/StreamBuffer';
+import { StreamKeyStore } from '../../server/StreamKeyStore';
+import { Amf0Value, decodeAmf0, encodeAmf0 } from '../../server/Amf0';
+import { RtmpChunkParser, RtmpChunkWriter, RtmpMessage, RTMP_MESSAGE_TYPES } from '../../server/RtmpChunkStream';
+import { readFlvTags, FLV_TAG_TYPES } from '../../server/FlvDemuxer';
+import { VideoFrame } from '../../types';
+
+const START_CODE = Buffer.from([0, 0, 0, 1]);
+const SPS = Buffer.from([0x67, 0x42, 0x00, 0x1e, 0x95, 0xa0, 0x50, 0x1e]);
+const PPS = Buffer.from([0x68, 0xce, 0x38, 0x80]);
+
+interface AccessUnit {
+  keyframe: boolean;
+  nals: Buffer[];
+}
+
+function flvTag(type: number, timestamp: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(11);
+  header[0] = type;
+  header.writeUIntBE(data.length, 1, 3);
+  header.writeUIntBE(timestamp & 0xffffff, 4, 3);
+  header[7] = timestamp >>> 24;
+  const previousTagSize = Buffer.alloc(4);
+  previousTagSize.writeUInt32BE(11 + data.length);
+  return Buffer.concat([header, data, previousTagSize]);
+}
+
+/**
+ * Build an FLV recording: onMetaData, the AVC sequence header, then one tag per access unit
+ */
+function recordFlv(units: AccessUnit[], metadata: { [key: string]: Amf0Value }, frameInterval: number): Buffer {
+  const config = Buffer.concat([
+    Buffer.from([1, SPS[1], SPS[2], SPS[3], 0xff, 0xe1]),
+    Buffer.from([0, SPS.length]), SPS,
+    Buffer.from([1, 0, PPS.length]), PPS
+  ]);
+
+  const tags = [
+    flvTag(FLV_TAG_TYPES.SCRIPT_DATA, 0, encodeAmf0('onMetaData', metadata)),
+    flvTag(FLV_TAG_TYPES.VIDEO, 0, Buffer.concat([Buffer.from([0x17, 0, 0, 0, 0]), config])),
+    flvTag(FLV_TAG_TYPES.AUDIO, 0, Buffer.from([0xaf, 0x00, 0x12, 0x10])),
+    ...units.map((unit, index) => {
+      const nals = unit.nals.flatMap(nal => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(nal.length);
+        return [length, nal];
+      });
+      const header = Buffer.from([unit.keyframe ? 0x17 : 0x27, 1, 0, 0, 0]);
+      return flvTag(FLV_TAG_TYPES.VIDEO, index * frameInterval, Buffer.concat([header, ...nals]));
+    })
+  ];
+
+  return Buffer.concat([Buffer.from([0x46, 0x4c, 0x56, 1, 0x05, 0, 0, 0, 9, 0, 0, 0, 0]), ...tags]);
+}
+
+function annexB(unit: AccessUnit): Buffer {
+  const nals = unit.keyframe ? [SPS, PPS, ...unit.nals] : unit.nals;
+  return Buffer.concat(nals.flatMap(nal => [START_CODE, nal]));
+}
+
+/**
+ * Minimal RTMP publisher that replays FLV tags, as an encoder would
+ */
+class ScriptedRtmpClient {
+  private socket: Socket;
+  private parser = new RtmpChunkParser();
+  private writer = new RtmpChunkWriter();
+  private messages: RtmpMessage[] = [];
+  private waiters: Array<() => void> = [];
+  private handshakeBytes = Buffer.alloc(0);
+  private handshakeDone = false;
+  private closed = false;
+
+  private constructor(socket: Socket) {
+    this.socket = socket;
+    socket.on('data', data => this.handleData(data));
+    socket.on('close', () => {
+      this.closed = true;
+      this.notify();
+    });
+    socket.on('error', () => undefined);
+  }
+
+  static async connect(port: number): Promise<ScriptedRtmpClient> {
+    const socket = connect(port, '127.0.0.1');
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', reject);
+    });
+
+    const client = new ScriptedRtmpClient(socket);
+    socket.write(Buffer.concat([Buffer.from([3]), Buffer.alloc(1536, 7)]));
+    await client.until(() => client.handshakeDone);
+    return client;
+  }
+
+  private handleData(data: Buffer): void {
+    if (!this.handshakeDone) {
+      this.handshakeBytes = Buffer.concat([this.handshakeBytes, data]);
+      if (this.handshakeBytes.length < 1 + 1536 * 2) {
+        return;
+      }
+
+      // C2 echoes S1
+      this.socket.write(this.handshakeBytes.subarray(1, 1 + 1536));
+      data = this.handshakeBytes.subarray(1 + 1536 * 2);
+      this.handshakeBytes = Buffer.alloc(0);
+      this.handshakeDone = true;
+    }
+
+    if (data.length > 0) {
+      this.messages.push(...this.parser.push(data));
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.waiters.splice(0).forEach(waiter => waiter());
+  }
+
+  private async until(condition: () => boolean): Promise<void> {
+    while (!condition()) {
+      if (this.closed) {
+        throw new Error('RTMP connection closed');
+      }
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Wait for a command message with the given name and transaction ID or status code
+   */
+  async expectCommand(name: string, match: (values: Amf0Value[]) => boolean = () => true): Promise<Amf0Value[]> {
+    let found: Amf0Value[] | null = null;
+    await this.until(() => {
+      for (const message of this.messages) {
+        if (message.typeId !== RTMP_MESSAGE_TYPES.COMMAND_AMF0) continue;
+        const values = decodeAmf0(message.payload);
+        if (values[0] === name && match(values)) {
+          found = values;
+          return true;
+        }
+      }
+      return false;
+    });
+    return found!;
+  }
+
+  async waitForClose(): Promise<void> {
+    await new Promise<void>(resolve => {
+      if (this.closed) return resolve();
+      this.socket.once('close', () => resolve());
+    });
+  }
+
+  send(chunkStreamId: number, typeId: number, streamId: number, timestamp: number, payload: Buffer): void {
+    this.socket.write(this.writer.write({ chunkStreamId, typeId, streamId, timestamp, payload }));
+  }
+
+  setChunkSize(size: number): void {
+    const payload = Buffer.alloc(4);
+    payload.writeUInt32BE(size);
+    this.send(2, RTMP_MESSAGE_TYPES.SET_CHUNK_SIZE, 0, 0, payload);
+    this.writer.setChunkSize(size);
+  }
+
+  command(streamId: number, ...values: Amf0Value[]): void {
+    this.send(3, RTMP_MESSAGE_TYPES.COMMAND_AMF0, streamId, 0, encodeAmf0(...values));
+  }
+
+  /**
+   * Connect, create a stream and publish it under a stream key
+   */
+  async publish(streamKey: string): Promise<number> {
+    this.command(0, 'connect', 1, { app: 'live', type: 'nonprivate', tcUrl: 'rtmp://127.0.0.1/live' });
+    await this.expectCommand('_result', values => values[1] === 1);
+
+    this.command(0, 'releaseStream', 2, null, streamKey);
+    this.command(0, 'FCPublish', 3, null, streamKey);
+    this.command(0, 'createStream', 4, null);
+    const created = await this.expectCommand('_result', values => values[1] === 4);
+    const streamId = created[3] as number;
+
+    this.command(streamId, 'publish', 5, null, `${streamKey}?token=abc`, 'live');
+    await this.expectCommand('onStatus', values => (values[3] as any).code === 'NetStream.Publish.Start');
+    return streamId;
+  }
+
+  /**
+   * Replay FLV tags as RTMP audio, video and data messages
+   */
+  replay(streamId: number, flv: Buffer): void {
+    for (const tag of readFlvTags(flv)) {
+      if (tag.type === FLV_TAG_TYPES.SCRIPT_DATA) {
+        this.send(4, RTMP_MESSAGE_TYPES.DATA_AMF0, streamId, tag.timestamp,
+          Buffer.concat([encodeAmf0('@setDataFrame'), tag.data]));
+      } else {
+        this.send(tag.type === FLV_TAG_TYPES.VIDEO ? 6 : 5, tag.type, streamId, tag.timestamp, tag.data);
+      }
+    }
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+const accessUnitArbitrary = fc.record({
+  keyframe: fc.boolean(),
+  nals: fc.array(fc.uint8Array({ minLength: 1, maxLength: 3000 }).map(data => Buffer.from(data)), { minLength: 1, maxLength: 3 })
+});
+
+describe('RTMP Ingest Properties', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('AMF0 values survive an encode/decode round trip', () => {
+    const key = fc.string({ maxLength: 12 }).filter(value => value !== '__proto__');
+    const amf0Value = fc.letrec(tie => ({
+      value: fc.oneof(
+        { depthSize: 'small' },
+        fc.double({ noNaN: true }),
+        fc.boolean(),
+        fc.string(),
+        fc.constant(null),
+        fc.constant(undefined),
+        fc.array(tie('value'), { maxLength: 4 }),
+        fc.dictionary(key, tie('value'), { maxKeys: 4 })
+      )
+    })).value as fc.Arbitrary<Amf0Value>;
+
+    fc.assert(
+      fc.property(fc.array(amf0Value, { maxLength: 5 }), values => {
+        expect(decodeAmf0(encodeAmf0(...values))).toEqual(values);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('chunked messages reassemble across chunk sizes and split reads', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 5000 }),
+        fc.array(fc.record({
+          chunkStreamId: fc.integer({ min: 2, max: 400 }),
+          typeId: fc.constantFrom(8, 9, 18, 20),
+          streamId: fc.integer({ min: 0, max: 10 }),
+          timestamp: fc.integer({ min: 0, max: 0x1ffffff }),
+          payload: fc.uint8Array({ maxLength: 4000 }).map(data => Buffer.from(data))
+        }), { minLength: 1, maxLength: 6 }),
+        fc.integer({ min: 1, max: 997 }),
+        (chunkSize, messages, readSize) => {
+          const writer = new RtmpChunkWriter();
+          const parser = new RtmpChunkParser();
+
+          // The size change travels in-band, so the parser switches after reading it
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunkSize);
+          const wire = Buffer.concat([
+            writer.write({ chunkStreamId: 2, typeId: RTMP_MESSAGE_TYPES.SET_CHUNK_SIZE, streamId: 0, timestamp: 0, payload: size }),
+            ...messages.map(message => {
+              writer.setChunkSize(chunkSize);
+              return writer.write(message);
+            })
+          ]);
+
+          const received: RtmpMessage[] = [];
+          for (let offset = 0; offset < wire.length; offset += readSize) {
+            received.push(...parser.push(wire.subarray(offset, offset + readSize)));
+          }
+
+          expect(parser.getChunkSize()).toBe(chunkSize);
+          expect(received.slice(1)).toEqual(messages);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('a replayed FLV lands in the stream buffer as access units of a validated stream', async () => {
+    const server = new StreamingServer(0, 30, 0);
+    await server.start();
+
+    try {
+      const ingestion = server.getIngestionService();
+      const port = server.getRtmpServer()!.getPort();
+
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(accessUnitArbitrary, { minLength: 1, maxLength: 12 }),
+          fc.integer({ min: 128, max: 8192 }),
+          fc.integer({ min: 10, max: 100 }),
+          async (units, chunkSize, frameInterval) => {
+            units[0] = { ...units[0], keyframe: true };
+            const buffered: Array<{ streamId: string; frame: VideoFrame }> = [];
+            const addFrame = jest.spyOn(StreamBuffer.prototype, 'addFrame').mockImplementation(function (this: StreamBuffer, streamId, frame) {
+              buffered.push({ streamId, frame });
+              return true;
+            });
+
+            const streamKey = `key_${chunkSize}`;
+            const flv = recordFlv(units, { width: 854, height: 480, framerate: 30, videodatarate: 1500, audiocodecid: 10 }, frameInterval);
+            const client = await ScriptedRtmpClient.connect(port);
+
+            try {
+              const routed = new Promise<{ streamId: string }>(resolve => ingestion.once('stream:route', resolve));
+              const ready = new Promise<{ streamId: string }>(resolve => ingestion.once('stream:ready', resolve));
+              const disconnected = new Promise<{ streamId: string }>(resolve => ingestion.once('stream:disconnected', resolve));
+
+              client.setChunkSize(chunkSize);
+              const streamId = await client.publish(streamKey);
+              client.replay(streamId, flv);
+
+              const { streamId: ingestId } = await ready;
+              // Like every other ingest path, the stream goes on to enhancement
+              expect((await routed).streamId).toBe(ingestId);
+              const stream = ingestion.getActiveStream(ingestId)!;
+              expect(stream.userId).toBe(streamKey);
+              expect(stream.config).toEqual({
+                resolution: { width: 854, height: 480 },
+                frameRate: 30,
+                bitrate: 1500000,
+                audioEnabled: true
+              });
+              expect(ingestion.validateStream(stream).isValid).toBe(true);
+
+              client.command(streamId, 'deleteStream', 6, null, streamId);
+              expect((await disconnected).streamId).toBe(ingestId);
+
+              expect(buffered.map(entry => entry.streamId).every(id => id === ingestId)).toBe(true);
+              expect(buffered.map(entry => Buffer.from(entry.frame.data))).toEqual(units.map(annexB));
+              expect(buffered.map(entry => entry.frame.keyframe)).toEqual(units.map(unit => unit.keyframe));
+              expect(buffered.every(entry => entry.frame.format === 'h264' && entry.frame.width === 854)).toBe(true);
+              buffered.forEach((entry, index) => {
+                expect(entry.frame.timestamp - buffered[0].frame.timestamp).toBe(index * frameInterval);
+              });
+            } finally {
+              client.close();
+              addFrame.mockRestore();
+            }
+          }
+        ),
+        { numRuns: 5 }
+      );
+
+      expect(ingestion.getActiveStreamCount()).toBe(0);
+    } finally {
+      await server.stop();
+    }
+  }, 60000);
+
+  test('publishes whose metadata fails validation are rejected and disconnected', async () => {
+    const server = new StreamingServer(0, 30, 0);
+    await server.start();
+
+    try {
+      const ingestion = server.getIngestionService();
+      const rtmpServer = server.getRtmpServer()!;
+      const client = await ScriptedRtmpClient.connect(rtmpServer.getPort());
+      const rejected = new Promise<{ error: string }>(resolve => ingestion.once('stream:error', resolve));
+
+      const streamId = await client.publish('key_invalid');
+      client.replay(streamId, recordFlv([{ keyframe: true, nals: [Buffer.from([0x65, 1, 2, 3])] }], { width: 0, height: 480, framerate: 30 }, 33));
+
+      expect((await rejected).error).toContain('Valid resolution is required');
+      await client.expectCommand('onStatus', values => (values[3] as any).code === 'NetStream.Publish.BadName');
+      await client.waitForClose();
+
+      expect(ingestion.getActiveStreamCount()).toBe(0);
+      expect(rtmpServer.getSessionCount()).toBe(0);
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+
+  test('publishes with an unknown stream key are refused before they start', async () => {
+    const server = new StreamingServer(0, 30, 0);
+    const streamKeys = new StreamKeyStore();
+    server.getIngestionService().attachStreamKeys(streamKeys);
+    await server.start();
+
+    try {
+      const ingestion = server.getIngestionService();
+      const accepted: string[] = [];
+      ingestion.on('stream:accepted', data => accepted.push(data.streamId));
+
+      const client = await ScriptedRtmpClient.connect(server.getRtmpServer()!.getPort());
+      client.command(0, 'connect', 1, { app: 'live', type: 'nonprivate', tcUrl: 'rtmp://127.0.0.1/live' });
+      await client.expectCommand('_result', values => values[1] === 1);
+      client.command(0, 'createStream', 2, null);
+      const streamId = (await client.expectCommand('_result', values => values[1] === 2))[3] as number;
+
+      client.command(streamId, 'publish', 3, null, 'sk_not_a_key', 'live');
+      const refused = await client.expectCommand('onStatus', values => (values[3] as any).code === 'NetStream.Publish.BadName');
+      expect((refused[3] as any).description).toBe('Invalid stream key');
+      expect(accepted).toEqual([]);
+      client.close();
+
+      const { streamKey, keyId } = streamKeys.createKey('broadcaster');
+      const publisher = await ScriptedRtmpClient.connect(server.getRtmpServer()!.getPort());
+      await publisher.publish(streamKey);
+      expect(accepted).toHaveLength(1);
+      expect(accepted[0].startsWith(`stream_${keyId}_`)).toBe(true);
+      publisher.close();
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
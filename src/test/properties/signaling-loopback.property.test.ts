@@ -0,0 +1,201 @@
+/**
+ * Property-based tests for the Socket.IO signaling channel
+ * Feature: ai-live-streaming, Property 15: Signaling sessions negotiate and stay bound to their socket
+ */
+
+import fc from 'fast-check';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import { io as connectSocket, Socket as ClientSocket } from 'socket.io-client';
+import { RTCPeerConnection, RTCRtpCodecParameters, MediaStreamTrack } from 'werift';
+import { WebRTCServer } from '../../server/WebRTCServer';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { SignalingServer } from '../../server/SignalingServer';
+import { SignalingClient } from '../../client/SignalingClient';
+import { ConnectionStateMessage, SignalingMessage, StreamConfig } from '../../types';
+
+const streamConfig: StreamConfig = {
+  resolution: { width: 640, height: 480 },
+  frameRate: 30,
+  bitrate: 1000000,
+  audioEnabled: false
+};
+
+const vp8Codecs = {
+  audio: [],
+  video: [new RTCRtpCodecParameters({ mimeType: 'video/VP8', clockRate: 90000 })]
+};
+
+interface Backend {
+  httpServer: HttpServer;
+  io: SocketIOServer;
+  webrtcServer: WebRTCServer;
+  ingestion: StreamIngestionService;
+  signaling: SignalingServer;
+  url: string;
+}
+
+async function startBackend(): Promise<Backend> {
+  const httpServer = createServer();
+  const io = new SocketIOServer(httpServer);
+  const webrtcServer = new WebRTCServer(0);
+  const ingestion = new StreamIngestionService(webrtcServer);
+  const signaling = new SignalingServer(io, webrtcServer);
+
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  return { httpServer, io, webrtcServer, ingestion, signaling, url: `http://127.0.0.1:${port}` };
+}
+
+async function stopBackend(backend: Backend): Promise<void> {
+  await backend.webrtcServer.stop();
+  await new Promise<void>(resolve => backend.io.close(() => resolve()));
+}
+
+async function connectClient(url: string): Promise<ClientSocket> {
+  const socket = connectSocket(url, { transports: ['websocket'], reconnection: false });
+  await new Promise<void>((resolve, reject) => {
+    socket.once('connect', resolve);
+    socket.once('connect_error', reject);
+  });
+  return socket;
+}
+
+function nextMessage(socket: ClientSocket, type: string): Promise<SignalingMessage> {
+  return new Promise(resolve => {
+    const listener = (message: SignalingMessage) => {
+      if (message.type === type) {
+        socket.off('signaling', listener);
+        resolve(message);
+      }
+    };
+    socket.on('signaling', listener);
+  });
+}
+
+describe('Signaling Loopback Properties', () => {
+  test('a publisher joins, negotiates with trickle ICE and says bye', async () => {
+    const backend = await startBackend();
+    const socket = await connectClient(backend.url);
+    const peer = new RTCPeerConnection({ codecs: vp8Codecs });
+
+    try {
+      const signaling = new SignalingClient(socket, 'session_publisher');
+      const connectionId = await signaling.join({ role: 'publisher', userId: 'user_signal', streamConfig });
+      expect(backend.signaling.getSessionConnection('session_publisher')).toBe(connectionId);
+
+      signaling.on('ice-candidate', candidate => peer.addIceCandidate(candidate).catch(() => undefined));
+      peer.onIceCandidate.subscribe(candidate => {
+        if (candidate) signaling.sendIceCandidate(candidate.toJSON());
+      });
+
+      const connected = new Promise<ConnectionStateMessage>(resolve => {
+        signaling.on('connection-state', (state: ConnectionStateMessage) => {
+          if (state.state === 'connected') resolve(state);
+        });
+      });
+
+      peer.addTransceiver(new MediaStreamTrack({ kind: 'video' }), { direction: 'sendonly' });
+      await peer.setLocalDescription(await peer.createOffer());
+      const answer = await signaling.sendOffer(peer.localDescription!);
+      expect(answer.type).toBe('answer');
+      await peer.setRemoteDescription(answer);
+
+      const state = await connected;
+      expect(state.connectionId).toBe(connectionId);
+      expect(state.streamId).toBeDefined();
+      expect(backend.ingestion.getActiveStream(state.streamId!)?.userId).toBe('user_signal');
+
+      const closed = new Promise(resolve => backend.signaling.once('session:closed', resolve));
+      signaling.bye();
+      await closed;
+      expect(backend.webrtcServer.getConnection(connectionId)).toBeUndefined();
+      expect(backend.signaling.getSessionCount()).toBe(0);
+    } finally {
+      await peer.close();
+      socket.disconnect();
+      await stopBackend(backend);
+    }
+  }, 20000);
+
+  test('sessions only accept messages from the socket that joined them', async () => {
+    const backend = await startBackend();
+    const owner = await connectClient(backend.url);
+    const intruder = await connectClient(backend.url);
+
+    try {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.constantFrom('offer', 'ice-candidate', 'bye'),
+          fc.string({ minLength: 1, maxLength: 12 }),
+          async (type, suffix) => {
+            const sessionId = `session_${suffix}`;
+            const signaling = new SignalingClient(owner, sessionId);
+            const connectionId = await signaling.join({ role: 'publisher', userId: 'user_owner', streamConfig });
+
+            const rejected = nextMessage(intruder, 'error');
+            intruder.emit('signaling', {
+              type,
+              data: type === 'offer' ? { type: 'offer', sdp: 'v=0' } : { candidate: 'candidate:1 1 udp 1 127.0.0.1 9 typ host' },
+              sessionId,
+              timestamp: Date.now()
+            });
+
+            const error = await rejected;
+            expect(error.data.message).toContain('bound to another socket');
+            expect(error.data.requestType).toBe(type);
+            expect(backend.signaling.getSessionConnection(sessionId)).toBe(connectionId);
+
+            const closed = new Promise(resolve => backend.signaling.once('session:closed', resolve));
+            signaling.bye();
+            await closed;
+          }
+        ),
+        { numRuns: 10 }
+      );
+
+      // A joined session ID cannot be taken over by another socket
+      await new SignalingClient(owner, 'session_taken').join({ role: 'publisher', userId: 'user_owner', streamConfig });
+      await expect(new SignalingClient(intruder, 'session_taken').join({ role: 'publisher', userId: 'user_intruder', streamConfig }))
+        .rejects.toThrow('has already joined');
+    } finally {
+      owner.disconnect();
+      intruder.disconnect();
+      await stopBackend(backend);
+    }
+  }, 30000);
+
+  test('disconnecting a socket closes the connections it owned', async () => {
+    const backend = await startBackend();
+    const socket = await connectClient(backend.url);
+
+    try {
+      const connectionId = await new SignalingClient(socket, 'session_drop')
+        .join({ role: 'publisher', userId: 'user_drop', streamConfig });
+
+      const closed = new Promise(resolve => backend.signaling.once('session:closed', resolve));
+      socket.disconnect();
+      await closed;
+
+      expect(backend.webrtcServer.getConnection(connectionId)).toBeUndefined();
+      expect(backend.signaling.getSessionCount()).toBe(0);
+    } finally {
+      await stopBackend(backend);
+    }
+  }, 20000);
+
+  test('subscribers cannot join streams without a publisher', async () => {
+    const backend = await startBackend();
+    const socket = await connectClient(backend.url);
+
+    try {
+      await expect(new SignalingClient(socket, 'session_viewer').join({ role: 'subscriber', streamId: 'stream_missing' }))
+        .rejects.toThrow('has no WebRTC publisher');
+      expect(backend.signaling.getSessionCount()).toBe(0);
+    } finally {
+      socket.disconnect();
+      await stopBackend(backend);
+    }
+  }, 20000);
+});
\ No newline at end of file
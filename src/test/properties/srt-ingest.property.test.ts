@@ -0,0 +1,631 @@
+/**
+ * Property-based tests for SRT ingest
+ * Feature: ai-live-streaming, Property 19: MPEG-TS received over SRT reaches processing as the sent access units, despite packet loss
+ */
+
+import fc from 'fast-check';
+import { createSocket, Socket, RemoteInfo } from 'dgram';
+import { StreamingServer } from '../../server/index';
+import { StreamBuffer } from '../../server/StreamBuffer';
+import { StreamKeyStore } from '../../server/StreamKeyStore';
+import { MpegTsDemuxer, TS_PACKET_SIZE } from '../../server/MpegTsDemuxer';
+import {
+  SrtHandshake,
+  SrtPacket,
+  SRT_CONTROL_TYPES,
+  SRT_EXTENSION_TYPES,
+  SRT_HANDSHAKE_MAGIC,
+  SRT_HANDSHAKE_TYPES,
+  encodeControlPacket,
+  encodeDataPacket,
+  encodeHandshake,
+  encodeHandshakeRequest,
+  encodeStreamIdExtension,
+  nextSequence,
+  parseHandshake,
+  parseSrtPacket,
+  parseStreamIdExtension
+} from '../../server/SrtPacket';
+import { SrtCipher, SRT_KEY_FLAGS, encodeKeyMaterial, parseKeyMaterial } from '../../server/SrtCrypto';
+import { VideoFrame, VideoStream } from '../../types';
+
+const PASSPHRASE = 'contribution-secret';
+const TS_PACKETS_PER_DATAGRAM = 7;
+
+interface AccessUnit {
+  keyframe: boolean;
+  data: Buffer; // Annex B
+}
+
+/**
+ * Writes an RBSP, inserting emulation prevention bytes when finishing
+ */
+class BitWriter {
+  private bits: number[] = [];
+
+  u(value: number, count: number): this {
+    for (let i = count - 1; i >= 0; i--) {
+      this.bits.push(Math.floor(value / 2 ** i) % 2);
+    }
+    return this;
+  }
+
+  ue(value: number): this {
+    const length = Math.floor(Math.log2(value + 1));
+    return this.u(0, length).u(value + 1, length + 1);
+  }
+
+  nal(header: number[]): Buffer {
+    this.u(1, 1);
+    while (this.bits.length % 8 !== 0) this.bits.push(0);
+    const bytes: number[] = [...header];
+    let zeros = 0;
+    for (let i = 0; i < this.bits.length; i += 8) {
+      const byte = parseInt(this.bits.slice(i, i + 8).join(''), 2);
+      if (zeros >= 2 && byte <= 3) {
+        bytes.push(3);
+        zeros = 0;
+      }
+      bytes.push(byte);
+      zeros = byte === 0 ? zeros + 1 : 0;
+    }
+    return Buffer.from(bytes);
+  }
+}
+
+function h264Sps(width: number, height: number): Buffer {
+  const widthInMbs = Math.ceil(width / 16);
+  const heightInMbs = Math.ceil(height / 16);
+  const writer = new BitWriter()
+    .u(66, 8).u(0, 8).u(30, 8) // baseline profile, level 3.0
+    .ue(0).ue(0).ue(0).ue(0) // sps id, log2_max_frame_num, poc type 0, log2_max_poc_lsb
+    .ue(1).u(0, 1) // max_num_ref_frames, gaps
+    .ue(widthInMbs - 1).ue(heightInMbs - 1)
+    .u(1, 1).u(1, 1); // frame_mbs_only, direct_8x8_inference
+  const cropRight = (widthInMbs * 16 - width) / 2;
+  const cropBottom = (heightInMbs * 16 - height) / 2;
+  if (cropRight || cropBottom) {
+    writer.u(1, 1).ue(0).ue(cropRight).ue(0).ue(cropBottom);
+  } else {
+    writer.u(0, 1);
+  }
+  return writer.u(0, 1).nal([0x67]); // no VUI
+}
+
+function h265Sps(width: number, height: number): Buffer {
+  const codedWidth = Math.ceil(width / 8) * 8;
+  const codedHeight = Math.ceil(height / 8) * 8;
+  const writer = new BitWriter()
+    .u(0, 4).u(0, 3).u(1, 1) // vps id, one sub-layer, temporal id nesting
+    .u(1, 8).u(0x60000000, 32).u(0x90, 8).u(0, 40).u(93, 8) // Main profile, level 3.1
+    .ue(0).ue(1) // sps id, 4:2:0
+    .ue(codedWidth).ue(codedHeight);
+  if (codedWidth !== width || codedHeight !== height) {
+    writer.u(1, 1).ue(0).ue((codedWidth - width) / 2).ue(0).ue((codedHeight - height) / 2);
+  } else {
+    writer.u(0, 1);
+  }
+  return writer.nal([0x42, 0x01]);
+}
+
+function annexB(nals: Buffer[]): Buffer {
+  return Buffer.concat(nals.flatMap(nal => [Buffer.from([0, 0, 0, 1]), nal]));
+}
+
+function accessUnits(format: 'h264' | 'h265', resolution: { width: number; height: number }, units: Array<{ keyframe: boolean; payload: Uint8Array }>): AccessUnit[] {
+  return units.map(({ keyframe, payload }) => {
+    if (format === 'h264') {
+      const slice = Buffer.concat([Buffer.from([keyframe ? 0x65 : 0x41]), Buffer.from(payload)]);
+      const nals = keyframe ? [h264Sps(resolution.width, resolution.height), Buffer.from([0x68, 0xce, 0x38, 0x80]), slice] : [slice];
+      return { keyframe, data: annexB([Buffer.from([0x09, 0xf0]), ...nals]) };
+    }
+
+    const slice = Buffer.concat([Buffer.from(keyframe ? [0x26, 0x01] : [0x02, 0x01]), Buffer.from(payload)]);
+    const nals = keyframe ? [h265Sps(resolution.width, resolution.height), slice] : [slice];
+    return { keyframe, data: annexB([Buffer.from([0x46, 0x01, 0x50]), ...nals]) };
+  });
+}
+
+function tsPacket(pid: number, payloadUnitStart: boolean, counter: number, payload: Buffer): Buffer {
+  const packet = Buffer.alloc(TS_PACKET_SIZE, 0xff);
+  packet[0] = 0x47;
+  packet[1] = (payloadUnitStart ? 0x40 : 0) | (pid >> 8);
+  packet[2] = pid & 0xff;
+
+  const stuffing = TS_PACKET_SIZE - 4 - payload.length;
+  if (stuffing > 0) {
+    // Pad with an adaptation field
+    packet[3] = 0x30 | (counter & 0x0f);
+    packet[4] = stuffing - 1;
+    if (stuffing > 1) packet[5] = 0;
+    payload.copy(packet, 4 + stuffing);
+  } else {
+    packet[3] = 0x10 | (counter & 0x0f);
+    payload.copy(packet, 4);
+  }
+  return packet;
+}
+
+function psiPacket(pid: number, tableId: number, body: Buffer): Buffer {
+  const section = Buffer.concat([Buffer.from([tableId, 0xb0, body.length + 9]), Buffer.from([0, 1, 0xc1, 0, 0]), body, Buffer.alloc(4)]);
+  return tsPacket(pid, true, 0, Buffer.concat([Buffer.from([0]), section]));
+}
+
+/**
+ * Mux access units as one PES each on PID 0x100, after a PAT and PMT
+ */
+function muxTs(format: 'h264' | 'h265', units: AccessUnit[]): Buffer {
+  const packets = [
+    psiPacket(0, 0x00, Buffer.from([0, 1, 0xf0, 0x00])),
+    psiPacket(0x1000, 0x02, Buffer.from([0xe1, 0x00, 0xf0, 0x00, format === 'h264' ? 0x1b : 0x24, 0xe1, 0x00, 0xf0, 0x00]))
+  ];
+
+  let counter = 0;
+  units.forEach((unit, index) => {
+    const pts = 90000 + index * 3000;
+    const header = Buffer.from([
+      0, 0, 1, 0xe0, 0, 0, 0x80, 0x80, 5,
+      0x21 | ((Math.floor(pts / 2 ** 30) & 0x07) << 1),
+      (pts >> 22) & 0xff, (((pts >> 15) & 0x7f) << 1) | 1,
+      (pts >> 7) & 0xff, ((pts & 0x7f) << 1) | 1
+    ]);
+    const pes = Buffer.concat([header, unit.data]);
+    for (let offset = 0; offset < pes.length; offset += TS_PACKET_SIZE - 4) {
+      packets.push(tsPacket(0x100, offset === 0, counter++, pes.subarray(offset, offset + TS_PACKET_SIZE - 4)));
+    }
+  });
+
+  return Buffer.concat(packets);
+}
+
+function datagramsOf(ts: Buffer): Buffer[] {
+  const size = TS_PACKET_SIZE * TS_PACKETS_PER_DATAGRAM;
+  const payloads: Buffer[] = [];
+  for (let offset = 0; offset < ts.length; offset += size) {
+    payloads.push(ts.subarray(offset, offset + size));
+  }
+  return payloads;
+}
+
+function handshakePacket(destinationSocketId: number, handshake: SrtHandshake): Buffer {
+  return encodeControlPacket({
+    controlType: SRT_CONTROL_TYPES.HANDSHAKE,
+    subtype: 0,
+    typeSpecific: 0,
+    timestamp: 0,
+    destinationSocketId,
+    cif: encodeHandshake(handshake)
+  });
+}
+
+function baseHandshake(socketId: number, initialSequenceNumber: number): SrtHandshake {
+  return {
+    version: 4,
+    encryptionField: 0,
+    extensionField: 2,
+    initialSequenceNumber,
+    mtu: 1500,
+    flowWindow: 8192,
+    handshakeType: SRT_HANDSHAKE_TYPES.INDUCTION,
+    socketId,
+    synCookie: 0,
+    peerAddress: Buffer.alloc(16),
+    extensions: []
+  };
+}
+
+function hsreq(latencyMs: number): Buffer {
+  return encodeHandshakeRequest({ srtVersion: 0x010501, flags: 0x3f, receiverLatency: latencyMs, senderLatency: latencyMs });
+}
+
+/**
+ * Scripted SRT sender: performs the handshake in either role, then sends a feed and
+ * answers NAKs with retransmissions
+ */
+class ScriptedSrtSender {
+  private socket: Socket;
+  private packets: Array<SrtPacket & { remote: RemoteInfo }> = [];
+  private waiters: Array<() => void> = [];
+  private peer: { address: string; port: number; socketId: number } | null = null;
+  private sent: Map<number, Buffer> = new Map();
+  private withheld: Set<number> = new Set();
+  private cipher: SrtCipher | null = null;
+  private acknowledged = -1;
+  private readonly socketId = 0x1234567;
+  retransmissions = 0;
+
+  constructor() {
+    this.socket = createSocket('udp4');
+    this.socket.on('message', (datagram, remote) => {
+      const packet = parseSrtPacket(datagram);
+      if (packet.control && packet.controlType === SRT_CONTROL_TYPES.NAK) {
+        this.retransmit(packet.cif);
+      } else if (packet.control && packet.controlType === SRT_CONTROL_TYPES.ACK && this.peer) {
+        this.acknowledged = packet.cif.readUInt32BE(0);
+        this.control(SRT_CONTROL_TYPES.ACKACK, packet.typeSpecific, Buffer.alloc(4));
+      }
+      this.packets.push({ ...packet, remote });
+      this.waiters.splice(0).forEach(waiter => waiter());
+    });
+  }
+
+  async bind(): Promise<number> {
+    await new Promise<void>(resolve => this.socket.bind(0, '127.0.0.1', () => resolve()));
+    return this.socket.address().port;
+  }
+
+  private async nextHandshake(): Promise<{ handshake: SrtHandshake; remote: RemoteInfo }> {
+    for (;;) {
+      const index = this.packets.findIndex(packet => packet.control && packet.controlType === SRT_CONTROL_TYPES.HANDSHAKE);
+      if (index >= 0) {
+        const [packet] = this.packets.splice(index, 1);
+        return { handshake: parseHandshake((packet as any).cif), remote: packet.remote };
+      }
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Call a listener; resolves with the handshake type of its answer (CONCLUSION or a rejection reason)
+   */
+  async call(port: number, streamId: string | null, passphrase: string | null, latencyMs: number): Promise<number> {
+    const initialSequenceNumber = 0x7ffffff0; // wraps around during the feed
+    this.socket.send(handshakePacket(0, baseHandshake(this.socketId, initialSequenceNumber)), port, '127.0.0.1');
+    const induction = await this.nextHandshake();
+    expect(induction.handshake.extensionField).toBe(SRT_HANDSHAKE_MAGIC);
+
+    const generated = passphrase ? SrtCipher.generate(passphrase, 16) : null;
+    this.cipher = generated ? generated.cipher : null;
+    this.socket.send(handshakePacket(0, {
+      ...baseHandshake(this.socketId, initialSequenceNumber),
+      version: 5,
+      extensionField: 0x5 | (generated ? 0x2 : 0),
+      handshakeType: SRT_HANDSHAKE_TYPES.CONCLUSION,
+      synCookie: induction.handshake.synCookie,
+      extensions: [
+        { type: SRT_EXTENSION_TYPES.HSREQ, data: hsreq(latencyMs) },
+        ...(generated ? [{ type: SRT_EXTENSION_TYPES.KMREQ, data: encodeKeyMaterial(generated.material) }] : []),
+        ...(streamId !== null ? [{ type: SRT_EXTENSION_TYPES.SID, data: encodeStreamIdExtension(streamId) }] : [])
+      ]
+    }), port, '127.0.0.1');
+
+    const conclusion = await this.nextHandshake();
+    if (conclusion.handshake.handshakeType === SRT_HANDSHAKE_TYPES.CONCLUSION) {
+      this.peer = { address: '127.0.0.1', port, socketId: conclusion.handshake.socketId };
+      this.nextSequenceNumber = initialSequenceNumber;
+    }
+    return conclusion.handshake.handshakeType;
+  }
+
+  /**
+   * Act as a listener for a caller; resolves with the stream ID it asked for
+   */
+  async accept(passphrase: string | null): Promise<string> {
+    const induction = await this.nextHandshake();
+    this.socket.send(handshakePacket(induction.handshake.socketId, {
+      ...induction.handshake,
+      version: 5,
+      extensionField: SRT_HANDSHAKE_MAGIC,
+      socketId: this.socketId,
+      synCookie: 0xc00c1e
+    }), induction.remote.port, induction.remote.address);
+
+    const { handshake, remote } = await this.nextHandshake();
+    expect(handshake.synCookie).toBe(0xc00c1e);
+    const kmreq = handshake.extensions.find(extension => extension.type === SRT_EXTENSION_TYPES.KMREQ);
+    this.cipher = kmreq && passphrase ? SrtCipher.fromKeyMaterial(parseKeyMaterial(kmreq.data), passphrase) : null;
+
+    this.socket.send(handshakePacket(handshake.socketId, {
+      ...handshake,
+      socketId: this.socketId,
+      extensions: [
+        { type: SRT_EXTENSION_TYPES.HSRSP, data: hsreq(120) },
+        ...(kmreq ? [{ type: SRT_EXTENSION_TYPES.KMRSP, data: kmreq.data }] : [])
+      ]
+    }), remote.port, remote.address);
+
+    this.peer = { address: remote.address, port: remote.port, socketId: handshake.socketId };
+    this.nextSequenceNumber = handshake.initialSequenceNumber;
+    const sid = handshake.extensions.find(extension => extension.type === SRT_EXTENSION_TYPES.SID)!;
+    return parseStreamIdExtension(sid.data);
+  }
+
+  private nextSequenceNumber = 0;
+
+  /**
+   * Send payloads; those at the given indexes are lost on first transmission,
+   * and those marked unrecoverable are never retransmitted
+   */
+  sendFeed(payloads: Buffer[], lost: Set<number>, unrecoverable: Set<number> = new Set()): void {
+    payloads.forEach((payload, index) => {
+      const sequenceNumber = this.nextSequenceNumber;
+      this.nextSequenceNumber = nextSequence(sequenceNumber);
+      const datagram = this.dataPacket(sequenceNumber, index, payload, false);
+      this.sent.set(sequenceNumber, payload);
+      if (unrecoverable.has(index)) {
+        this.withheld.add(sequenceNumber);
+      }
+      if (!lost.has(index) && !unrecoverable.has(index)) {
+        this.socket.send(datagram, this.peer!.port, this.peer!.address);
+      }
+    });
+  }
+
+  /**
+   * Wait until the receiver has acknowledged (or given up on) everything sent
+   */
+  async drained(): Promise<void> {
+    while (this.acknowledged !== this.nextSequenceNumber) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  shutdown(): void {
+    this.control(SRT_CONTROL_TYPES.SHUTDOWN, 0, Buffer.alloc(4));
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+
+  private dataPacket(sequenceNumber: number, messageNumber: number, payload: Buffer, retransmitted: boolean): Buffer {
+    return encodeDataPacket({
+      sequenceNumber,
+      position: 3,
+      inOrder: false,
+      keyFlags: this.cipher ? SRT_KEY_FLAGS.EVEN : 0,
+      retransmitted,
+      messageNumber: messageNumber + 1,
+      timestamp: messageNumber * 1000,
+      destinationSocketId: this.peer!.socketId,
+      payload: this.cipher ? this.cipher.apply(payload, sequenceNumber, SRT_KEY_FLAGS.EVEN) : payload
+    });
+  }
+
+  private retransmit(cif: Buffer): void {
+    const sequenceNumbers: number[] = [];
+    for (let offset = 0; offset + 4 <= cif.length; offset += 4) {
+      const entry = cif.readUInt32BE(offset);
+      if (entry & 0x80000000) {
+        const last = cif.readUInt32BE(offset + 4);
+        for (let sequenceNumber = entry & 0x7fffffff; ; sequenceNumber = nextSequence(sequenceNumber)) {
+          sequenceNumbers.push(sequenceNumber);
+          if (sequenceNumber === last) break;
+        }
+        offset += 4;
+      } else {
+        sequenceNumbers.push(entry);
+      }
+    }
+
+    for (const sequenceNumber of sequenceNumbers) {
+      const payload = this.sent.get(sequenceNumber);
+      if (payload && !this.withheld.has(sequenceNumber)) {
+        this.retransmissions++;
+        this.socket.send(this.dataPacket(sequenceNumber, 0, payload, true), this.peer!.port, this.peer!.address);
+      }
+    }
+  }
+
+  private control(controlType: number, typeSpecific: number, cif: Buffer): void {
+    this.socket.send(encodeControlPacket({
+      controlType,
+      subtype: 0,
+      typeSpecific,
+      timestamp: 0,
+      destinationSocketId: this.peer!.socketId,
+      cif
+    }), this.peer!.port, this.peer!.address);
+  }
+}
+
+const resolutionArbitrary = fc.record({
+  width: fc.integer({ min: 160, max: 960 }).map(half => half * 2),
+  height: fc.integer({ min: 120, max: 540 }).map(half => half * 2)
+});
+
+const unitsArbitrary = fc.array(
+  fc.record({ keyframe: fc.boolean(), payload: fc.uint8Array({ minLength: 1, maxLength: 2500 }) }),
+  { minLength: 1, maxLength: 10 }
+).map(units => [{ ...units[0], keyframe: true }, ...units.slice(1)]);
+
+function captureBufferedFrames(): VideoFrame[] {
+  const frames: VideoFrame[] = [];
+  jest.spyOn(StreamBuffer.prototype, 'addFrame').mockImplementation((streamId, frame) => {
+    frames.push(frame);
+    return true;
+  });
+  return frames;
+}
+
+describe('SRT Ingest Properties', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('the TS demuxer recovers access units, codec and SPS resolution at any read alignment', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<'h264' | 'h265'>('h264', 'h265'),
+        resolutionArbitrary,
+        unitsArbitrary,
+        fc.integer({ min: 1, max: 2000 }),
+        (format, resolution, units, readSize) => {
+          const expected = accessUnits(format, resolution, units);
+          const ts = muxTs(format, expected);
+          const demuxer = new MpegTsDemuxer({ width: 1, height: 1 });
+
+          const frames: VideoFrame[] = [];
+          for (let offset = 0; offset < ts.length; offset += readSize) {
+            frames.push(...demuxer.push(ts.subarray(offset, offset + readSize)));
+          }
+          frames.push(...demuxer.flush());
+
+          expect(demuxer.getVideoFormat()).toBe(format);
+          expect(frames.map(frame => Buffer.from(frame.data))).toEqual(expected.map(unit => unit.data));
+          expect(frames.map(frame => frame.keyframe)).toEqual(expected.map(unit => unit.keyframe));
+          expect(frames.every(frame => frame.format === format && frame.width === resolution.width && frame.height === resolution.height)).toBe(true);
+          frames.forEach((frame, index) => expect(frame.timestamp - frames[0].timestamp).toBe(Math.round(index * 3000 / 90)));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('a listener feed with packet loss reaches processing as the sent access units', async () => {
+    const server = new StreamingServer(0, 30, null, 0, { latencyMs: 500, passphrase: PASSPHRASE });
+    await server.start();
+
+    try {
+      const ingestion = server.getIngestionService();
+      const port = server.getSrtServer()!.getPort();
+
+      await fc.assert(
+        fc.asyncProperty(
+          fc.constantFrom<'h264' | 'h265'>('h264', 'h265'),
+          resolutionArbitrary,
+          unitsArbitrary,
+          fc.array(fc.nat(40), { maxLength: 4 }),
+          async (format, resolution, units, lostIndexes) => {
+            const frames = captureBufferedFrames();
+            const expected = accessUnits(format, resolution, units);
+            const sender = new ScriptedSrtSender();
+            await sender.bind();
+
+            try {
+              const routed = new Promise<VideoStream>(resolve => ingestion.once('stream:route', ({ streamId }) => resolve(ingestion.getActiveStream(streamId)!)));
+              const disconnected = new Promise<{ streamId: string }>(resolve => ingestion.once('stream:disconnected', resolve));
+              expect(await sender.call(port, '#!::r=venue_cam1,m=publish', PASSPHRASE, 80)).toBe(SRT_HANDSHAKE_TYPES.CONCLUSION);
+
+              const payloads = datagramsOf(muxTs(format, expected));
+              // A lost final datagram is only recoverable by the sender's ACK timeout, which the script does not model
+              const lost = new Set(lostIndexes.filter(index => index < payloads.length - 1));
+              sender.sendFeed(payloads, lost);
+
+              // The last access unit is completed by the flush on shutdown
+              await sender.drained();
+              sender.shutdown();
+
+              const stream = await routed;
+              expect(stream.userId).toBe('venue_cam1');
+              expect(stream.config.resolution).toEqual(resolution);
+              expect(ingestion.validateStream(stream).isValid).toBe(true);
+              expect((await disconnected).streamId).toBe(stream.streamId);
+
+              expect(frames.map(frame => Buffer.from(frame.data))).toEqual(expected.map(unit => unit.data));
+              expect(frames.every(frame => frame.format === format)).toBe(true);
+              expect(sender.retransmissions).toBeGreaterThanOrEqual(lost.size);
+            } finally {
+              sender.close();
+              jest.restoreAllMocks();
+            }
+          }
+        ),
+        { numRuns: 40 }
+      );
+
+      expect(ingestion.getActiveStreamCount()).toBe(0);
+    } finally {
+      await server.stop();
+    }
+  }, 60000);
+
+  test('packets lost beyond the latency are skipped without stalling the feed', async () => {
+    const server = new StreamingServer(0, 30, null, 0, { latencyMs: 40 });
+    await server.start();
+    const sender = new ScriptedSrtSender();
+    await sender.bind();
+
+    try {
+      const frames = captureBufferedFrames();
+      const srtServer = server.getSrtServer()!;
+      const units = accessUnits('h264', { width: 640, height: 360 }, Array.from({ length: 6 }, (_, index) => ({
+        keyframe: index === 0,
+        payload: new Uint8Array(3000).fill(index)
+      })));
+      const unpublished = new Promise<{ droppedPackets: number }>(resolve => srtServer.once('stream:unpublish', resolve));
+
+      expect(await sender.call(srtServer.getPort(), 'venue_cam2', null, 40)).toBe(SRT_HANDSHAKE_TYPES.CONCLUSION);
+      const payloads = datagramsOf(muxTs('h264', units));
+      // Each access unit spans 17 TS packets after the PAT and PMT; datagram 6 lies within the third
+      sender.sendFeed(payloads, new Set(), new Set([6]));
+
+      await sender.drained();
+      sender.shutdown();
+      expect((await unpublished).droppedPackets).toBe(1);
+
+      const delivered = frames.map(frame => Buffer.from(frame.data));
+      expect(delivered).toEqual(units.filter((_, index) => index !== 2).map(unit => unit.data));
+    } finally {
+      sender.close();
+      await server.stop();
+    }
+  }, 30000);
+
+  test('callers are rejected for a wrong passphrase, a missing stream ID, an unknown stream key or a playback request', async () => {
+    const server = new StreamingServer(0, 30, null, 0, { passphrase: PASSPHRASE });
+    server.getIngestionService().attachStreamKeys(new StreamKeyStore());
+    await server.start();
+
+    try {
+      const port = server.getSrtServer()!.getPort();
+      const attempts: Array<[string | null, string | null, number]> = [
+        ['venue_cam3', 'not-the-passphrase', 1010],
+        ['venue_cam3', null, 1011],
+        [null, PASSPHRASE, 1400],
+        ['#!::r=sk_not_a_key,m=publish', PASSPHRASE, 1401],
+        ['#!::r=venue_cam3,m=request', PASSPHRASE, 1405]
+      ];
+
+      for (const [streamId, passphrase, reason] of attempts) {
+        const sender = new ScriptedSrtSender();
+        await sender.bind();
+        try {
+          expect(await sender.call(port, streamId, passphrase, 120)).toBe(reason);
+        } finally {
+          sender.close();
+        }
+      }
+
+      expect(server.getSrtServer()!.getSessionCount()).toBe(0);
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+
+  test('caller mode pulls an encrypted feed from a remote listener', async () => {
+    const server = new StreamingServer(0, 30, null, 0, { passphrase: PASSPHRASE });
+    await server.start();
+    const remote = new ScriptedSrtSender();
+    const remotePort = await remote.bind();
+
+    try {
+      const frames = captureBufferedFrames();
+      const ingestion = server.getIngestionService();
+      const units = accessUnits('h265', { width: 1280, height: 720 }, [
+        { keyframe: true, payload: new Uint8Array(3000).fill(7) },
+        { keyframe: false, payload: new Uint8Array(900).fill(9) },
+        { keyframe: false, payload: new Uint8Array(400).fill(11) }
+      ]);
+
+      const accepted = remote.accept(PASSPHRASE);
+      const routed = new Promise<{ streamId: string }>(resolve => ingestion.once('stream:route', resolve));
+      const sessionId = await server.getSrtServer()!.call('127.0.0.1', remotePort, '#!::r=remote_venue,m=publish');
+      expect(await accepted).toBe('#!::r=remote_venue,m=publish');
+
+      remote.sendFeed(datagramsOf(muxTs('h265', units)), new Set([1]));
+      const { streamId } = await routed;
+      expect(ingestion.getActiveStream(streamId)!.userId).toBe('remote_venue');
+
+      await remote.drained();
+      server.getSrtServer()!.closeSession(sessionId);
+
+      expect(frames.map(frame => Buffer.from(frame.data))).toEqual(units.map(unit => unit.data));
+      expect(frames[0]).toMatchObject({ format: 'h265', width: 1280, height: 720, keyframe: true });
+      expect(ingestion.getActiveStreamCount()).toBe(0);
+    } finally {
+      remote.close();
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
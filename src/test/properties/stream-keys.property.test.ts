@@ -0,0 +1,207 @@
+/**
+ * Property-based tests for stream keys and publish authorization
+ * Feature: ai-live-streaming, Property 27: Only a user's current stream key publishes, as that user, and sources that keep failing are locked out
+ */
+
+import fc from 'fast-check';
+import { Socket as ClientSocket } from 'socket.io-client';
+import { StreamKeyStore } from '../../server/StreamKeyStore';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { WebRTCServer } from '../../server/WebRTCServer';
+import { WebServer } from '../../server/WebServer';
+import { PublishSource } from '../../types';
+import { connect, next } from '../helpers/socketClient';
+
+const source: PublishSource = { protocol: 'rtmp', address: '192.0.2.1' };
+const userIdsArbitrary = fc.uniqueArray(fc.stringMatching(/^[a-z][a-z0-9_]{0,11}$/), { minLength: 1, maxLength: 6 });
+
+describe('Stream Key Properties', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('a key publishes as its user until it is rotated or revoked', () => {
+    fc.assert(
+      fc.property(userIdsArbitrary, fc.array(fc.constantFrom('keep', 'rotate', 'revoke')), (userIds, actions) => {
+        const store = new StreamKeyStore({ maxFailedAttempts: 1000 });
+        const issued = userIds.map(userId => store.createKey(userId));
+        issued.forEach(({ streamKey, keyId }, index) => {
+          expect(store.authorize(streamKey, source)).toEqual({ userId: userIds[index], keyId });
+        });
+        expect(() => store.createKey(userIds[0])).toThrow(`User ${userIds[0]} already has a stream key`);
+
+        userIds.forEach((userId, index) => {
+          const previous = issued[index];
+          const action = actions[index] ?? 'keep';
+          if (action === 'rotate') {
+            const rotated = store.rotateKey(userId);
+            expect(rotated.keyId).not.toBe(previous.keyId);
+            expect(() => store.authorize(previous.streamKey, source)).toThrow('Invalid stream key');
+            expect(store.authorize(rotated.streamKey, source)).toEqual({ userId, keyId: rotated.keyId });
+          } else if (action === 'revoke') {
+            expect(store.revokeKey(userId).keyId).toBe(previous.keyId);
+            expect(() => store.authorize(previous.streamKey, source)).toThrow('Invalid stream key');
+            expect(store.getKey(userId)).toBeNull();
+            expect(() => store.revokeKey(userId)).toThrow(`User ${userId} has no stream key`);
+          } else {
+            expect(store.authorize(previous.streamKey, source).userId).toBe(userId);
+          }
+        });
+
+        // Listings never carry the secret
+        const listing = JSON.stringify(store.getKeys());
+        issued.forEach(({ streamKey }) => expect(listing).not.toContain(streamKey));
+      })
+    );
+  });
+
+  test('stream IDs are bound to the key they were published with', async () => {
+    const ingestion = new StreamIngestionService(new WebRTCServer(0));
+    expect(ingestion.authorizePublish('venue_cam', source)).toEqual({ userId: 'venue_cam', keyId: null });
+
+    const store = new StreamKeyStore();
+    ingestion.attachStreamKeys(store);
+    const { streamKey, keyId } = store.createKey('broadcaster');
+    const grant = ingestion.authorizePublish(streamKey, source);
+    expect(grant).toEqual({ userId: 'broadcaster', keyId });
+    expect(ingestion.generateStreamId(grant.keyId).startsWith(`stream_${keyId}_`)).toBe(true);
+
+    expect(() => ingestion.authorizePublish('venue_cam', source)).toThrow('Invalid stream key');
+    expect(() => ingestion.authorizePublish(undefined, source)).toThrow('Stream key is required');
+    await expect(ingestion.acceptStream({ connectionId: 'conn_unauthorized', peerConnection: null, state: 'connecting' }))
+      .rejects.toThrow('Connection conn_unauthorized is not authorized to publish');
+  });
+
+  test('a source is locked out after too many failures, and only that source', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 6 }), fc.integer({ min: 1, max: 600 }), (maxFailedAttempts, lockoutSeconds) => {
+        const now = Date.UTC(2026, 0, 1);
+        const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+        const store = new StreamKeyStore({ maxFailedAttempts, failureWindowMs: 60000, lockoutMs: lockoutSeconds * 1000 });
+        const { streamKey } = store.createKey('broadcaster');
+        const denied: string[] = [];
+        store.on('publish:denied', data => denied.push(data.reason));
+
+        // A success in between starts the count over
+        for (let attempt = 1; attempt < maxFailedAttempts; attempt++) {
+          expect(() => store.authorize('sk_guess', source)).toThrow('Invalid stream key');
+        }
+        store.authorize(streamKey, source);
+
+        for (let attempt = 1; attempt <= maxFailedAttempts; attempt++) {
+          expect(() => store.authorize('sk_guess', source)).toThrow('Invalid stream key');
+        }
+        expect(store.getRetryAfterMs(source.address)).toBe(lockoutSeconds * 1000);
+        expect(() => store.authorize(streamKey, source)).toThrow('Too many failed publish attempts');
+        expect(store.authorize(streamKey, { protocol: 'srt', address: '192.0.2.2' }).userId).toBe('broadcaster');
+        expect(denied).toHaveLength(2 * maxFailedAttempts);
+
+        clock.mockReturnValue(now + lockoutSeconds * 1000);
+        expect(store.getRetryAfterMs(source.address)).toBe(0);
+        expect(store.authorize(streamKey, source).userId).toBe('broadcaster');
+        clock.mockRestore();
+      })
+    );
+  });
+
+  test('keys are managed over REST and required by browser broadcasts and WHIP', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, authOptions: { secret: 'test-secret' }, streamKeyOptions: { maxFailedAttempts: 2 } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const auth = server.getAuthService();
+    const sockets: ClientSocket[] = [];
+    const request = (method: string, path: string, token: string) => fetch(`${base}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    const streamer = auth.issueToken('alice', 'streamer');
+    const moderator = auth.issueToken('mod', 'moderator');
+
+    try {
+      expect((await request('POST', '/api/stream-keys/alice', auth.issueToken('alice', 'viewer'))).status).toBe(403);
+      expect((await request('POST', '/api/stream-keys/bob', streamer)).status).toBe(403);
+      expect((await request('GET', '/api/stream-keys', streamer)).status).toBe(403);
+
+      const created = await request('POST', '/api/stream-keys/alice', streamer);
+      expect(created.status).toBe(201);
+      const first = (await created.json()).data;
+      expect(first).toMatchObject({ userId: 'alice', lastUsedAt: null });
+      expect((await request('POST', '/api/stream-keys/alice', streamer)).status).toBe(409);
+
+      const rotated = await request('POST', '/api/stream-keys/alice/rotate', streamer);
+      const { streamKey, keyId } = (await rotated.json()).data;
+      expect(streamKey).not.toBe(first.streamKey);
+      const listed = await (await request('GET', '/api/stream-keys', moderator)).json();
+      expect(listed.data).toEqual([expect.objectContaining({ userId: 'alice', keyId })]);
+      expect(listed.data[0].streamKey).toBeUndefined();
+
+      // Browser broadcasts: the key never reaches other clients
+      const broadcaster = connect(base);
+      const watcher = connect(base);
+      sockets.push(broadcaster.socket, watcher.socket);
+      await Promise.all([broadcaster.connected, watcher.connected]);
+
+      const refused = next(broadcaster.socket, 'real-stream-error');
+      broadcaster.socket.emit('real-stream-start', { streamKey: first.streamKey });
+      expect(await refused).toEqual({ error: 'Invalid stream key' });
+
+      const started = next(broadcaster.socket, 'real-stream-started');
+      const announced = next(watcher.socket, 'user-stream-started');
+      broadcaster.socket.emit('real-stream-start', { streamKey });
+      expect((await started).streamId.startsWith(`stream_${keyId}_`)).toBe(true);
+      expect((await announced).username).toBe('alice');
+
+      const advanced = next(watcher.socket, 'advanced-stream-started');
+      broadcaster.socket.emit('advanced-stream-start', { streamKey, quality: 'HD' });
+      const advertised = await advanced;
+      expect(advertised.streamId.startsWith(`stream_${keyId}_`)).toBe(true);
+      expect(advertised.streamKey).toBeUndefined();
+
+      expect((await request('GET', '/api/stream-keys/alice', streamer)).status).toBe(200);
+      expect((await request('DELETE', '/api/stream-keys/alice', moderator)).status).toBe(200);
+      expect((await request('DELETE', '/api/stream-keys/alice', moderator)).status).toBe(404);
+
+      // WHIP: a revoked key is refused, and the source is locked out on the second failure
+      const whip = () => fetch(`${base}/whip/${streamKey}`, {
+        method: 'POST',
+        body: 'v=0\r\n',
+        headers: { 'Content-Type': 'application/sdp' }
+      });
+      expect((await whip()).status).toBe(401);
+      expect((await whip()).status).toBe(401);
+      const locked = await whip();
+      expect(locked.status).toBe(429);
+      expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(0);
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+
+  test('SRT calls are made by moderators and failed keys count against the requester', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, srtPort: 0, authOptions: { secret: 'test-secret' }, streamKeyOptions: { maxFailedAttempts: 2 } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const auth = server.getAuthService();
+    const call = (token: string | null, host: string) => fetch(`${base}/api/srt/calls`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify({ host, port: 9, streamId: '#!::r=not_a_key,m=publish' })
+    });
+    const moderator = auth.issueToken('mod', 'moderator');
+
+    try {
+      expect((await call(null, '127.0.0.1')).status).toBe(401);
+      expect((await call(auth.issueToken('alice', 'streamer'), '127.0.0.1')).status).toBe(403);
+
+      // Choosing a different remote host for each attempt does not reset the count
+      expect((await call(moderator, '127.0.0.2')).status).toBe(502);
+      expect((await call(moderator, '127.0.0.3')).status).toBe(502);
+      const locked = await call(moderator, '127.0.0.4');
+      expect(locked.status).toBe(429);
+      expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(0);
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * Property-based tests for per-stream model selection in the stream processor
+ * Feature: ai-live-streaming, Property 31: Each stream is enhanced by its selected model, and a model that fails to load passes frames through or fails the batch as configured
+ */
+
+import fc from 'fast-check';
+import { StreamProcessor } from '../../server/StreamProcessor';
+import { StreamBuffer, StreamRouter } from '../../server/StreamBuffer';
+import { AIProcessor, AIModelFactory } from '../../ai/AIProcessor';
+import { AIModelConfig, AIModelType, VideoFrame } from '../../types';
+
+const MODEL_TYPES: AIModelType[] = ['upscaling', 'denoising', 'colorCorrection', 'stabilization'];
+
+function createFrames(count: number): VideoFrame[] {
+  return Array.from({ length: count }, (_, i) => ({
+    data: new Uint8Array([0, 0, 0, 1, i]),
+    timestamp: 1000 + i * 33,
+    width: 640,
+    height: 480,
+    format: 'h264' as const
+  }));
+}
+
+describe('Stream Processor Properties', () => {
+  let buffer: StreamBuffer;
+  let processor: StreamProcessor;
+
+  // Frames buffered before start() are taken in a single batch per stream
+  function createProcessor(configs: AIModelConfig[], defaultModelType: AIModelType): StreamProcessor {
+    buffer = new StreamBuffer();
+    processor = new StreamProcessor(buffer, new StreamRouter(), 5, configs, defaultModelType);
+    return processor;
+  }
+
+  function completed(streamId: string): Promise<void> {
+    return new Promise(resolve => {
+      const listener = (data: { streamId: string }) => {
+        if (data.streamId === streamId) {
+          processor.off('processing:completed', listener);
+          // Let the processor release the stream before more frames arrive
+          setImmediate(resolve);
+        }
+      };
+      processor.on('processing:completed', listener);
+    });
+  }
+
+  afterEach(() => {
+    processor?.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('every stream is enhanced by the model selected for it, or the default', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(...MODEL_TYPES),
+        fc.array(fc.option(fc.constantFrom(...MODEL_TYPES), { nil: null }), { minLength: 1, maxLength: 4 }),
+        async (defaultModelType, selections) => {
+          createProcessor(MODEL_TYPES.map(modelType => AIModelFactory.createModel(modelType)), defaultModelType);
+          const used = new Map<string, Set<AIModelType>>();
+          const done = new Promise<void>(resolve => {
+            processor.on('frames:enhanced', ({ streamId, modelType, enhancedFrames }) => {
+              expect(enhancedFrames).toHaveLength(3);
+              used.set(streamId, (used.get(streamId) ?? new Set()).add(modelType));
+              if (used.size === selections.length) {
+                resolve();
+              }
+            });
+          });
+
+          selections.forEach((modelType, index) => {
+            if (modelType !== null) {
+              processor.setStreamModel(`stream_${index}`, modelType);
+            }
+          });
+          selections.forEach((_, index) => {
+            createFrames(3).forEach(frame => buffer.addFrame(`stream_${index}`, frame));
+          });
+          processor.start();
+          await done;
+
+          selections.forEach((modelType, index) => {
+            expect(processor.getStreamModel(`stream_${index}`)).toBe(modelType ?? defaultModelType);
+            expect(Array.from(used.get(`stream_${index}`)!)).toEqual([modelType ?? defaultModelType]);
+          });
+          processor.stop();
+        }
+      ),
+      { numRuns: 15 }
+    );
+  });
+
+  test('models that were never registered cannot be selected', () => {
+    createProcessor([AIModelFactory.createDenoisingModel()], 'denoising');
+
+    expect(() => processor.setStreamModel('stream_a', 'upscaling')).toThrow('No AI model registered for upscaling');
+    expect(processor.getStreamModel('stream_a')).toBe('denoising');
+  });
+
+  test('a model that fails to load passes frames through, or fails the batch when fallback is disabled', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 5 }), fc.boolean(), async (frameCount, fallbackEnabled) => {
+        const initialize = jest.spyOn(AIProcessor.prototype, 'initialize').mockRejectedValue(new Error('model missing'));
+        createProcessor([{ ...AIModelFactory.createDenoisingModel(), fallbackEnabled }], 'denoising');
+        const enhanced: any[] = [];
+        const fallbacks: any[] = [];
+        const errors: any[] = [];
+        processor.on('frames:enhanced', data => enhanced.push(data));
+        processor.on('ai:fallback', data => fallbacks.push(data));
+        processor.on('batch:error', data => errors.push(data));
+
+        createFrames(frameCount).forEach(frame => buffer.addFrame('stream_a', frame));
+        const firstBatch = completed('stream_a');
+        processor.start();
+        await firstBatch;
+
+        if (fallbackEnabled) {
+          expect(fallbacks).toEqual([expect.objectContaining({ streamId: 'stream_a', modelType: 'denoising' })]);
+          expect(enhanced).toHaveLength(1);
+          expect(enhanced[0].enhancedFrames.map((frame: any) => frame.enhancementApplied)).toEqual(
+            Array.from({ length: frameCount }, () => ['fallback'])
+          );
+          expect(enhanced[0].enhancedFrames.map((frame: any) => frame.data)).toEqual(createFrames(frameCount).map(frame => frame.data));
+          expect(errors).toEqual([]);
+        } else {
+          // The load error reaches the batch instead of being hidden by a pass-through
+          expect(errors).toEqual([{ streamId: 'stream_a', error: new Error('model missing'), frameCount }]);
+          expect(enhanced).toEqual([]);
+          expect(fallbacks).toEqual([]);
+        }
+        expect(processor.getProcessingMetrics('stream_a')!.errorRate).toBe(100);
+
+        // A failed load is not cached, so the next batch tries the model again
+        const secondBatch = completed('stream_a');
+        buffer.addFrame('stream_a', createFrames(1)[0]);
+        await secondBatch;
+        expect(initialize).toHaveBeenCalledTimes(2);
+        expect(fallbackEnabled ? fallbacks : errors).toHaveLength(2);
+
+        processor.stop();
+        jest.restoreAllMocks();
+      }),
+      { numRuns: 10 }
+    );
+  });
+});
\ No newline at end of file
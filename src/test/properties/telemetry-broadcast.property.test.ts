@@ -0,0 +1,224 @@
+/**
+ * Property-based tests for live dashboard telemetry
+ * Feature: ai-live-streaming, Property 13: Per-stream telemetry delivery
+ */
+
+import fc from 'fast-check';
+import { StreamBuffer } from '../../server/StreamBuffer';
+import { StreamingServer } from '../../server/index';
+import { StreamDistributionService } from '../../server/StreamDistributionService';
+import { TelemetryBroadcaster } from '../../server/TelemetryBroadcaster';
+import { WebServer } from '../../server/WebServer';
+import { VideoFrame, VideoStream } from '../../types';
+import { connect, next } from '../helpers/socketClient';
+
+// Mock Socket.IO server with room membership
+class MockSocketServer {
+  private received: Map<string, { event: string; data: any }[]> = new Map();
+  private rooms: Map<string, Set<string>> = new Map();
+  public sockets = { sockets: new Map<string, any>() };
+
+  on(_event: string, _handler: (...args: any[]) => void): void {
+    // Connection handlers are not exercised by these properties
+  }
+
+  addSocket(socketId: string): void {
+    this.received.set(socketId, []);
+    this.sockets.sockets.set(socketId, {
+      emit: (event: string, data: any) => this.received.get(socketId)!.push({ event, data }),
+      join: (room: string) => {
+        if (!this.rooms.has(room)) this.rooms.set(room, new Set());
+        this.rooms.get(room)!.add(socketId);
+      },
+      leave: (room: string) => this.rooms.get(room)?.delete(socketId)
+    });
+  }
+
+  to(room: string) {
+    return {
+      emit: (event: string, data: any) => {
+        for (const socketId of this.rooms.get(room) || []) {
+          this.received.get(socketId)!.push({ event, data });
+        }
+      }
+    };
+  }
+
+  getEvents(socketId: string, event: string): any[] {
+    return (this.received.get(socketId) || [])
+      .filter(entry => entry.event === event)
+      .map(entry => entry.data);
+  }
+}
+
+function createFrame(bytes: number, timestamp: number): VideoFrame {
+  return { data: new Uint8Array(bytes), timestamp, width: 640, height: 480, format: 'h264' };
+}
+
+function createStream(streamId: string): VideoStream {
+  return {
+    streamId,
+    userId: `user_${streamId}`,
+    config: {
+      resolution: { width: 640, height: 480 },
+      frameRate: 30,
+      bitrate: 1000000,
+      audioEnabled: false
+    },
+    frames: [createFrame(100, Date.now())],
+    metadata: {
+      streamId,
+      frameNumber: 0,
+      timestamp: Date.now(),
+      quality: 'medium'
+    }
+  };
+}
+
+describe('Telemetry Broadcast Properties', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('ingest fps and bitrate follow the frames that arrived in the window', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2, max: 60 }),
+        fc.integer({ min: 10, max: 100 }),
+        fc.integer({ min: 1, max: 5000 }),
+        (frameCount, intervalMs, bytes) => {
+          jest.useFakeTimers();
+          const start = 1700000000000;
+          const buffer = new StreamBuffer(frameCount + 1, 10000);
+
+          for (let i = 0; i < frameCount; i++) {
+            jest.setSystemTime(start + i * intervalMs);
+            buffer.addFrame('stream', createFrame(bytes, i));
+          }
+
+          const now = start + (frameCount - 1) * intervalMs;
+          const stats = buffer.getIngestStats('stream', now);
+          const spanSeconds = ((frameCount - 1) * intervalMs) / 1000;
+
+          expect(stats.fps).toBeCloseTo(frameCount / spanSeconds);
+          expect(stats.bitrate).toBeCloseTo((frameCount * bytes * 8) / 1000 / spanSeconds);
+          jest.useRealTimers();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('dashboards only receive telemetry for the streams they subscribed to', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 6 }), async (viewerCount) => {
+        const io = new MockSocketServer();
+        const server = new StreamingServer(0);
+        const distribution = new StreamDistributionService(io as any);
+        const broadcaster = new TelemetryBroadcaster(io as any, server, distribution, 1000);
+        const ingestionService = server.getIngestionService();
+
+        ingestionService.addVideoStream(createStream('stream_a'));
+        ingestionService.addVideoStream(createStream('stream_b'));
+        await distribution.publishStream('stream_a', createStream('stream_a'));
+        for (let i = 0; i < viewerCount; i++) {
+          await distribution.subscribeViewer(`viewer_${i}`, 'stream_a');
+        }
+
+        io.addSocket('dash_a');
+        io.addSocket('dash_b');
+        broadcaster.subscribe('dash_a', ['stream_a']);
+        expect(() => broadcaster.subscribe('dash_b', ['stream_b', 'stream_missing'])).toThrow('Unknown stream stream_missing');
+        expect(() => broadcaster.subscribe('dash_b', ['stream_b', 42])).toThrow('Unknown stream 42');
+        broadcaster.subscribe('dash_b', ['stream_b']);
+
+        expect(await broadcaster.broadcast()).toBe(2);
+
+        const updatesA = io.getEvents('dash_a', 'metrics-update');
+        const updatesB = io.getEvents('dash_b', 'metrics-update');
+        expect(updatesA.map(update => update.streamId)).toEqual(['stream_a']);
+        expect(updatesB.map(update => update.streamId)).toEqual(['stream_b']);
+        expect(updatesA[0].viewers).toBe(viewerCount);
+        expect(updatesA[0].roundTripTime).toBeNull();
+
+        broadcaster.unsubscribe('dash_a');
+        await broadcaster.broadcast();
+        expect(io.getEvents('dash_a', 'metrics-update')).toHaveLength(1);
+        expect(broadcaster.getSubscribedStreams()).toEqual(['stream_b']);
+
+        // Subscriptions end with their stream
+        ingestionService.handleDisconnection('stream_a');
+        ingestionService.handleDisconnection('stream_b');
+        expect(io.getEvents('dash_b', 'telemetry-ended')).toEqual([{ streamId: 'stream_b' }]);
+        expect(broadcaster.getSubscribedStreams()).toEqual([]);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('a dashboard can follow a limited number of streams', () => {
+    const io = new MockSocketServer();
+    const server = new StreamingServer(0);
+    const broadcaster = new TelemetryBroadcaster(io as any, server, new StreamDistributionService(io as any));
+    const streamIds = Array.from({ length: 21 }, (_, index) => `stream_${index}`);
+    streamIds.forEach(streamId => server.getIngestionService().addVideoStream(createStream(streamId)));
+    io.addSocket('dash');
+
+    broadcaster.subscribe('dash', streamIds.slice(0, 15));
+    // Streams already followed do not count twice
+    broadcaster.subscribe('dash', streamIds.slice(10, 20));
+    expect(() => broadcaster.subscribe('dash', [streamIds[20]])).toThrow('A dashboard can follow at most 20 streams');
+    expect(broadcaster.getSubscribedStreams()).toHaveLength(20);
+
+    streamIds.forEach(streamId => server.getIngestionService().handleDisconnection(streamId));
+    expect(broadcaster.getSubscribedStreams()).toEqual([]);
+  });
+
+  test('broadcast pages and dashboards follow a socket broadcast until it stops', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000 });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const broadcaster = connect(base);
+    const dashboard = connect(base);
+    const sockets = [broadcaster.socket, dashboard.socket];
+
+    try {
+      await Promise.all([broadcaster.connected, dashboard.connected]);
+      const { streamKey } = server.getStreamKeyStore().createKey('alice');
+      const started = next(broadcaster.socket, 'real-stream-started');
+      broadcaster.socket.emit('real-stream-start', { streamKey });
+      const { streamId } = await started;
+
+      const invalid = next(dashboard.socket, 'telemetry-error');
+      dashboard.socket.emit('telemetry-subscribe', { streamIds: [streamId, { length: 1 }] });
+      expect(await invalid).toEqual({ error: 'Unknown stream [object Object]' });
+
+      const snapshot = next(dashboard.socket, 'metrics-update');
+      dashboard.socket.emit('telemetry-subscribe', { streamIds: [streamId, streamId] });
+      expect(await snapshot).toMatchObject({ streamId, viewers: 0 });
+      expect(server.getTelemetryBroadcaster().getSubscribedStreams()).toEqual([streamId]);
+
+      const ended = next(dashboard.socket, 'telemetry-ended');
+      broadcaster.socket.emit('stop-stream');
+      expect(await ended).toEqual({ streamId });
+      expect(server.getTelemetryBroadcaster().getSubscribedStreams()).toEqual([]);
+
+      const refused = next(dashboard.socket, 'telemetry-error');
+      dashboard.socket.emit('telemetry-subscribe', { streamIds: [streamId] });
+      expect(await refused).toEqual({ error: `Unknown stream ${streamId}` });
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+
+  test('update interval must be positive', () => {
+    const io = new MockSocketServer();
+    const server = new StreamingServer(0);
+    const broadcaster = new TelemetryBroadcaster(io as any, server, new StreamDistributionService(io as any));
+
+    broadcaster.setUpdateInterval(500);
+    expect(broadcaster.getUpdateInterval()).toBe(500);
+    expect(() => broadcaster.setUpdateInterval(0)).toThrow('Telemetry interval must be positive');
+  });
+});
\ No newline at end of file
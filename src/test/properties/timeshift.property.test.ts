@@ -0,0 +1,287 @@
+/**
+ * Property-based tests for the DVR time-shift window
+ * Feature: ai-live-streaming, Property 24: The time-shift window is a keyframe-aligned suffix of the stream, and seeking plays it back gaplessly
+ */
+
+import fc from 'fast-check';
+import { io as connectSocket, Socket as ClientSocket } from 'socket.io-client';
+import { TimeShiftStore } from '../../server/TimeShiftStore';
+import { StreamDistributionService } from '../../server/StreamDistributionService';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { WebRTCServer } from '../../server/WebRTCServer';
+import { WebServer } from '../../server/WebServer';
+import { EnhancedFrame, VideoStream } from '../../types';
+import { MockSocketServer } from '../helpers/MockSocketServer';
+
+function createStream(streamId: string): VideoStream {
+  return {
+    streamId,
+    userId: `user_${streamId}`,
+    config: {
+      resolution: { width: 640, height: 360 },
+      frameRate: 25,
+      bitrate: 1000000,
+      audioEnabled: false
+    },
+    frames: [],
+    metadata: {
+      streamId,
+      frameNumber: 0,
+      timestamp: Date.now(),
+      quality: 'low'
+    }
+  };
+}
+
+/**
+ * Frames 40ms apart; each GOP starts with a keyframe, and frame sizes vary
+ */
+function createFrames(gops: number[], firstTimestamp: number = 0): EnhancedFrame[] {
+  const frames: EnhancedFrame[] = [];
+  for (const length of gops) {
+    for (let i = 0; i < length; i++) {
+      const index = frames.length;
+      frames.push({
+        data: new Uint8Array(100 + (index * 37) % 400),
+        timestamp: firstTimestamp + index * 40,
+        width: 640,
+        height: 360,
+        format: 'vp8',
+        keyframe: i === 0,
+        processingTime: 1,
+        enhancementApplied: []
+      });
+    }
+  }
+  return frames;
+}
+
+function timestampsOf(batches: any[]): number[] {
+  return batches.flatMap(batch => batch.frames.map((frame: any) => frame.timestamp));
+}
+
+describe('Time-shift Properties', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('the window is the longest keyframe-aligned suffix within its duration and byte bounds', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 1, max: 30 }), { minLength: 1, maxLength: 20 }),
+        fc.integer({ min: 0, max: 10 }),
+        fc.array(fc.integer({ min: 1, max: 40 }), { minLength: 1, maxLength: 10 }),
+        fc.integer({ min: 200, max: 10000 }),
+        fc.integer({ min: 1000, max: 100000 }),
+        (gops, leading, batchSizes, windowMs, maxBytes) => {
+          const store = new TimeShiftStore(new StreamIngestionService(new WebRTCServer(0)), { windowMs, maxBytes });
+          // Frames before the first keyframe cannot start playback
+          const frames = [...createFrames([leading + 1]).slice(1).map(frame => ({ ...frame, timestamp: frame.timestamp - 1000 })), ...createFrames(gops)];
+
+          let pushed = 0;
+          for (let i = 0; pushed < frames.length; i++) {
+            const size = batchSizes[i % batchSizes.length];
+            store.pushFrames('stream_dvr', frames.slice(pushed, pushed + size));
+            pushed += size;
+          }
+
+          const window = store.getWindow('stream_dvr')!;
+          const kept = frames.filter(frame => frame.timestamp >= window.startTimestamp);
+          const keyframes = kept.filter(frame => frame.keyframe);
+          expect(kept[0].keyframe).toBe(true);
+          expect(store.getFrames('stream_dvr', -Infinity, Infinity)).toEqual(kept);
+          expect(window).toMatchObject({
+            endTimestamp: frames[frames.length - 1].timestamp,
+            durationMs: frames[frames.length - 1].timestamp - window.startTimestamp,
+            bytes: kept.reduce((total, frame) => total + frame.data.length, 0),
+            keyframes: keyframes.length
+          });
+
+          // Only the keyframe group being written may exceed the bounds on its own
+          if (keyframes.length > 1) {
+            expect(window.durationMs).toBeLessThanOrEqual(windowMs);
+            expect(window.bytes).toBeLessThanOrEqual(maxBytes);
+          }
+
+          // One more group would not have fitted
+          const previous = frames.filter(frame => frame.keyframe && frame.timestamp < window.startTimestamp).pop();
+          if (previous) {
+            const bytes = frames.filter(frame => frame.timestamp >= previous.timestamp)
+              .reduce((total, frame) => total + frame.data.length, 0);
+            expect(window.endTimestamp - previous.timestamp > windowMs || bytes > maxBytes).toBe(true);
+          }
+
+          const from = window.startTimestamp + 123;
+          const to = from + windowMs / 2;
+          expect(store.getFrames('stream_dvr', from, to)).toEqual(kept.filter(frame => frame.timestamp >= from && frame.timestamp < to));
+          expect(store.findKeyframe('stream_dvr', to)).toBe(keyframes.filter(frame => frame.timestamp <= to).pop()?.timestamp ?? keyframes[0].timestamp);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  test('a seeking viewer plays the window from a keyframe in real time, then rejoins live at a keyframe', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const io = new MockSocketServer();
+    io.addSocket('socket_viewer');
+    const store = new TimeShiftStore(new StreamIngestionService(new WebRTCServer(0)), { windowMs: 60000 });
+    const service = new StreamDistributionService(io as any);
+    service.attachTimeShiftStore(store);
+    await service.publishStream('stream_dvr', createStream('stream_dvr'));
+    const { sessionId } = await service.subscribeViewer('viewer', 'stream_dvr', { socketId: 'socket_viewer' });
+
+    // 40 seconds of live stream with a keyframe every 2 seconds, arriving in real time
+    const live = createFrames(Array(40).fill(50));
+    const pushLive = (until: number) => {
+      const batch = live.filter(frame => frame.timestamp >= pushLive.next && frame.timestamp < until);
+      pushLive.next = until;
+      store.pushFrames('stream_dvr', batch);
+      service.distributeFrames('stream_dvr', batch);
+    };
+    pushLive.next = 0;
+    for (let time = 0; time < 20000; time += 1000) {
+      pushLive(time + 1000);
+      jest.advanceTimersByTime(1000);
+    }
+
+    expect(() => service.seekViewer(sessionId, {})).toThrow('Seek needs either a time or a non-negative offset behind live');
+    expect(() => service.seekViewer(sessionId, { offsetMs: -1 })).toThrow();
+    expect(() => service.seekViewer('viewer_unknown', { offsetMs: 0 })).toThrow('Viewer session viewer_unknown not found');
+
+    // 5 seconds back starts at the keyframe before that point
+    const seeked = service.seekViewer(sessionId, { offsetMs: 5000 });
+    expect(seeked).toMatchObject({ sessionId, streamId: 'stream_dvr', live: false, timestamp: 14000, behindLiveMs: 5960 });
+    expect(seeked.time).toBe(store.toWallClock('stream_dvr', 14000));
+
+    for (let time = 20000; time < 26000; time += 1000) {
+      pushLive(time + 1000);
+      jest.advanceTimersByTime(1000);
+    }
+
+    // Live frames stop while time-shifted; the stored ones arrive gaplessly from the keyframe on
+    const liveBefore = timestampsOf(io.getEvents('socket_viewer', 'stream-frames'));
+    expect(liveBefore).toEqual(live.filter(frame => frame.timestamp < 20000).map(frame => frame.timestamp));
+    const shifted = timestampsOf(io.getEvents('socket_viewer', 'timeshift-frames'));
+    expect(shifted[0]).toBe(14000);
+    expect(shifted).toEqual(live.filter(frame => frame.timestamp >= 14000 && frame.timestamp <= shifted[shifted.length - 1]).map(frame => frame.timestamp));
+    expect(shifted[shifted.length - 1]).toBeGreaterThanOrEqual(14000 + 6000);
+    expect(service.getViewerPosition(sessionId)!.behindLiveMs).toBeCloseTo(5960, -2);
+
+    // Seeking to a wall clock time maps it onto the stream timeline
+    const absolute = service.seekViewer(sessionId, { time: new Date(store.toWallClock('stream_dvr', 3100)!).toISOString() });
+    expect(absolute.timestamp).toBe(2000);
+
+    // Back at live, the viewer waits for the next keyframe
+    pushLive(26500);
+    const back = service.returnToLive(sessionId);
+    expect(back).toMatchObject({ live: true, behindLiveMs: 0, timestamp: 26480 });
+    pushLive(27000);
+    pushLive(29000);
+    const rejoined = timestampsOf(io.getEvents('socket_viewer', 'stream-frames')).slice(liveBefore.length);
+    expect(rejoined).toEqual(live.filter(frame => frame.timestamp >= 28000 && frame.timestamp < 29000).map(frame => frame.timestamp));
+
+    expect(io.getEvents('socket_viewer', 'viewer-position').map(position => position.live)).toEqual([false, false, true]);
+    service.seekViewer(sessionId, { offsetMs: 0 });
+    expect(service.getViewerPosition(sessionId)!.live).toBe(true);
+  });
+
+  test('a playhead the window moves past restarts at the window start', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const io = new MockSocketServer();
+    io.addSocket('socket_viewer');
+    const store = new TimeShiftStore(new StreamIngestionService(new WebRTCServer(0)), { windowMs: 4000 });
+    const service = new StreamDistributionService(io as any);
+    service.attachTimeShiftStore(store);
+    await service.publishStream('stream_dvr', createStream('stream_dvr'));
+    const { sessionId } = await service.subscribeViewer('viewer', 'stream_dvr', { socketId: 'socket_viewer' });
+
+    const live = createFrames(Array(10).fill(25));
+    store.pushFrames('stream_dvr', live.filter(frame => frame.timestamp < 4000));
+    service.seekViewer(sessionId, { offsetMs: 4000 });
+    jest.advanceTimersByTime(500);
+
+    // The stream jumps ahead while the viewer watches its start
+    store.pushFrames('stream_dvr', live.filter(frame => frame.timestamp >= 4000));
+    jest.advanceTimersByTime(100);
+    const position = service.getViewerPosition(sessionId)!;
+    expect(position.live).toBe(false);
+    expect(position.timestamp).toBe(store.getWindow('stream_dvr')!.startTimestamp);
+    expect(io.getEvents('socket_viewer', 'viewer-position').map(event => event.timestamp)).toEqual([0, position.timestamp]);
+
+    // A viewer that catches up with a stalled stream returns to live
+    jest.advanceTimersByTime(5000);
+    expect(service.getViewerPosition(sessionId)!.live).toBe(true);
+
+    // Ended sessions stop playing
+    service.seekViewer(sessionId, { offsetMs: 2000 });
+    await service.unsubscribeViewer(sessionId);
+    const sent = io.getEvents('socket_viewer', 'timeshift-frames').length;
+    jest.advanceTimersByTime(1000);
+    expect(io.getEvents('socket_viewer', 'timeshift-frames')).toHaveLength(sent);
+  });
+
+  test('the window and seeking are served over HTTP and the viewer socket', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, timeShiftOptions: { windowMs: 30000 } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const socket: ClientSocket = connectSocket(base, { transports: ['websocket'], reconnection: false });
+    const next = (event: string) => new Promise<any>(resolve => socket.once(event, resolve));
+    const connected = new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('connect_error', reject);
+    });
+
+    try {
+      await connected;
+      const authorization = `Bearer ${server.getAuthService().issueToken('mod', 'moderator')}`;
+      expect((await fetch(`${base}/api/streams/stream_dvr/timeshift`)).status).toBe(401);
+      expect((await fetch(`${base}/api/streams/stream_dvr/timeshift`, { headers: { Authorization: authorization } })).status).toBe(404);
+
+      const distribution = server.getDistributionService();
+      await distribution.publishStream('stream_dvr', createStream('stream_dvr'));
+      const frames = createFrames([25, 25, 25]);
+      server.getStreamingServer().getIngestionService()
+        .emit('frames:enhanced', { streamId: 'stream_dvr', originalFrames: frames, enhancedFrames: frames, processingTime: 1, modelType: 'denoising' });
+
+      const window = await (await fetch(`${base}/api/streams/stream_dvr/timeshift`, { headers: { Authorization: authorization } })).json();
+      expect(window.data).toMatchObject({ streamId: 'stream_dvr', startTimestamp: 0, endTimestamp: 2960, keyframes: 3 });
+
+      const subscribed = next('viewer-subscribed');
+      socket.emit('viewer-subscribe', { streamId: 'stream_dvr', viewerId: 'viewer' });
+      const { sessionId } = await subscribed;
+
+      const post = (body: unknown, headers: Record<string, string> = { Authorization: authorization }) => fetch(`${base}/api/viewers/${sessionId}/seek`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body)
+      });
+
+      expect((await post({ offsetMs: 1500 }, {})).status).toBe(401);
+      expect((await post({ offsetMs: 'soon' })).status).toBe(400);
+      expect((await fetch(`${base}/api/viewers/viewer_unknown/seek`, { method: 'POST', headers: { Authorization: authorization } })).status).toBe(404);
+
+      const shifted = next('timeshift-frames');
+      const seeked = await (await post({ offsetMs: 1500 })).json();
+      // Playback starts at the keyframe before 1.46s
+      expect(seeked.data.live).toBe(false);
+      expect(seeked.data.timestamp).toBeGreaterThanOrEqual(1000);
+      expect(seeked.data.timestamp).toBeLessThan(1100);
+      expect((await shifted).frames[0].timestamp).toBe(1000);
+
+      const position = await (await fetch(`${base}/api/viewers/${sessionId}/position`)).json();
+      expect(position.data.live).toBe(false);
+
+      const returned = next('viewer-position');
+      socket.emit('viewer-seek', { sessionId, live: true });
+      expect(await returned).toMatchObject({ sessionId, live: true });
+
+      const rejected = next('viewer-error');
+      socket.emit('viewer-seek', { sessionId, time: 'yesterday' });
+      expect((await rejected).error).toBe('Seek needs either a time or a non-negative offset behind live');
+    } finally {
+      socket.close();
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
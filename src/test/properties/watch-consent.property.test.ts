@@ -0,0 +1,314 @@
+/**
+ * Property-based tests for viewer consent
+ * Feature: ai-live-streaming, Property 28: Only watchers the streamer allows attach, every attach and detach reaches only the streamer and is audited, and revoking moderator viewing detaches moderators at once
+ */
+
+import fc from 'fast-check';
+import { promises as fs, mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ROLES, Role } from '../../server/AuthService';
+import { WatchConsentManager, STREAM_VISIBILITIES, StreamVisibility } from '../../server/WatchConsentManager';
+import { WebServer } from '../../server/WebServer';
+import { connect, next } from '../helpers/socketClient';
+import { h264Frames } from '../helpers/h264Fixtures';
+
+const roleArbitrary = fc.constantFrom<Role>(...ROLES);
+const visibilityArbitrary = fc.constantFrom<StreamVisibility>(...STREAM_VISIBILITIES);
+const watcherArbitrary = fc.record({
+  subject: fc.option(fc.constantFrom('ann', 'ben', 'cat', 'dan'), { nil: null }),
+  role: roleArbitrary,
+  follows: fc.boolean()
+});
+
+describe('Watch Consent Properties', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('a watcher attaches exactly when the streamer\'s choice allows it', () => {
+    fc.assert(
+      fc.property(visibilityArbitrary, fc.boolean(), fc.array(watcherArbitrary, { maxLength: 8 }), (visibility, moderatorViewing, watchers) => {
+        const consent = new WatchConsentManager();
+        consent.openBroadcast('streamer_socket', 'alice', visibility);
+        consent.setModeratorViewing('streamer_socket', moderatorViewing);
+
+        watchers.forEach(({ subject, role, follows }, index) => {
+          if (subject && follows && !consent.isFollowing(subject, 'alice')) {
+            consent.follow(subject, 'alice');
+          }
+          const following = subject !== null && consent.isFollowing(subject, 'alice');
+          const moderator = ROLES.indexOf(role) >= ROLES.indexOf('moderator');
+          const allowed = moderator
+            ? moderatorViewing
+            : visibility === 'public' || (visibility === 'followers' && following);
+
+          const attach = () => consent.attach('alice', { socketId: `watcher_${index}`, subject, role });
+          if (allowed) {
+            expect(attach().watchers.map(watcher => watcher.socketId)).toContain(`watcher_${index}`);
+          } else {
+            expect(attach).toThrow(moderator ? 'alice has revoked moderator viewing' : `alice only lets ${visibility} watch`);
+          }
+        });
+
+        expect(() => consent.attach('streamer_socket', { socketId: 'streamer_socket', subject: 'alice', role: 'streamer' }))
+          .toThrow('Streamers cannot watch their own broadcast');
+        expect(() => consent.attach('bob', { socketId: 'x', subject: null, role: 'owner' })).toThrow('bob is not broadcasting');
+      })
+    );
+  });
+
+  test('revoking moderator viewing detaches moderators and nobody else', () => {
+    fc.assert(
+      fc.property(fc.array(roleArbitrary, { minLength: 1, maxLength: 8 }), roles => {
+        const consent = new WatchConsentManager();
+        const detached: Array<{ socketId: string; reason: string }> = [];
+        consent.on('watch:detached', ({ watcher, reason }) => detached.push({ socketId: watcher.socketId, reason }));
+        consent.openBroadcast('streamer_socket', 'alice', 'public');
+        roles.forEach((role, index) => consent.attach('alice', { socketId: `watcher_${index}`, subject: null, role }));
+
+        consent.setModeratorViewing('streamer_socket', false);
+        const moderators = roles
+          .map((role, index) => ({ role, socketId: `watcher_${index}` }))
+          .filter(({ role }) => role === 'moderator' || role === 'owner')
+          .map(({ socketId }) => ({ socketId, reason: 'revoked' }));
+        expect(detached).toEqual(moderators);
+        expect(consent.getWatcherSockets('streamer_socket')).toHaveLength(roles.length - moderators.length);
+
+        consent.closeBroadcast('streamer_socket');
+        expect(detached.slice(moderators.length).every(({ reason }) => reason === 'ended')).toBe(true);
+        expect(consent.getBroadcast('alice')).toBeNull();
+      })
+    );
+  });
+
+  test('playback follows the open broadcast, then the streamer\'s last choice', () => {
+    fc.assert(
+      fc.property(fc.option(visibilityArbitrary, { nil: null }), watcherArbitrary, (visibility, { subject, role, follows }) => {
+        const consent = new WatchConsentManager();
+        if (subject && follows) {
+          consent.follow(subject, 'alice');
+        }
+        const moderator = ROLES.indexOf(role) >= ROLES.indexOf('moderator');
+        const allowed = (chosen: StreamVisibility, moderatorViewing: boolean) => moderator
+          ? moderatorViewing
+          : chosen === 'public' || (chosen === 'followers' && subject !== null && follows);
+        const authorize = () => consent.authorizePlayback('alice', { subject, role });
+
+        // Streamers who never chose are public
+        expect(authorize).not.toThrow();
+        if (visibility === null) {
+          return;
+        }
+
+        consent.openBroadcast('streamer_socket', 'alice', visibility);
+        consent.setModeratorViewing('streamer_socket', false);
+        if (allowed(visibility, false)) {
+          expect(authorize).not.toThrow();
+        } else {
+          expect(authorize).toThrow(moderator ? 'alice has revoked moderator viewing' : `alice only lets ${visibility} watch`);
+        }
+        expect(consent.getBroadcast('alice')!.watchers).toEqual([]);
+
+        consent.closeBroadcast('streamer_socket');
+        if (allowed(visibility, true)) {
+          expect(authorize).not.toThrow();
+        } else {
+          expect(authorize).toThrow(`alice only lets ${visibility} watch`);
+        }
+      })
+    );
+  });
+
+  test('WHEP, HLS, DASH and socket playback honour the visibility and metrics name no streams', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, authOptions: { secret: 'test-secret' }, packagingOptions: { segmentDurationMs: 1000 } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const auth = server.getAuthService();
+    const streamer = connect(base, auth.issueToken('alice', 'streamer'));
+    const stranger = connect(base);
+    const sockets = [streamer, stranger].map(({ socket }) => socket);
+    const ingestion = server.getStreamingServer().getIngestionService();
+    const streamId = 'stream_alice_private';
+    const bearer = (subject: string, role: Role) => ({ Authorization: `Bearer ${auth.issueToken(subject, role)}` });
+
+    try {
+      await Promise.all([streamer.connected, stranger.connected]);
+      server.getWatchConsent().follow('fan', 'alice');
+      const { streamKey } = server.getStreamKeyStore().createKey('alice');
+      const consent = next(streamer.socket, 'viewing-consent');
+      streamer.socket.emit('stream-started', { streamKey, visibility: 'followers', timestamp: Date.now() });
+      await consent;
+
+      // An ingested stream of alice's, packaged for HLS and DASH
+      ingestion.emit('stream:added', { streamId, userId: 'alice' });
+      const frames = h264Frames([25, 25, 25]);
+      ingestion.emit('frames:enhanced', { streamId, originalFrames: frames, enhancedFrames: frames, processingTime: 1, modelType: 'denoising' });
+
+      const paths = [`/hls/${streamId}/index.m3u8`, `/hls/${streamId}/low/video.m3u8`, `/hls/${streamId}/low/seg0.m4s`, `/dash/${streamId}/manifest.mpd`, `/dash/${streamId}/low/init0.mp4`];
+      for (const playbackPath of paths) {
+        const anonymous = await fetch(`${base}${playbackPath}`);
+        expect(anonymous.status).toBe(403);
+        expect(await anonymous.text()).toBe('alice only lets followers watch');
+        expect((await fetch(`${base}${playbackPath}`, { headers: bearer('someone', 'viewer') })).status).toBe(403);
+        expect((await fetch(`${base}${playbackPath}`, { headers: bearer('fan', 'viewer') })).status).toBe(200);
+        expect((await fetch(`${base}${playbackPath}`, { headers: bearer('mod', 'moderator') })).status).toBe(200);
+      }
+      expect((await fetch(`${base}${paths[0]}`, { headers: { Authorization: 'Bearer forged' } })).status).toBe(401);
+
+      const whep = await fetch(`${base}/whep/${streamId}`, { method: 'POST', headers: { 'Content-Type': 'application/sdp' }, body: 'v=0' });
+      expect(whep.status).toBe(403);
+
+      const refused = next(stranger.socket, 'viewer-error');
+      stranger.socket.emit('viewer-subscribe', { streamId });
+      expect(await refused).toEqual({ streamId, error: 'alice only lets followers watch' });
+
+      // Closing the broadcast page keeps the streamer's choice
+      streamer.socket.emit('stream-stopped', { timestamp: Date.now() });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect((await fetch(`${base}${paths[0]}`)).status).toBe(403);
+
+      const metrics = await (await fetch(`${base}/metrics`)).text();
+      expect(metrics).toContain('ai_streaming_frames_enhanced_total{stream="1"}');
+      expect(metrics).not.toContain(streamId);
+      const status = await (await fetch(`${base}/api/status`)).json();
+      expect(JSON.stringify(status)).not.toContain(streamId);
+      expect((await fetch(`${base}/api/metrics`)).status).toBe(401);
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+
+  test('watch indicators reach only the streamer, frames only watchers, and attaches are audited', async () => {
+    const file = path.join(directory, 'audit.jsonl');
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, authOptions: { secret: 'test-secret' }, auditOptions: { file } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const auth = server.getAuthService();
+    const streamer = connect(base, auth.issueToken('alice', 'streamer'));
+    const moderator = connect(base, auth.issueToken('mod', 'moderator'));
+    const follower = connect(base, auth.issueToken('fan', 'viewer'));
+    const stranger = connect(base, auth.issueToken('someone', 'viewer'));
+    const sockets = [streamer, moderator, follower, stranger].map(({ socket }) => socket);
+
+    try {
+      await Promise.all([streamer.connected, moderator.connected, follower.connected, stranger.connected]);
+      const followed = await fetch(`${base}/api/users/alice/followers`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${auth.issueToken('fan', 'viewer')}` }
+      });
+      expect(followed.status).toBe(201);
+
+      const indicators: string[] = [];
+      const unexpected: string[] = [];
+      streamer.socket.on('watcher-attached', data => indicators.push(`attached:${data.watcherId}:${data.role}`));
+      streamer.socket.on('watcher-detached', data => indicators.push(`detached:${data.watcherId}:${data.reason}`));
+      for (const socket of [moderator.socket, follower.socket, stranger.socket]) {
+        socket.on('watcher-attached', () => unexpected.push('watcher-attached'));
+        socket.on('admin-watching', () => unexpected.push('admin-watching'));
+      }
+      stranger.socket.on('user-video', () => unexpected.push('user-video'));
+
+      // The main page's publish path needs a key too, and the key, not the page, names the streamer
+      const keyRequired = next(stranger.socket, 'stream-error');
+      stranger.socket.emit('stream-started', { userId: 'alice', visibility: 'public', timestamp: Date.now() });
+      expect(await keyRequired).toEqual({ error: 'Stream key is required' });
+      stranger.socket.emit('video-frame', { userId: 'alice', frame: 'forged', timestamp: 0 });
+
+      const { streamKey } = server.getStreamKeyStore().createKey('alice');
+      const consent = next(streamer.socket, 'viewing-consent');
+      streamer.socket.emit('stream-started', { streamKey, userId: 'mallory', visibility: 'followers', timestamp: Date.now() });
+      expect(await consent).toMatchObject({ userId: 'alice', visibility: 'followers', moderatorViewing: true, watchers: [] });
+
+      let attached = next(streamer.socket, 'watcher-attached');
+      moderator.socket.emit('watch-user', { userId: 'alice' });
+      expect(await attached).toMatchObject({ watcherId: 'mod', role: 'moderator' });
+
+      attached = next(streamer.socket, 'watcher-attached');
+      follower.socket.emit('watch-stream', { userId: 'alice' });
+      expect((await attached).watchers).toHaveLength(2);
+
+      const refused = next(stranger.socket, 'watch-error');
+      stranger.socket.emit('watch-stream', { userId: 'alice' });
+      expect(await refused).toEqual({ userId: 'alice', error: 'alice only lets followers watch' });
+
+      const moderatorFrame = next(moderator.socket, 'user-video');
+      const followerFrame = next(follower.socket, 'user-video');
+      streamer.socket.emit('video-frame', { userId: 'mallory', frame: 'frame_1', timestamp: 1 });
+      expect(await moderatorFrame).toEqual({ userId: 'alice', frame: 'frame_1', timestamp: 1 });
+      expect((await followerFrame).frame).toBe('frame_1');
+
+      // Revocation detaches the moderator at once and keeps them out
+      const ended = next(moderator.socket, 'watch-ended');
+      streamer.socket.emit('revoke-moderator-viewing');
+      expect(await ended).toEqual({ userId: 'alice', reason: 'revoked' });
+      const revokedRefusal = next(moderator.socket, 'watch-error');
+      moderator.socket.emit('admin-watch-stream', { userId: 'alice' });
+      expect((await revokedRefusal).error).toBe('alice has revoked moderator viewing');
+
+      expect(indicators).toEqual(['attached:mod:moderator', 'attached:fan:viewer', 'detached:mod:revoked']);
+      expect(unexpected).toEqual([]);
+
+      await server.getAuditLog().flush();
+      const entries = (await fs.readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(entries.map(({ actor, role, action, target }) => ({ actor, role, action, target }))).toEqual([
+        { actor: 'mod', role: 'moderator', action: 'watch:attach', target: 'alice' },
+        { actor: 'fan', role: 'viewer', action: 'watch:attach', target: 'alice' },
+        { actor: 'mod', role: 'moderator', action: 'watch:detach', target: 'alice' },
+        { actor: 'alice', role: 'streamer', action: 'watch:revoke-moderators', target: 'alice' }
+      ]);
+      expect(entries[0].details).toMatchObject({ visibility: 'followers' });
+      expect(entries[2].reason).toBe('revoked');
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+
+  test('relayed video streams record the streamer\'s visibility before anyone can watch', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000, authOptions: { secret: 'test-secret' } });
+    await server.start();
+    const base = `http://127.0.0.1:${server.getPort()}`;
+    const auth = server.getAuthService();
+    const streamer = connect(base, auth.issueToken('alice', 'streamer'));
+    const moderator = connect(base, auth.issueToken('mod', 'moderator'));
+    const stranger = connect(base, auth.issueToken('someone', 'viewer'));
+    const sockets = [streamer, moderator, stranger].map(({ socket }) => socket);
+
+    try {
+      await Promise.all([streamer.connected, moderator.connected, stranger.connected]);
+      const { streamKey } = server.getStreamKeyStore().createKey('alice');
+
+      const invalid = next(streamer.socket, 'video-stream-error');
+      streamer.socket.emit('video-stream-start', { streamKey, visibility: 'everyone' });
+      expect((await invalid).error).toBe('Visibility must be one of public, followers, moderators');
+
+      const consent = next(streamer.socket, 'viewing-consent');
+      streamer.socket.emit('video-stream-start', { streamKey, visibility: 'followers' });
+      expect(await consent).toMatchObject({ userId: 'alice', visibility: 'followers', watchers: [] });
+
+      const refused = next(stranger.socket, 'watch-error');
+      stranger.socket.emit('watch-stream', { userId: 'alice' });
+      expect(await refused).toEqual({ userId: 'alice', error: 'alice only lets followers watch' });
+
+      const started = next(moderator.socket, 'stream-watch-started');
+      moderator.socket.emit('watch-user', { userId: 'alice' });
+      expect((await started).username).toBe('alice');
+
+      // Stopping the stream ends the broadcast for its watchers
+      const ended = next(moderator.socket, 'watch-ended');
+      streamer.socket.emit('video-stream-stop');
+      expect(await ended).toEqual({ userId: 'alice', reason: 'ended' });
+    } finally {
+      sockets.forEach(socket => socket.close());
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
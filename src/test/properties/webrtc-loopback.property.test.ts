@@ -0,0 +1,202 @@
+/**
+ * Property-based tests for WebRTC media termination and forwarding
+ * Feature: ai-live-streaming, Property 14: Lossless RTP framing over loopback peers
+ */
+
+import fc from 'fast-check';
+import { RTCPeerConnection, RTCRtpCodecParameters, MediaStreamTrack, RtpPacket } from 'werift';
+import { WebRTCServer } from '../../server/WebRTCServer';
+import { StreamIngestionService } from '../../server/StreamIngestionService';
+import { RtpDepacketizer, RtpPacketizer } from '../../server/RtpMedia';
+import { StreamConfig, VideoFrame } from '../../types';
+
+const streamConfig: StreamConfig = {
+  resolution: { width: 640, height: 480 },
+  frameRate: 30,
+  bitrate: 1000000,
+  audioEnabled: false
+};
+
+const vp8Codecs = {
+  audio: [],
+  video: [new RTCRtpCodecParameters({ mimeType: 'video/VP8', clockRate: 90000 })]
+};
+
+function createVp8Frame(size: number, seed: number, timestamp: number): VideoFrame {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 31 + seed) & 0xff;
+  }
+  return { data, timestamp, width: 640, height: 480, format: 'vp8' };
+}
+
+function createH264Frame(nalSizes: number[], seed: number): VideoFrame {
+  const parts: number[] = [];
+  nalSizes.forEach((size, n) => {
+    parts.push(0, 0, 0, 1);
+    // NAL header with forbidden bit clear; payload bytes avoid start-code emulation
+    parts.push(n === 0 ? 0x65 : 0x41);
+    for (let i = 1; i < size; i++) {
+      parts.push(((i + seed) % 250) + 2);
+    }
+  });
+  return { data: new Uint8Array(parts), timestamp: 1000, width: 640, height: 480, format: 'h264' };
+}
+
+function waitFor<T>(emitter: { once: (event: string, listener: (data: T) => void) => unknown }, event: string): Promise<T> {
+  return new Promise(resolve => emitter.once(event, resolve));
+}
+
+async function connectPeers(server: WebRTCServer, connectionId: string, client: RTCPeerConnection): Promise<void> {
+  server.on('ice:local_candidate', (data) => {
+    if (data.connectionId === connectionId) {
+      client.addIceCandidate(data.candidate).catch(() => undefined);
+    }
+  });
+  client.onIceCandidate.subscribe((candidate) => {
+    if (candidate) {
+      server.handleIceCandidate(connectionId, candidate.toJSON()).catch(() => undefined);
+    }
+  });
+
+  await client.setLocalDescription(await client.createOffer());
+  const answer = await server.handleOffer(connectionId, client.localDescription);
+  await client.setRemoteDescription(answer);
+}
+
+describe('WebRTC Loopback Properties', () => {
+  test('h264 frames survive packetization and depacketization', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 2, max: 4000 }), { minLength: 1, maxLength: 4 }),
+        fc.integer({ min: 0, max: 255 }),
+        fc.integer({ min: 200, max: 1400 }),
+        (nalSizes, seed, maxPayloadSize) => {
+          const frame = createH264Frame(nalSizes, seed);
+          const packets = new RtpPacketizer('h264', maxPayloadSize).packetize(frame);
+          const depacketizer = new RtpDepacketizer('h264', { width: 640, height: 480 });
+
+          expect(packets.every(packet => packet.payload.length <= maxPayloadSize)).toBe(true);
+          expect(packets.filter(packet => packet.header.marker)).toHaveLength(1);
+
+          const frames = packets.map(packet => depacketizer.push(packet)).filter(Boolean) as VideoFrame[];
+          expect(frames).toHaveLength(1);
+          expect(Buffer.from(frames[0].data).equals(Buffer.from(frame.data))).toBe(true);
+          expect(frames[0].keyframe).toBe(true);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('frames with a lost packet are dropped', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2500, max: 10000 }), (size) => {
+        const packets = new RtpPacketizer('vp8', 1000).packetize(createVp8Frame(size, 3, 1000));
+        const depacketizer = new RtpDepacketizer('vp8', { width: 640, height: 480 });
+
+        const lossy = packets.filter((_, i) => i !== 1);
+        const frames = lossy.map(packet => depacketizer.push(packet)).filter(Boolean);
+
+        expect(frames).toHaveLength(0);
+        expect(depacketizer.getDroppedFrames()).toBe(1);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('publisher media terminates at the server and reaches ingestion', async () => {
+    const server = new WebRTCServer(0);
+    const ingestion = new StreamIngestionService(server);
+    const client = new RTCPeerConnection({ codecs: vp8Codecs });
+
+    try {
+      const track = new MediaStreamTrack({ kind: 'video' });
+      client.addTransceiver(track, { direction: 'sendonly' });
+
+      const connection = await server.handleConnectionRequest('user_loopback', streamConfig);
+      const ready = waitFor<{ streamId: string }>(ingestion, 'stream:ready');
+      await connectPeers(server, connection.connectionId, client);
+
+      const { streamId } = await ready;
+      expect(server.getConnection(connection.connectionId)?.state).toBe('connected');
+      expect(ingestion.getActiveStream(streamId)?.userId).toBe('user_loopback');
+
+      const sent = [createVp8Frame(3000, 1, 1000), createVp8Frame(500, 2, 1033)];
+      const received: VideoFrame[] = [];
+      const allReceived = new Promise<void>(resolve => {
+        server.on('frame:received', (data) => {
+          received.push(data.frame);
+          if (received.length === sent.length) resolve();
+        });
+      });
+
+      const packetizer = new RtpPacketizer('vp8');
+      for (const frame of sent) {
+        packetizer.packetize(frame).forEach(packet => track.writeRtp(packet));
+      }
+      await allReceived;
+
+      expect(received.map(frame => Buffer.from(frame.data).toString('hex')))
+        .toEqual(sent.map(frame => Buffer.from(frame.data).toString('hex')));
+      expect(received[0].width).toBe(640);
+      expect(received[1].timestamp - received[0].timestamp).toBe(33);
+    } finally {
+      await client.close();
+      await server.stop();
+    }
+  }, 20000);
+
+  test('processed frames are forwarded to subscribers', async () => {
+    const server = new WebRTCServer(0);
+    new StreamIngestionService(server);
+    const publisher = new RTCPeerConnection({ codecs: vp8Codecs });
+    const viewer = new RTCPeerConnection({ codecs: vp8Codecs });
+
+    try {
+      publisher.addTransceiver(new MediaStreamTrack({ kind: 'video' }), { direction: 'sendonly' });
+      const publisherConnection = await server.handleConnectionRequest('user_publisher', streamConfig);
+      const associated = waitFor<{ streamId: string }>(server, 'stream:associated');
+      await connectPeers(server, publisherConnection.connectionId, publisher);
+      const { streamId } = await associated;
+
+      viewer.addTransceiver('video', { direction: 'recvonly' });
+      const received = new Promise<VideoFrame>(resolve => {
+        const depacketizer = new RtpDepacketizer('vp8', { width: 640, height: 480 });
+        viewer.onTrack.subscribe(track => track.onReceiveRtp.subscribe((packet: RtpPacket) => {
+          const frame = depacketizer.push(packet);
+          if (frame) resolve(frame);
+        }));
+      });
+
+      const subscriberConnection = await server.handleSubscribeRequest(streamId, 'viewer_1');
+      const established = new Promise<void>(resolve => {
+        server.on('connection:established', (data) => {
+          if (data.connectionId === subscriberConnection.connectionId) resolve();
+        });
+      });
+      await connectPeers(server, subscriberConnection.connectionId, viewer);
+      await established;
+
+      expect(server.getSubscriberCount(streamId)).toBe(1);
+      const frame = createVp8Frame(4000, 9, 2000);
+      expect(server.forwardFrames(streamId, [frame, { ...frame, format: 'rgb24' }])).toBe(1);
+
+      const forwarded = await received;
+      expect(Buffer.from(forwarded.data).equals(Buffer.from(frame.data))).toBe(true);
+
+      await server.closeConnection(publisherConnection.connectionId);
+      expect(server.getSubscriberCount(streamId)).toBe(0);
+    } finally {
+      await viewer.close();
+      await publisher.close();
+      await server.stop();
+    }
+  }, 20000);
+
+  test('offers for unknown connections are rejected', async () => {
+    const server = new WebRTCServer(0);
+    await expect(server.handleOffer('conn_missing', { type: 'offer', sdp: '' })).rejects.toThrow('not found');
+    await expect(server.handleSubscribeRequest('stream_missing', 'viewer')).rejects.toThrow('has no WebRTC publisher');
+  });
+});
\ No newline at end of file
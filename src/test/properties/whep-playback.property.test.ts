@@ -0,0 +1,138 @@
+/**
+ * Property-based tests for WHEP playback
+ * Feature: ai-live-streaming, Property 17: WHEP viewers receive enhanced output and are counted as viewers
+ */
+
+import fc from 'fast-check';
+import { RTCPeerConnection, RTCRtpCodecParameters, MediaStreamTrack, RtpPacket } from 'werift';
+import { WebServer } from '../../server/WebServer';
+import { RtpDepacketizer } from '../../server/RtpMedia';
+import { EnhancedFrame, VideoFrame } from '../../types';
+
+const vp8Codecs = {
+  audio: [],
+  video: [new RTCRtpCodecParameters({ mimeType: 'video/VP8', clockRate: 90000 })]
+};
+
+function createEnhancedFrame(size: number, seed: number, timestamp: number): EnhancedFrame {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 7 + seed) & 0xff;
+  }
+  return {
+    data,
+    timestamp,
+    width: 640,
+    height: 480,
+    format: 'vp8',
+    enhancementApplied: ['denoising'],
+    processingTime: 5
+  };
+}
+
+async function postSdp(url: string, sdp: string): Promise<Response> {
+  return fetch(url, { method: 'POST', body: sdp, headers: { 'Content-Type': 'application/sdp' } });
+}
+
+async function offerFor(peer: RTCPeerConnection): Promise<string> {
+  await peer.setLocalDescription(await peer.createOffer());
+  return peer.localDescription!.sdp;
+}
+
+describe('WHEP Playback Properties', () => {
+  test('viewers play enhanced output and leave the viewer metrics on teardown', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000 });
+    const publisher = new RTCPeerConnection({ codecs: vp8Codecs });
+    const viewers: RTCPeerConnection[] = [];
+    await server.start();
+
+    try {
+      const base = `http://127.0.0.1:${server.getPort()}`;
+      const ingestion = server.getStreamingServer().getIngestionService();
+      const distribution = server.getDistributionService();
+
+      // Publish over WHIP so the stream has a WebRTC publisher
+      publisher.addTransceiver(new MediaStreamTrack({ kind: 'video' }), { direction: 'sendonly' });
+      const ready = new Promise<{ streamId: string }>(resolve => ingestion.once('stream:ready', resolve));
+      const published = await postSdp(`${base}/whip/${server.getStreamKeyStore().createKey('broadcaster').streamKey}`, await offerFor(publisher));
+      await publisher.setRemoteDescription({ type: 'answer', sdp: await published.text() });
+      const { streamId } = await ready;
+
+      await fc.assert(
+        fc.asyncProperty(fc.integer({ min: 100, max: 6000 }), fc.integer({ min: 0, max: 255 }), async (size, seed) => {
+          const viewer = new RTCPeerConnection({ codecs: vp8Codecs });
+          viewers.push(viewer);
+          viewer.addTransceiver('video', { direction: 'recvonly' });
+
+          const depacketizer = new RtpDepacketizer('vp8', { width: 640, height: 480 });
+          const received = new Promise<VideoFrame>(resolve => {
+            viewer.onTrack.subscribe(track => track.onReceiveRtp.subscribe((packet: RtpPacket) => {
+              const frame = depacketizer.push(packet);
+              if (frame) resolve(frame);
+            }));
+          });
+          const connected = new Promise<void>(resolve => viewer.connectionStateChange.subscribe(state => {
+            if (state === 'connected') resolve();
+          }));
+
+          const response = await postSdp(`${base}/whep/${streamId}`, await offerFor(viewer));
+          expect(response.status).toBe(201);
+          const location = response.headers.get('location')!;
+          expect(location.startsWith(`/whep/${streamId}/`)).toBe(true);
+          await viewer.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+          await connected;
+
+          expect(distribution.getViewerMetrics(streamId).activeViewers).toBe(1);
+
+          // Wait until the server side of the subscriber has connected too
+          const resourceId = location.split('/').pop()!;
+          const webrtcServer = server.getStreamingServer().getWebRTCServer();
+          while (webrtcServer.getConnection(resourceId)?.state !== 'connected') {
+            await new Promise(resolve => setTimeout(resolve, 10));
+          }
+
+          const frame = createEnhancedFrame(size, seed, 1000 + seed);
+          ingestion.emit('frames:enhanced', {
+            streamId,
+            originalFrames: [],
+            enhancedFrames: [frame],
+            processingTime: 5,
+            modelType: 'denoising'
+          });
+          const played = await received;
+          expect(Buffer.from(played.data).equals(Buffer.from(frame.data))).toBe(true);
+
+          const deleted = await fetch(`${base}${location}`, { method: 'DELETE' });
+          expect(deleted.status).toBe(200);
+          expect(distribution.getViewerMetrics(streamId).activeViewers).toBe(0);
+          await viewer.close();
+        }),
+        { numRuns: 3 }
+      );
+
+      expect(distribution.getViewerMetrics(streamId).totalViewers).toBe(3);
+      expect(server.getWhepEndpoint().getResourceCount()).toBe(0);
+    } finally {
+      await Promise.all(viewers.map(viewer => viewer.close()));
+      await publisher.close();
+      await server.stop();
+    }
+  }, 60000);
+
+  test('playback of a stream that is not live is not found', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000 });
+    const viewer = new RTCPeerConnection({ codecs: vp8Codecs });
+    await server.start();
+
+    try {
+      viewer.addTransceiver('video', { direction: 'recvonly' });
+      const response = await postSdp(`http://127.0.0.1:${server.getPort()}/whep/stream_missing`, await offerFor(viewer));
+
+      expect(response.status).toBe(404);
+      expect(server.getStreamingServer().getWebRTCServer().getConnectionCount()).toBe(0);
+    } finally {
+      await viewer.close();
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
@@ -0,0 +1,131 @@
+/**
+ * Property-based tests for WHIP publishing
+ * Feature: ai-live-streaming, Property 16: WHIP resources map one-to-one onto ingested streams
+ */
+
+import fc from 'fast-check';
+import { RTCPeerConnection, RTCRtpCodecParameters, MediaStreamTrack } from 'werift';
+import { WebServer } from '../../server/WebServer';
+import { parseTrickleFragment } from '../../server/WhipEndpoint';
+
+const publisherCodecs = {
+  audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 })],
+  video: [new RTCRtpCodecParameters({ mimeType: 'video/VP8', clockRate: 90000 })]
+};
+
+async function createOffer(peer: RTCPeerConnection): Promise<string> {
+  peer.addTransceiver(new MediaStreamTrack({ kind: 'audio' }), { direction: 'sendonly' });
+  peer.addTransceiver(new MediaStreamTrack({ kind: 'video' }), { direction: 'sendonly' });
+  await peer.setLocalDescription(await peer.createOffer());
+  return peer.localDescription!.sdp;
+}
+
+describe('WHIP Ingest Properties', () => {
+  test('trickle fragments yield every candidate with its media section', () => {
+    const candidateArb = fc.tuple(fc.integer({ min: 1, max: 9999 }), fc.integer({ min: 1024, max: 65535 }))
+      .map(([foundation, port]) => `candidate:${foundation} 1 udp 2113937151 192.0.2.1 ${port} typ host`);
+
+    fc.assert(
+      fc.property(
+        fc.array(fc.array(candidateArb, { maxLength: 4 }), { minLength: 1, maxLength: 3 }),
+        fc.hexaString({ minLength: 4, maxLength: 8 }),
+        (sections, ufrag) => {
+          const lines = [`a=ice-ufrag:${ufrag}`, 'a=ice-pwd:secretsecretsecretsecret'];
+          sections.forEach((candidates, index) => {
+            lines.push(`m=video 9 UDP/TLS/RTP/SAVPF 0`, `a=mid:${index}`);
+            candidates.forEach(candidate => lines.push(`a=${candidate}`));
+          });
+
+          const fragment = parseTrickleFragment(lines.join('\r\n'));
+          expect(fragment.ufrag).toBe(ufrag);
+          expect(fragment.candidates.map(c => c.candidate)).toEqual(sections.flat());
+          expect(fragment.candidates.map(c => c.sdpMid))
+            .toEqual(sections.flatMap((candidates, index) => candidates.map(() => String(index))));
+          expect(fragment.candidates.every(c => String(c.sdpMLineIndex) === c.sdpMid)).toBe(true);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('an encoder publishes, trickles and tears down over HTTP', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000 });
+    const peer = new RTCPeerConnection({ codecs: publisherCodecs });
+    await server.start();
+
+    try {
+      const base = `http://127.0.0.1:${server.getPort()}`;
+      const whip = server.getWhipEndpoint();
+      const ingestion = server.getStreamingServer().getIngestionService();
+      const offer = await createOffer(peer);
+      const { streamKey, keyId } = server.getStreamKeyStore().createKey('broadcaster');
+
+      const wrongType = await fetch(`${base}/whip/${streamKey}`, { method: 'POST', body: offer, headers: { 'Content-Type': 'text/plain' } });
+      expect(wrongType.status).toBe(415);
+
+      const ready = new Promise<{ streamId: string }>(resolve => ingestion.once('stream:ready', resolve));
+      const response = await fetch(`${base}/whip/${streamKey}`, {
+        method: 'POST',
+        body: offer,
+        headers: { 'Content-Type': 'application/sdp' }
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get('content-type')).toContain('application/sdp');
+      const location = response.headers.get('location')!;
+      expect(location.startsWith(`/whip/${streamKey}/conn_`)).toBe(true);
+
+      const answer = await response.text();
+      expect(answer).toContain('a=candidate:');
+      await peer.setRemoteDescription({ type: 'answer', sdp: answer });
+
+      // The stream ID accepted at POST time is the one ingestion serves once media connects
+      const resourceId = location.split('/').pop()!;
+      const accepted = whip.getResource(streamKey, resourceId)!;
+      const { streamId } = await ready;
+      expect(streamId).toBe(accepted.streamId);
+      expect(streamId.startsWith(`stream_${keyId}_`)).toBe(true);
+      expect(ingestion.getActiveStream(streamId)?.userId).toBe('broadcaster');
+      expect(ingestion.getActiveStream(streamId)?.config.audioEnabled).toBe(true);
+
+      const patch = (body: string, path = location) => fetch(`${base}${path}`, {
+        method: 'PATCH',
+        body,
+        headers: { 'Content-Type': 'application/trickle-ice-sdpfrag' }
+      });
+      const ufrag = /a=ice-ufrag:(\S+)/.exec(offer)![1];
+
+      expect((await patch(`a=ice-ufrag:${ufrag}\r\nm=audio 9 UDP/TLS/RTP/SAVPF 0\r\na=mid:0\r\na=end-of-candidates\r\n`)).status).toBe(204);
+      expect((await patch('a=ice-ufrag:restart\r\na=ice-pwd:newpasswordnewpassword\r\n')).status).toBe(501);
+      expect((await patch('a=end-of-candidates', '/whip/other_key/' + resourceId)).status).toBe(404);
+
+      const deleted = await fetch(`${base}${location}`, { method: 'DELETE' });
+      expect(deleted.status).toBe(200);
+      expect(whip.getResourceCount()).toBe(0);
+      expect(ingestion.getActiveStream(streamId)).toBeUndefined();
+      expect((await fetch(`${base}${location}`, { method: 'DELETE' })).status).toBe(404);
+    } finally {
+      await peer.close();
+      await server.stop();
+    }
+  }, 30000);
+
+  test('offers that cannot be negotiated leave no resource behind', async () => {
+    const server = new WebServer({ port: 0, telemetryIntervalMs: 60000 });
+    await server.start();
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${server.getPort()}/whip/key_bad`, {
+        method: 'POST',
+        body: 'not an sdp',
+        headers: { 'Content-Type': 'application/sdp' }
+      });
+
+      expect(response.status).toBe(400);
+      expect(server.getWhipEndpoint().getResourceCount()).toBe(0);
+      expect(server.getStreamingServer().getWebRTCServer().getConnectionCount()).toBe(0);
+    } finally {
+      await server.stop();
+    }
+  }, 30000);
+});
\ No newline at end of file
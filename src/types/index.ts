@@ -25,7 +25,7 @@ export interface QualityParams {
 
 export type StreamStatus = 'connecting' | 'active' | 'paused' | 'ended' | 'error';
 export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra';
-export type VideoFormat = 'h264' | 'h265' | 'vp8' | 'vp9';
+export type VideoFormat = 'h264' | 'h265' | 'vp8' | 'vp9' | 'rgb24' | 'yuv420p';
 
 // Stream session management
 export interface StreamSession {
@@ -55,11 +55,19 @@ export interface VideoFrame {
   width: number;
   height: number;
   format: VideoFormat;
+  keyframe?: boolean; // set for encoded frames when known
 }
 
 export interface EnhancedFrame extends VideoFrame {
   processingTime: number;
   enhancementApplied: string[];
+  stageTimings?: StageTiming[];
+}
+
+export interface StageTiming {
+  modelType: AIModelType;
+  processingTime: number;
+  skipped: boolean;
 }
 
 export interface FrameMetadata {
@@ -70,9 +78,11 @@ export interface FrameMetadata {
 }
 
 // AI processing configuration
+export type AIModelType = 'upscaling' | 'denoising' | 'colorCorrection' | 'stabilization';
+
 export interface AIModelConfig {
   modelPath: string;
-  modelType: 'upscaling' | 'denoising' | 'colorCorrection' | 'stabilization';
+  modelType: AIModelType;
   intensity: number; // 0-100
   realTimeMode: boolean;
   targetLatency: number; // milliseconds
@@ -80,7 +90,7 @@ export interface AIModelConfig {
 }
 
 export interface AIEnhancementConfig {
-  modelType: 'upscaling' | 'denoising' | 'colorCorrection' | 'stabilization';
+  modelType: AIModelType;
   intensity: number; // 0-100
   realTimeMode: boolean;
   targetLatency: number; // milliseconds
@@ -98,10 +108,13 @@ export interface StreamMetrics {
 
 export interface ProcessingMetrics {
   averageLatency: number;
-  frameProcessingRate: number;
-  errorRate: number;
-  cpuUsage: number;
-  memoryUsage: number;
+  p50Latency: number;
+  p95Latency: number;
+  p99Latency: number;
+  frameProcessingRate: number; // frames per second
+  errorRate: number; // percent of frames in window
+  cpuUsage: number; // percent of one core
+  memoryUsage: number; // MB of heap used
   queueDepth: number;
 }
 
@@ -112,6 +125,23 @@ export interface NetworkMetrics {
   jitter: number;
 }
 
+export interface ConnectionStats {
+  roundTripTime: number; // ms
+  packetLoss: number; // percent of inbound packets
+  jitter: number; // ms
+}
+
+export interface StreamTelemetry {
+  streamId: StreamId;
+  timestamp: number;
+  fps: number; // ingest frames per second
+  bitrate: number; // ingest kbps
+  latency: number; // average enhancement latency, ms
+  p95Latency: number; // ms
+  viewers: number;
+  roundTripTime: number | null; // ms, null when the connection has no stats yet
+}
+
 export interface EngagementMetrics {
   watchTime: number;
   bufferingEvents: number;
@@ -127,6 +157,52 @@ export interface WebRTCConnection {
   state: 'connecting' | 'connected' | 'disconnected' | 'failed';
 }
 
+// Signaling protocol carried on the Socket.IO 'signaling' event
+export type SignalingMessageType = 'join' | 'offer' | 'answer' | 'ice-candidate' | 'connection-state' | 'bye' | 'error';
+export type SignalingRole = 'publisher' | 'subscriber';
+
+export interface SignalingMessage<T = any> {
+  type: SignalingMessageType;
+  data: T;
+  sessionId: string;
+  timestamp: number;
+}
+
+export interface JoinRequest {
+  role: SignalingRole;
+  userId?: UserId;
+  streamConfig?: StreamConfig; // required for publishers
+  streamId?: StreamId; // required for subscribers
+  streamKey?: string; // authorizes publishers when stream keys are enforced
+}
+
+export interface JoinResponse {
+  connectionId: string;
+  role: SignalingRole;
+}
+
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface IceCandidateMessage {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+}
+
+export interface ConnectionStateMessage {
+  connectionId: string;
+  state: WebRTCConnection['state'];
+  streamId?: StreamId;
+}
+
+export interface SignalingErrorMessage {
+  message: string;
+  requestType?: SignalingMessageType;
+}
+
 export interface VideoStream {
   streamId: StreamId;
   userId: UserId;
@@ -135,6 +211,22 @@ export interface VideoStream {
   metadata: FrameMetadata;
 }
 
+// Publish authorization
+export type PublishProtocol = 'webrtc' | 'whip' | 'rtmp' | 'srt' | 'socket';
+
+export interface PublishSource {
+  protocol: PublishProtocol;
+  address: string | null;
+}
+
+export interface PublishGrant {
+  userId: UserId;
+  keyId: string | null; // null when publishing is open (no stream keys attached)
+}
+
+// Throws when a stream key may not publish
+export type PublishAuthorizer = (streamKey: string, address: string | null) => PublishGrant;
+
 // Validation and error types
 export interface ValidationResult {
   isValid: boolean;
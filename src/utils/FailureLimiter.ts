@@ -0,0 +1,65 @@
+export interface FailureLimiterOptions {
+  maxFailures: number; // per address within the window
+  windowMs: number;
+  lockoutMs: number;
+}
+
+interface FailedAttempts {
+  timestamps: number[];
+  lockedUntil: number;
+}
+
+/**
+ * Counts failed attempts per source address and locks out an address that keeps failing
+ * Addresses whose failures have aged out are forgotten as new failures come in
+ */
+export class FailureLimiter {
+  private options: FailureLimiterOptions;
+  private failures: Map<string, FailedAttempts> = new Map();
+
+  constructor(options: FailureLimiterOptions) {
+    this.options = { ...options };
+
+    if (!(this.options.maxFailures >= 1) || !(this.options.windowMs > 0) || !(this.options.lockoutMs > 0)) {
+      throw new Error('Failure limits must be positive');
+    }
+  }
+
+  /**
+   * Count a failure, returning true when it locks the address out
+   */
+  recordFailure(address: string, now: number = Date.now()): boolean {
+    for (const [source, entry] of this.failures) {
+      if (entry.lockedUntil <= now && entry.timestamps.every(time => time <= now - this.options.windowMs)) {
+        this.failures.delete(source);
+      }
+    }
+
+    const entry = this.failures.get(address) ?? { timestamps: [], lockedUntil: 0 };
+    entry.timestamps = entry.timestamps.filter(time => time > now - this.options.windowMs);
+    entry.timestamps.push(now);
+    this.failures.set(address, entry);
+
+    if (entry.timestamps.length < this.options.maxFailures) {
+      return false;
+    }
+    entry.lockedUntil = now + this.options.lockoutMs;
+    entry.timestamps = [];
+    return true;
+  }
+
+  /**
+   * Forget an address's failures after it succeeds
+   */
+  clear(address: string): void {
+    this.failures.delete(address);
+  }
+
+  /**
+   * Milliseconds until a locked-out address may try again, 0 when it is not locked out
+   */
+  getRetryAfterMs(address: string, now: number = Date.now()): number {
+    const entry = this.failures.get(address);
+    return entry ? Math.max(0, entry.lockedUntil - now) : 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { ProcessingMetrics } from '../types';
+
+export interface MetricsCollectorOptions {
+  windowMs: number;
+  maxSamples: number;
+}
+
+interface FrameSample {
+  timestamp: number;
+  latency: number;
+  success: boolean;
+}
+
+interface MetricsWindow {
+  samples: FrameSample[];
+  startedAt: number;
+  queueDepth: number;
+}
+
+interface ProcessUsage {
+  cpuUsage: number;
+  memoryUsage: number;
+}
+
+const DEFAULT_OPTIONS: MetricsCollectorOptions = {
+  windowMs: 10000,
+  maxSamples: 2000
+};
+
+/**
+ * Rolling-window frame metrics collector shared by the AI and server pipelines
+ * Keeps one window per key (usually a stream ID) and reports latency percentiles,
+ * true frame rate, error rate and real process CPU/heap usage
+ */
+export class MetricsCollector {
+  private options: MetricsCollectorOptions;
+  private windows: Map<string, MetricsWindow> = new Map();
+  private lastCpuUsage: NodeJS.CpuUsage = process.cpuUsage();
+  private lastCpuSampleAt: number = Date.now();
+  private processUsage: ProcessUsage = { cpuUsage: 0, memoryUsage: 0 };
+
+  constructor(options: Partial<MetricsCollectorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record the outcome of processing a single frame
+   */
+  recordFrame(key: string, latency: number, success: boolean, timestamp: number = Date.now()): void {
+    const window = this.getWindow(key, timestamp);
+    window.samples.push({ timestamp, latency, success });
+
+    if (window.samples.length > this.options.maxSamples) {
+      window.samples.splice(0, window.samples.length - this.options.maxSamples);
+    }
+  }
+
+  /**
+   * Record the current queue depth for a key
+   */
+  recordQueueDepth(key: string, queueDepth: number): void {
+    this.getWindow(key).queueDepth = queueDepth;
+  }
+
+  /**
+   * Get metrics for a single key
+   */
+  getMetrics(key: string, now: number = Date.now()): ProcessingMetrics {
+    const window = this.windows.get(key);
+    return this.summarize(window ? [window] : [], now);
+  }
+
+  /**
+   * Get metrics aggregated across every key starting with a prefix
+   */
+  getAggregateMetrics(prefix: string = '', now: number = Date.now()): ProcessingMetrics {
+    const windows = Array.from(this.windows.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([_, window]) => window);
+
+    return this.summarize(windows, now);
+  }
+
+  /**
+   * Check if any samples have been recorded for a key
+   */
+  hasKey(key: string): boolean {
+    return this.windows.has(key);
+  }
+
+  /**
+   * Get all keys with a metrics window
+   */
+  getKeys(): string[] {
+    return Array.from(this.windows.keys());
+  }
+
+  /**
+   * Drop the metrics window for a key
+   */
+  reset(key: string): void {
+    this.windows.delete(key);
+  }
+
+  private summarize(windows: MetricsWindow[], now: number): ProcessingMetrics {
+    const samples: FrameSample[] = [];
+    let queueDepth = 0;
+    let startedAt = now;
+
+    for (const window of windows) {
+      this.prune(window, now);
+      samples.push(...window.samples);
+      queueDepth += window.queueDepth;
+      startedAt = Math.min(startedAt, window.startedAt);
+    }
+
+    const latencies = samples.map(sample => sample.latency).sort((a, b) => a - b);
+    const failures = samples.filter(sample => !sample.success).length;
+
+    // Until a full window has elapsed, rate is measured over the time actually observed
+    const spanMs = Math.min(this.options.windowMs, Math.max(now - startedAt, 1));
+    const usage = this.sampleProcessUsage(now);
+
+    return {
+      averageLatency: latencies.length > 0
+        ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+        : 0,
+      p50Latency: percentile(latencies, 50),
+      p95Latency: percentile(latencies, 95),
+      p99Latency: percentile(latencies, 99),
+      frameProcessingRate: samples.length / (spanMs / 1000),
+      errorRate: samples.length > 0 ? (failures / samples.length) * 100 : 0,
+      cpuUsage: usage.cpuUsage,
+      memoryUsage: usage.memoryUsage,
+      queueDepth
+    };
+  }
+
+  private getWindow(key: string, now: number = Date.now()): MetricsWindow {
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { samples: [], startedAt: now, queueDepth: 0 };
+      this.windows.set(key, window);
+    }
+    return window;
+  }
+
+  private prune(window: MetricsWindow, now: number): void {
+    const cutoff = now - this.options.windowMs;
+    let expired = 0;
+
+    while (expired < window.samples.length && window.samples[expired].timestamp < cutoff) {
+      expired++;
+    }
+
+    if (expired > 0) {
+      window.samples.splice(0, expired);
+    }
+  }
+
+  private sampleProcessUsage(now: number): ProcessUsage {
+    const elapsedMs = now - this.lastCpuSampleAt;
+
+    // Re-sample at most once per second so back-to-back reads see a meaningful delta
+    if (elapsedMs >= 1000) {
+      const cpu = process.cpuUsage();
+      const cpuMs = (cpu.user - this.lastCpuUsage.user + cpu.system - this.lastCpuUsage.system) / 1000;
+
+      this.processUsage.cpuUsage = Math.min(100, (cpuMs / elapsedMs) * 100);
+      this.lastCpuUsage = cpu;
+      this.lastCpuSampleAt = now;
+    }
+
+    this.processUsage.memoryUsage = process.memoryUsage().heapUsed / (1024 * 1024);
+    return { ...this.processUsage };
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+
+  // Nearest-rank percentile
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { QualityLevel, Resolution } from '../types';
+
+export interface QualityPreset {
+  name: string;
+  resolution: Resolution;
+  frameRate: number;
+  bitrate: number;
+  description: string;
+}
+
+/**
+ * Encoding presets shared by client stream configuration and the server rendition ladder
+ */
+export const QUALITY_PRESETS: readonly QualityPreset[] = [
+  {
+    name: 'Ultra',
+    resolution: { width: 3840, height: 2160 },
+    frameRate: 60,
+    bitrate: 8000000,
+    description: '4K Ultra HD at 60fps'
+  },
+  {
+    name: 'High',
+    resolution: { width: 1920, height: 1080 },
+    frameRate: 60,
+    bitrate: 4000000,
+    description: '1080p HD at 60fps'
+  },
+  {
+    name: 'Medium',
+    resolution: { width: 1280, height: 720 },
+    frameRate: 30,
+    bitrate: 2000000,
+    description: '720p HD at 30fps'
+  },
+  {
+    name: 'Low',
+    resolution: { width: 854, height: 480 },
+    frameRate: 30,
+    bitrate: 1000000,
+    description: '480p at 30fps'
+  },
+  {
+    name: 'Mobile',
+    resolution: { width: 640, height: 360 },
+    frameRate: 24,
+    bitrate: 500000,
+    description: '360p at 24fps for mobile'
+  }
+];
+
+// Quality levels from lowest to highest
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra'];
+
+/**
+ * Get the preset a quality level is encoded with
+ */
+export function getQualityLevelPreset(level: QualityLevel): QualityPreset {
+  const preset = QUALITY_PRESETS.find(candidate => candidate.name.toLowerCase() === level);
+  if (!preset) {
+    throw new Error(`No quality preset for level ${level}`);
+  }
+  return { ...preset, resolution: { ...preset.resolution } };
+}
\ No newline at end of file